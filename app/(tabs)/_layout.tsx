@@ -5,11 +5,15 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useEffect } from 'react';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import CartIconWithBadge from '@/components/CartIconWithBadge';
+import NotificationBellWithBadge from '@/components/NotificationBellWithBadge';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
 
 export default function TabLayout() {
   const { session, loading, profile } = useAuth();
   const insets = useSafeAreaInsets();
 
+  usePushNotifications(profile);
+
   useEffect(() => {
     if (!loading && (!session || !profile)) {
       router.replace('/auth/login');
@@ -108,6 +112,14 @@ export default function TabLayout() {
         }}
       />
 
+      <Tabs.Screen
+        name="notifications"
+        options={{
+          title: 'Alerts',
+          tabBarIcon: ({ size, color }) => <NotificationBellWithBadge size={size} color={color} />,
+        }}
+      />
+
       <Tabs.Screen
         name="profile"
         options={{
@@ -7,7 +7,7 @@ import {
   TouchableOpacity,
   ActivityIndicator,
 } from 'react-native';
-import { Users, ShoppingBag, DollarSign, TrendingUp, Package, FileText, Bike, Navigation, Map, Building2 } from 'lucide-react-native';
+import { Users, ShoppingBag, DollarSign, TrendingUp, Package, FileText, Bike, Navigation, Map, Building2, Truck, Tag, Wallet, Banknote, Landmark, Receipt } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import VendorManagement from '@/components/admin/VendorManagement';
 import OrderManagement from '@/components/admin/OrderManagement';
@@ -18,6 +18,12 @@ import RiderManagement from '@/components/admin/RiderManagement';
 import RiderAssignmentManager from '@/components/admin/RiderAssignmentManager';
 import RouteManager from '@/components/admin/RouteManager';
 import BankAccountManagement from '@/components/admin/BankAccountManagement';
+import PendingTransfersManagement from '@/components/admin/PendingTransfersManagement';
+import DeliveryPricingManagement from '@/components/admin/DeliveryPricingManagement';
+import PromotionManagement from '@/components/admin/PromotionManagement';
+import EarningsRulesManagement from '@/components/admin/EarningsRulesManagement';
+import RiderPayoutManagement from '@/components/admin/RiderPayoutManagement';
+import VendorSettlementManagement from '@/components/admin/VendorSettlementManagement';
 import { useLocalSearchParams } from 'expo-router';
 
 interface Stats {
@@ -31,6 +37,8 @@ interface Stats {
 
 export default function AdminScreen() {
   const params = useLocalSearchParams();
+  const orderId = typeof params.orderId === 'string' ? params.orderId : undefined;
+  const batchId = typeof params.batchId === 'string' ? params.batchId : undefined;
   const [stats, setStats] = useState<Stats>({
     totalUsers: 0,
     totalVendors: 0,
@@ -49,6 +57,12 @@ export default function AdminScreen() {
   const [showRiderAssignment, setShowRiderAssignment] = useState(false);
   const [showRouteManager, setShowRouteManager] = useState(false);
   const [showBankAccountManagement, setShowBankAccountManagement] = useState(false);
+  const [showPendingTransfers, setShowPendingTransfers] = useState(false);
+  const [showDeliveryPricing, setShowDeliveryPricing] = useState(false);
+  const [showPromotions, setShowPromotions] = useState(false);
+  const [showEarningsRules, setShowEarningsRules] = useState(false);
+  const [showRiderPayouts, setShowRiderPayouts] = useState(false);
+  const [showVendorSettlements, setShowVendorSettlements] = useState(false);
 
   useEffect(() => {
     fetchStats();
@@ -79,8 +93,14 @@ export default function AdminScreen() {
       setShowVendorManagement(false);
       setShowRiderManagement(false);
       setShowOrderManagement(false);
+    } else if (params.screen === 'orders') {
+      setShowOrderManagement(true);
+      setShowRouteManager(false);
+    } else if (params.screen === 'routes') {
+      setShowRouteManager(true);
+      setShowOrderManagement(false);
     }
-  }, [params.screen]);
+  }, [params.screen, orderId, batchId]);
 
   const fetchStats = async () => {
     try {
@@ -163,7 +183,13 @@ export default function AdminScreen() {
   }
 
   if (showOrderManagement) {
-    return <OrderManagement onBack={() => setShowOrderManagement(false)} />;
+    return (
+      <OrderManagement
+        key={orderId}
+        initialOrderId={orderId}
+        onBack={() => setShowOrderManagement(false)}
+      />
+    );
   }
 
   if (showContentManagement) {
@@ -175,7 +201,37 @@ export default function AdminScreen() {
   }
 
   if (showRouteManager) {
-    return <RouteManager onBack={() => setShowRouteManager(false)} />;
+    return (
+      <RouteManager
+        key={batchId}
+        initialBatchId={batchId}
+        onBack={() => setShowRouteManager(false)}
+      />
+    );
+  }
+
+  if (showDeliveryPricing) {
+    return <DeliveryPricingManagement onBack={() => setShowDeliveryPricing(false)} />;
+  }
+
+  if (showPromotions) {
+    return <PromotionManagement onBack={() => setShowPromotions(false)} />;
+  }
+
+  if (showEarningsRules) {
+    return <EarningsRulesManagement onBack={() => setShowEarningsRules(false)} />;
+  }
+
+  if (showRiderPayouts) {
+    return <RiderPayoutManagement onBack={() => setShowRiderPayouts(false)} />;
+  }
+
+  if (showVendorSettlements) {
+    return <VendorSettlementManagement onBack={() => setShowVendorSettlements(false)} />;
+  }
+
+  if (showPendingTransfers) {
+    return <PendingTransfersManagement onBack={() => setShowPendingTransfers(false)} />;
   }
 
   if (showBankAccountManagement) {
@@ -336,6 +392,54 @@ export default function AdminScreen() {
             <Building2 size={20} color="#6b7280" />
             <Text style={styles.menuText}>Bank Accounts</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => setShowPendingTransfers(true)}
+          >
+            <Receipt size={20} color="#6b7280" />
+            <Text style={styles.menuText}>Pending Transfers</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => setShowDeliveryPricing(true)}
+          >
+            <Truck size={20} color="#6b7280" />
+            <Text style={styles.menuText}>Delivery Pricing</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => setShowPromotions(true)}
+          >
+            <Tag size={20} color="#6b7280" />
+            <Text style={styles.menuText}>Promotions</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => setShowEarningsRules(true)}
+          >
+            <Wallet size={20} color="#6b7280" />
+            <Text style={styles.menuText}>Rider Earnings</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => setShowRiderPayouts(true)}
+          >
+            <Banknote size={20} color="#6b7280" />
+            <Text style={styles.menuText}>Rider Payouts</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => setShowVendorSettlements(true)}
+          >
+            <Landmark size={20} color="#6b7280" />
+            <Text style={styles.menuText}>Vendor Settlements</Text>
+          </TouchableOpacity>
         </View>
       </View>
     </ScrollView>
@@ -3,7 +3,7 @@ import {
   View,
   Text,
   StyleSheet,
-  FlatList,
+  SectionList,
   TouchableOpacity,
   Image,
   ActivityIndicator,
@@ -14,11 +14,15 @@ import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { cartEvents } from '@/lib/cartEvents';
 import { router, useFocusEffect, useNavigation } from 'expo-router';
+import { optionsTotal, formatSelectedOptions } from '@/lib/productOptions';
+import { isSoldOut, stockLabel } from '@/lib/stock';
+import { SelectedOption } from '@/types/database';
 
 interface CartItemWithProduct {
   id: string;
   quantity: number;
   product_id: string;
+  selected_options: SelectedOption[];
   product: {
     id: string;
     name: string;
@@ -26,9 +30,22 @@ interface CartItemWithProduct {
     unit: string;
     image_url: string;
     vendor_id: string;
+    stock_quantity: number;
+    low_stock_threshold: number;
+    sold_out_at: string | null;
+    vendors: {
+      business_name: string;
+    } | null;
   };
 }
 
+interface VendorSection {
+  vendorId: string;
+  vendorName: string;
+  subtotal: number;
+  data: CartItemWithProduct[];
+}
+
 export default function CartScreen() {
   const { profile } = useAuth();
   const insets = useSafeAreaInsets();
@@ -86,13 +103,20 @@ export default function CartScreen() {
           id,
           quantity,
           product_id,
+          selected_options,
           products (
             id,
             name,
             price,
             unit,
             image_url,
-            vendor_id
+            vendor_id,
+            stock_quantity,
+            low_stock_threshold,
+            sold_out_at,
+            vendors (
+              business_name
+            )
           )
         `
         )
@@ -104,6 +128,7 @@ export default function CartScreen() {
         id: item.id,
         quantity: item.quantity,
         product_id: item.product_id,
+        selected_options: item.selected_options || [],
         product: item.products,
       }));
 
@@ -154,8 +179,32 @@ export default function CartScreen() {
     }
   };
 
+  // Uses the current menu price; checkout re-prices everything server-side anyway
+  const unitPrice = (item: CartItemWithProduct) =>
+    item.product.price + optionsTotal(item.selected_options);
+
   const calculateTotal = () => {
-    return cartItems.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+    return cartItems.reduce((sum, item) => sum + unitPrice(item) * item.quantity, 0);
+  };
+
+  // Each restaurant in the cart becomes a separate order at checkout
+  const groupByVendor = (): VendorSection[] => {
+    const sections: VendorSection[] = [];
+    cartItems.forEach((item) => {
+      let section = sections.find((s) => s.vendorId === item.product.vendor_id);
+      if (!section) {
+        section = {
+          vendorId: item.product.vendor_id,
+          vendorName: item.product.vendors?.business_name || 'Restaurant',
+          subtotal: 0,
+          data: [],
+        };
+        sections.push(section);
+      }
+      section.data.push(item);
+      section.subtotal += unitPrice(item) * item.quantity;
+    });
+    return sections;
   };
 
   const handleCheckout = () => {
@@ -184,6 +233,8 @@ export default function CartScreen() {
     );
   }
 
+  const vendorSections = groupByVendor();
+
   return (
     <View style={styles.container}>
       <View style={[styles.header, { paddingTop: insets.top + 20 }]}>
@@ -198,10 +249,17 @@ export default function CartScreen() {
         </View>
       </View>
 
-      <FlatList
-        data={cartItems}
+      <SectionList
+        sections={vendorSections}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.list}
+        stickySectionHeadersEnabled={false}
+        renderSectionHeader={({ section }) => (
+          <View style={styles.vendorHeader}>
+            <Text style={styles.vendorName}>{section.vendorName}</Text>
+            <Text style={styles.vendorSubtotal}>₦{section.subtotal.toFixed(2)}</Text>
+          </View>
+        )}
         renderItem={({ item, index }) => (
             <View style={styles.cartItem}>
               <Image
@@ -212,8 +270,18 @@ export default function CartScreen() {
               />
               <View style={styles.itemInfo}>
                 <Text style={styles.itemName}>{item.product.name}</Text>
+                {item.selected_options.length > 0 && (
+                  <Text style={styles.itemOptions} numberOfLines={2}>
+                    {formatSelectedOptions(item.selected_options)}
+                  </Text>
+                )}
+                {stockLabel(item.product) && (
+                  <Text style={[styles.itemStock, isSoldOut(item.product) && styles.itemStockSoldOut]}>
+                    {stockLabel(item.product)}
+                  </Text>
+                )}
                 <Text style={styles.itemPrice}>
-                  ₦{item.product.price.toFixed(2)} / {item.product.unit}
+                  ₦{unitPrice(item).toFixed(2)} / {item.product.unit}
                 </Text>
                 <View style={styles.quantityContainer}>
                   <TouchableOpacity
@@ -226,8 +294,12 @@ export default function CartScreen() {
                   <TouchableOpacity
                     style={styles.quantityButton}
                     onPress={() => updateQuantity(item.id, item.quantity + 1)}
+                    disabled={item.quantity >= item.product.stock_quantity}
                   >
-                    <Plus size={16} color="#6b7280" />
+                    <Plus
+                      size={16}
+                      color={item.quantity >= item.product.stock_quantity ? '#cbd5e1' : '#6b7280'}
+                    />
                   </TouchableOpacity>
                 </View>
               </View>
@@ -246,6 +318,11 @@ export default function CartScreen() {
           <Text style={styles.totalLabel}>Total</Text>
           <Text style={styles.totalAmount}>₦{calculateTotal().toFixed(2)}</Text>
         </View>
+        {vendorSections.length > 1 && (
+          <Text style={styles.splitNote}>
+            Items from {vendorSections.length} restaurants will be placed as separate orders, each with its own delivery fee.
+          </Text>
+        )}
         <TouchableOpacity style={styles.checkoutButton} onPress={handleCheckout}>
           <Text style={styles.checkoutButtonText}>Proceed to Checkout</Text>
         </TouchableOpacity>
@@ -305,6 +382,25 @@ const styles = StyleSheet.create({
   list: {
     padding: 16,
   },
+  vendorHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+    marginTop: 4,
+    paddingHorizontal: 4,
+  },
+  vendorName: {
+    fontSize: 17,
+    fontWeight: '800',
+    color: '#1e293b',
+    flex: 1,
+  },
+  vendorSubtotal: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ff8c00',
+  },
   cartItem: {
     flexDirection: 'row',
     backgroundColor: '#ffffff',
@@ -334,6 +430,20 @@ const styles = StyleSheet.create({
     color: '#1e293b',
     letterSpacing: 0.2,
   },
+  itemOptions: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  itemStock: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#c2410c',
+    marginTop: 2,
+  },
+  itemStockSoldOut: {
+    color: '#ef4444',
+  },
   itemPrice: {
     fontSize: 15,
     color: '#ff8c00',
@@ -395,6 +505,12 @@ const styles = StyleSheet.create({
     color: '#ff8c00',
     letterSpacing: 0.5,
   },
+  splitNote: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 14,
+    paddingHorizontal: 4,
+  },
   checkoutButton: {
     backgroundColor: '#ff8c00',
     borderRadius: 16,
@@ -0,0 +1,245 @@
+import { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { CheckCheck } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { Notification, UserRole } from '@/types/database';
+import NotificationsList from '@/components/NotificationsList';
+import { getNotificationRoute, markAllNotificationsRead } from '@/lib/notifications';
+import { notificationEvents } from '@/lib/notificationEvents';
+
+const emptyMessages: Record<UserRole, string> = {
+  customer: "You'll see updates about your orders here",
+  vendor: "You'll see new orders and store alerts here",
+  rider: "You'll see updates about your deliveries here",
+  admin: "You'll see escalations and delivery issues here",
+};
+
+export default function NotificationsScreen() {
+  const { profile } = useAuth();
+  const insets = useSafeAreaInsets();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [markingAll, setMarkingAll] = useState(false);
+
+  const unreadCount = notifications.filter((n) => !n.read).length;
+
+  const fetchNotifications = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', profile.id)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      setNotifications(data || []);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    if (profile) {
+      fetchNotifications();
+
+      // Subscribe to real-time notification updates
+      const subscription = supabase
+        .channel('notification_centre')
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'notifications',
+            filter: `user_id=eq.${profile.id}`,
+          },
+          () => {
+            fetchNotifications();
+          }
+        )
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(subscription);
+      };
+    }
+  }, [profile, fetchNotifications]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    fetchNotifications();
+  };
+
+  const handleMarkAsRead = async (notificationId: string) => {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read: true })
+        .eq('id', notificationId);
+
+      if (error) throw error;
+
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === notificationId ? { ...n, read: true } : n))
+      );
+      notificationEvents.emit();
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    if (!profile || unreadCount === 0) return;
+
+    try {
+      setMarkingAll(true);
+      await markAllNotificationsRead(profile.id);
+      setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+      notificationEvents.emit();
+    } catch (error) {
+      console.error('Error marking all notifications as read:', error);
+    } finally {
+      setMarkingAll(false);
+    }
+  };
+
+  const handleDismiss = async (notificationId: string) => {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .delete()
+        .eq('id', notificationId);
+
+      if (error) throw error;
+
+      setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
+      notificationEvents.emit();
+    } catch (error) {
+      console.error('Error dismissing notification:', error);
+    }
+  };
+
+  const handleNotificationPress = (notification: Notification) => {
+    if (!profile) return;
+
+    const route = getNotificationRoute(profile.role, notification);
+    if (route) {
+      router.push(route);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#ff8c00" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 20 }]}>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>Notifications</Text>
+          <Text style={styles.subtitle}>
+            {unreadCount > 0 ? `${unreadCount} unread` : 'All caught up'}
+          </Text>
+        </View>
+        {unreadCount > 0 && (
+          <TouchableOpacity
+            style={styles.markAllButton}
+            onPress={handleMarkAllAsRead}
+            disabled={markingAll}
+          >
+            {markingAll ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <>
+                <CheckCheck size={16} color="#ffffff" />
+                <Text style={styles.markAllText}>Mark all read</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <NotificationsList
+        notifications={notifications}
+        refreshing={refreshing}
+        emptyMessage={profile ? emptyMessages[profile.role] : undefined}
+        onRefresh={handleRefresh}
+        onNotificationPress={handleNotificationPress}
+        onMarkAsRead={handleMarkAsRead}
+        onDismiss={handleDismiss}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#ff8c00',
+    paddingHorizontal: 20,
+    paddingBottom: 24,
+    borderBottomLeftRadius: 32,
+    borderBottomRightRadius: 32,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+    shadowColor: '#ff8c00',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#e0f2fe',
+    marginTop: 4,
+    fontWeight: '500',
+  },
+  markAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    minWidth: 48,
+    justifyContent: 'center',
+  },
+  markAllText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+});
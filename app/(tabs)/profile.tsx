@@ -443,6 +443,30 @@ export default function ProfileScreen() {
           </View>
         )}
 
+        {profile?.role === 'customer' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Delivery</Text>
+
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/addresses')}
+            >
+              <Text style={styles.menuText}>Saved Addresses</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Preferences</Text>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => router.push('/notification-settings')}
+          >
+            <Text style={styles.menuText}>Notifications</Text>
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Support</Text>
 
@@ -22,14 +22,20 @@ import {
   Clock,
   MapPin,
   Layers,
+  Banknote,
+  ChevronDown,
+  ChevronUp,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { router } from 'expo-router';
 import StatusToggle from '@/components/rider/StatusToggle';
 import OrderAssignmentCard from '@/components/rider/OrderAssignmentCard';
-import NotificationsList, { RiderNotification } from '@/components/rider/NotificationsList';
 import BatchAssignmentCard from '@/components/rider/BatchAssignmentCard';
+import PayoutStatement from '@/components/rider/PayoutStatement';
+import { RiderPayout } from '@/types/database';
+import { notificationEvents } from '@/lib/notificationEvents';
+import { useRiderLiveLocation } from '@/hooks/useRiderLiveLocation';
 
 interface Rider {
   id: string;
@@ -51,9 +57,7 @@ export default function RiderDashboardScreen() {
   const [pendingAssignments, setPendingAssignments] = useState<any[]>([]);
   const [batchAssignments, setBatchAssignments] = useState<any[]>([]);
   const [activeOrders, setActiveOrders] = useState<any[]>([]);
-  const [notifications, setNotifications] = useState<RiderNotification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
-  const [showNotifications, setShowNotifications] = useState(false);
   const [todayEarnings, setTodayEarnings] = useState(0);
   const [weeklyEarnings, setWeeklyEarnings] = useState(0);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -62,6 +66,14 @@ export default function RiderDashboardScreen() {
   const [historyFilter, setHistoryFilter] = useState<'today' | 'week' | 'month' | 'all'>('today');
   const [showHistory, setShowHistory] = useState(false);
   const [showBatchHistory, setShowBatchHistory] = useState(false);
+  const [payouts, setPayouts] = useState<RiderPayout[]>([]);
+  const [awaitingPayout, setAwaitingPayout] = useState(0);
+  const [showPayouts, setShowPayouts] = useState(false);
+  const [expandedPayoutId, setExpandedPayoutId] = useState<string | null>(null);
+
+  // Dispatch offers go to riders near the restaurant, so share the position
+  // while waiting for one
+  useRiderLiveLocation(riderProfile?.id ?? null, riderProfile?.current_status === 'available');
 
   useEffect(() => {
     if (profile) {
@@ -151,12 +163,16 @@ export default function RiderDashboardScreen() {
         console.log('Batch assignments subscription status:', status);
       });
 
+    const unsubscribeNotificationEvents = notificationEvents.subscribe(() => {
+      fetchNotifications();
+    });
+
     const notificationsChannel = supabase
       .channel('rider_notifications')
       .on(
         'postgres_changes',
         {
-          event: 'INSERT',
+          event: '*',
           schema: 'public',
           table: 'notifications',
           filter: `user_id=eq.${profile?.id}`,
@@ -172,6 +188,7 @@ export default function RiderDashboardScreen() {
       supabase.removeChannel(ordersChannel);
       supabase.removeChannel(batchAssignmentsChannel);
       supabase.removeChannel(notificationsChannel);
+      unsubscribeNotificationEvents();
     };
   };
 
@@ -207,6 +224,7 @@ export default function RiderDashboardScreen() {
         fetchActiveOrders(rider),
         fetchNotifications(),
         fetchEarnings(rider.id),
+        fetchPayouts(rider.id),
         fetchDeliveryHistory(rider),
       ]);
     } catch (error: any) {
@@ -358,17 +376,15 @@ export default function RiderDashboardScreen() {
     if (!profile) return;
 
     try {
-      const { data, error } = await supabase
+      const { count, error } = await supabase
         .from('notifications')
-        .select('*')
+        .select('id', { count: 'exact', head: true })
         .eq('user_id', profile.id)
-        .order('created_at', { ascending: false })
-        .limit(50);
+        .eq('read', false);
 
       if (error) throw error;
 
-      setNotifications(data || []);
-      setUnreadCount((data || []).filter((n) => !n.read).length);
+      setUnreadCount(count || 0);
     } catch (error: any) {
       console.error('Error fetching notifications:', error);
     }
@@ -403,6 +419,31 @@ export default function RiderDashboardScreen() {
     }
   };
 
+  const fetchPayouts = async (riderId: string) => {
+    try {
+      const [payoutsResult, pendingResult] = await Promise.all([
+        supabase
+          .from('rider_payouts')
+          .select('*')
+          .eq('rider_id', riderId)
+          .order('created_at', { ascending: false })
+          .limit(20),
+        supabase
+          .from('rider_earnings')
+          .select('amount')
+          .eq('rider_id', riderId)
+          .eq('status', 'pending'),
+      ]);
+
+      setPayouts((payoutsResult.data || []) as RiderPayout[]);
+      setAwaitingPayout(
+        (pendingResult.data || []).reduce((sum, e) => sum + parseFloat(e.amount), 0)
+      );
+    } catch (error: any) {
+      console.error('Error fetching payouts:', error);
+    }
+  };
+
   const fetchDeliveryHistory = async (rider?: Rider) => {
     const riderData = rider || riderProfile;
     if (!riderData) return;
@@ -605,42 +646,6 @@ export default function RiderDashboardScreen() {
     }
   };
 
-  const handleMarkAsRead = async (notificationId: string) => {
-    try {
-      await supabase
-        .from('notifications')
-        .update({ read: true })
-        .eq('id', notificationId);
-
-      setNotifications((prev) =>
-        prev.map((n) => (n.id === notificationId ? { ...n, read: true } : n))
-      );
-      setUnreadCount((prev) => Math.max(0, prev - 1));
-    } catch (error: any) {
-      console.error('Error marking notification as read:', error);
-    }
-  };
-
-  const handleDismissNotification = async (notificationId: string) => {
-    try {
-      const { error } = await supabase
-        .from('notifications')
-        .delete()
-        .eq('id', notificationId);
-
-      if (error) throw error;
-
-      setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
-      setUnreadCount((prev) => {
-        const notification = notifications.find((n) => n.id === notificationId);
-        return notification && !notification.read ? Math.max(0, prev - 1) : prev;
-      });
-    } catch (error: any) {
-      console.error('Error dismissing notification:', error);
-      setErrorMessage('Failed to dismiss notification');
-    }
-  };
-
   const handleRefresh = () => {
     setRefreshing(true);
     fetchRiderData();
@@ -677,7 +682,7 @@ export default function RiderDashboardScreen() {
         </View>
         <TouchableOpacity
           style={styles.notificationButton}
-          onPress={() => setShowNotifications(true)}
+          onPress={() => router.push('/(tabs)/notifications')}
         >
           <Bell size={24} color="#ffffff" />
           {unreadCount > 0 && (
@@ -835,32 +840,19 @@ export default function RiderDashboardScreen() {
               <Text style={styles.historyButtonText}>Batch History</Text>
             </TouchableOpacity>
           </View>
+
+          <TouchableOpacity
+            style={[styles.historyButton, styles.payoutsButton]}
+            onPress={() => setShowPayouts(true)}
+          >
+            <Banknote size={20} color="#ffffff" />
+            <Text style={styles.historyButtonText}>Payouts</Text>
+          </TouchableOpacity>
         </View>
 
         <View style={styles.bottomSpacer} />
       </ScrollView>
 
-      <Modal
-        visible={showNotifications}
-        animationType="slide"
-        presentationStyle="pageSheet"
-        onRequestClose={() => setShowNotifications(false)}
-      >
-        <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
-          <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>Notifications</Text>
-            <TouchableOpacity onPress={() => setShowNotifications(false)}>
-              <X size={24} color="#64748b" />
-            </TouchableOpacity>
-          </View>
-          <NotificationsList
-            notifications={notifications}
-            onMarkAsRead={handleMarkAsRead}
-            onDismiss={handleDismissNotification}
-          />
-        </View>
-      </Modal>
-
       <Modal
         visible={!!errorMessage}
         transparent
@@ -1007,6 +999,72 @@ export default function RiderDashboardScreen() {
           </ScrollView>
         </View>
       </Modal>
+
+      <Modal
+        visible={showPayouts}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowPayouts(false)}
+      >
+        <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Payouts</Text>
+            <TouchableOpacity onPress={() => setShowPayouts(false)}>
+              <X size={24} color="#64748b" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.awaitingPayout}>
+            <Text style={styles.awaitingPayoutLabel}>Awaiting payout</Text>
+            <Text style={styles.awaitingPayoutValue}>₦{awaitingPayout.toFixed(2)}</Text>
+          </View>
+
+          <ScrollView style={styles.historyList}>
+            {payouts.length === 0 ? (
+              <Text style={styles.emptyMessage}>No payouts yet</Text>
+            ) : (
+              payouts.map((payout) => {
+                const expanded = expandedPayoutId === payout.id;
+                return (
+                  <View key={payout.id} style={styles.historyCard}>
+                    <TouchableOpacity
+                      style={[styles.historyCardHeader, styles.payoutCardHeader]}
+                      onPress={() => setExpandedPayoutId(expanded ? null : payout.id)}
+                    >
+                      <View>
+                        <Text style={styles.historyOrderNumber}>
+                          {new Date(payout.created_at).toLocaleDateString('en-US', {
+                            month: 'short',
+                            day: 'numeric',
+                            year: 'numeric',
+                          })}
+                        </Text>
+                        <Text style={styles.historyDate}>
+                          {payout.earnings_count} {payout.earnings_count === 1 ? 'delivery' : 'deliveries'} · Wallet
+                        </Text>
+                      </View>
+                      <View style={styles.payoutAmountRow}>
+                        <Text style={styles.historyAmount}>₦{Number(payout.amount).toFixed(2)}</Text>
+                        {expanded ? (
+                          <ChevronUp size={18} color="#64748b" />
+                        ) : (
+                          <ChevronDown size={18} color="#64748b" />
+                        )}
+                      </View>
+                    </TouchableOpacity>
+                    {expanded && (
+                      <View style={styles.payoutStatement}>
+                        <PayoutStatement payout={payout} />
+                      </View>
+                    )}
+                  </View>
+                );
+              })
+            )}
+            <View style={styles.bottomSpacer} />
+          </ScrollView>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -1243,6 +1301,39 @@ const styles = StyleSheet.create({
   historyButtonSecondary: {
     backgroundColor: '#8b5cf6',
   },
+  payoutsButton: {
+    backgroundColor: '#10b981',
+    marginTop: 12,
+  },
+  awaitingPayout: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  awaitingPayoutLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  awaitingPayoutValue: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: '#ff8c00',
+  },
+  payoutCardHeader: {
+    marginBottom: 0,
+  },
+  payoutAmountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  payoutStatement: {
+    marginTop: 12,
+  },
   historyButtonText: {
     fontSize: 14,
     fontWeight: '700',
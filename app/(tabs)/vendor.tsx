@@ -11,13 +11,14 @@ import {
   TextInput,
   Platform,
 } from 'react-native';
-import { Plus, Package, Edit, Trash2, Search, X, Filter, ChevronDown } from 'lucide-react-native';
+import { Plus, Package, Edit, Trash2, Search, X, Filter, ChevronDown, Landmark } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { Product, Vendor } from '@/types/database';
 import StoreSetup from '@/components/vendor/StoreSetup';
 import AddProduct from '@/components/vendor/AddProduct';
 import EditProduct from '@/components/vendor/EditProduct';
+import VendorSettlements from '@/components/vendor/VendorSettlements';
 
 export default function VendorScreen() {
   const { profile } = useAuth();
@@ -28,6 +29,7 @@ export default function VendorScreen() {
   const [loadingVendorData, setLoadingVendorData] = useState(false);
   const [showAddProduct, setShowAddProduct] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [showSettlements, setShowSettlements] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'inactive'>('all');
   const [sortBy, setSortBy] = useState<'name' | 'price' | 'stock' | 'recent'>('recent');
@@ -268,6 +270,10 @@ export default function VendorScreen() {
     );
   }
 
+  if (showSettlements) {
+    return <VendorSettlements vendorId={vendor.id} onBack={() => setShowSettlements(false)} />;
+  }
+
   const filteredProducts = products
     .filter((product) => {
       const matchesSearch =
@@ -303,13 +309,23 @@ export default function VendorScreen() {
         <Text style={styles.subtitle}>{String(products.length)} Products</Text>
       </View>
 
-      <TouchableOpacity
-        style={styles.addButton}
-        onPress={() => setShowAddProduct(true)}
-      >
-        <Plus size={20} color="#ffffff" />
-        <Text style={styles.addButtonText}>Add New Product</Text>
-      </TouchableOpacity>
+      <View style={styles.actionRow}>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => setShowAddProduct(true)}
+        >
+          <Plus size={20} color="#ffffff" />
+          <Text style={styles.addButtonText}>Add New Product</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.settlementsButton}
+          onPress={() => setShowSettlements(true)}
+        >
+          <Landmark size={20} color="#ff8c00" />
+          <Text style={styles.settlementsButtonText}>Settlements</Text>
+        </TouchableOpacity>
+      </View>
 
       <View style={styles.searchWrapper}>
         <View style={styles.searchContainer}>
@@ -519,7 +535,7 @@ export default function VendorScreen() {
                   <Text
                     style={[
                       styles.stockText,
-                      item.stock_quantity > 10 ? styles.inStock : styles.lowStock,
+                      item.stock_quantity > item.low_stock_threshold ? styles.inStock : styles.lowStock,
                     ]}
                   >
                     {String(item.stock_quantity)} in stock
@@ -530,7 +546,7 @@ export default function VendorScreen() {
                       item.is_available ? styles.available : styles.unavailable,
                     ]}
                   >
-                    {item.is_available ? 'Active' : 'Inactive'}
+                    {item.is_available ? 'Active' : item.sold_out_at ? 'Sold Out' : 'Inactive'}
                   </Text>
                 </View>
               </View>
@@ -582,16 +598,38 @@ const styles = StyleSheet.create({
     color: '#d1fae5',
     marginTop: 4,
   },
+  actionRow: {
+    flexDirection: 'row',
+    margin: 16,
+    gap: 12,
+  },
   addButton: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
     backgroundColor: '#ff8c00',
-    margin: 16,
     padding: 16,
     borderRadius: 12,
     gap: 8,
   },
+  settlementsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffffff',
+    borderWidth: 1.5,
+    borderColor: '#ff8c00',
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  settlementsButtonText: {
+    color: '#ff8c00',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   addButtonText: {
     color: '#ffffff',
     fontSize: 16,
@@ -0,0 +1,681 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ArrowLeft, MapPin, Plus, Edit, Trash2, Star, Navigation, Save, X } from 'lucide-react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as Location from 'expo-location';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { Address } from '@/types/database';
+import LocationMap from '@/components/LocationMap';
+
+const LABELS = ['Home', 'Work', 'Other'];
+
+interface AddressFormData {
+  label: string;
+  recipient_name: string;
+  phone: string;
+  address_line: string;
+  landmark: string;
+  latitude: number | null;
+  longitude: number | null;
+  is_default: boolean;
+}
+
+export default function AddressesScreen() {
+  const { profile } = useAuth();
+  const insets = useSafeAreaInsets();
+  const params = useLocalSearchParams();
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(params.add === '1');
+  const [formData, setFormData] = useState<AddressFormData>(emptyForm(profile));
+
+  useEffect(() => {
+    fetchAddresses();
+  }, [profile]);
+
+  function emptyForm(owner: typeof profile): AddressFormData {
+    return {
+      label: 'Home',
+      recipient_name: owner?.full_name || '',
+      phone: owner?.phone || '',
+      address_line: '',
+      landmark: '',
+      latitude: null,
+      longitude: null,
+      is_default: false,
+    };
+  }
+
+  const fetchAddresses = async () => {
+    if (!profile) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('addresses')
+        .select('*')
+        .eq('user_id', profile.id)
+        .order('is_default', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setAddresses(data || []);
+    } catch (error) {
+      console.error('Error fetching addresses:', error);
+      Alert.alert('Error', 'Failed to load your addresses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pinCurrentLocation = async () => {
+    try {
+      setLocating(true);
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Location Needed', 'Allow location access to pin your address, or tap the map instead.');
+        return;
+      }
+
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+      const { latitude, longitude } = position.coords;
+
+      let addressLine = formData.address_line;
+      if (!addressLine.trim()) {
+        try {
+          const [place] = await Location.reverseGeocodeAsync({ latitude, longitude });
+          if (place) {
+            addressLine = [place.name, place.street, place.district, place.city]
+              .filter(Boolean)
+              .join(', ');
+          }
+        } catch (error) {
+          // Reverse geocoding is not available on every platform
+        }
+      }
+
+      setFormData({ ...formData, latitude, longitude, address_line: addressLine });
+    } catch (error) {
+      console.error('Error getting location:', error);
+      Alert.alert('Error', 'Could not get your current location');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleEdit = (address: Address) => {
+    setEditingId(address.id);
+    setShowForm(true);
+    setFormData({
+      label: address.label,
+      recipient_name: address.recipient_name,
+      phone: address.phone,
+      address_line: address.address_line,
+      landmark: address.landmark || '',
+      latitude: address.latitude,
+      longitude: address.longitude,
+      is_default: address.is_default,
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setShowForm(false);
+    setFormData(emptyForm(profile));
+  };
+
+  const handleSave = async () => {
+    if (!profile) return;
+
+    if (!formData.recipient_name.trim() || !formData.phone.trim() || !formData.address_line.trim()) {
+      Alert.alert('Missing Details', 'Please enter a name, phone number and street address');
+      return;
+    }
+
+    const payload = {
+      user_id: profile.id,
+      label: formData.label.trim() || 'Home',
+      recipient_name: formData.recipient_name.trim(),
+      phone: formData.phone.trim(),
+      address_line: formData.address_line.trim(),
+      landmark: formData.landmark.trim() || null,
+      latitude: formData.latitude,
+      longitude: formData.longitude,
+      // The first address becomes the default automatically
+      is_default: formData.is_default || addresses.length === 0,
+    };
+
+    try {
+      setSaving(true);
+      const { error } = editingId
+        ? await supabase.from('addresses').update(payload).eq('id', editingId)
+        : await supabase.from('addresses').insert(payload);
+
+      if (error) throw error;
+
+      handleCancel();
+      await fetchAddresses();
+
+      if (params.add === '1') {
+        router.back();
+      }
+    } catch (error) {
+      console.error('Error saving address:', error);
+      Alert.alert('Error', 'Failed to save address');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetDefault = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('addresses')
+        .update({ is_default: true })
+        .eq('id', id);
+
+      if (error) throw error;
+      fetchAddresses();
+    } catch (error) {
+      console.error('Error setting default address:', error);
+      Alert.alert('Error', 'Failed to update default address');
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    const remove = async () => {
+      try {
+        const { error } = await supabase.from('addresses').delete().eq('id', id);
+        if (error) throw error;
+        fetchAddresses();
+      } catch (error) {
+        console.error('Error deleting address:', error);
+        Alert.alert('Error', 'Failed to delete address');
+      }
+    };
+
+    if (Platform.OS === 'web') {
+      if (window.confirm('Delete this address?')) remove();
+      return;
+    }
+
+    Alert.alert('Delete Address', 'Delete this address?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: remove },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#ff8c00" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>My Addresses</Text>
+        {!showForm ? (
+          <TouchableOpacity style={styles.backButton} onPress={() => setShowForm(true)}>
+            <Plus size={24} color="#ffffff" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.placeholder} />
+        )}
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+        {showForm && (
+          <View style={styles.formCard}>
+            <Text style={styles.formTitle}>{editingId ? 'Edit Address' : 'New Address'}</Text>
+
+            <View style={styles.labelRow}>
+              {LABELS.map((label) => (
+                <TouchableOpacity
+                  key={label}
+                  style={[styles.labelChip, formData.label === label && styles.labelChipActive]}
+                  onPress={() => setFormData({ ...formData, label })}
+                >
+                  <Text style={[styles.labelChipText, formData.label === label && styles.labelChipTextActive]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.inputLabel}>Recipient Name</Text>
+            <TextInput
+              style={styles.input}
+              value={formData.recipient_name}
+              onChangeText={(text) => setFormData({ ...formData, recipient_name: text })}
+              placeholder="Who should the rider ask for?"
+              placeholderTextColor="#9ca3af"
+            />
+
+            <Text style={styles.inputLabel}>Phone Number</Text>
+            <TextInput
+              style={styles.input}
+              value={formData.phone}
+              onChangeText={(text) => setFormData({ ...formData, phone: text })}
+              placeholder="Phone number"
+              placeholderTextColor="#9ca3af"
+              keyboardType="phone-pad"
+            />
+
+            <Text style={styles.inputLabel}>Street Address</Text>
+            <TextInput
+              style={[styles.input, styles.textArea]}
+              value={formData.address_line}
+              onChangeText={(text) => setFormData({ ...formData, address_line: text })}
+              placeholder="House number, street, area"
+              placeholderTextColor="#9ca3af"
+              multiline
+            />
+
+            <Text style={styles.inputLabel}>Landmark (optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={formData.landmark}
+              onChangeText={(text) => setFormData({ ...formData, landmark: text })}
+              placeholder="e.g. Opposite the filling station, blue gate"
+              placeholderTextColor="#9ca3af"
+            />
+
+            <View style={styles.mapHeader}>
+              <Text style={styles.inputLabel}>Map Pin</Text>
+              <TouchableOpacity style={styles.locateButton} onPress={pinCurrentLocation} disabled={locating}>
+                {locating ? (
+                  <ActivityIndicator size="small" color="#ff8c00" />
+                ) : (
+                  <Navigation size={16} color="#ff8c00" />
+                )}
+                <Text style={styles.locateButtonText}>Use current location</Text>
+              </TouchableOpacity>
+            </View>
+            <LocationMap
+              key={editingId || 'new'}
+              markers={
+                formData.latitude != null && formData.longitude != null
+                  ? [{ id: 'pin', latitude: formData.latitude, longitude: formData.longitude }]
+                  : []
+              }
+              pickMarkerId="pin"
+              onPick={({ latitude, longitude }) => setFormData((current) => ({ ...current, latitude, longitude }))}
+            />
+            <Text style={styles.mapHint}>
+              {formData.latitude != null
+                ? 'Drag the pin or tap the map to adjust'
+                : 'Tap the map to drop a pin at your door'}
+            </Text>
+
+            <TouchableOpacity
+              style={styles.defaultToggle}
+              onPress={() => setFormData({ ...formData, is_default: !formData.is_default })}
+            >
+              <Star
+                size={18}
+                color="#ff8c00"
+                fill={formData.is_default ? '#ff8c00' : 'transparent'}
+              />
+              <Text style={styles.defaultToggleText}>Use as my default address</Text>
+            </TouchableOpacity>
+
+            <View style={styles.formActions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={handleCancel}>
+                <X size={16} color="#64748b" />
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, saving && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={saving}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <>
+                    <Save size={16} color="#ffffff" />
+                    <Text style={styles.saveButtonText}>Save</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {addresses.map((address) => (
+          <View key={address.id} style={styles.addressCard}>
+            <View style={styles.addressHeader}>
+              <View style={styles.addressTitleRow}>
+                <MapPin size={18} color="#ff8c00" />
+                <Text style={styles.addressLabel}>{address.label}</Text>
+                {address.is_default && (
+                  <View style={styles.defaultBadge}>
+                    <Text style={styles.defaultBadgeText}>Default</Text>
+                  </View>
+                )}
+              </View>
+              <View style={styles.addressActions}>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleEdit(address)}>
+                  <Edit size={16} color="#3b82f6" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(address.id)}>
+                  <Trash2 size={16} color="#ef4444" />
+                </TouchableOpacity>
+              </View>
+            </View>
+            <Text style={styles.addressText}>{address.address_line}</Text>
+            {address.landmark && <Text style={styles.landmarkText}>{address.landmark}</Text>}
+            <Text style={styles.contactText}>
+              {address.recipient_name} · {address.phone}
+            </Text>
+            {!address.is_default && (
+              <TouchableOpacity onPress={() => handleSetDefault(address.id)}>
+                <Text style={styles.setDefaultText}>Set as default</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+
+        {addresses.length === 0 && !showForm && (
+          <View style={styles.emptyState}>
+            <MapPin size={48} color="#cbd5e1" />
+            <Text style={styles.emptyText}>No saved addresses</Text>
+            <Text style={styles.emptySubtext}>Save your delivery addresses for faster checkout</Text>
+            <TouchableOpacity style={styles.addButton} onPress={() => setShowForm(true)}>
+              <Plus size={18} color="#ffffff" />
+              <Text style={styles.addButtonText}>Add Address</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#ff8c00',
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  formCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 20,
+    padding: 18,
+    marginBottom: 16,
+    shadowColor: '#ff8c00',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  formTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 4,
+  },
+  labelChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f1f5f9',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  labelChipActive: {
+    backgroundColor: '#ff8c00',
+    borderColor: '#ff8c00',
+  },
+  labelChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  labelChipTextActive: {
+    color: '#ffffff',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 15,
+    color: '#1f2937',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  textArea: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  mapHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  locateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  locateButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ff8c00',
+  },
+  mapHint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 6,
+  },
+  defaultToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+  },
+  defaultToggleText: {
+    fontSize: 14,
+    color: '#1f2937',
+    fontWeight: '500',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#f1f5f9',
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#ff8c00',
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  addressCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#ff8c00',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  addressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  addressTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  addressLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  defaultBadge: {
+    backgroundColor: '#fff7ed',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  defaultBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ff8c00',
+  },
+  addressActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  addressText: {
+    fontSize: 14,
+    color: '#1f2937',
+    lineHeight: 20,
+  },
+  landmarkText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  contactText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 6,
+  },
+  setDefaultText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ff8c00',
+    marginTop: 10,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1f2937',
+    marginTop: 12,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#ff8c00',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 20,
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
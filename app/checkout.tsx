@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -13,7 +13,7 @@ import {
   AppState,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Package, Truck, MapPin, CreditCard, ChevronLeft, CheckCircle, Clock, Calendar, Sun, Utensils, Moon, Wallet, Building2, DollarSign, Copy } from 'lucide-react-native';
+import { Package, Truck, MapPin, CreditCard, ChevronLeft, CheckCircle, Clock, Calendar, Sun, Utensils, Moon, Wallet, Building2, DollarSign, Copy, Tag } from 'lucide-react-native';
 import { useFonts } from 'expo-font';
 import {
   Poppins_600SemiBold,
@@ -27,12 +27,18 @@ import {
 } from '@expo-google-fonts/inter';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
-import { router } from 'expo-router';
+import { cartEvents } from '@/lib/cartEvents';
+import { router, useFocusEffect } from 'expo-router';
+import { Address, DeliverySlot, SelectedOption, VendorAvailability } from '@/types/database';
+import { optionsTotal, formatSelectedOptions } from '@/lib/productOptions';
+import { fetchDeliverySlots, formatScheduledTime, formatSlotTime, groupSlotsByDay } from '@/lib/scheduledOrders';
+import { availabilityMessage, fetchVendorAvailability } from '@/lib/vendorHours';
 
 interface CartItemWithProduct {
   id: string;
   quantity: number;
   product_id: string;
+  selected_options: SelectedOption[];
   product: {
     id: string;
     name: string;
@@ -51,7 +57,53 @@ interface BankAccount {
   display_order: number;
 }
 
-const DELIVERY_FEE = 5.0;
+// What the checkout screen shows; previews are priced but not saved
+interface QuotePricing {
+  items: {
+    cart_id: string;
+    product_id: string;
+    vendor_id: string;
+    name: string;
+    quantity: number;
+    unit_price: number;
+    subtotal: number;
+    selected_options: SelectedOption[];
+  }[];
+  vendor_orders: {
+    vendor_id: string;
+    vendor_name: string;
+    order_number: string;
+    subtotal: number;
+    delivery_fee: number;
+    distance_km: number | null;
+    discount: number;
+    total: number;
+  }[];
+  subtotal: number;
+  delivery_fee: number;
+  discount_total: number;
+  total: number;
+  promotion: {
+    code: string;
+    description: string | null;
+    discount_type: 'percentage' | 'fixed_amount' | 'free_delivery';
+  } | null;
+}
+
+// A saved, signed quote that can be paid
+interface CheckoutQuote extends QuotePricing {
+  id: string;
+  order_number: string;
+  expires_at: string;
+  signature: string;
+}
+
+interface PaymentIntent {
+  reference: string;
+  status: 'pending' | 'succeeded' | 'failed' | 'refunded';
+  order_number: string | null;
+  failure_reason: string | null;
+}
 
 export default function CheckoutScreen() {
   const { profile } = useAuth();
@@ -59,11 +111,22 @@ export default function CheckoutScreen() {
   const [cartItems, setCartItems] = useState<CartItemWithProduct[]>([]);
   const [deliveryType, setDeliveryType] = useState<'pickup' | 'delivery'>('pickup');
   const [deliveryAddress, setDeliveryAddress] = useState('');
+  // The typed address as of when the customer left the field; previews are
+  // priced from this so typing does not geocode every pause
+  const [confirmedAddress, setConfirmedAddress] = useState('');
   const [deliveryName, setDeliveryName] = useState('');
   const [deliveryPhone, setDeliveryPhone] = useState('');
+  const [deliveryLandmark, setDeliveryLandmark] = useState('');
+  const [savedAddresses, setSavedAddresses] = useState<Address[]>([]);
+  // null means the customer is typing a one-off address
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
   const [scheduleType, setScheduleType] = useState<'immediate' | 'scheduled'>('immediate');
-  const [scheduledDate, setScheduledDate] = useState('');
-  const [scheduledTime, setScheduledTime] = useState('');
+  const [deliverySlots, setDeliverySlots] = useState<DeliverySlot[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [selectedSlotDay, setSelectedSlotDay] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<DeliverySlot | null>(null);
+  // Restaurants in the cart that can only be ordered from for later
+  const [unavailableVendors, setUnavailableVendors] = useState<VendorAvailability[]>([]);
   const [mealTimePreference, setMealTimePreference] = useState<'breakfast' | 'lunch' | 'dinner' | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<'cash_on_delivery' | 'bank_transfer' | 'wallet' | 'paystack'>('cash_on_delivery');
   const [loading, setLoading] = useState(true);
@@ -71,7 +134,14 @@ export default function CheckoutScreen() {
   const [orderPlaced, setOrderPlaced] = useState(false);
   const [orderNumber, setOrderNumber] = useState('');
   const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [transferWindowHours, setTransferWindowHours] = useState(24);
   const [waitingForPayment, setWaitingForPayment] = useState(false);
+  const [paymentReference, setPaymentReference] = useState<string | null>(null);
+  const [quote, setQuote] = useState<QuotePricing | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
 
   const [fontsLoaded] = useFonts({
     'Poppins-SemiBold': Poppins_600SemiBold,
@@ -85,182 +155,119 @@ export default function CheckoutScreen() {
   useEffect(() => {
     fetchCartItems();
     fetchBankAccounts();
+  }, []);
+
+  // Refetch on focus so an address added from the address book shows up
+  useFocusEffect(
+    useCallback(() => {
+      fetchAddresses();
+    }, [profile])
+  );
+
+  // Delivery fees depend on the address and meal slot, so re-price as they
+  // change. The delay batches quick changes into one preview.
+  useEffect(() => {
+    if (cartItems.length === 0) return;
 
-    // Listen for when user returns after payment
+    const timer = setTimeout(() => {
+      requestQuote(true).catch((error) => setQuoteError(error.message));
+    }, 600);
+
+    return () => clearTimeout(timer);
+  }, [cartItems, deliveryType, paymentMethod, confirmedAddress, selectedAddressId, mealTimePreference, promoCode, scheduleType, selectedSlot]);
+
+  useEffect(() => {
+    if (cartItems.length > 0) {
+      loadVendorAvailability();
+    }
+  }, [cartItems]);
+
+  // Slots depend on which restaurants are in the cart
+  useEffect(() => {
+    if (scheduleType === 'scheduled' && cartItems.length > 0) {
+      loadDeliverySlots();
+    }
+  }, [scheduleType, cartItems]);
+
+  // The card payment outcome is written to payment_intents by wallet-webhook
+  // (or the paystack-verify callback); listen for it instead of guessing.
+  useEffect(() => {
+    if (!paymentReference) return;
+
+    checkPaymentIntent(paymentReference);
+
+    const channel = supabase
+      .channel(`payment-intent-${paymentReference}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'payment_intents',
+          filter: `reference=eq.${paymentReference}`,
+        },
+        (payload) => {
+          handlePaymentIntent(payload.new as PaymentIntent);
+        }
+      )
+      .subscribe();
+
+    // Realtime events can be missed while the app is in the background
     const subscription = AppState.addEventListener('change', (nextAppState) => {
-      if (nextAppState === 'active' && paymentMethod === 'paystack') {
-        // User came back to the app, check if cart is empty (payment completed)
-        checkPaymentCompletion();
+      if (nextAppState === 'active') {
+        checkPaymentIntent(paymentReference);
       }
     });
 
     return () => {
+      supabase.removeChannel(channel);
       subscription.remove();
     };
-  }, [paymentMethod]);
-
-  const checkPaymentCompletion = async () => {
-    if (!profile) return;
+  }, [paymentReference]);
 
+  const checkPaymentIntent = async (reference: string) => {
     try {
       const { data, error } = await supabase
-        .from('carts')
-        .select('id')
-        .eq('user_id', profile.id);
+        .from('payment_intents')
+        .select('reference, status, order_number, failure_reason')
+        .eq('reference', reference)
+        .maybeSingle();
 
       if (error) throw error;
-
-      // If cart is empty, payment was completed
-      if (!data || data.length === 0) {
-        Alert.alert(
-          'Payment Successful',
-          'Your order has been placed successfully!',
-          [
-            {
-              text: 'View Orders',
-              onPress: () => router.replace('/(tabs)/orders'),
-            },
-          ]
-        );
-      }
+      if (data) handlePaymentIntent(data);
+      return data as PaymentIntent | null;
     } catch (error) {
-      console.error('Error checking payment completion:', error);
+      console.error('Error checking payment status:', error);
+      return null;
     }
   };
 
-  const pollPaymentStatus = async (paymentReference: string, orderNum: string) => {
-    let pollCount = 0;
-    const maxPolls = 90; // 3 minutes total
-    setWaitingForPayment(true);
-    const userId = profile?.id;
-    let pollInterval: NodeJS.Timeout | null = null;
-
-    const checkPayment = async () => {
-      try {
-        pollCount++;
-        console.log('Polling attempt', pollCount, 'for reference:', paymentReference);
-
-        // First check if order exists by payment reference
-        const { data: orderByRef, error: orderRefError } = await supabase
-          .from('orders')
-          .select('id, payment_status, status, order_number')
-          .eq('payment_reference', paymentReference)
-          .maybeSingle();
-
-        console.log('Order by reference:', orderByRef, 'Error:', orderRefError);
-
-        if (orderByRef && orderByRef.payment_status === 'completed') {
-          if (pollInterval) clearInterval(pollInterval);
-          setSubmitting(false);
-          setWaitingForPayment(false);
-
-          // Clear cart to ensure sync
-          await supabase
-            .from('carts')
-            .delete()
-            .eq('user_id', userId);
-
-          setOrderNumber(orderByRef.order_number);
-          setOrderPlaced(true);
-          return true;
-        }
-
-        // Fallback: check by order number
-        const { data: order, error: orderError } = await supabase
-          .from('orders')
-          .select('id, payment_status, status, order_number')
-          .eq('order_number', orderNum)
-          .eq('customer_id', userId)
-          .maybeSingle();
-
-        console.log('Order by number:', order, 'Error:', orderError);
-
-        if (order && order.payment_status === 'completed') {
-          if (pollInterval) clearInterval(pollInterval);
-          setSubmitting(false);
-          setWaitingForPayment(false);
-
-          // Clear cart
-          await supabase
-            .from('carts')
-            .delete()
-            .eq('user_id', userId);
-
-          setOrderNumber(orderNum);
-          setOrderPlaced(true);
-          return true;
-        }
-
-        // Check if cart is empty (order was created and cart cleared)
-        const { data: cartData, error: cartError } = await supabase
-          .from('carts')
-          .select('id')
-          .eq('user_id', userId);
-
-        console.log('Cart items:', cartData?.length);
-
-        // If cart is empty, try one more time to find the order
-        if (cartData && cartData.length === 0) {
-          // Wait a moment for order to be fully created
-          await new Promise(resolve => setTimeout(resolve, 1000));
-
-          const { data: finalOrder } = await supabase
-            .from('orders')
-            .select('id, order_number')
-            .eq('customer_id', userId)
-            .order('created_at', { ascending: false })
-            .limit(1)
-            .maybeSingle();
-
-          if (pollInterval) clearInterval(pollInterval);
-          setSubmitting(false);
-          setWaitingForPayment(false);
-          setOrderNumber(finalOrder?.order_number || orderNum);
-          setOrderPlaced(true);
-          return true;
-        }
-
-        if (pollCount >= maxPolls) {
-          if (pollInterval) clearInterval(pollInterval);
-          setSubmitting(false);
-          setWaitingForPayment(false);
-
-          Alert.alert(
-            'Payment Status Unknown',
-            'We are still processing your payment. Please check your orders in a few minutes. If you completed the payment, your order will appear shortly.',
-            [
-              {
-                text: 'View Orders',
-                onPress: () => router.replace('/(tabs)/orders'),
-              },
-              {
-                text: 'Stay Here',
-                style: 'cancel',
-              },
-            ]
-          );
-          return true;
-        }
-        return false;
-      } catch (error) {
-        console.error('Error polling payment status:', error);
-        return false;
-      }
-    };
-
-    // Wait 3 seconds before starting to poll (give Paystack time to redirect)
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    // Check immediately first
-    const immediateResult = await checkPayment();
-    if (immediateResult) return;
-
-    // Then poll every 2 seconds
-    pollInterval = setInterval(checkPayment, 2000);
-
-    setTimeout(() => {
-      if (pollInterval) clearInterval(pollInterval);
-    }, maxPolls * 2000 + 1000);
+  const handlePaymentIntent = (intent: PaymentIntent) => {
+    if (intent.status === 'succeeded') {
+      cartEvents.emit();
+      setPaymentReference(null);
+      setWaitingForPayment(false);
+      setSubmitting(false);
+      setOrderNumber(intent.order_number || '');
+      setOrderPlaced(true);
+    } else if (intent.status === 'failed') {
+      setPaymentReference(null);
+      setWaitingForPayment(false);
+      setSubmitting(false);
+      Alert.alert(
+        'Payment Failed',
+        intent.failure_reason || 'Your payment was not successful. Please try again.'
+      );
+    } else if (intent.status === 'refunded') {
+      // The charge could not pay for this order and was credited to the wallet
+      setPaymentReference(null);
+      setWaitingForPayment(false);
+      setSubmitting(false);
+      Alert.alert(
+        'Payment Refunded',
+        `${intent.failure_reason || 'Your payment could not be used for this order'}. The amount has been added to your wallet.`
+      );
+    }
   };
 
   const fetchCartItems = async () => {
@@ -275,6 +282,7 @@ export default function CheckoutScreen() {
           id,
           quantity,
           product_id,
+          selected_options,
           products (
             id,
             name,
@@ -292,6 +300,7 @@ export default function CheckoutScreen() {
         id: item.id,
         quantity: item.quantity,
         product_id: item.product_id,
+        selected_options: item.selected_options || [],
         product: item.products,
       }));
 
@@ -304,21 +313,112 @@ export default function CheckoutScreen() {
     }
   };
 
+  const loadDeliverySlots = async () => {
+    const vendorIds = [...new Set(cartItems.map((item) => item.product.vendor_id))];
+
+    try {
+      setSlotsLoading(true);
+      const slots = await fetchDeliverySlots(vendorIds);
+      setDeliverySlots(slots);
+
+      // Keep the customer's choice if it is still bookable
+      const stillOpen = selectedSlot
+        ? slots.find((slot) => slot.slot_start === selectedSlot.slot_start && slot.remaining > 0)
+        : null;
+      setSelectedSlot(stillOpen ?? null);
+
+      const days = groupSlotsByDay(slots);
+      if (!selectedSlotDay || !days.some((day) => day.key === selectedSlotDay)) {
+        setSelectedSlotDay(days[0]?.key ?? null);
+      }
+    } catch (error) {
+      console.error('Error fetching delivery slots:', error);
+      setDeliverySlots([]);
+    } finally {
+      setSlotsLoading(false);
+    }
+  };
+
+  const loadVendorAvailability = async () => {
+    const vendorIds = [...new Set(cartItems.map((item) => item.product.vendor_id))];
+
+    try {
+      const availability = await fetchVendorAvailability(vendorIds);
+      const unavailable = availability.filter((vendor) => !vendor.can_order_now);
+      setUnavailableVendors(unavailable);
+
+      if (unavailable.length > 0) {
+        setScheduleType('scheduled');
+      }
+    } catch (error) {
+      console.error('Error checking restaurant hours:', error);
+    }
+  };
+
   const fetchBankAccounts = async () => {
     try {
-      const { data, error } = await supabase
-        .from('bank_accounts')
-        .select('*')
-        .eq('is_active', true)
-        .order('display_order', { ascending: true });
+      const [{ data, error }, { data: settings }] = await Promise.all([
+        supabase
+          .from('bank_accounts')
+          .select('*')
+          .eq('is_active', true)
+          .order('display_order', { ascending: true }),
+        supabase
+          .from('platform_settings')
+          .select('value')
+          .eq('key', 'bank_transfer')
+          .maybeSingle(),
+      ]);
 
       if (error) throw error;
       setBankAccounts(data || []);
+      if (settings?.value?.payment_window_hours) {
+        setTransferWindowHours(Number(settings.value.payment_window_hours));
+      }
     } catch (error) {
       console.error('Error fetching bank accounts:', error);
     }
   };
 
+  const fetchAddresses = async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('addresses')
+        .select('*')
+        .eq('user_id', profile.id)
+        .order('is_default', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const addresses = data || [];
+      setSavedAddresses(addresses);
+      setSelectedAddressId((current) => {
+        if (current && addresses.some((address) => address.id === current)) return current;
+        return addresses[0]?.id ?? null;
+      });
+    } catch (error) {
+      console.error('Error fetching addresses:', error);
+    }
+  };
+
+  const selectedAddress = savedAddresses.find((address) => address.id === selectedAddressId) ?? null;
+
+  const applyPromoCode = () => {
+    const code = promoInput.trim().toUpperCase();
+    if (!code) return;
+    setPromoError(null);
+    setPromoCode(code);
+  };
+
+  const removePromoCode = () => {
+    setPromoInput('');
+    setPromoCode(null);
+    setPromoError(null);
+  };
+
   const copyToClipboard = async (text: string, label: string) => {
     if (Platform.OS === 'web') {
       try {
@@ -333,40 +433,101 @@ export default function CheckoutScreen() {
   };
 
   const calculateSubtotal = () => {
-    return cartItems.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+    return cartItems.reduce(
+      (sum, item) => sum + (item.product.price + optionsTotal(item.selected_options)) * item.quantity,
+      0
+    );
   };
 
-  const calculateTotal = () => {
-    const subtotal = calculateSubtotal();
-    const deliveryFee = deliveryType === 'delivery' ? DELIVERY_FEE : 0;
-    return subtotal + deliveryFee;
+  const callCheckoutFunction = async (name: string, body: Record<string, unknown>) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('No session');
+
+    const response = await fetch(
+      `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/${name}`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      }
+    );
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  // Prices, fees and totals always come from the server; the cart is re-priced
+  // from the products table. Previews only update the summary; the saved quote
+  // requested when paying is what gets charged.
+  const requestQuote = async (preview = false): Promise<QuotePricing> => {
+    const scheduledDeliveryTime = scheduleType === 'scheduled' && selectedSlot ? selectedSlot.slot_start : null;
+
+    try {
+      const result = await callCheckoutFunction('checkout-quote', {
+        delivery_type: deliveryType,
+        address_id: deliveryType === 'delivery' && selectedAddress ? selectedAddress.id : null,
+        delivery_address: deliveryType === 'delivery' && !selectedAddress
+          ? {
+              recipient_name: deliveryName,
+              phone: deliveryPhone,
+              address_line: preview ? confirmedAddress : deliveryAddress,
+              landmark: deliveryLandmark,
+            }
+          : null,
+        is_scheduled: scheduleType === 'scheduled',
+        scheduled_delivery_time: scheduledDeliveryTime,
+        meal_time_preference: mealTimePreference,
+        payment_method: paymentMethod,
+        promo_code: promoCode,
+        preview,
+      });
+
+      setQuote(result.quote);
+      setQuoteError(null);
+      setPromoError(result.promo_error ?? null);
+      return result.quote;
+    } catch (error: any) {
+      setQuote(null);
+      // Someone else may have taken the last place in the slot
+      if (scheduleType === 'scheduled' && selectedSlot && /slot/i.test(error.message || '')) {
+        loadDeliverySlots();
+      }
+      // Or a restaurant closed or paused orders since the page loaded
+      if (scheduleType === 'immediate' && /closed|paused/i.test(error.message || '')) {
+        loadVendorAvailability();
+      }
+      throw error;
+    }
   };
 
   const handlePlaceOrder = async () => {
     if (!profile) return;
 
-    if (deliveryType === 'delivery' && !deliveryAddress.trim()) {
+    const isNewAddress = deliveryType === 'delivery' && !selectedAddress;
+
+    if (isNewAddress && !deliveryAddress.trim()) {
       Alert.alert('Missing Address', 'Please provide a delivery address');
       return;
     }
 
-    if (deliveryType === 'delivery' && !deliveryName.trim()) {
+    if (isNewAddress && !deliveryName.trim()) {
       Alert.alert('Missing Name', 'Please provide a delivery name');
       return;
     }
 
-    if (deliveryType === 'delivery' && !deliveryPhone.trim()) {
+    if (isNewAddress && !deliveryPhone.trim()) {
       Alert.alert('Missing Phone', 'Please provide a delivery phone number');
       return;
     }
 
-    if (scheduleType === 'scheduled' && !scheduledDate.trim()) {
-      Alert.alert('Missing Date', 'Please select a delivery date');
-      return;
-    }
-
-    if (scheduleType === 'scheduled' && !scheduledTime.trim()) {
-      Alert.alert('Missing Time', 'Please select a delivery time');
+    if (scheduleType === 'scheduled' && !selectedSlot) {
+      Alert.alert('Missing Time', 'Please choose a delivery slot');
       return;
     }
 
@@ -378,70 +539,30 @@ export default function CheckoutScreen() {
     try {
       setSubmitting(true);
 
-      const vendorId = cartItems[0].product.vendor_id;
-      const orderNumber = `ORD-${Date.now()}`;
-      const subtotal = calculateSubtotal();
-      const deliveryFee = deliveryType === 'delivery' ? DELIVERY_FEE : 0;
-      const total = subtotal + deliveryFee;
+      let orderQuote: CheckoutQuote;
+      try {
+        orderQuote = (await requestQuote()) as CheckoutQuote;
+      } catch (pricingError: any) {
+        setQuoteError(pricingError.message);
+        Alert.alert('Unable to Place Order', pricingError.message);
+        return;
+      }
 
-      let scheduledDeliveryTime = null;
-      if (scheduleType === 'scheduled' && scheduledDate && scheduledTime) {
-        scheduledDeliveryTime = new Date(`${scheduledDate}T${scheduledTime}`).toISOString();
+      if (promoCode && !orderQuote.promotion) {
+        Alert.alert('Promo Code Not Applied', 'Remove the promo code to continue without a discount.');
+        return;
       }
 
       if (paymentMethod === 'wallet') {
         try {
-          const { data: { session } } = await supabase.auth.getSession();
-          if (!session) throw new Error('No session');
-
-          const response = await fetch(
-            `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/wallet-payment`,
-            {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${session.access_token}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                amount: total,
-                description: `Payment for order #${orderNumber}`,
-                order_data: {
-                  customer_id: profile.id,
-                  vendor_id: vendorId,
-                  order_number: orderNumber,
-                  subtotal: subtotal,
-                  delivery_fee: deliveryFee,
-                  total: total,
-                  delivery_type: deliveryType,
-                  delivery_address: deliveryType === 'delivery' ? `${deliveryName}\n${deliveryPhone}\n${deliveryAddress}` : 'N/A',
-                  is_scheduled: scheduleType === 'scheduled',
-                  scheduled_delivery_time: scheduledDeliveryTime,
-                  meal_time_preference: mealTimePreference,
-                  payment_method: paymentMethod,
-                },
-                order_items: cartItems.map((item) => ({
-                  product_id: item.product_id,
-                  quantity: item.quantity,
-                  unit_price: item.product.price,
-                  subtotal: item.product.price * item.quantity,
-                })),
-              }),
-            }
-          );
-
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw new Error(errorData.error || 'Wallet payment failed');
-          }
-
-          const result = await response.json();
-
-          await supabase
-            .from('carts')
-            .delete()
-            .eq('user_id', profile.id);
-
-          setOrderNumber(orderNumber);
+          const result = await callCheckoutFunction('wallet-payment', {
+            quote_id: orderQuote.id,
+            signature: orderQuote.signature,
+            description: `Payment for order #${orderQuote.order_number}`,
+          });
+
+          cartEvents.emit();
+          setOrderNumber(result.order_number);
           setOrderPlaced(true);
           return;
         } catch (walletError: any) {
@@ -461,58 +582,16 @@ export default function CheckoutScreen() {
             ]
           );
           return;
-        } finally {
-          setSubmitting(false);
         }
       }
 
       if (paymentMethod === 'paystack') {
         try {
-          const { data: { session } } = await supabase.auth.getSession();
-          if (!session) throw new Error('No session');
-
-          const response = await fetch(
-            `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/paystack-initialize`,
-            {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${session.access_token}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                amount: total,
-                email: profile.email,
-                order_number: orderNumber,
-                order_data: {
-                  customer_id: profile.id,
-                  vendor_id: vendorId,
-                  order_number: orderNumber,
-                  subtotal: subtotal,
-                  delivery_fee: deliveryFee,
-                  total: total,
-                  delivery_type: deliveryType,
-                  delivery_address: deliveryType === 'delivery' ? `${deliveryName}\n${deliveryPhone}\n${deliveryAddress}` : 'N/A',
-                  is_scheduled: scheduleType === 'scheduled',
-                  scheduled_delivery_time: scheduledDeliveryTime,
-                  meal_time_preference: mealTimePreference,
-                  payment_method: paymentMethod,
-                },
-                order_items: cartItems.map((item) => ({
-                  product_id: item.product_id,
-                  quantity: item.quantity,
-                  unit_price: item.product.price,
-                  subtotal: item.product.price * item.quantity,
-                })),
-              }),
-            }
-          );
-
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw new Error(errorData.error || 'Failed to initialize payment');
-          }
-
-          const result = await response.json();
+          const result = await callCheckoutFunction('paystack-initialize', {
+            quote_id: orderQuote.id,
+            signature: orderQuote.signature,
+            email: profile.email,
+          });
 
           const canOpen = await Linking.canOpenURL(result.authorization_url);
           if (canOpen) {
@@ -525,7 +604,8 @@ export default function CheckoutScreen() {
             alert('You will be redirected to complete payment. Please complete the payment and return to the app.');
           }
 
-          pollPaymentStatus(result.reference, orderNumber);
+          setWaitingForPayment(true);
+          setPaymentReference(result.reference);
 
           return;
         } catch (paystackError: any) {
@@ -544,57 +624,26 @@ export default function CheckoutScreen() {
               },
             ]
           );
-          setSubmitting(false);
           return;
         }
       }
 
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          customer_id: profile.id,
-          vendor_id: vendorId,
-          order_number: orderNumber,
-          subtotal: subtotal,
-          delivery_fee: deliveryFee,
-          total: total,
-          delivery_type: deliveryType,
-          delivery_address: deliveryType === 'delivery' ? `${deliveryName}\n${deliveryPhone}\n${deliveryAddress}` : 'N/A',
-          status: 'pending',
-          is_scheduled: scheduleType === 'scheduled',
-          scheduled_delivery_time: scheduledDeliveryTime,
-          meal_time_preference: mealTimePreference,
-          payment_method: paymentMethod,
-          payment_status: 'pending',
-        })
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      const orderItems = cartItems.map((item) => ({
-        order_id: orderData.id,
-        product_id: item.product_id,
-        quantity: item.quantity,
-        unit_price: item.product.price,
-        subtotal: item.product.price * item.quantity,
-      }));
-
-      const { error: itemsError } = await supabase.from('order_items').insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
-      const { error: deleteError } = await supabase
-        .from('carts')
-        .delete()
-        .eq('user_id', profile.id);
-
-      if (deleteError) throw deleteError;
+      const result = await callCheckoutFunction('place-order', {
+        quote_id: orderQuote.id,
+        signature: orderQuote.signature,
+      });
 
-      setOrderNumber(orderNumber);
+      cartEvents.emit();
+      setOrderNumber(result.order_number);
       setOrderPlaced(true);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error placing order:', error);
+      // A restaurant may have closed or paused orders after the quote
+      if (scheduleType === 'immediate' && /closed|paused/i.test(error.message || '')) {
+        loadVendorAvailability();
+        Alert.alert('Unable to Place Order', error.message);
+        return;
+      }
       Alert.alert('Error', 'Failed to place order. Please try again.');
     } finally {
       setSubmitting(false);
@@ -636,6 +685,17 @@ export default function CheckoutScreen() {
               <Text style={styles.orderDetailValue}>#{orderNumber}</Text>
             </View>
 
+            {quote && quote.vendor_orders.length > 1 && (
+              <View style={styles.orderDetailRow}>
+                <Text style={styles.orderDetailLabel}>Restaurant Orders</Text>
+                {quote.vendor_orders.map((vendorOrder) => (
+                  <Text key={vendorOrder.vendor_id} style={styles.orderDetailValue}>
+                    #{vendorOrder.order_number} · {vendorOrder.vendor_name}
+                  </Text>
+                ))}
+              </View>
+            )}
+
             <View style={styles.orderDetailRow}>
               <Text style={styles.orderDetailLabel}>Delivery Type</Text>
               <Text style={styles.orderDetailValue}>
@@ -655,8 +715,8 @@ export default function CheckoutScreen() {
             <View style={styles.orderDetailRow}>
               <Text style={styles.orderDetailLabel}>Schedule</Text>
               <Text style={styles.orderDetailValue}>
-                {scheduleType === 'scheduled'
-                  ? `${scheduledDate} at ${scheduledTime}`
+                {scheduleType === 'scheduled' && selectedSlot
+                  ? formatScheduledTime(selectedSlot.slot_start)
                   : 'Immediate'
                 }
               </Text>
@@ -666,7 +726,7 @@ export default function CheckoutScreen() {
               <View style={styles.orderDetailRow}>
                 <Text style={styles.orderDetailLabel}>Delivery Address</Text>
                 <Text style={[styles.orderDetailValue, styles.addressText]}>
-                  {deliveryAddress}
+                  {selectedAddress ? selectedAddress.address_line : deliveryAddress}
                 </Text>
               </View>
             )}
@@ -675,7 +735,7 @@ export default function CheckoutScreen() {
 
             <View style={styles.orderDetailRow}>
               <Text style={styles.orderDetailLabel}>Total Amount</Text>
-              <Text style={styles.orderTotalValue}>₦{calculateTotal().toFixed(2)}</Text>
+              <Text style={styles.orderTotalValue}>₦{(quote?.total ?? 0).toFixed(2)}</Text>
             </View>
           </View>
 
@@ -686,7 +746,7 @@ export default function CheckoutScreen() {
                 <Text style={styles.bankTransferReminderTitle}>Payment Reminder</Text>
               </View>
               <Text style={styles.bankTransferReminderText}>
-                Please include your Order ID <Text style={styles.orderIdHighlight}>#{orderNumber}</Text> in the transfer details/narration when making the bank transfer. This helps us verify your payment quickly.
+                Please include your Order ID <Text style={styles.orderIdHighlight}>#{orderNumber}</Text> in the transfer details/narration when making the bank transfer. This helps us verify your payment quickly. Orders not paid within {transferWindowHours} hours are cancelled automatically.
               </Text>
             </View>
           )}
@@ -796,56 +856,15 @@ export default function CheckoutScreen() {
               <TouchableOpacity
                 style={styles.checkNowButton}
                 onPress={async () => {
-                  // Manually trigger a check
-                  try {
-                    // Check for order first
-                    const { data: recentOrder } = await supabase
-                      .from('orders')
-                      .select('id, order_number, payment_status')
-                      .eq('customer_id', profile?.id)
-                      .order('created_at', { ascending: false })
-                      .limit(1)
-                      .maybeSingle();
-
-                    console.log('Manual check - Recent order:', recentOrder);
-
-                    if (recentOrder && recentOrder.payment_status === 'completed') {
-                      // Clear cart
-                      await supabase
-                        .from('carts')
-                        .delete()
-                        .eq('user_id', profile?.id);
-
-                      setWaitingForPayment(false);
-                      setSubmitting(false);
-                      setOrderNumber(recentOrder.order_number);
-                      setOrderPlaced(true);
-                      return;
-                    }
-
-                    // Check if cart is empty
-                    const { data: cartData } = await supabase
-                      .from('carts')
-                      .select('id')
-                      .eq('user_id', profile?.id);
-
-                    console.log('Manual check - Cart items:', cartData?.length);
-
-                    if (cartData && cartData.length === 0 && recentOrder) {
-                      setWaitingForPayment(false);
-                      setSubmitting(false);
-                      setOrderNumber(recentOrder.order_number);
-                      setOrderPlaced(true);
-                    } else {
-                      Alert.alert(
-                        'Still Processing',
-                        'Payment verification is still in progress. Please wait a few more seconds.',
-                        [{ text: 'OK' }]
-                      );
-                    }
-                  } catch (error) {
-                    console.error('Manual check error:', error);
-                    Alert.alert('Error', 'Failed to check payment status. Please try again.');
+                  if (!paymentReference) return;
+
+                  const intent = await checkPaymentIntent(paymentReference);
+                  if (!intent || intent.status === 'pending') {
+                    Alert.alert(
+                      'Still Processing',
+                      'Payment verification is still in progress. Please wait a few more seconds.',
+                      [{ text: 'OK' }]
+                    );
                   }
                 }}
               >
@@ -865,6 +884,7 @@ export default function CheckoutScreen() {
                       {
                         text: 'Go to Orders',
                         onPress: () => {
+                          setPaymentReference(null);
                           setWaitingForPayment(false);
                           setSubmitting(false);
                           router.replace('/(tabs)/orders');
@@ -928,9 +948,25 @@ export default function CheckoutScreen() {
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Schedule</Text>
 
+          {unavailableVendors.length > 0 && (
+            <View style={styles.closedNotice}>
+              {unavailableVendors.map((vendor) => (
+                <Text key={vendor.vendor_id} style={styles.closedNoticeText}>
+                  {availabilityMessage(vendor)}
+                </Text>
+              ))}
+              <Text style={styles.closedNoticeHint}>You can still schedule your order for later.</Text>
+            </View>
+          )}
+
           <TouchableOpacity
-            style={[styles.optionCard, scheduleType === 'immediate' && styles.optionCardActive]}
+            style={[
+              styles.optionCard,
+              scheduleType === 'immediate' && styles.optionCardActive,
+              unavailableVendors.length > 0 && styles.optionCardDisabled,
+            ]}
             onPress={() => setScheduleType('immediate')}
+            disabled={unavailableVendors.length > 0}
           >
             <View style={styles.optionIcon}>
               <Clock size={24} color={scheduleType === 'immediate' ? '#ff8c00' : '#64748b'} />
@@ -938,7 +974,9 @@ export default function CheckoutScreen() {
             <View style={styles.optionContent}>
               <Text style={styles.optionTitle}>Immediate</Text>
               <Text style={styles.optionDescription}>
-                {deliveryType === 'delivery' ? 'Deliver as soon as possible' : 'Pick up as soon as ready'}
+                {unavailableVendors.length > 0
+                  ? 'Not available right now'
+                  : deliveryType === 'delivery' ? 'Deliver as soon as possible' : 'Pick up as soon as ready'}
               </Text>
             </View>
             {scheduleType === 'immediate' && <View style={styles.selectedDot} />}
@@ -953,7 +991,7 @@ export default function CheckoutScreen() {
             </View>
             <View style={styles.optionContent}>
               <Text style={styles.optionTitle}>Schedule</Text>
-              <Text style={styles.optionDescription}>Choose a specific date and time</Text>
+              <Text style={styles.optionDescription}>Choose a delivery slot</Text>
             </View>
             {scheduleType === 'scheduled' && <View style={styles.selectedDot} />}
           </TouchableOpacity>
@@ -963,32 +1001,66 @@ export default function CheckoutScreen() {
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Select Date & Time</Text>
 
-            <View style={styles.dateTimeContainer}>
-              <View style={styles.dateTimeInputWrapper}>
-                <Calendar size={20} color="#6b7280" style={styles.inputIcon} />
-                <TextInput
-                  style={styles.dateTimeInput}
-                  placeholder="YYYY-MM-DD"
-                  placeholderTextColor="#9ca3af"
-                  value={scheduledDate}
-                  onChangeText={setScheduledDate}
-                />
-              </View>
-
-              <View style={styles.dateTimeInputWrapper}>
-                <Clock size={20} color="#6b7280" style={styles.inputIcon} />
-                <TextInput
-                  style={styles.dateTimeInput}
-                  placeholder="HH:MM (24h)"
-                  placeholderTextColor="#9ca3af"
-                  value={scheduledTime}
-                  onChangeText={setScheduledTime}
-                />
-              </View>
-            </View>
+            {slotsLoading && deliverySlots.length === 0 ? (
+              <ActivityIndicator color="#ff8c00" style={styles.slotsLoading} />
+            ) : deliverySlots.length === 0 ? (
+              <Text style={styles.helperText}>
+                No delivery slots are open in the coming week. Order now or try again later.
+              </Text>
+            ) : (
+              <>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.slotDays}>
+                  {groupSlotsByDay(deliverySlots).map((day) => (
+                    <TouchableOpacity
+                      key={day.key}
+                      style={[styles.slotDayChip, selectedSlotDay === day.key && styles.slotDayChipActive]}
+                      onPress={() => setSelectedSlotDay(day.key)}
+                    >
+                      <Calendar size={16} color={selectedSlotDay === day.key ? '#ffffff' : '#ff8c00'} />
+                      <Text style={[styles.slotDayText, selectedSlotDay === day.key && styles.slotDayTextActive]}>
+                        {day.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+
+                <View style={styles.slotGrid}>
+                  {(groupSlotsByDay(deliverySlots).find((day) => day.key === selectedSlotDay)?.slots ?? []).map((slot) => {
+                    const isFull = slot.remaining <= 0;
+                    const isSelected = selectedSlot?.slot_start === slot.slot_start;
+
+                    return (
+                      <TouchableOpacity
+                        key={slot.slot_start}
+                        style={[
+                          styles.slotChip,
+                          isSelected && styles.slotChipActive,
+                          isFull && styles.slotChipFull,
+                        ]}
+                        onPress={() => setSelectedSlot(slot)}
+                        disabled={isFull}
+                      >
+                        <Clock size={14} color={isSelected ? '#ffffff' : isFull ? '#cbd5e1' : '#64748b'} />
+                        <Text
+                          style={[
+                            styles.slotChipText,
+                            isSelected && styles.slotChipTextActive,
+                            isFull && styles.slotChipTextFull,
+                          ]}
+                        >
+                          {formatSlotTime(slot)}
+                        </Text>
+                        {isFull && <Text style={styles.slotFullLabel}>Full</Text>}
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
 
             <Text style={styles.helperText}>
-              Format: Date (2024-12-25), Time (14:30)
+              Slots follow the restaurant's opening hours. Your order is sent to the kitchen shortly
+              before your slot.
             </Text>
           </View>
         )}
@@ -1084,35 +1156,92 @@ export default function CheckoutScreen() {
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Delivery Information</Text>
 
-            <TextInput
-              style={styles.input}
-              placeholder="Full Name"
-              placeholderTextColor="#9ca3af"
-              value={deliveryName}
-              onChangeText={setDeliveryName}
-            />
-
-            <TextInput
-              style={styles.input}
-              placeholder="Phone Number"
-              placeholderTextColor="#9ca3af"
-              value={deliveryPhone}
-              onChangeText={setDeliveryPhone}
-              keyboardType="phone-pad"
-            />
-
-            <View style={styles.addressInputContainer}>
-              <MapPin size={20} color="#6b7280" style={styles.addressIcon} />
-              <TextInput
-                style={styles.addressInput}
-                placeholder="Enter your delivery address"
-                placeholderTextColor="#9ca3af"
-                value={deliveryAddress}
-                onChangeText={setDeliveryAddress}
-                multiline
-                numberOfLines={3}
-              />
-            </View>
+            {savedAddresses.map((address) => (
+              <TouchableOpacity
+                key={address.id}
+                style={[styles.addressCard, selectedAddressId === address.id && styles.addressCardActive]}
+                onPress={() => setSelectedAddressId(address.id)}
+              >
+                <MapPin size={20} color="#ff8c00" />
+                <View style={styles.addressCardContent}>
+                  <Text style={styles.addressCardLabel}>{address.label}</Text>
+                  <Text style={styles.addressCardText}>{address.address_line}</Text>
+                  {address.landmark && (
+                    <Text style={styles.addressCardMeta}>{address.landmark}</Text>
+                  )}
+                  <Text style={styles.addressCardMeta}>
+                    {address.recipient_name} · {address.phone}
+                  </Text>
+                </View>
+                {selectedAddressId === address.id && (
+                  <CheckCircle size={20} color="#ff8c00" fill="#ff8c00" />
+                )}
+              </TouchableOpacity>
+            ))}
+
+            {savedAddresses.length > 0 && (
+              <TouchableOpacity
+                style={[styles.addressCard, selectedAddressId === null && styles.addressCardActive]}
+                onPress={() => setSelectedAddressId(null)}
+              >
+                <MapPin size={20} color="#6b7280" />
+                <View style={styles.addressCardContent}>
+                  <Text style={styles.addressCardLabel}>Deliver somewhere else</Text>
+                </View>
+                {selectedAddressId === null && (
+                  <CheckCircle size={20} color="#ff8c00" fill="#ff8c00" />
+                )}
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity onPress={() => router.push('/addresses?add=1')}>
+              <Text style={styles.manageAddressesText}>
+                {savedAddresses.length > 0 ? '+ Add a new saved address' : '+ Save an address with a map pin'}
+              </Text>
+            </TouchableOpacity>
+
+            {!selectedAddress && (
+              <>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Full Name"
+                  placeholderTextColor="#9ca3af"
+                  value={deliveryName}
+                  onChangeText={setDeliveryName}
+                />
+
+                <TextInput
+                  style={styles.input}
+                  placeholder="Phone Number"
+                  placeholderTextColor="#9ca3af"
+                  value={deliveryPhone}
+                  onChangeText={setDeliveryPhone}
+                  keyboardType="phone-pad"
+                />
+
+                <View style={styles.addressInputContainer}>
+                  <MapPin size={20} color="#6b7280" style={styles.addressIcon} />
+                  <TextInput
+                    style={styles.addressInput}
+                    placeholder="Enter your delivery address"
+                    placeholderTextColor="#9ca3af"
+                    value={deliveryAddress}
+                    onChangeText={setDeliveryAddress}
+                    onBlur={() => setConfirmedAddress(deliveryAddress.trim())}
+                    multiline
+                    numberOfLines={3}
+                  />
+                </View>
+
+                <TextInput
+                  style={[styles.input, styles.landmarkInput]}
+                  placeholder="Landmark (optional)"
+                  placeholderTextColor="#9ca3af"
+                  value={deliveryLandmark}
+                  onChangeText={setDeliveryLandmark}
+                />
+              </>
+            )}
           </View>
         )}
 
@@ -1194,7 +1323,7 @@ export default function CheckoutScreen() {
               ))}
               <View style={styles.bankTransferNote}>
                 <Text style={styles.bankTransferNoteText}>
-                  ⚠️ Important: After placing your order, you will receive an Order ID. Please include this Order ID in your transfer details/narration when making the payment. Transfer the exact amount and your order will be confirmed after payment verification.
+                  ⚠️ Important: After placing your order, you will receive an Order ID. Please include this Order ID in your transfer details/narration when making the payment. Transfer the exact amount within {transferWindowHours} hours and your order will be confirmed after payment verification.
                 </Text>
               </View>
             </View>
@@ -1237,31 +1366,129 @@ export default function CheckoutScreen() {
           </TouchableOpacity>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Promo Code</Text>
+          {promoCode && quote?.promotion ? (
+            <View style={styles.promoApplied}>
+              <Tag size={20} color="#10b981" />
+              <View style={styles.promoAppliedContent}>
+                <Text style={styles.promoAppliedCode}>{quote.promotion.code}</Text>
+                {quote.promotion.description && (
+                  <Text style={styles.promoAppliedDescription}>{quote.promotion.description}</Text>
+                )}
+              </View>
+              <TouchableOpacity onPress={removePromoCode}>
+                <Text style={styles.promoRemoveText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.promoRow}>
+              <TextInput
+                style={styles.promoInput}
+                placeholder="Enter promo code"
+                placeholderTextColor="#9ca3af"
+                value={promoInput}
+                onChangeText={(text) => {
+                  setPromoInput(text);
+                  // Editing a rejected code drops it until Apply is pressed again
+                  if (promoCode) {
+                    setPromoCode(null);
+                    setPromoError(null);
+                  }
+                }}
+                autoCapitalize="characters"
+              />
+              <TouchableOpacity
+                style={[styles.promoButton, !promoInput.trim() && styles.buttonDisabled]}
+                onPress={applyPromoCode}
+                disabled={!promoInput.trim()}
+              >
+                <Text style={styles.promoButtonText}>Apply</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {promoError && <Text style={styles.promoErrorText}>{promoError}</Text>}
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Order Summary</Text>
           <View style={styles.summaryCard}>
-            {cartItems.map((item) => (
-              <View key={item.id} style={styles.summaryRow}>
-                <Text style={styles.summaryText}>
-                  {item.product.name} x{item.quantity}
-                </Text>
-                <Text style={styles.summaryPrice}>
-                  ₦{(item.product.price * item.quantity).toFixed(2)}
-                </Text>
-              </View>
-            ))}
+            {quote ? (
+              // Each restaurant becomes its own order with its own delivery fee
+              quote.vendor_orders.map((vendorOrder) => (
+                <View key={vendorOrder.vendor_id} style={styles.summaryVendorGroup}>
+                  {quote.vendor_orders.length > 1 && (
+                    <Text style={styles.summaryVendorName}>{vendorOrder.vendor_name}</Text>
+                  )}
+                  {quote.items
+                    .filter((item) => item.vendor_id === vendorOrder.vendor_id)
+                    .map((item) => (
+                      <View key={item.cart_id} style={styles.summaryRow}>
+                        <Text style={styles.summaryText}>
+                          {item.name} x{item.quantity}
+                          {item.selected_options.length > 0 && (
+                            <Text style={styles.summaryOptions}>
+                              {'\n'}{formatSelectedOptions(item.selected_options)}
+                            </Text>
+                          )}
+                        </Text>
+                        <Text style={styles.summaryPrice}>
+                          ₦{item.subtotal.toFixed(2)}
+                        </Text>
+                      </View>
+                    ))}
+                  {quote.vendor_orders.length > 1 && deliveryType === 'delivery' && (
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.summaryText}>
+                        Delivery Fee{vendorOrder.distance_km != null ? ` (${vendorOrder.distance_km} km)` : ''}
+                      </Text>
+                      <Text style={styles.summaryPrice}>₦{vendorOrder.delivery_fee.toFixed(2)}</Text>
+                    </View>
+                  )}
+                </View>
+              ))
+            ) : (
+              cartItems.map((item) => (
+                <View key={item.id} style={styles.summaryRow}>
+                  <Text style={styles.summaryText}>
+                    {item.product.name} x{item.quantity}
+                    {item.selected_options.length > 0 && (
+                      <Text style={styles.summaryOptions}>
+                        {'\n'}{formatSelectedOptions(item.selected_options)}
+                      </Text>
+                    )}
+                  </Text>
+                  <Text style={styles.summaryPrice}>
+                    ₦{((item.product.price + optionsTotal(item.selected_options)) * item.quantity).toFixed(2)}
+                  </Text>
+                </View>
+              ))
+            )}
 
             <View style={styles.divider} />
 
             <View style={styles.summaryRow}>
               <Text style={styles.summaryLabel}>Subtotal</Text>
-              <Text style={styles.summaryValue}>₦{calculateSubtotal().toFixed(2)}</Text>
+              <Text style={styles.summaryValue}>₦{(quote?.subtotal ?? calculateSubtotal()).toFixed(2)}</Text>
             </View>
 
             {deliveryType === 'delivery' && (
               <View style={styles.summaryRow}>
                 <Text style={styles.summaryLabel}>Delivery Fee</Text>
-                <Text style={styles.summaryValue}>₦{DELIVERY_FEE.toFixed(2)}</Text>
+                <Text style={styles.summaryValue}>
+                  {quote ? `₦${quote.delivery_fee.toFixed(2)}` : '—'}
+                </Text>
+              </View>
+            )}
+
+            {quote && quote.discount_total > 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>
+                  Discount{quote.promotion ? ` (${quote.promotion.code})` : ''}
+                </Text>
+                <Text style={[styles.summaryValue, styles.discountValue]}>
+                  -₦{quote.discount_total.toFixed(2)}
+                </Text>
               </View>
             )}
 
@@ -1269,8 +1496,10 @@ export default function CheckoutScreen() {
 
             <View style={styles.summaryRow}>
               <Text style={styles.totalLabel}>Total</Text>
-              <Text style={styles.totalValue}>₦{calculateTotal().toFixed(2)}</Text>
+              <Text style={styles.totalValue}>{quote ? `₦${quote.total.toFixed(2)}` : '—'}</Text>
             </View>
+
+            {quoteError && <Text style={styles.quoteErrorText}>{quoteError}</Text>}
           </View>
         </View>
       </ScrollView>
@@ -1400,6 +1629,29 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 4,
   },
+  optionCardDisabled: {
+    opacity: 0.5,
+  },
+  closedNotice: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 14,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    gap: 4,
+  },
+  closedNoticeText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#b91c1c',
+  },
+  closedNoticeHint: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#7f1d1d',
+    marginTop: 2,
+  },
   optionIcon: {
     width: 52,
     height: 52,
@@ -1475,6 +1727,48 @@ const styles = StyleSheet.create({
     textAlignVertical: 'top',
     fontWeight: '600',
   },
+  landmarkInput: {
+    marginTop: 16,
+  },
+  addressCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 2.5,
+    borderColor: '#e2e8f0',
+  },
+  addressCardActive: {
+    borderColor: '#ff8c00',
+    backgroundColor: '#fff7ed',
+  },
+  addressCardContent: {
+    flex: 1,
+  },
+  addressCardLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  addressCardText: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 2,
+  },
+  addressCardMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  manageAddressesText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ff8c00',
+    marginBottom: 16,
+  },
   summaryCard: {
     backgroundColor: '#ffffff',
     borderRadius: 20,
@@ -1485,17 +1779,93 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 3,
   },
+  promoRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  promoInput: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    paddingHorizontal: 18,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#1f2937',
+    borderWidth: 2.5,
+    borderColor: '#e2e8f0',
+    fontWeight: '600',
+  },
+  promoButton: {
+    backgroundColor: '#ff8c00',
+    borderRadius: 16,
+    paddingHorizontal: 22,
+    justifyContent: 'center',
+  },
+  promoButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  promoApplied: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#ecfdf5',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 2.5,
+    borderColor: '#10b981',
+  },
+  promoAppliedContent: {
+    flex: 1,
+  },
+  promoAppliedCode: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#065f46',
+  },
+  promoAppliedDescription: {
+    fontSize: 13,
+    color: '#047857',
+    marginTop: 2,
+  },
+  promoRemoveText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  promoErrorText: {
+    fontSize: 13,
+    color: '#ef4444',
+    marginTop: 8,
+  },
+  discountValue: {
+    color: '#10b981',
+  },
   summaryRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     marginBottom: 12,
   },
+  summaryVendorGroup: {
+    marginBottom: 4,
+  },
+  summaryVendorName: {
+    fontSize: 15,
+    fontFamily: 'Poppins-SemiBold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
   summaryText: {
     fontSize: 14,
     fontFamily: 'Inter-Regular',
     color: '#6b7280',
     flex: 1,
   },
+  summaryOptions: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
   summaryPrice: {
     fontSize: 14,
     fontFamily: 'Inter-Medium',
@@ -1527,6 +1897,12 @@ const styles = StyleSheet.create({
     color: '#ff8c00',
     letterSpacing: 0.5,
   },
+  quoteErrorText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    color: '#ef4444',
+    marginTop: 8,
+  },
   footer: {
     backgroundColor: '#ffffff',
     paddingHorizontal: 20,
@@ -1746,31 +2122,76 @@ const styles = StyleSheet.create({
     fontFamily: 'Poppins-Bold',
     letterSpacing: 0.5,
   },
-  dateTimeContainer: {
-    gap: 12,
+  slotsLoading: {
+    paddingVertical: 16,
+  },
+  slotDays: {
+    gap: 10,
+    paddingBottom: 4,
   },
-  dateTimeInputWrapper: {
+  slotDayChip: {
     flexDirection: 'row',
     alignItems: 'center',
+    gap: 6,
     backgroundColor: '#ffffff',
-    borderRadius: 16,
-    padding: 18,
-    borderWidth: 2.5,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderWidth: 2,
     borderColor: '#ff8c00',
-    shadowColor: '#ff8c00',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.15,
-    shadowRadius: 5,
-    elevation: 4,
   },
-  inputIcon: {
-    marginRight: 12,
+  slotDayChipActive: {
+    backgroundColor: '#ff8c00',
   },
-  dateTimeInput: {
-    flex: 1,
-    fontSize: 16,
-    color: '#1f2937',
-    fontWeight: '600',
+  slotDayText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ff8c00',
+  },
+  slotDayTextActive: {
+    color: '#ffffff',
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginTop: 14,
+  },
+  slotChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 2,
+    borderColor: '#e2e8f0',
+  },
+  slotChipActive: {
+    backgroundColor: '#ff8c00',
+    borderColor: '#ff8c00',
+  },
+  slotChipFull: {
+    backgroundColor: '#f1f5f9',
+    borderColor: '#f1f5f9',
+  },
+  slotChipText: {
+    fontSize: 13,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1e293b',
+  },
+  slotChipTextActive: {
+    color: '#ffffff',
+  },
+  slotChipTextFull: {
+    color: '#cbd5e1',
+    textDecorationLine: 'line-through',
+  },
+  slotFullLabel: {
+    fontSize: 11,
+    fontFamily: 'Inter-SemiBold',
+    color: '#94a3b8',
   },
   helperText: {
     fontSize: 13,
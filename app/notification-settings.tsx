@@ -0,0 +1,238 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Switch,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ArrowLeft, BellOff } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { NOTIFICATION_TYPES } from '@/lib/pushNotifications';
+
+export default function NotificationSettingsScreen() {
+  const { profile } = useAuth();
+  const insets = useSafeAreaInsets();
+  const [muted, setMuted] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const options = NOTIFICATION_TYPES.filter((option) => profile && option.roles.includes(profile.role));
+
+  useEffect(() => {
+    if (profile) {
+      fetchPreferences();
+    }
+  }, [profile]);
+
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(message);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const fetchPreferences = async () => {
+    if (!profile) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('notification_type, push_enabled')
+        .eq('user_id', profile.id);
+
+      if (error) throw error;
+      setMuted(new Set((data || []).filter((row) => !row.push_enabled).map((row) => row.notification_type)));
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const togglePreference = async (type: string, enabled: boolean) => {
+    if (!profile) return;
+
+    const previous = muted;
+    const next = new Set(muted);
+    if (enabled) {
+      next.delete(type);
+    } else {
+      next.add(type);
+    }
+    setMuted(next);
+
+    try {
+      setSaving(type);
+      const { error } = await supabase.from('notification_preferences').upsert({
+        user_id: profile.id,
+        notification_type: type,
+        push_enabled: enabled,
+        updated_at: new Date().toISOString(),
+      });
+
+      if (error) throw error;
+    } catch (error: any) {
+      console.error('Error saving notification preference:', error);
+      setMuted(previous);
+      showMessage('Error', error.message || 'Failed to save preference');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#ff8c00" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Notifications</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.intro}>
+          Choose which updates are pushed to your phone. Everything still appears in the app.
+        </Text>
+
+        {Platform.OS === 'web' && (
+          <View style={styles.webNotice}>
+            <BellOff size={18} color="#9a3412" />
+            <Text style={styles.webNoticeText}>
+              Push notifications are only sent to the mobile app.
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          {options.map((option, index) => (
+            <View
+              key={option.type}
+              style={[styles.row, index < options.length - 1 && styles.rowDivider]}
+            >
+              <View style={styles.rowText}>
+                <Text style={styles.rowLabel}>{option.label}</Text>
+                <Text style={styles.rowDescription}>{option.description}</Text>
+              </View>
+              <Switch
+                value={!muted.has(option.type)}
+                onValueChange={(value) => togglePreference(option.type, value)}
+                disabled={saving === option.type}
+                trackColor={{ false: '#e2e8f0', true: '#fdba74' }}
+                thumbColor={!muted.has(option.type) ? '#ff8c00' : '#f8fafc'}
+              />
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#ff8c00',
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 16,
+  },
+  webNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fff7ed',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  webNoticeText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#9a3412',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 20,
+    paddingHorizontal: 18,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    gap: 12,
+  },
+  rowDivider: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  rowDescription: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+});
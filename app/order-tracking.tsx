@@ -18,10 +18,19 @@ import {
   Phone,
   Calendar,
   XCircle,
+  Navigation,
+  KeyRound,
+  ShieldCheck,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
-import { Order, OrderStatus } from '@/types/database';
+import { estimateEtaMinutes } from '@/lib/geo';
+import { Order, OrderLocationPing, OrderRefund, OrderStatus } from '@/types/database';
+import { canCancelOrder, cancellationReasonLabel } from '@/lib/orderCancellation';
+import { formatScheduledTime } from '@/lib/scheduledOrders';
 import OrderItemsList from '@/components/OrderItemsList';
+import LocationMap, { MapMarker } from '@/components/LocationMap';
+import DeliveryProof from '@/components/DeliveryProof';
+import CancelOrderModal from '@/components/CancelOrderModal';
 
 interface OrderItem {
   id: string;
@@ -39,9 +48,19 @@ interface OrderWithItems extends Order {
   vendor: {
     business_name: string;
     address: string;
+    latitude: number | null;
+    longitude: number | null;
   };
 }
 
+// Statuses during which a rider is on the way to the vendor or the customer
+const liveTrackingStatuses: OrderStatus[] = [
+  'confirmed',
+  'arrived_at_vendor',
+  'pickup_complete',
+  'arrived_at_customer',
+];
+
 const statusIcons: Record<OrderStatus, any> = {
   pending: Clock,
   confirmed: CheckCircle,
@@ -84,6 +103,42 @@ export default function OrderTrackingScreen() {
   const { orderId } = useLocalSearchParams();
   const [order, setOrder] = useState<OrderWithItems | null>(null);
   const [loading, setLoading] = useState(true);
+  const [riderLocation, setRiderLocation] = useState<OrderLocationPing | null>(null);
+  const [deliveryCode, setDeliveryCode] = useState<string | null>(null);
+  const [refund, setRefund] = useState<OrderRefund | null>(null);
+  const [showCancelModal, setShowCancelModal] = useState(false);
+
+  const isLiveTracked =
+    !!order &&
+    order.delivery_type === 'delivery' &&
+    !!order.assigned_rider_id &&
+    liveTrackingStatuses.includes(order.status);
+
+  useEffect(() => {
+    if (!orderId || !isLiveTracked) return;
+
+    fetchLatestRiderLocation();
+
+    const channel = supabase
+      .channel(`order-location-${orderId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'order_location_pings',
+          filter: `order_id=eq.${orderId}`,
+        },
+        (payload) => {
+          setRiderLocation(payload.new as OrderLocationPing);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orderId, isLiveTracked]);
 
   useEffect(() => {
     if (orderId) {
@@ -112,6 +167,22 @@ export default function OrderTrackingScreen() {
     }
   }, [orderId]);
 
+  const fetchLatestRiderLocation = async () => {
+    const { data, error } = await supabase
+      .from('order_location_pings')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('recorded_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching rider location:', error);
+      return;
+    }
+    setRiderLocation(data);
+  };
+
   const fetchOrderDetails = async () => {
     try {
       setLoading(true);
@@ -142,10 +213,32 @@ export default function OrderTrackingScreen() {
         return;
       }
 
+      if (data.delivery_proof_requirements?.code && data.status !== 'delivered') {
+        const { data: codeData } = await supabase
+          .from('order_delivery_codes')
+          .select('code')
+          .eq('order_id', data.id)
+          .maybeSingle();
+        setDeliveryCode(codeData?.code ?? null);
+      } else {
+        setDeliveryCode(null);
+      }
+
+      if (data.status === 'cancelled') {
+        const { data: refundData } = await supabase
+          .from('order_refunds')
+          .select('*')
+          .eq('order_id', data.id)
+          .maybeSingle();
+        setRefund(refundData);
+      } else {
+        setRefund(null);
+      }
+
       // Fetch vendor info separately
       const { data: vendorData } = await supabase
         .from('vendors')
-        .select('business_name, address')
+        .select('business_name, address, latitude, longitude')
         .eq('user_id', data.vendor_id)
         .maybeSingle();
 
@@ -164,6 +257,8 @@ export default function OrderTrackingScreen() {
         vendor: {
           business_name: vendorData?.business_name || 'Unknown Vendor',
           address: vendorData?.address || 'N/A',
+          latitude: vendorData?.latitude ?? null,
+          longitude: vendorData?.longitude ?? null,
         },
       };
 
@@ -210,6 +305,90 @@ export default function OrderTrackingScreen() {
     return timestamps[status];
   };
 
+  // Heads for the vendor until pickup, then for the customer's pin
+  const getRiderTarget = () => {
+    if (!order) return null;
+    const beforePickup = order.status === 'confirmed' || order.status === 'arrived_at_vendor';
+    if (beforePickup) {
+      return order.vendor.latitude != null && order.vendor.longitude != null
+        ? { latitude: Number(order.vendor.latitude), longitude: Number(order.vendor.longitude) }
+        : null;
+    }
+    const snapshot = order.delivery_address_snapshot;
+    return snapshot?.latitude != null && snapshot?.longitude != null
+      ? { latitude: Number(snapshot.latitude), longitude: Number(snapshot.longitude) }
+      : null;
+  };
+
+  const getPrepStatusText = () => {
+    if (!order) return null;
+    if (order.status === 'pending' && order.accept_by) {
+      return 'Waiting for the restaurant to accept your order';
+    }
+    if (order.status === 'confirmed' && order.accepted_at && order.estimated_prep_minutes) {
+      const readyAt = new Date(
+        new Date(order.accepted_at).getTime() + order.estimated_prep_minutes * 60000
+      );
+      return `Expected to be ready around ${readyAt.toLocaleTimeString('en-US', {
+        hour: '2-digit',
+        minute: '2-digit',
+      })}`;
+    }
+    return null;
+  };
+
+  const getRiderStatusText = () => {
+    if (!order || !riderLocation) return "Waiting for your rider's location...";
+    if (order.status === 'arrived_at_vendor') return 'Your rider is collecting your order';
+    if (order.status === 'arrived_at_customer') return 'Your rider has arrived';
+
+    const target = getRiderTarget();
+    if (!target) return 'Your rider is on the way';
+
+    const eta = estimateEtaMinutes(
+      { latitude: Number(riderLocation.latitude), longitude: Number(riderLocation.longitude) },
+      target,
+      riderLocation.speed != null ? Number(riderLocation.speed) : null
+    );
+    return order.status === 'confirmed'
+      ? `Rider reaches the restaurant in about ${eta} min`
+      : `Arriving in about ${eta} min`;
+  };
+
+  const getMapMarkers = (): MapMarker[] => {
+    if (!order) return [];
+    const markers: MapMarker[] = [];
+    if (order.vendor.latitude != null && order.vendor.longitude != null) {
+      markers.push({
+        id: 'vendor',
+        latitude: Number(order.vendor.latitude),
+        longitude: Number(order.vendor.longitude),
+        label: order.vendor.business_name,
+        color: '#3b82f6',
+      });
+    }
+    const snapshot = order.delivery_address_snapshot;
+    if (snapshot?.latitude != null && snapshot?.longitude != null) {
+      markers.push({
+        id: 'destination',
+        latitude: Number(snapshot.latitude),
+        longitude: Number(snapshot.longitude),
+        label: 'Delivery address',
+        color: '#059669',
+      });
+    }
+    if (riderLocation) {
+      markers.push({
+        id: 'rider',
+        latitude: Number(riderLocation.latitude),
+        longitude: Number(riderLocation.longitude),
+        label: 'Your rider',
+        color: '#ff8c00',
+      });
+    }
+    return markers;
+  };
+
   const getCurrentStepIndex = () => {
     if (!order) return 0;
     if (order.status === 'cancelled') return -1;
@@ -267,9 +446,73 @@ export default function OrderTrackingScreen() {
             <Text style={[styles.currentStatusText, { color: statusColors[order.status] }]}>
               {statusLabels[order.status]}
             </Text>
+            {getPrepStatusText() && (
+              <Text style={styles.prepStatusText}>{getPrepStatusText()}</Text>
+            )}
           </View>
         </View>
 
+        {isCancelled && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <XCircle size={20} color="#ef4444" />
+              <Text style={styles.cardTitle}>Cancellation</Text>
+            </View>
+            <View style={styles.cardContent}>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Reason</Text>
+                <Text style={styles.infoValue}>{cancellationReasonLabel(order.cancellation_reason)}</Text>
+              </View>
+              {order.cancellation_note && (
+                <View style={styles.infoRow}>
+                  <Text style={styles.infoLabel}>Note</Text>
+                  <Text style={styles.infoValue}>{order.cancellation_note}</Text>
+                </View>
+              )}
+              {refund && (
+                <View style={styles.infoRow}>
+                  <Text style={styles.infoLabel}>Refund</Text>
+                  <Text style={styles.infoValue}>
+                    ₦{Number(refund.amount).toFixed(2)} to your {refund.method === 'wallet' ? 'wallet' : 'card'}
+                    {refund.status === 'completed' ? '' : ' (processing)'}
+                  </Text>
+                </View>
+              )}
+            </View>
+          </View>
+        )}
+
+        {deliveryCode && !isCancelled && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <KeyRound size={20} color="#ff8c00" />
+              <Text style={styles.cardTitle}>Delivery Code</Text>
+            </View>
+            <View style={styles.cardContent}>
+              <Text style={styles.deliveryCode}>{deliveryCode}</Text>
+              <Text style={styles.deliveryCodeHint}>
+                Give this code to your rider only once you have your order.
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {isLiveTracked && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Navigation size={20} color="#ff8c00" />
+              <Text style={styles.cardTitle}>Live Tracking</Text>
+            </View>
+            <Text style={styles.etaText}>{getRiderStatusText()}</Text>
+            <LocationMap markers={getMapMarkers()} style={styles.liveMap} />
+            {riderLocation && (
+              <Text style={styles.lastUpdatedText}>
+                Updated {formatStepTime(riderLocation.recorded_at)}
+              </Text>
+            )}
+          </View>
+        )}
+
         {!isCancelled && (
           <View style={styles.trackingContainer}>
             {statusSteps.map((step, index) => {
@@ -329,6 +572,24 @@ export default function OrderTrackingScreen() {
           </View>
         )}
 
+        {order.status === 'delivered' && order.delivery_type === 'delivery' && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <ShieldCheck size={20} color="#ff8c00" />
+              <Text style={styles.cardTitle}>Proof of Delivery</Text>
+            </View>
+            <View style={styles.cardContent}>
+              <DeliveryProof
+                deliveredAt={order.delivered_at}
+                confirmationMethod={order.customer_confirmation_method}
+                codeVerifiedAt={order.delivery_code_verified_at}
+                photoPath={order.delivery_photo_path}
+                signature={order.delivery_signature}
+              />
+            </View>
+          </View>
+        )}
+
         <View style={styles.card}>
           <View style={styles.cardHeader}>
             <MapPin size={20} color="#ff8c00" />
@@ -341,6 +602,14 @@ export default function OrderTrackingScreen() {
                 {order.delivery_type === 'delivery' ? 'Home Delivery' : 'Pickup'}
               </Text>
             </View>
+            {order.is_scheduled && order.scheduled_delivery_time && (
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Scheduled For</Text>
+                <Text style={[styles.infoValue, styles.mealTimeText]}>
+                  {formatScheduledTime(order.scheduled_delivery_time)}
+                </Text>
+              </View>
+            )}
             {order.meal_time_preference && (
               <View style={styles.infoRow}>
                 <Text style={styles.infoLabel}>Meal Time</Text>
@@ -401,6 +670,12 @@ export default function OrderTrackingScreen() {
               <Text style={styles.infoLabel}>Delivery Fee</Text>
               <Text style={styles.infoValue}>₦{order.delivery_fee.toFixed(2)}</Text>
             </View>
+            {order.discount_total > 0 && (
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Discount</Text>
+                <Text style={[styles.infoValue, styles.discountValue]}>-₦{order.discount_total.toFixed(2)}</Text>
+              </View>
+            )}
             <View style={styles.infoRow}>
               <Text style={styles.infoLabel}>Tax</Text>
               <Text style={styles.infoValue}>₦{order.tax.toFixed(2)}</Text>
@@ -423,8 +698,23 @@ export default function OrderTrackingScreen() {
           </View>
         )}
 
+        {canCancelOrder(order, 'customer') && (
+          <TouchableOpacity style={styles.cancelOrderButton} onPress={() => setShowCancelModal(true)}>
+            <XCircle size={20} color="#ef4444" />
+            <Text style={styles.cancelOrderText}>Cancel Order</Text>
+          </TouchableOpacity>
+        )}
+
         <View style={styles.bottomSpacer} />
       </ScrollView>
+
+      <CancelOrderModal
+        visible={showCancelModal}
+        order={order}
+        role="customer"
+        onClose={() => setShowCancelModal(false)}
+        onCancelled={fetchOrderDetails}
+      />
     </View>
   );
 }
@@ -490,6 +780,12 @@ const styles = StyleSheet.create({
     fontWeight: '800',
     letterSpacing: 0.5,
   },
+  prepStatusText: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 8,
+    textAlign: 'center',
+  },
   header: {
     backgroundColor: '#ff8c00',
     paddingTop: 60,
@@ -651,6 +947,39 @@ const styles = StyleSheet.create({
   cardContent: {
     padding: 18,
   },
+  deliveryCode: {
+    fontSize: 36,
+    fontWeight: '800',
+    letterSpacing: 12,
+    textAlign: 'center',
+    color: '#1e293b',
+  },
+  deliveryCodeHint: {
+    fontSize: 13,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  etaText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ff8c00',
+    paddingHorizontal: 18,
+    paddingTop: 14,
+    paddingBottom: 12,
+  },
+  liveMap: {
+    height: 240,
+    marginHorizontal: 18,
+    borderRadius: 14,
+    overflow: 'hidden',
+  },
+  lastUpdatedText: {
+    fontSize: 12,
+    color: '#6b7280',
+    paddingHorizontal: 18,
+    paddingVertical: 12,
+  },
   infoRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -670,6 +999,9 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     lineHeight: 20,
   },
+  discountValue: {
+    color: '#10b981',
+  },
   mealTimeText: {
     color: '#ff8c00',
     fontWeight: '800',
@@ -720,6 +1052,23 @@ const styles = StyleSheet.create({
     color: '#4b5563',
     lineHeight: 20,
   },
+  cancelOrderButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    backgroundColor: '#fef2f2',
+  },
+  cancelOrderText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
   bottomSpacer: {
     height: 32,
   },
@@ -24,16 +24,17 @@ export default function PaymentSuccessScreen() {
         return;
       }
 
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .select('order_number')
+      // One payment can cover several vendor orders, so look up their group
+      const { data: group, error: groupError } = await supabase
+        .from('checkout_groups')
+        .select('group_number')
         .eq('payment_reference', reference)
         .eq('customer_id', profile.id)
         .maybeSingle();
 
-      if (orderError) throw orderError;
+      if (groupError) throw groupError;
 
-      if (!order) {
+      if (!group) {
         setError('Order not found. Please contact support.');
         setLoading(false);
         return;
@@ -44,7 +45,7 @@ export default function PaymentSuccessScreen() {
         .delete()
         .eq('user_id', profile.id);
 
-      setOrderNumber(order.order_number);
+      setOrderNumber(group.group_number);
     } catch (err: any) {
       console.error('Error verifying payment:', err);
       setError('Failed to verify payment. Please contact support.');
@@ -8,6 +8,7 @@ import {
   ActivityIndicator,
   TouchableOpacity,
   Image,
+  Alert,
 } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -24,9 +25,11 @@ import {
   Inter_600SemiBold,
 } from '@expo-google-fonts/inter';
 import { supabase } from '@/lib/supabase';
-import { Product, Vendor } from '@/types/database';
+import { Product, Vendor, VendorAvailability } from '@/types/database';
 import { useAuth } from '@/contexts/AuthContext';
 import { cartEvents } from '@/lib/cartEvents';
+import { isSoldOut, stockLabel } from '@/lib/stock';
+import { availabilityMessage, fetchVendorAvailability } from '@/lib/vendorHours';
 import ProductDetailModal from '@/components/ProductDetailModal';
 import ProductCard from '@/components/ProductCard';
 import CartIconWithBadge from '@/components/CartIconWithBadge';
@@ -37,6 +40,7 @@ export default function RestaurantDetail() {
   const { profile } = useAuth();
   const insets = useSafeAreaInsets();
   const [vendor, setVendor] = useState<Vendor | null>(null);
+  const [availability, setAvailability] = useState<VendorAvailability | null>(null);
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
@@ -70,11 +74,17 @@ export default function RestaurantDetail() {
       if (vendorError) throw vendorError;
       setVendor(vendorData);
 
+      // Opening hours are worked out on the server in the vendor's time zone
+      fetchVendorAvailability([id])
+        .then((result) => setAvailability(result[0] ?? null))
+        .catch((error) => console.error('Error checking restaurant hours:', error));
+
       const { data: productsData, error: productsError } = await supabase
         .from('products')
         .select('*')
         .eq('vendor_id', id)
-        .eq('is_available', true)
+        // Items that sold out stay on the menu, marked as sold out
+        .or('is_available.eq.true,sold_out_at.not.is.null')
         .order('name');
 
       if (productsError) throw productsError;
@@ -96,20 +106,37 @@ export default function RestaurantDetail() {
     setSelectedProduct(null);
   };
 
-  const addToCart = async (productId: string, e?: any) => {
+  const addToCart = async (product: Product, e?: any) => {
     if (e) {
       e.stopPropagation();
     }
     if (!profile) return;
 
     try {
+      // Products with options need a choice first, so send them to the detail sheet
+      const { count } = await supabase
+        .from('product_option_groups')
+        .select('id', { count: 'exact', head: true })
+        .eq('product_id', product.id);
+
+      if (count && count > 0) {
+        openProductDetail(product);
+        return;
+      }
+
       const { data: existingItem } = await supabase
         .from('carts')
         .select('id, quantity')
         .eq('user_id', profile.id)
-        .eq('product_id', productId)
+        .eq('product_id', product.id)
+        .eq('options_key', '')
         .maybeSingle();
 
+      if (existingItem && existingItem.quantity >= product.stock_quantity) {
+        Alert.alert('Not Enough Stock', `Only ${product.stock_quantity} of ${product.name} left`);
+        return;
+      }
+
       if (existingItem) {
         const { error } = await supabase
           .from('carts')
@@ -122,8 +149,9 @@ export default function RestaurantDetail() {
           .from('carts')
           .insert({
             user_id: profile.id,
-            product_id: productId,
+            product_id: product.id,
             quantity: 1,
+            unit_price: product.price,
           });
 
         if (error) throw error;
@@ -225,10 +253,23 @@ export default function RestaurantDetail() {
             </Text>
           )}
 
-          {!vendor.is_accepting_orders && (
-            <View style={styles.closedBanner}>
-              <Text style={styles.closedText}>Currently not accepting orders</Text>
-            </View>
+          {availability ? (
+            !availability.can_order_now && (
+              <View style={styles.closedBanner}>
+                <Text style={styles.closedText}>{availabilityMessage(availability)}</Text>
+                {availability.is_accepting_orders && (
+                  <Text style={styles.closedHint}>
+                    You can still add items and schedule your order for later.
+                  </Text>
+                )}
+              </View>
+            )
+          ) : (
+            !vendor.is_accepting_orders && (
+              <View style={styles.closedBanner}>
+                <Text style={styles.closedText}>Currently not accepting orders</Text>
+              </View>
+            )
           )}
         </View>
 
@@ -245,6 +286,8 @@ export default function RestaurantDetail() {
                 const productPrice = Number(item.price) || 0;
                 const productRating = Number(item.rating) || 0;
                 const totalReviews = Number(item.total_reviews) || 0;
+                const soldOut = isSoldOut(item);
+                const stockText = stockLabel(item);
 
                 return (
                   <View key={item.id} style={styles.productWrapper}>
@@ -263,6 +306,12 @@ export default function RestaurantDetail() {
                       <View style={styles.productInfo}>
                         <Text style={styles.productName}>{productName}</Text>
 
+                        {stockText && (
+                          <Text style={[styles.stockText, soldOut && styles.stockTextSoldOut]}>
+                            {stockText}
+                          </Text>
+                        )}
+
                         {item.description && (
                           <Text style={styles.productDescription} numberOfLines={2}>
                             {item.description}
@@ -281,13 +330,14 @@ export default function RestaurantDetail() {
                           </View>
 
                           <TouchableOpacity
-                            style={styles.addButton}
+                            style={[styles.addButton, soldOut && styles.addButtonDisabled]}
                             onPress={(e) => {
                               e.stopPropagation();
-                              addToCart(item.id, e);
+                              addToCart(item, e);
                             }}
+                            disabled={soldOut}
                           >
-                            <Text style={styles.addButtonText}>Add</Text>
+                            <Text style={styles.addButtonText}>{soldOut ? 'Sold Out' : 'Add'}</Text>
                           </TouchableOpacity>
                         </View>
 
@@ -452,6 +502,13 @@ const styles = StyleSheet.create({
     color: '#dc2626',
     textAlign: 'center',
   },
+  closedHint: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#7f1d1d',
+    textAlign: 'center',
+    marginTop: 4,
+  },
   menuSection: {
     padding: 20,
   },
@@ -521,6 +578,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginTop: 8,
   },
+  stockText: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#c2410c',
+    marginBottom: 4,
+  },
+  stockTextSoldOut: {
+    color: '#64748b',
+  },
   productPrice: {
     fontSize: 20,
     fontFamily: 'Poppins-ExtraBold',
@@ -543,6 +609,9 @@ const styles = StyleSheet.create({
     paddingVertical: 10,
     borderRadius: 12,
   },
+  addButtonDisabled: {
+    backgroundColor: '#cbd5e1',
+  },
   addButtonText: {
     fontSize: 14,
     fontFamily: 'Poppins-Bold',
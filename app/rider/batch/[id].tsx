@@ -1,17 +1,20 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
+  Image,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
   ActivityIndicator,
   Modal,
+  TextInput,
   Linking,
   Platform,
 } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as ImagePicker from 'expo-image-picker';
 import {
   ArrowLeft,
   MapPin,
@@ -23,8 +26,12 @@ import {
   PlayCircle,
   X,
   Truck,
+  Camera,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { DEFAULT_PROOF_REQUIREMENTS, uploadDeliveryPhoto } from '@/lib/deliveryProof';
+import { DeliveryProofRequirements, DeliverySignature } from '@/types/database';
+import SignaturePad from '@/components/SignaturePad';
 
 interface BatchDeliveryOrder {
   id: string;
@@ -38,6 +45,7 @@ interface BatchDeliveryOrder {
     total: number;
     customer_id: string;
     status: string;
+    delivery_proof_requirements?: DeliveryProofRequirements;
   };
   customer: {
     full_name: string;
@@ -63,6 +71,13 @@ export default function BatchDeliveryDetailScreen() {
   const [orders, setOrders] = useState<BatchDeliveryOrder[]>([]);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [proofStop, setProofStop] = useState<BatchDeliveryOrder | null>(null);
+  const [deliveryCode, setDeliveryCode] = useState('');
+  const [proofPhotoUri, setProofPhotoUri] = useState<string | null>(null);
+  const [signature, setSignature] = useState<DeliverySignature | null>(null);
+  const [proofError, setProofError] = useState<string | null>(null);
+  // Reused if the code is wrong, so retrying doesn't upload the photo again
+  const uploadedPhoto = useRef<{ uri: string; path: string } | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -120,7 +135,8 @@ export default function BatchDeliveryDetailScreen() {
             delivery_address,
             total,
             customer_id,
-            status
+            status,
+            delivery_proof_requirements
           )
         `)
         .eq('batch_id', id)
@@ -206,33 +222,109 @@ export default function BatchDeliveryDetailScreen() {
     }
   };
 
-  const handleMarkDelivered = async (batchOrderId: string, orderId: string) => {
+  const openProofModal = (stop: BatchDeliveryOrder) => {
+    setProofStop(stop);
+    setDeliveryCode('');
+    setProofPhotoUri(null);
+    setSignature(null);
+    setProofError(null);
+    uploadedPhoto.current = null;
+  };
+
+  const takeProofPhoto = async () => {
+    const permissionResult = await ImagePicker.requestCameraPermissionsAsync();
+
+    if (!permissionResult.granted) {
+      setProofError('Please allow access to your camera to take a delivery photo');
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      quality: 0.6,
+    });
+
+    if (!result.canceled && result.assets[0]) {
+      setProofPhotoUri(result.assets[0].uri);
+    }
+  };
+
+  // Each stop is completed through complete_delivery, which checks the
+  // vendor's proof requirements; the stop is only ticked off once it succeeds
+  const handleMarkDelivered = async () => {
+    if (!proofStop) return;
+
+    const stop = proofStop;
+    const requirements = stop.order.delivery_proof_requirements ?? DEFAULT_PROOF_REQUIREMENTS;
+    if (requirements.code && !/^\d{4}$/.test(deliveryCode.trim())) {
+      setProofError('Enter the 4-digit delivery code from the customer');
+      return;
+    }
+    if (requirements.photo && !proofPhotoUri) {
+      setProofError('Take a photo of the delivered order');
+      return;
+    }
+    if (requirements.signature && !signature?.paths.length) {
+      setProofError('Ask the customer to sign');
+      return;
+    }
+
     try {
       setUpdating(true);
+      setProofError(null);
+
+      let photoPath: string | null = null;
+      if (proofPhotoUri) {
+        if (uploadedPhoto.current?.uri !== proofPhotoUri) {
+          uploadedPhoto.current = {
+            uri: proofPhotoUri,
+            path: await uploadDeliveryPhoto(stop.order.id, proofPhotoUri),
+          };
+        }
+        photoPath = uploadedPhoto.current.path;
+      }
+
+      const { data: result, error } = await supabase.rpc('complete_delivery', {
+        p_order_id: stop.order.id,
+        p_code: requirements.code ? deliveryCode.trim() : null,
+        p_photo_path: photoPath,
+        p_signature: signature?.paths.length ? signature : null,
+      });
+
+      if (error) throw error;
+
+      if (!result?.success) {
+        const attemptsLeft = result?.attempts_left;
+        setProofError(
+          attemptsLeft > 0
+            ? `${result.error}. ${attemptsLeft} ${attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`
+            : result?.error || 'Failed to complete delivery'
+        );
+        return;
+      }
 
       const { error: batchOrderError } = await supabase
         .from('batch_delivery_orders')
         .update({ delivered_at: new Date().toISOString() })
-        .eq('id', batchOrderId);
+        .eq('id', stop.id);
 
       if (batchOrderError) throw batchOrderError;
 
-      const { error: orderError } = await supabase
-        .from('orders')
-        .update({
-          status: 'delivered',
-          delivered_at: new Date().toISOString(),
-          customer_confirmation_method: 'in_app',
-        })
-        .eq('id', orderId);
+      setProofStop(null);
 
-      if (orderError) throw orderError;
+      await supabase.from('notifications').insert({
+        user_id: stop.order.customer_id,
+        type: 'order_delivered',
+        title: 'Order Delivered',
+        message: `Order #${stop.order.order_number} has been delivered successfully!`,
+        data: { order_id: stop.order.id },
+        read: false,
+      });
 
       setSuccessMessage('Stop marked as delivered!');
       await fetchBatchDetails();
 
       const allDelivered = orders.every(
-        (o) => o.id === batchOrderId || o.delivered_at
+        (o) => o.id === stop.id || o.delivered_at
       );
 
       if (allDelivered && batch) {
@@ -248,7 +340,7 @@ export default function BatchDeliveryDetailScreen() {
       }
     } catch (error: any) {
       console.error('Error marking delivered:', error);
-      setErrorMessage(error.message);
+      setProofError(error.message);
     } finally {
       setUpdating(false);
     }
@@ -462,7 +554,7 @@ export default function BatchDeliveryDetailScreen() {
                     {(orderItem.order.status === 'in_transit' || orderItem.order.status === 'picked_up') && (
                       <TouchableOpacity
                         style={styles.deliverButton}
-                        onPress={() => handleMarkDelivered(orderItem.id, orderItem.order.id)}
+                        onPress={() => openProofModal(orderItem)}
                         disabled={updating}
                       >
                         {updating ? (
@@ -515,6 +607,80 @@ export default function BatchDeliveryDetailScreen() {
         <View style={styles.bottomSpacer} />
       </ScrollView>
 
+      <Modal
+        visible={!!proofStop}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setProofStop(null)}
+      >
+        <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              Confirm Delivery{proofStop ? ` #${proofStop.order.order_number}` : ''}
+            </Text>
+            <TouchableOpacity onPress={() => setProofStop(null)}>
+              <X size={24} color="#64748b" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent} keyboardShouldPersistTaps="handled">
+            {proofStop?.order.delivery_proof_requirements?.code && (
+              <>
+                <Text style={styles.modalLabel}>Delivery Code</Text>
+                <Text style={styles.proofHint}>
+                  Ask the customer for the 4-digit code shown in their order tracking.
+                </Text>
+                <TextInput
+                  style={styles.codeInput}
+                  placeholder="0000"
+                  placeholderTextColor="#cbd5e1"
+                  value={deliveryCode}
+                  onChangeText={(value) => setDeliveryCode(value.replace(/[^0-9]/g, ''))}
+                  keyboardType="number-pad"
+                  maxLength={4}
+                />
+              </>
+            )}
+
+            <Text style={styles.modalLabel}>
+              Delivery Photo{proofStop?.order.delivery_proof_requirements?.photo ? '' : ' (Optional)'}
+            </Text>
+            {proofPhotoUri ? (
+              <TouchableOpacity onPress={takeProofPhoto}>
+                <Image source={{ uri: proofPhotoUri }} style={styles.proofPhoto} />
+                <Text style={styles.retakeText}>Tap to retake</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity style={styles.photoButton} onPress={takeProofPhoto}>
+                <Camera size={20} color="#ff8c00" />
+                <Text style={styles.photoButtonText}>Take Photo</Text>
+              </TouchableOpacity>
+            )}
+
+            {proofStop?.order.delivery_proof_requirements?.signature && (
+              <>
+                <Text style={styles.modalLabel}>Customer Signature</Text>
+                <SignaturePad value={signature} onChange={setSignature} />
+              </>
+            )}
+
+            {proofError && <Text style={styles.proofError}>{proofError}</Text>}
+
+            <TouchableOpacity
+              style={styles.confirmDeliveryButton}
+              onPress={handleMarkDelivered}
+              disabled={updating}
+            >
+              {updating ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.confirmDeliveryButtonText}>Complete Delivery</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </Modal>
+
       <Modal
         visible={!!errorMessage}
         transparent
@@ -890,6 +1056,100 @@ const styles = StyleSheet.create({
   bottomSpacer: {
     height: 32,
   },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '800',
+    color: '#1e293b',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  modalLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#334155',
+    marginBottom: 12,
+    marginTop: 8,
+  },
+  proofHint: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  codeInput: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 28,
+    fontWeight: '800',
+    letterSpacing: 12,
+    textAlign: 'center',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  photoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    borderColor: '#ff8c00',
+    backgroundColor: '#fff7ed',
+    marginBottom: 16,
+  },
+  photoButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ff8c00',
+  },
+  proofPhoto: {
+    width: '100%',
+    height: 200,
+    borderRadius: 12,
+    backgroundColor: '#f1f5f9',
+  },
+  retakeText: {
+    fontSize: 13,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  proofError: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+    marginTop: 8,
+  },
+  confirmDeliveryButton: {
+    backgroundColor: '#10b981',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+    marginBottom: 40,
+  },
+  confirmDeliveryButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
   messageOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
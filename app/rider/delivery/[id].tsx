@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
+  Image,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
@@ -13,6 +14,7 @@ import {
 } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as ImagePicker from 'expo-image-picker';
 import {
   ArrowLeft,
   MapPin,
@@ -25,8 +27,17 @@ import {
   Store,
   User,
   X,
+  Camera,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { DEFAULT_PROOF_REQUIREMENTS, uploadDeliveryPhoto } from '@/lib/deliveryProof';
+import {
+  DeliveryAddressSnapshot,
+  DeliveryProofRequirements,
+  DeliverySignature,
+} from '@/types/database';
+import { useDeliveryLocationPings } from '@/hooks/useDeliveryLocationPings';
+import SignaturePad from '@/components/SignaturePad';
 
 interface OrderDetails {
   id: string;
@@ -34,6 +45,7 @@ interface OrderDetails {
   status: string;
   total: number;
   delivery_address: string;
+  delivery_address_snapshot?: DeliveryAddressSnapshot | null;
   customer_id: string;
   vendor_id: string;
   assigned_rider_id: string;
@@ -42,6 +54,7 @@ interface OrderDetails {
   rider_arrived_at_customer_at: string | null;
   delivered_at: string | null;
   customer_confirmation_method: string | null;
+  delivery_proof_requirements?: DeliveryProofRequirements;
   notes?: string;
   vendors?: {
     user_id: string;
@@ -63,6 +76,22 @@ export default function DeliveryDetailScreen() {
   const [issueDescription, setIssueDescription] = useState('');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [showProofModal, setShowProofModal] = useState(false);
+  const [deliveryCode, setDeliveryCode] = useState('');
+  const [proofPhotoUri, setProofPhotoUri] = useState<string | null>(null);
+  const [signature, setSignature] = useState<DeliverySignature | null>(null);
+  const [proofError, setProofError] = useState<string | null>(null);
+  // Reused if the code is wrong, so retrying doesn't upload the photo again
+  const uploadedPhoto = useRef<{ uri: string; path: string } | null>(null);
+
+  // Share the rider's position with the customer until the order is finished
+  const isTrackable =
+    !!order && !order.delivered_at && order.status !== 'delivered' && order.status !== 'cancelled';
+  const locationSharing = useDeliveryLocationPings(
+    order?.id ?? null,
+    order?.assigned_rider_id ?? null,
+    isTrackable
+  );
 
   useEffect(() => {
     if (id) {
@@ -124,7 +153,12 @@ export default function DeliveryDetailScreen() {
         .eq('id', orderData.customer_id)
         .maybeSingle();
 
-      setCustomerInfo(customer || { full_name: 'Unknown', phone: 'N/A' });
+      // The recipient on the order's address can differ from the account holder
+      const snapshot = orderData.delivery_address_snapshot;
+      setCustomerInfo({
+        full_name: snapshot?.recipient_name || customer?.full_name || 'Unknown',
+        phone: snapshot?.phone || customer?.phone || 'N/A',
+      });
 
       const { data: vendorProfile } = await supabase
         .from('profiles')
@@ -206,7 +240,7 @@ export default function DeliveryDetailScreen() {
       });
 
       setSuccessMessage('Pickup confirmed! Navigate to customer');
-      openMapsNavigation(order.delivery_address);
+      openMapsNavigation(customerDestination(order));
       await fetchOrderDetails();
     } catch (error: any) {
       console.error('Error confirming pickup:', error);
@@ -250,32 +284,77 @@ export default function DeliveryDetailScreen() {
     }
   };
 
+  const takeProofPhoto = async () => {
+    const permissionResult = await ImagePicker.requestCameraPermissionsAsync();
+
+    if (!permissionResult.granted) {
+      setProofError('Please allow access to your camera to take a delivery photo');
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      quality: 0.6,
+    });
+
+    if (!result.canceled && result.assets[0]) {
+      setProofPhotoUri(result.assets[0].uri);
+    }
+  };
+
   const handleDelivered = async () => {
     if (!order) return;
 
+    const requirements = order.delivery_proof_requirements ?? DEFAULT_PROOF_REQUIREMENTS;
+    if (requirements.code && !/^\d{4}$/.test(deliveryCode.trim())) {
+      setProofError('Enter the 4-digit delivery code from the customer');
+      return;
+    }
+    if (requirements.photo && !proofPhotoUri) {
+      setProofError('Take a photo of the delivered order');
+      return;
+    }
+    if (requirements.signature && !signature?.paths.length) {
+      setProofError('Ask the customer to sign');
+      return;
+    }
+
     try {
       setUpdating(true);
-      const { error } = await supabase
-        .from('orders')
-        .update({
-          delivered_at: new Date().toISOString(),
-          status: 'delivered',
-          customer_confirmation_method: 'in_app',
-        })
-        .eq('id', order.id);
+      setProofError(null);
+
+      let photoPath: string | null = null;
+      if (proofPhotoUri) {
+        if (uploadedPhoto.current?.uri !== proofPhotoUri) {
+          uploadedPhoto.current = {
+            uri: proofPhotoUri,
+            path: await uploadDeliveryPhoto(order.id, proofPhotoUri),
+          };
+        }
+        photoPath = uploadedPhoto.current.path;
+      }
+
+      const { data: result, error } = await supabase.rpc('complete_delivery', {
+        p_order_id: order.id,
+        p_code: requirements.code ? deliveryCode.trim() : null,
+        p_photo_path: photoPath,
+        p_signature: signature?.paths.length ? signature : null,
+      });
 
       if (error) throw error;
 
-      if (order.assigned_rider_id) {
-        await supabase.from('rider_earnings').insert({
-          rider_id: order.assigned_rider_id,
-          order_id: order.id,
-          amount: (order.total * 0.1).toString(),
-          date: new Date().toISOString().split('T')[0],
-          status: 'pending',
-        });
+      if (!result?.success) {
+        const attemptsLeft = result?.attempts_left;
+        setProofError(
+          attemptsLeft > 0
+            ? `${result.error}. ${attemptsLeft} ${attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`
+            : result?.error || 'Failed to complete delivery'
+        );
+        return;
       }
 
+      setShowProofModal(false);
+
+      // The rider's earning is recorded by the database from the current earning rules
       await supabase.from('notifications').insert({
         user_id: order.customer_id,
         type: 'order_delivered',
@@ -291,7 +370,7 @@ export default function DeliveryDetailScreen() {
       }, 2000);
     } catch (error: any) {
       console.error('Error completing delivery:', error);
-      setErrorMessage(error.message);
+      setProofError(error.message);
     } finally {
       setUpdating(false);
     }
@@ -353,6 +432,15 @@ export default function DeliveryDetailScreen() {
     }
   };
 
+  // A pinned location is more reliable than geocoding the typed address
+  const customerDestination = (details: OrderDetails) => {
+    const snapshot = details.delivery_address_snapshot;
+    if (snapshot?.latitude != null && snapshot?.longitude != null) {
+      return `${snapshot.latitude},${snapshot.longitude}`;
+    }
+    return details.delivery_address;
+  };
+
   const openMapsNavigation = (address: string) => {
     const url = Platform.select({
       ios: `maps:0,0?q=${encodeURIComponent(address)}`,
@@ -401,6 +489,15 @@ export default function DeliveryDetailScreen() {
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {isTrackable && !locationSharing && (
+          <View style={styles.locationWarning}>
+            <AlertCircle size={18} color="#b45309" />
+            <Text style={styles.locationWarningText}>
+              Location access is off, so the customer can't follow this delivery. Enable it in your device settings.
+            </Text>
+          </View>
+        )}
+
         <View style={styles.progressCard}>
           <Text style={styles.progressTitle}>Delivery Progress</Text>
           <View style={styles.progressSteps}>
@@ -508,12 +605,17 @@ export default function DeliveryDetailScreen() {
           <Text style={styles.infoValue}>{customerInfo?.full_name}</Text>
           <TouchableOpacity
             style={styles.locationRow}
-            onPress={() => openMapsNavigation(order.delivery_address)}
+            onPress={() => openMapsNavigation(customerDestination(order))}
           >
             <MapPin size={16} color="#64748b" />
             <Text style={styles.locationText}>{order.delivery_address}</Text>
             <Navigation size={16} color="#10b981" />
           </TouchableOpacity>
+          {order.delivery_address_snapshot?.landmark && (
+            <Text style={styles.landmarkText}>
+              Landmark: {order.delivery_address_snapshot.landmark}
+            </Text>
+          )}
           {customerInfo?.phone && (
             <TouchableOpacity
               style={styles.phoneButton}
@@ -596,7 +698,10 @@ export default function DeliveryDetailScreen() {
               <>
                 <TouchableOpacity
                   style={[styles.actionButton, styles.successButton]}
-                  onPress={handleDelivered}
+                  onPress={() => {
+                    setProofError(null);
+                    setShowProofModal(true);
+                  }}
                   disabled={updating}
                 >
                   {updating ? (
@@ -633,6 +738,78 @@ export default function DeliveryDetailScreen() {
         <View style={styles.bottomSpacer} />
       </ScrollView>
 
+      <Modal
+        visible={showProofModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowProofModal(false)}
+      >
+        <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Confirm Delivery</Text>
+            <TouchableOpacity onPress={() => setShowProofModal(false)}>
+              <X size={24} color="#64748b" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent} keyboardShouldPersistTaps="handled">
+            {order.delivery_proof_requirements?.code && (
+              <>
+                <Text style={styles.modalLabel}>Delivery Code</Text>
+                <Text style={styles.proofHint}>
+                  Ask the customer for the 4-digit code shown in their order tracking.
+                </Text>
+                <TextInput
+                  style={styles.codeInput}
+                  placeholder="0000"
+                  placeholderTextColor="#cbd5e1"
+                  value={deliveryCode}
+                  onChangeText={(value) => setDeliveryCode(value.replace(/[^0-9]/g, ''))}
+                  keyboardType="number-pad"
+                  maxLength={4}
+                />
+              </>
+            )}
+
+            <Text style={styles.modalLabel}>
+              Delivery Photo{order.delivery_proof_requirements?.photo ? '' : ' (Optional)'}
+            </Text>
+            {proofPhotoUri ? (
+              <TouchableOpacity onPress={takeProofPhoto}>
+                <Image source={{ uri: proofPhotoUri }} style={styles.proofPhoto} />
+                <Text style={styles.retakeText}>Tap to retake</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity style={styles.photoButton} onPress={takeProofPhoto}>
+                <Camera size={20} color="#ff8c00" />
+                <Text style={styles.photoButtonText}>Take Photo</Text>
+              </TouchableOpacity>
+            )}
+
+            {order.delivery_proof_requirements?.signature && (
+              <>
+                <Text style={styles.modalLabel}>Customer Signature</Text>
+                <SignaturePad value={signature} onChange={setSignature} />
+              </>
+            )}
+
+            {proofError && <Text style={styles.proofError}>{proofError}</Text>}
+
+            <TouchableOpacity
+              style={[styles.submitButton, styles.confirmDeliveryButton]}
+              onPress={handleDelivered}
+              disabled={updating}
+            >
+              {updating ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Complete Delivery</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </Modal>
+
       <Modal
         visible={showIssueModal}
         animationType="slide"
@@ -834,6 +1011,22 @@ const styles = StyleSheet.create({
   content: {
     flex: 1,
   },
+  locationWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#fef3c7',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 12,
+    padding: 14,
+  },
+  locationWarningText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#92400e',
+  },
   progressCard: {
     backgroundColor: '#ffffff',
     marginHorizontal: 16,
@@ -929,6 +1122,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#64748b',
   },
+  landmarkText: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 8,
+  },
   phoneButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1111,6 +1309,64 @@ const styles = StyleSheet.create({
   submitButtonDisabled: {
     opacity: 0.5,
   },
+  confirmDeliveryButton: {
+    backgroundColor: '#10b981',
+    marginTop: 16,
+    marginBottom: 40,
+  },
+  proofHint: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  codeInput: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 28,
+    fontWeight: '800',
+    letterSpacing: 12,
+    textAlign: 'center',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  photoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    borderColor: '#ff8c00',
+    backgroundColor: '#fff7ed',
+    marginBottom: 16,
+  },
+  photoButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ff8c00',
+  },
+  proofPhoto: {
+    width: '100%',
+    height: 200,
+    borderRadius: 12,
+    backgroundColor: '#f1f5f9',
+  },
+  retakeText: {
+    fontSize: 13,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  proofError: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+    marginTop: 8,
+  },
   submitButtonText: {
     fontSize: 16,
     fontWeight: '700',
@@ -0,0 +1,358 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Modal,
+  Alert,
+  Platform,
+} from 'react-native';
+import { X, XCircle } from 'lucide-react-native';
+import { CancellationReason, Order } from '@/types/database';
+import {
+  CANCELLATION_REASONS,
+  CancellationResult,
+  CancellingRole,
+  cancelOrder,
+  isFullRefund,
+} from '@/lib/orderCancellation';
+
+interface CancelOrderModalProps {
+  visible: boolean;
+  order: Pick<Order, 'id' | 'order_number' | 'status' | 'total' | 'payment_method' | 'payment_status'> | null;
+  role: CancellingRole;
+  onClose: () => void;
+  onCancelled?: (result: CancellationResult) => void;
+}
+
+const formatAmount = (amount: number) => `₦${Number(amount).toFixed(2)}`;
+
+const describeRefund = (result: CancellationResult, role: CancellingRole) => {
+  if (!result.refund_amount || Number(result.refund_amount) <= 0) {
+    return 'No refund was due for this order.';
+  }
+  const amount = formatAmount(result.refund_amount);
+  const owner = role === 'customer' ? 'your' : "the customer's";
+  return result.refund_method === 'wallet'
+    ? `${amount} has been refunded to ${owner} wallet.`
+    : `${amount} is being refunded to ${owner} card.`;
+};
+
+export default function CancelOrderModal({
+  visible,
+  order,
+  role,
+  onClose,
+  onCancelled,
+}: CancelOrderModalProps) {
+  const reasons = CANCELLATION_REASONS.filter((reason) => reason.roles.includes(role));
+  const [reason, setReason] = useState<CancellationReason>(reasons[0].code);
+  const [note, setNote] = useState('');
+  const [refundTo, setRefundTo] = useState<'original' | 'wallet'>('original');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setReason(reasons[0].code);
+      setNote('');
+      setRefundTo('original');
+    }
+  }, [visible]);
+
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(message);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const submit = async () => {
+    if (!order) return;
+
+    try {
+      setSubmitting(true);
+      const result = await cancelOrder({
+        orderId: order.id,
+        reasonCode: reason,
+        note,
+        refundTo,
+      });
+
+      onClose();
+      showMessage('Order Cancelled', describeRefund(result, role));
+      onCancelled?.(result);
+    } catch (error: any) {
+      console.error('Error cancelling order:', error);
+      showMessage('Error', error.message || 'Failed to cancel order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const isPaid = order?.payment_status === 'completed';
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Cancel Order #{order?.order_number}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={24} color="#64748b" />
+            </TouchableOpacity>
+          </View>
+
+          {order && (
+            <ScrollView showsVerticalScrollIndicator={false}>
+              {role !== 'customer' && (
+                <>
+                  <Text style={styles.label}>Reason</Text>
+                  <View style={styles.chipRow}>
+                    {reasons.map((option) => (
+                      <TouchableOpacity
+                        key={option.code}
+                        style={[styles.chip, reason === option.code && styles.chipActive]}
+                        onPress={() => setReason(option.code)}
+                      >
+                        <Text style={[styles.chipText, reason === option.code && styles.chipTextActive]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              <Text style={styles.label}>
+                {role === 'customer' ? 'Tell us why (optional)' : 'Note for the customer (optional)'}
+              </Text>
+              <TextInput
+                style={[styles.input, styles.noteInput]}
+                value={note}
+                onChangeText={setNote}
+                placeholder="Add details"
+                placeholderTextColor="#9ca3af"
+                multiline
+              />
+
+              <View style={styles.refundBox}>
+                <Text style={styles.refundTitle}>Refund</Text>
+                {!isPaid ? (
+                  <Text style={styles.refundText}>Nothing has been paid, so no refund is due.</Text>
+                ) : isFullRefund(order, reason, role) ? (
+                  <Text style={styles.refundText}>
+                    {formatAmount(order.total)} will be refunded in full.
+                  </Text>
+                ) : (
+                  <Text style={styles.refundText}>
+                    The restaurant has started on this order, so a partial refund applies under the
+                    cancellation policy.
+                  </Text>
+                )}
+
+                {isPaid && order.payment_method === 'paystack' && (
+                  <View style={styles.refundOptions}>
+                    <TouchableOpacity
+                      style={[styles.refundOption, refundTo === 'original' && styles.refundOptionActive]}
+                      onPress={() => setRefundTo('original')}
+                    >
+                      <Text style={styles.refundOptionTitle}>Original card</Text>
+                      <Text style={styles.refundOptionText}>5-10 business days</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.refundOption, refundTo === 'wallet' && styles.refundOptionActive]}
+                      onPress={() => setRefundTo('wallet')}
+                    >
+                      <Text style={styles.refundOptionTitle}>Wallet</Text>
+                      <Text style={styles.refundOptionText}>Instant</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {isPaid && order.payment_method !== 'paystack' && (
+                  <Text style={styles.refundHint}>
+                    Refunds are paid into {role === 'customer' ? 'your' : "the customer's"} wallet.
+                  </Text>
+                )}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.cancelButton, submitting && styles.buttonDisabled]}
+                onPress={submit}
+                disabled={submitting}
+              >
+                {submitting ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <>
+                    <XCircle size={18} color="#ffffff" />
+                    <Text style={styles.cancelButtonText}>Cancel Order</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+
+              <TouchableOpacity style={styles.keepButton} onPress={onClose} disabled={submitting}>
+                <Text style={styles.keepButtonText}>Keep Order</Text>
+              </TouchableOpacity>
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '800',
+    color: '#1e293b',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f3f4f6',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  chipActive: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#ef4444',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4b5563',
+  },
+  chipTextActive: {
+    color: '#b91c1c',
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#1f2937',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  noteInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  refundBox: {
+    backgroundColor: '#fff7ed',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+  },
+  refundTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#9a3412',
+  },
+  refundText: {
+    fontSize: 14,
+    color: '#1f2937',
+    marginTop: 4,
+  },
+  refundHint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 8,
+  },
+  refundOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  refundOption: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#fed7aa',
+    padding: 12,
+  },
+  refundOptionActive: {
+    borderColor: '#ff8c00',
+    borderWidth: 2,
+  },
+  refundOptionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  refundOptionText: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  cancelButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#ef4444',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 20,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  keepButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  keepButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+});
@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Image, ActivityIndicator } from 'react-native';
+import { CheckCircle, KeyRound, Camera, PenLine } from 'lucide-react-native';
+import { getDeliveryPhotoUrl } from '@/lib/deliveryProof';
+import { DeliverySignature } from '@/types/database';
+import { SignaturePreview } from '@/components/SignaturePad';
+
+interface DeliveryProofProps {
+  deliveredAt?: string | null;
+  confirmationMethod?: string | null;
+  codeVerifiedAt?: string | null;
+  photoPath?: string | null;
+  signature?: DeliverySignature | null;
+}
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// What the rider recorded when completing a delivery, for customers and disputes
+export default function DeliveryProof({
+  deliveredAt,
+  confirmationMethod,
+  codeVerifiedAt,
+  photoPath,
+  signature,
+}: DeliveryProofProps) {
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [loadingPhoto, setLoadingPhoto] = useState(false);
+
+  useEffect(() => {
+    if (!photoPath) {
+      setPhotoUrl(null);
+      return;
+    }
+
+    setLoadingPhoto(true);
+    getDeliveryPhotoUrl(photoPath)
+      .then(setPhotoUrl)
+      .catch((error) => console.error('Error loading delivery photo:', error))
+      .finally(() => setLoadingPhoto(false));
+  }, [photoPath]);
+
+  const hasSignature = !!signature && signature.paths.length > 0;
+
+  return (
+    <View style={styles.container}>
+      {deliveredAt && (
+        <View style={styles.row}>
+          <CheckCircle size={18} color="#059669" />
+          <Text style={styles.rowText}>Delivered {formatTime(deliveredAt)}</Text>
+        </View>
+      )}
+
+      <View style={styles.row}>
+        <KeyRound size={18} color={codeVerifiedAt ? '#059669' : '#94a3b8'} />
+        <Text style={styles.rowText}>
+          {codeVerifiedAt
+            ? `Delivery code confirmed ${formatTime(codeVerifiedAt)}`
+            : confirmationMethod
+              ? `No delivery code (confirmed ${confirmationMethod.replace('_', ' ')})`
+              : 'No delivery code'}
+        </Text>
+      </View>
+
+      <View style={styles.row}>
+        <Camera size={18} color={photoPath ? '#059669' : '#94a3b8'} />
+        <Text style={styles.rowText}>{photoPath ? 'Delivery photo' : 'No delivery photo'}</Text>
+      </View>
+      {loadingPhoto && <ActivityIndicator size="small" color="#ff8c00" />}
+      {photoUrl && <Image source={{ uri: photoUrl }} style={styles.photo} resizeMode="cover" />}
+
+      <View style={styles.row}>
+        <PenLine size={18} color={hasSignature ? '#059669' : '#94a3b8'} />
+        <Text style={styles.rowText}>{hasSignature ? 'Customer signature' : 'No signature'}</Text>
+      </View>
+      {hasSignature && <SignaturePreview signature={signature} />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  photo: {
+    width: '100%',
+    height: 200,
+    borderRadius: 12,
+    backgroundColor: '#f1f5f9',
+  },
+});
@@ -0,0 +1,156 @@
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { Star, Leaf, Store } from 'lucide-react-native';
+import { DishSearchResult } from '@/types/database';
+
+interface DishSearchResultCardProps {
+  dish: DishSearchResult;
+  onPress: () => void;
+}
+
+export default function DishSearchResultCard({ dish, onPress }: DishSearchResultCardProps) {
+  const rating = Number(dish.rating) || 0;
+  const price = Number(dish.price) || 0;
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={onPress}>
+      {dish.image_url ? (
+        <Image source={{ uri: dish.image_url }} style={styles.image} />
+      ) : (
+        <View style={[styles.image, styles.imagePlaceholder]}>
+          <Text style={styles.imageText}>{dish.name.charAt(0).toUpperCase()}</Text>
+        </View>
+      )}
+
+      <View style={styles.content}>
+        <Text style={styles.name} numberOfLines={1}>
+          {dish.name}
+        </Text>
+
+        <View style={styles.vendorRow}>
+          <Store size={12} color="#64748b" />
+          <Text style={styles.vendorName} numberOfLines={1}>
+            {dish.vendor_name}
+          </Text>
+        </View>
+
+        {dish.description && (
+          <Text style={styles.description} numberOfLines={1}>
+            {dish.description}
+          </Text>
+        )}
+
+        <View style={styles.footer}>
+          <Text style={styles.price}>₦{price.toFixed(2)}</Text>
+
+          {rating > 0 && (
+            <View style={styles.metaItem}>
+              <Star size={12} color="#fbbf24" fill="#fbbf24" />
+              <Text style={styles.metaText}>{rating.toFixed(1)}</Text>
+            </View>
+          )}
+
+          {(dish.is_vegan || dish.is_vegetarian) && (
+            <View style={styles.dietBadge}>
+              <Leaf size={12} color="#059669" />
+              <Text style={styles.dietText}>{dish.is_vegan ? 'Vegan' : 'Vegetarian'}</Text>
+            </View>
+          )}
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 12,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  image: {
+    width: 80,
+    height: 80,
+    borderRadius: 12,
+    backgroundColor: '#f1f5f9',
+  },
+  imagePlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ff8c00',
+  },
+  imageText: {
+    fontSize: 28,
+    fontFamily: 'Poppins-Bold',
+    color: '#ffffff',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  name: {
+    fontSize: 16,
+    fontFamily: 'Poppins-Bold',
+    color: '#1e293b',
+  },
+  vendorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  vendorName: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    color: '#64748b',
+  },
+  description: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#94a3b8',
+    marginTop: 2,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 6,
+  },
+  price: {
+    fontSize: 15,
+    fontFamily: 'Poppins-Bold',
+    color: '#ff8c00',
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+  },
+  metaText: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#64748b',
+  },
+  dietBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    backgroundColor: '#ecfdf5',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  dietText: {
+    fontSize: 11,
+    fontFamily: 'Inter-SemiBold',
+    color: '#059669',
+  },
+});
@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { View, StyleSheet, Platform, ViewStyle, StyleProp } from 'react-native';
+import { WebView } from 'react-native-webview';
+
+export interface MapMarker {
+  id: string;
+  latitude: number;
+  longitude: number;
+  label?: string;
+  color?: string;
+}
+
+interface LocationMapProps {
+  markers: MapMarker[];
+  // When set, tapping the map or dragging this marker reports the new position
+  pickMarkerId?: string;
+  onPick?: (coords: { latitude: number; longitude: number }) => void;
+  // Lagos, until a marker gives the map something better to show
+  fallbackCenter?: { latitude: number; longitude: number };
+  style?: StyleProp<ViewStyle>;
+}
+
+const DEFAULT_CENTER = { latitude: 6.5244, longitude: 3.3792 };
+
+// Leaflet with OpenStreetMap tiles; markers are pushed in with postMessage so
+// the map keeps its position when they move.
+const buildMapHtml = (center: { latitude: number; longitude: number }, pickMarkerId?: string) => `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1">
+  <link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css" />
+  <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>
+  <style>
+    html, body, #map { height: 100%; margin: 0; padding: 0; }
+  </style>
+</head>
+<body>
+  <div id="map"></div>
+  <script>
+    var map = L.map('map', { zoomControl: true }).setView([${center.latitude}, ${center.longitude}], 14);
+    L.tileLayer('https://tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      maxZoom: 19,
+      attribution: '&copy; OpenStreetMap contributors'
+    }).addTo(map);
+
+    var pickMarkerId = ${JSON.stringify(pickMarkerId ?? null)};
+    var layers = {};
+    var fitted = false;
+
+    function send(message) {
+      var data = JSON.stringify(message);
+      if (window.ReactNativeWebView) {
+        window.ReactNativeWebView.postMessage(data);
+      } else if (window.parent) {
+        window.parent.postMessage(data, '*');
+      }
+    }
+
+    function icon(color) {
+      return L.divIcon({
+        className: '',
+        html: '<div style="width:18px;height:18px;border-radius:9px;border:3px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,0.4);background:' + (color || '#ff8c00') + '"></div>',
+        iconSize: [24, 24],
+        iconAnchor: [12, 12]
+      });
+    }
+
+    function setMarkers(markers) {
+      var seen = {};
+      markers.forEach(function (m) {
+        seen[m.id] = true;
+        var latLng = [m.latitude, m.longitude];
+        if (layers[m.id]) {
+          layers[m.id].setLatLng(latLng);
+        } else {
+          var marker = L.marker(latLng, { icon: icon(m.color), draggable: m.id === pickMarkerId }).addTo(map);
+          if (m.id === pickMarkerId) {
+            marker.on('dragend', function (e) {
+              var p = e.target.getLatLng();
+              send({ type: 'pick', latitude: p.lat, longitude: p.lng });
+            });
+          }
+          layers[m.id] = marker;
+        }
+        if (m.label) layers[m.id].bindTooltip(m.label);
+      });
+      Object.keys(layers).forEach(function (id) {
+        if (!seen[id]) {
+          map.removeLayer(layers[id]);
+          delete layers[id];
+        }
+      });
+      if (!fitted && markers.length > 0) {
+        fitted = true;
+        if (markers.length === 1) {
+          map.setView([markers[0].latitude, markers[0].longitude], 15);
+        } else {
+          map.fitBounds(markers.map(function (m) { return [m.latitude, m.longitude]; }), { padding: [30, 30] });
+        }
+      }
+    }
+
+    if (pickMarkerId) {
+      map.on('click', function (e) {
+        send({ type: 'pick', latitude: e.latlng.lat, longitude: e.latlng.lng });
+      });
+    }
+
+    function onMessage(event) {
+      try {
+        var message = JSON.parse(event.data);
+        if (message.type === 'markers') setMarkers(message.markers);
+      } catch (e) {}
+    }
+    window.addEventListener('message', onMessage);
+    document.addEventListener('message', onMessage);
+    send({ type: 'ready' });
+  </script>
+</body>
+</html>
+`;
+
+export default function LocationMap({
+  markers,
+  pickMarkerId,
+  onPick,
+  fallbackCenter = DEFAULT_CENTER,
+  style,
+}: LocationMapProps) {
+  const webViewRef = useRef<WebView>(null);
+  const iframeRef = useRef<any>(null);
+  const readyRef = useRef(false);
+  const markersRef = useRef(markers);
+  markersRef.current = markers;
+
+  // Built once; later changes are sent as messages
+  const html = useMemo(
+    () => buildMapHtml(markers[0] ?? fallbackCenter, pickMarkerId),
+    []
+  );
+
+  const postMarkers = () => {
+    if (!readyRef.current) return;
+    const message = JSON.stringify({ type: 'markers', markers: markersRef.current });
+    if (Platform.OS === 'web') {
+      iframeRef.current?.contentWindow?.postMessage(message, '*');
+    } else {
+      webViewRef.current?.postMessage(message);
+    }
+  };
+
+  const handleMessage = (data: string) => {
+    try {
+      const message = JSON.parse(data);
+      if (message.type === 'ready') {
+        readyRef.current = true;
+        postMarkers();
+      } else if (message.type === 'pick' && onPick) {
+        onPick({ latitude: message.latitude, longitude: message.longitude });
+      }
+    } catch (error) {
+      // Ignore messages that are not from the map
+    }
+  };
+
+  useEffect(() => {
+    postMarkers();
+  }, [markers]);
+
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+
+    const listener = (event: MessageEvent) => {
+      if (event.source === iframeRef.current?.contentWindow && typeof event.data === 'string') {
+        handleMessage(event.data);
+      }
+    };
+    window.addEventListener('message', listener);
+    return () => window.removeEventListener('message', listener);
+  }, [onPick]);
+
+  if (Platform.OS === 'web') {
+    return (
+      <View style={[styles.container, style]}>
+        <iframe ref={iframeRef} srcDoc={html} style={{ border: 0, width: '100%', height: '100%' }} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      <WebView
+        ref={webViewRef}
+        source={{ html }}
+        originWhitelist={['*']}
+        onMessage={(event) => handleMessage(event.nativeEvent.data)}
+        javaScriptEnabled
+        style={styles.webView}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: 220,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: '#e2e8f0',
+  },
+  webView: {
+    flex: 1,
+  },
+});
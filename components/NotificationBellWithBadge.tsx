@@ -0,0 +1,108 @@
+import { useEffect, useState, useCallback } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Bell } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { notificationEvents } from '@/lib/notificationEvents';
+
+interface NotificationBellWithBadgeProps {
+  size: number;
+  color: string;
+}
+
+export default function NotificationBellWithBadge({ size, color }: NotificationBellWithBadgeProps) {
+  const { profile } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchUnreadCount = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', profile.id)
+        .eq('read', false);
+
+      if (error) throw error;
+
+      setUnreadCount(count || 0);
+    } catch (error) {
+      console.error('Error fetching unread notifications:', error);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    if (profile) {
+      fetchUnreadCount();
+
+      const unsubscribe = notificationEvents.subscribe(() => {
+        fetchUnreadCount();
+      });
+
+      // Also catches notifications arriving or being read on another device
+      const channel = supabase
+        .channel('notification_badge')
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'notifications',
+            filter: `user_id=eq.${profile.id}`,
+          },
+          () => {
+            fetchUnreadCount();
+          }
+        )
+        .subscribe();
+
+      return () => {
+        unsubscribe();
+        supabase.removeChannel(channel);
+      };
+    }
+  }, [profile, fetchUnreadCount]);
+
+  return (
+    <View style={styles.container}>
+      <Bell size={size} color={color} />
+      {unreadCount > 0 ? (
+        <View style={styles.badge}>
+          <Text style={styles.badgeText}>{unreadCount > 99 ? '99+' : String(unreadCount)}</Text>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'relative',
+  },
+  badge: {
+    position: 'absolute',
+    top: -6,
+    right: -10,
+    backgroundColor: '#ef4444',
+    borderRadius: 12,
+    minWidth: 20,
+    height: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 5,
+    borderWidth: 2,
+    borderColor: '#ffffff',
+    shadowColor: '#ef4444',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.4,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  badgeText: {
+    color: '#ffffff',
+    fontSize: 11,
+    fontWeight: '800',
+    letterSpacing: -0.3,
+  },
+});
@@ -1,4 +1,4 @@
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, RefreshControl } from 'react-native';
 import {
   Bell,
   Package,
@@ -6,23 +6,19 @@ import {
   AlertCircle,
   CheckCircle,
   Clock,
+  MapPin,
+  Wallet,
   X,
 } from 'lucide-react-native';
-
-export interface RiderNotification {
-  id: string;
-  type: string;
-  title: string;
-  message: string;
-  data: any;
-  read: boolean;
-  created_at: string;
-}
+import { Notification } from '@/types/database';
 
 interface NotificationsListProps {
-  notifications: RiderNotification[];
+  notifications: Notification[];
   loading?: boolean;
-  onNotificationPress?: (notification: RiderNotification) => void;
+  refreshing?: boolean;
+  emptyMessage?: string;
+  onRefresh?: () => void;
+  onNotificationPress?: (notification: Notification) => void;
   onMarkAsRead?: (notificationId: string) => void;
   onDismiss?: (notificationId: string) => void;
 }
@@ -30,6 +26,9 @@ interface NotificationsListProps {
 export default function NotificationsList({
   notifications,
   loading = false,
+  refreshing = false,
+  emptyMessage = "You'll see updates about your orders here",
+  onRefresh,
   onNotificationPress,
   onMarkAsRead,
   onDismiss,
@@ -37,14 +36,36 @@ export default function NotificationsList({
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'order_assigned':
+      case 'order_assignment':
+      case 'batch_assignment':
+      case 'batch_delivery':
+      case 'new_order':
+      case 'order_picked_up':
         return <Package size={20} color="#ff8c00" />;
       case 'pickup_ready':
+      case 'order_accepted':
+      case 'order_delivered':
+      case 'payment_confirmed':
         return <CheckCircle size={20} color="#10b981" />;
       case 'delivery_update':
+      case 'acceptance_reminder':
         return <Clock size={20} color="#3b82f6" />;
+      case 'rider_arrived':
+        return <MapPin size={20} color="#3b82f6" />;
       case 'bonus':
         return <Gift size={20} color="#f59e0b" />;
+      case 'rider_payout':
+      case 'vendor_settlement':
+      case 'order_refund':
+        return <Wallet size={20} color="#f59e0b" />;
       case 'alert':
+      case 'order_cancelled':
+      case 'payment_failed':
+      case 'delivery_issue':
+      case 'dispatch_escalation':
+      case 'acceptance_escalation':
+      case 'low_stock':
+      case 'sold_out':
         return <AlertCircle size={20} color="#ef4444" />;
       default:
         return <Bell size={20} color="#64748b" />;
@@ -54,14 +75,34 @@ export default function NotificationsList({
   const getNotificationColor = (type: string) => {
     switch (type) {
       case 'order_assigned':
+      case 'order_assignment':
+      case 'batch_assignment':
+      case 'batch_delivery':
+      case 'new_order':
+      case 'order_picked_up':
         return '#fff7ed';
       case 'pickup_ready':
+      case 'order_accepted':
+      case 'order_delivered':
+      case 'payment_confirmed':
         return '#f0fdf4';
       case 'delivery_update':
+      case 'acceptance_reminder':
+      case 'rider_arrived':
         return '#eff6ff';
       case 'bonus':
+      case 'rider_payout':
+      case 'vendor_settlement':
+      case 'order_refund':
         return '#fef3c7';
       case 'alert':
+      case 'order_cancelled':
+      case 'payment_failed':
+      case 'delivery_issue':
+      case 'dispatch_escalation':
+      case 'acceptance_escalation':
+      case 'low_stock':
+      case 'sold_out':
         return '#fee2e2';
       default:
         return '#f8fafc';
@@ -87,7 +128,7 @@ export default function NotificationsList({
     }
   };
 
-  const handlePress = (notification: RiderNotification) => {
+  const handlePress = (notification: Notification) => {
     if (!notification.read && onMarkAsRead) {
       onMarkAsRead(notification.id);
     }
@@ -103,7 +144,7 @@ export default function NotificationsList({
     }
   };
 
-  const renderNotification = ({ item }: { item: RiderNotification }) => (
+  const renderNotification = ({ item }: { item: Notification }) => (
     <TouchableOpacity
       style={[styles.notificationCard, !item.read && styles.unreadCard]}
       onPress={() => handlePress(item)}
@@ -150,7 +191,7 @@ export default function NotificationsList({
       <View style={styles.emptyState}>
         <Bell size={48} color="#cbd5e1" />
         <Text style={styles.emptyText}>No notifications yet</Text>
-        <Text style={styles.emptySubtext}>You'll see updates about your deliveries here</Text>
+        <Text style={styles.emptySubtext}>{emptyMessage}</Text>
       </View>
     );
   }
@@ -162,6 +203,11 @@ export default function NotificationsList({
       keyExtractor={(item) => item.id}
       contentContainerStyle={styles.listContainer}
       showsVerticalScrollIndicator={false}
+      refreshControl={
+        onRefresh ? (
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#ff8c00']} />
+        ) : undefined
+      }
     />
   );
 }
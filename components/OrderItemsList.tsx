@@ -11,12 +11,15 @@ import {
 import { Star } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import ReviewForm from './ReviewForm';
+import { SelectedOption } from '@/types/database';
+import { formatSelectedOptions } from '@/lib/productOptions';
 
 interface OrderItem {
   id: string;
   product_id: string;
   quantity: number;
   unit_price: number;
+  selected_options: SelectedOption[];
   product: {
     name: string;
     image_url: string;
@@ -50,6 +53,7 @@ export default function OrderItemsList({ orderId, orderStatus }: OrderItemsListP
           product_id,
           quantity,
           unit_price,
+          selected_options,
           products (
             name,
             image_url
@@ -76,6 +80,7 @@ export default function OrderItemsList({ orderId, orderStatus }: OrderItemsListP
         product_id: item.product_id,
         quantity: item.quantity,
         unit_price: item.unit_price,
+        selected_options: item.selected_options || [],
         product: {
           name: item.products?.name || 'Unknown Product',
           image_url: item.products?.image_url || '',
@@ -106,6 +111,9 @@ export default function OrderItemsList({ orderId, orderStatus }: OrderItemsListP
     <View style={styles.itemCard}>
       <View style={styles.itemInfo}>
         <Text style={styles.productName}>{item.product.name}</Text>
+        {item.selected_options.length > 0 && (
+          <Text style={styles.itemOptions}>{formatSelectedOptions(item.selected_options)}</Text>
+        )}
         <Text style={styles.itemDetails}>
           {item.quantity} × ₦{item.unit_price.toFixed(2)}
         </Text>
@@ -203,6 +211,11 @@ const styles = StyleSheet.create({
     color: '#111827',
     marginBottom: 4,
   },
+  itemOptions: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 4,
+  },
   itemDetails: {
     fontSize: 12,
     color: '#6b7280',
@@ -21,6 +21,7 @@ import {
 } from '@expo-google-fonts/inter';
 import { Product, ProductImage } from '@/types/database';
 import { supabase } from '@/lib/supabase';
+import { isSoldOut, stockLabel } from '@/lib/stock';
 
 interface ProductCardProps {
   product: Product;
@@ -131,6 +132,9 @@ export default function ProductCard({ product, onPress, onAddToCart }: ProductCa
     return null;
   }
 
+  const soldOut = isSoldOut(product);
+  const stockText = stockLabel(product);
+
   return (
     <View style={styles.productCard}>
       <TouchableOpacity activeOpacity={0.7} onPress={onPress}>
@@ -151,6 +155,12 @@ export default function ProductCard({ product, onPress, onAddToCart }: ProductCa
             />
           )}
 
+          {stockText && (
+            <View style={[styles.stockBadge, soldOut && styles.stockBadgeSoldOut]}>
+              <Text style={styles.stockBadgeText}>{stockText}</Text>
+            </View>
+          )}
+
           {images.length > 1 && (
             <View style={styles.dotsContainer}>
               {images.map((_, index) => (
@@ -188,8 +198,9 @@ export default function ProductCard({ product, onPress, onAddToCart }: ProductCa
               <Text style={styles.unit}>per {product.unit}</Text>
             </View>
             <TouchableOpacity
-              style={styles.addButton}
+              style={[styles.addButton, soldOut && styles.addButtonDisabled]}
               onPress={onAddToCart}
+              disabled={soldOut}
             >
               <ShoppingCart size={18} color="#ffffff" strokeWidth={2.5} />
             </TouchableOpacity>
@@ -249,6 +260,23 @@ const styles = StyleSheet.create({
     marginTop: 4,
     textAlign: 'center',
   },
+  stockBadge: {
+    position: 'absolute',
+    top: 10,
+    left: 10,
+    backgroundColor: '#f59e0b',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  stockBadgeSoldOut: {
+    backgroundColor: '#64748b',
+  },
+  stockBadgeText: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+  },
   dotsContainer: {
     position: 'absolute',
     bottom: 10,
@@ -345,4 +373,9 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  addButtonDisabled: {
+    backgroundColor: '#cbd5e1',
+    shadowOpacity: 0,
+    elevation: 0,
+  },
 });
@@ -12,8 +12,9 @@ import {
   Dimensions,
   NativeSyntheticEvent,
   NativeScrollEvent,
+  Alert,
 } from 'react-native';
-import { X, Star, ShoppingCart, Plus, Minus, MapPin } from 'lucide-react-native';
+import { X, Star, ShoppingCart, Plus, Minus, MapPin, Check } from 'lucide-react-native';
 import { useFonts } from 'expo-font';
 import {
   Poppins_600SemiBold,
@@ -25,10 +26,12 @@ import {
   Inter_500Medium,
   Inter_600SemiBold,
 } from '@expo-google-fonts/inter';
-import { Product } from '@/types/database';
+import { Product, ProductOptionGroup, ProductOption, SelectedOption } from '@/types/database';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { cartEvents } from '@/lib/cartEvents';
+import { optionsKey, optionsTotal, findIncompleteGroup, minimumSelections } from '@/lib/productOptions';
+import { isSoldOut, stockLabel } from '@/lib/stock';
 import ProductReviews from './ProductReviews';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -65,6 +68,8 @@ export default function ProductDetailModal({
   const [images, setImages] = useState<ProductImage[]>([]);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [currentProduct, setCurrentProduct] = useState<Product | null>(product);
+  const [optionGroups, setOptionGroups] = useState<ProductOptionGroup[]>([]);
+  const [selectedOptions, setSelectedOptions] = useState<SelectedOption[]>([]);
   const flatListRef = useRef<FlatList>(null);
   const autoPlayTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
@@ -126,6 +131,56 @@ export default function ProductDetailModal({
     }
   };
 
+  const fetchOptionGroups = async () => {
+    if (!product) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('product_option_groups')
+        .select('*, product_options(*)')
+        .eq('product_id', product.id)
+        .order('display_order');
+
+      if (error) throw error;
+      setOptionGroups(
+        (data || []).map((group: ProductOptionGroup) => ({
+          ...group,
+          product_options: [...group.product_options].sort((a, b) => a.display_order - b.display_order),
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching product options:', error);
+    }
+  };
+
+  const toggleOption = (group: ProductOptionGroup, option: ProductOption) => {
+    const isSelected = selectedOptions.some((selected) => selected.option_id === option.id);
+    const inGroup = selectedOptions.filter((selected) => selected.group_id === group.id);
+    const entry: SelectedOption = {
+      group_id: group.id,
+      group_name: group.name,
+      option_id: option.id,
+      name: option.name,
+      price_delta: Number(option.price_delta),
+    };
+
+    if (isSelected) {
+      setSelectedOptions(selectedOptions.filter((selected) => selected.option_id !== option.id));
+    } else if (group.max_selections === 1) {
+      // Single choice groups behave like radio buttons
+      setSelectedOptions([
+        ...selectedOptions.filter((selected) => selected.group_id !== group.id),
+        entry,
+      ]);
+    } else if (inGroup.length < group.max_selections) {
+      setSelectedOptions([...selectedOptions, entry]);
+    }
+  };
+
+  const unitPrice = (currentProduct?.price || 0) + optionsTotal(selectedOptions);
+  const soldOut = currentProduct ? isSoldOut(currentProduct) : false;
+  const lowStockText = currentProduct ? stockLabel(currentProduct) : null;
+
   const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
     const scrollPosition = event.nativeEvent.contentOffset.x;
     const index = Math.round(scrollPosition / SCREEN_WIDTH);
@@ -152,15 +207,49 @@ export default function ProductDetailModal({
   const addToCart = async () => {
     if (!profile || !product) return;
 
+    const incompleteGroup = findIncompleteGroup(optionGroups, selectedOptions);
+    if (incompleteGroup) {
+      Alert.alert('Choose Options', `Please make a choice for ${incompleteGroup.name}`);
+      return;
+    }
+
+    // Keep options in menu order so the cart reads the same way as the menu
+    const orderedOptions = optionGroups.flatMap((group) =>
+      group.product_options
+        .map((option) => selectedOptions.find((selected) => selected.option_id === option.id))
+        .filter((selected): selected is SelectedOption => !!selected)
+    );
+    const key = optionsKey(orderedOptions);
+
     try {
       setLoading(true);
 
-      // Check if item already exists in cart
+      // Lines with other options draw on the same stock
+      const { data: productLines } = await supabase
+        .from('carts')
+        .select('quantity')
+        .eq('user_id', profile.id)
+        .eq('product_id', product.id);
+
+      const inCart = (productLines || []).reduce((sum, line) => sum + line.quantity, 0);
+      const available = currentProduct?.stock_quantity ?? product.stock_quantity;
+      if (inCart + quantity > available) {
+        Alert.alert(
+          'Not Enough Stock',
+          inCart > 0
+            ? `Only ${available} left and you already have ${inCart} in your cart`
+            : `Only ${available} left`
+        );
+        return;
+      }
+
+      // The same product with the same options shares a cart line
       const { data: existingItem } = await supabase
         .from('carts')
         .select('id, quantity')
         .eq('user_id', profile.id)
         .eq('product_id', product.id)
+        .eq('options_key', key)
         .maybeSingle();
 
       if (existingItem) {
@@ -179,6 +268,9 @@ export default function ProductDetailModal({
             user_id: profile.id,
             product_id: product.id,
             quantity: quantity,
+            selected_options: orderedOptions,
+            options_key: key,
+            unit_price: unitPrice,
           });
 
         if (error) throw error;
@@ -200,6 +292,7 @@ export default function ProductDetailModal({
       setCurrentImageIndex(0);
       fetchVendorInfo();
       fetchProductImages();
+      fetchOptionGroups();
 
       // Subscribe to real-time product updates for rating changes
       const subscription = supabase
@@ -226,6 +319,8 @@ export default function ProductDetailModal({
       setImages([]);
       setQuantity(1);
       setCurrentProduct(null);
+      setOptionGroups([]);
+      setSelectedOptions([]);
     }
   }, [visible, product]);
 
@@ -315,9 +410,23 @@ export default function ProductDetailModal({
               <View style={styles.productHeader}>
                 <View style={styles.productTitleRow}>
                   <Text style={styles.productName}>{currentProduct.name}</Text>
-                  <View style={styles.stockBadge}>
-                    <View style={styles.stockDot} />
-                    <Text style={styles.stockText}>{String(currentProduct.stock_quantity)} left</Text>
+                  <View
+                    style={[
+                      styles.stockBadge,
+                      lowStockText && styles.stockBadgeLow,
+                      soldOut && styles.stockBadgeSoldOut,
+                    ]}
+                  >
+                    <View style={[styles.stockDot, soldOut && styles.stockDotSoldOut]} />
+                    <Text
+                      style={[
+                        styles.stockText,
+                        lowStockText && styles.stockTextLow,
+                        soldOut && styles.stockTextSoldOut,
+                      ]}
+                    >
+                      {lowStockText ?? 'In stock'}
+                    </Text>
                   </View>
                 </View>
 
@@ -334,7 +443,7 @@ export default function ProductDetailModal({
                 <View style={styles.priceContainer}>
                   <Text style={styles.priceLabel}>Price</Text>
                   <View style={styles.priceRow}>
-                    <Text style={styles.price}>₦{(currentProduct.price || 0).toFixed(2)}</Text>
+                    <Text style={styles.price}>₦{unitPrice.toFixed(2)}</Text>
                     <Text style={styles.unit}>/ {currentProduct.unit}</Text>
                   </View>
                 </View>
@@ -386,6 +495,55 @@ export default function ProductDetailModal({
                 />
               </View>
 
+              {optionGroups.map((group) => {
+                const chosenCount = selectedOptions.filter((selected) => selected.group_id === group.id).length;
+                const minimum = minimumSelections(group);
+                return (
+                  <View key={group.id} style={styles.section}>
+                    <View style={styles.optionGroupHeader}>
+                      <Text style={styles.sectionTitle}>{group.name}</Text>
+                      <Text style={[styles.optionGroupBadge, minimum > 0 && styles.optionGroupBadgeRequired]}>
+                        {minimum > 0 ? 'Required' : 'Optional'}
+                      </Text>
+                    </View>
+                    {group.max_selections > 1 && (
+                      <Text style={styles.optionGroupHint}>
+                        Choose {minimum > 0 ? `${minimum} to ${group.max_selections}` : `up to ${group.max_selections}`}
+                      </Text>
+                    )}
+                    {group.product_options.map((option) => {
+                      const isSelected = selectedOptions.some((selected) => selected.option_id === option.id);
+                      const isDisabled = !option.is_available
+                        || (!isSelected && group.max_selections > 1 && chosenCount >= group.max_selections);
+                      return (
+                        <TouchableOpacity
+                          key={option.id}
+                          style={[styles.optionRow, isDisabled && styles.optionRowDisabled]}
+                          onPress={() => toggleOption(group, option)}
+                          disabled={isDisabled}
+                        >
+                          <View
+                            style={[
+                              group.max_selections === 1 ? styles.optionRadio : styles.optionCheckbox,
+                              isSelected && styles.optionIndicatorActive,
+                            ]}
+                          >
+                            {isSelected && <Check size={12} color="#ffffff" strokeWidth={3} />}
+                          </View>
+                          <Text style={styles.optionName}>
+                            {option.name}
+                            {!option.is_available ? ' (unavailable)' : ''}
+                          </Text>
+                          {Number(option.price_delta) > 0 && (
+                            <Text style={styles.optionPrice}>+₦{Number(option.price_delta).toFixed(2)}</Text>
+                          )}
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                );
+              })}
+
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>Quantity</Text>
                 <View style={styles.quantityRow}>
@@ -411,7 +569,7 @@ export default function ProductDetailModal({
                   <View style={styles.subtotalContainer}>
                     <Text style={styles.subtotalLabel}>Subtotal</Text>
                     <Text style={styles.subtotalAmount}>
-                      ₦{((currentProduct.price || 0) * quantity).toFixed(2)}
+                      ₦{(unitPrice * quantity).toFixed(2)}
                     </Text>
                   </View>
                 </View>
@@ -423,9 +581,9 @@ export default function ProductDetailModal({
 
           <View style={styles.footer}>
             <TouchableOpacity
-              style={[styles.addButton, loading && styles.addButtonDisabled]}
+              style={[styles.addButton, (loading || soldOut) && styles.addButtonDisabled]}
               onPress={addToCart}
-              disabled={loading}
+              disabled={loading || soldOut}
               activeOpacity={0.8}
             >
               {loading ? (
@@ -433,7 +591,7 @@ export default function ProductDetailModal({
               ) : (
                 <>
                   <ShoppingCart size={20} color="#ffffff" strokeWidth={2.5} />
-                  <Text style={styles.addButtonText}>Add to Cart</Text>
+                  <Text style={styles.addButtonText}>{soldOut ? 'Sold Out' : 'Add to Cart'}</Text>
                 </>
               )}
             </TouchableOpacity>
@@ -538,17 +696,32 @@ const styles = StyleSheet.create({
     borderRadius: 20,
     gap: 4,
   },
+  stockBadgeLow: {
+    backgroundColor: '#fff7ed',
+  },
+  stockBadgeSoldOut: {
+    backgroundColor: '#f3f4f6',
+  },
   stockDot: {
     width: 6,
     height: 6,
     borderRadius: 3,
     backgroundColor: '#ff8c00',
   },
+  stockDotSoldOut: {
+    backgroundColor: '#9ca3af',
+  },
   stockText: {
     fontSize: 12,
     fontFamily: 'Inter-SemiBold',
     color: '#047857',
   },
+  stockTextLow: {
+    color: '#c2410c',
+  },
+  stockTextSoldOut: {
+    color: '#6b7280',
+  },
   ratingRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -616,6 +789,76 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
+  optionGroupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  optionGroupBadge: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#6b7280',
+    backgroundColor: '#f3f4f6',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  optionGroupBadgeRequired: {
+    color: '#ff8c00',
+    backgroundColor: '#fff7ed',
+  },
+  optionGroupHint: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#6b7280',
+    marginTop: -6,
+    marginBottom: 10,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  optionRowDisabled: {
+    opacity: 0.4,
+  },
+  optionRadio: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: '#d1d5db',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  optionCheckbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#d1d5db',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  optionIndicatorActive: {
+    backgroundColor: '#ff8c00',
+    borderColor: '#ff8c00',
+  },
+  optionName: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Inter-Medium',
+    color: '#111827',
+  },
+  optionPrice: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#6b7280',
+  },
   description: {
     fontSize: 15,
     fontFamily: 'Inter-Regular',
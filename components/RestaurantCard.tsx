@@ -32,6 +32,8 @@ export default function RestaurantCard({ restaurant, onPress }: RestaurantCardPr
   const firstLetter = businessName.charAt(0).toUpperCase();
   const rating = Number(restaurant.rating) || 0;
   const minOrder = Number(restaurant.minimum_order) || 0;
+  const isPaused =
+    !!restaurant.orders_paused_until && new Date(restaurant.orders_paused_until).getTime() > Date.now();
 
   if (fontError) {
     console.error('RestaurantCard font error:', fontError);
@@ -100,6 +102,12 @@ export default function RestaurantCard({ restaurant, onPress }: RestaurantCardPr
             <Text style={styles.closedText}>Currently Closed</Text>
           </View>
         )}
+
+        {isPaused && restaurant.is_currently_open !== false && restaurant.is_accepting_orders && (
+          <View style={styles.closedBadge}>
+            <Text style={styles.closedText}>Busy, orders paused</Text>
+          </View>
+        )}
       </View>
     </TouchableOpacity>
   );
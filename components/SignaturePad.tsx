@@ -0,0 +1,137 @@
+import { useRef, useState } from 'react';
+import { View, Text, StyleSheet, PanResponder, TouchableOpacity, LayoutChangeEvent } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import { DeliverySignature } from '@/types/database';
+
+interface SignaturePadProps {
+  value: DeliverySignature | null;
+  onChange: (signature: DeliverySignature | null) => void;
+}
+
+const PAD_HEIGHT = 180;
+
+export default function SignaturePad({ value, onChange }: SignaturePadProps) {
+  const [width, setWidth] = useState(0);
+  const [currentPath, setCurrentPath] = useState('');
+  // The responder callbacks are created once, so they read the latest values from refs
+  const pathRef = useRef('');
+  const stateRef = useRef({ value, width, onChange });
+  stateRef.current = { value, width, onChange };
+
+  const point = (x: number, y: number) => `${Math.round(x)} ${Math.round(y)}`;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the stroke when the pad sits inside a ScrollView
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => {
+        const { locationX, locationY } = event.nativeEvent;
+        pathRef.current = `M ${point(locationX, locationY)}`;
+        setCurrentPath(pathRef.current);
+      },
+      onPanResponderMove: (event) => {
+        const { locationX, locationY } = event.nativeEvent;
+        pathRef.current += ` L ${point(locationX, locationY)}`;
+        setCurrentPath(pathRef.current);
+      },
+      onPanResponderRelease: () => {
+        const { value: signature, width: padWidth, onChange: report } = stateRef.current;
+        if (pathRef.current) {
+          report({
+            width: padWidth,
+            height: PAD_HEIGHT,
+            paths: [...(signature?.paths ?? []), pathRef.current],
+          });
+        }
+        pathRef.current = '';
+        setCurrentPath('');
+      },
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const paths = value?.paths ?? [];
+
+  return (
+    <View>
+      <View style={styles.pad} onLayout={handleLayout} {...panResponder.panHandlers}>
+        {/* Touches go to the pad itself so locations stay relative to it */}
+        <View style={StyleSheet.absoluteFill} pointerEvents="none">
+          <Svg width="100%" height={PAD_HEIGHT}>
+            {paths.map((path, index) => (
+              <Path key={index} d={path} stroke="#1f2937" strokeWidth={3} fill="none" />
+            ))}
+            {currentPath ? (
+              <Path d={currentPath} stroke="#1f2937" strokeWidth={3} fill="none" />
+            ) : null}
+          </Svg>
+          {paths.length === 0 && !currentPath && (
+            <Text style={styles.placeholder}>Customer signs here</Text>
+          )}
+        </View>
+      </View>
+      <TouchableOpacity style={styles.clearButton} onPress={() => onChange(null)}>
+        <Text style={styles.clearButtonText}>Clear</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+// Read-only rendering of a captured signature, scaled to fit
+export function SignaturePreview({ signature }: { signature: DeliverySignature }) {
+  return (
+    <View style={styles.preview}>
+      <Svg
+        width="100%"
+        height={120}
+        viewBox={`0 0 ${signature.width || 300} ${signature.height || PAD_HEIGHT}`}
+      >
+        {signature.paths.map((path, index) => (
+          <Path key={index} d={path} stroke="#1f2937" strokeWidth={3} fill="none" />
+        ))}
+      </Svg>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pad: {
+    height: PAD_HEIGHT,
+    borderWidth: 1.5,
+    borderColor: '#e2e8f0',
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    backgroundColor: '#ffffff',
+    overflow: 'hidden',
+  },
+  placeholder: {
+    position: 'absolute',
+    top: PAD_HEIGHT / 2 - 10,
+    left: 0,
+    right: 0,
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#94a3b8',
+  },
+  clearButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  clearButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  preview: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    backgroundColor: '#ffffff',
+  },
+});
@@ -240,6 +240,8 @@ export default function WalletCard() {
         return <CreditCard size={18} color="#f59e0b" />;
       case 'refund':
         return <ArrowDownLeft size={18} color="#3b82f6" />;
+      case 'payout':
+        return <ArrowDownLeft size={18} color="#10b981" />;
       default:
         return <Wallet size={18} color="#6b7280" />;
     }
@@ -521,12 +523,12 @@ export default function WalletCard() {
                       <Text
                         style={[
                           styles.transactionAmount,
-                          transaction.type === 'deposit' || transaction.type === 'refund'
+                          ['deposit', 'refund', 'payout'].includes(transaction.type)
                             ? styles.transactionAmountPositive
                             : styles.transactionAmountNegative,
                         ]}
                       >
-                        {transaction.type === 'deposit' || transaction.type === 'refund' ? '+' : '-'}
+                        {['deposit', 'refund', 'payout'].includes(transaction.type) ? '+' : '-'}
                         ₦{transaction.amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}
                       </Text>
                       <View style={[styles.statusBadge, { backgroundColor: getStatusColor(transaction.status) }]}>
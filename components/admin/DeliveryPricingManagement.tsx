@@ -0,0 +1,318 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Alert,
+  Platform,
+} from 'react-native';
+import { ArrowLeft, Save } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+
+interface DeliveryPricingManagementProps {
+  onBack?: () => void;
+}
+
+interface DeliveryPricingForm {
+  base_fee: string;
+  per_km_rate: string;
+  breakfast_multiplier: string;
+  lunch_multiplier: string;
+  dinner_multiplier: string;
+  free_delivery_threshold: string;
+  default_radius_km: string;
+}
+
+const DEFAULT_FORM: DeliveryPricingForm = {
+  base_fee: '5',
+  per_km_rate: '0.5',
+  breakfast_multiplier: '1',
+  lunch_multiplier: '1',
+  dinner_multiplier: '1',
+  free_delivery_threshold: '0',
+  default_radius_km: '10',
+};
+
+export default function DeliveryPricingManagement({ onBack }: DeliveryPricingManagementProps) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<DeliveryPricingForm>(DEFAULT_FORM);
+
+  useEffect(() => {
+    fetchPricing();
+  }, []);
+
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(message);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const fetchPricing = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('platform_settings')
+        .select('value')
+        .eq('key', 'delivery_pricing')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const value = data?.value;
+      if (value) {
+        setForm({
+          base_fee: String(value.base_fee ?? DEFAULT_FORM.base_fee),
+          per_km_rate: String(value.per_km_rate ?? DEFAULT_FORM.per_km_rate),
+          breakfast_multiplier: String(value.surge_multipliers?.breakfast ?? 1),
+          lunch_multiplier: String(value.surge_multipliers?.lunch ?? 1),
+          dinner_multiplier: String(value.surge_multipliers?.dinner ?? 1),
+          free_delivery_threshold: String(value.free_delivery_threshold ?? 0),
+          default_radius_km: String(value.default_radius_km ?? DEFAULT_FORM.default_radius_km),
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching delivery pricing:', error);
+      showMessage('Error', 'Failed to fetch delivery pricing');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const savePricing = async () => {
+    const values = Object.fromEntries(
+      Object.entries(form).map(([key, value]) => [key, parseFloat(value)])
+    ) as Record<keyof DeliveryPricingForm, number>;
+
+    if (Object.values(values).some((value) => isNaN(value) || value < 0)) {
+      showMessage('Error', 'All values must be numbers of 0 or more');
+      return;
+    }
+
+    if (values.default_radius_km <= 0) {
+      showMessage('Error', 'Default delivery radius must be greater than 0');
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      const { error } = await supabase
+        .from('platform_settings')
+        .upsert({
+          key: 'delivery_pricing',
+          value: {
+            base_fee: values.base_fee,
+            per_km_rate: values.per_km_rate,
+            surge_multipliers: {
+              breakfast: values.breakfast_multiplier,
+              lunch: values.lunch_multiplier,
+              dinner: values.dinner_multiplier,
+            },
+            free_delivery_threshold: values.free_delivery_threshold,
+            default_radius_km: values.default_radius_km,
+          },
+          updated_at: new Date().toISOString(),
+          updated_by: (await supabase.auth.getUser()).data.user?.id,
+        });
+
+      if (error) throw error;
+
+      showMessage('Success', 'Delivery pricing updated successfully');
+      await fetchPricing();
+    } catch (error: any) {
+      console.error('Error saving delivery pricing:', error);
+      showMessage('Error', error.message || 'Failed to save delivery pricing');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderField = (
+    key: keyof DeliveryPricingForm,
+    label: string,
+    hint: string
+  ) => (
+    <View key={key}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={form[key]}
+        onChangeText={(text) => setForm({ ...form, [key]: text })}
+        keyboardType="decimal-pad"
+      />
+      <Text style={styles.hint}>{hint}</Text>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#ff8c00" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerTop}>
+          {onBack && (
+            <TouchableOpacity style={styles.backButton} onPress={onBack}>
+              <ArrowLeft size={24} color="#ffffff" />
+            </TouchableOpacity>
+          )}
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.title}>Delivery Pricing</Text>
+            <Text style={styles.subtitle}>Fees, surge and delivery radius</Text>
+          </View>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.section}>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Distance Fee</Text>
+            {renderField('base_fee', 'Base Fee (₦)', 'Charged on every delivery order')}
+            {renderField('per_km_rate', 'Rate per km (₦)', 'Added for each km between the restaurant and the customer')}
+            {renderField('default_radius_km', 'Default Delivery Radius (km)', 'Used when a restaurant has not set its own radius')}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Meal Time Surge</Text>
+            {renderField('breakfast_multiplier', 'Breakfast Multiplier', '1 means no surge, 1.5 adds 50%')}
+            {renderField('lunch_multiplier', 'Lunch Multiplier', '1 means no surge, 1.5 adds 50%')}
+            {renderField('dinner_multiplier', 'Dinner Multiplier', '1 means no surge, 1.5 adds 50%')}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Free Delivery</Text>
+            {renderField('free_delivery_threshold', 'Free Delivery From (₦)', 'Restaurant subtotal at which delivery is free. 0 turns this off')}
+          </View>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+          onPress={savePricing}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <>
+              <Save size={20} color="#ffffff" />
+              <Text style={styles.saveButtonText}>Save Changes</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#ff8c00',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#ffffff',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#e0f2fe',
+    marginTop: 4,
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#1f2937',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ff8c00',
+    marginHorizontal: 16,
+    marginBottom: 32,
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,497 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Switch,
+  Alert,
+  Platform,
+} from 'react-native';
+import { ArrowLeft, Save, Plus, X, CloudRain } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { PeakWindow, RiderEarningRules } from '@/types/database';
+
+interface EarningsRulesManagementProps {
+  onBack?: () => void;
+}
+
+interface EarningsRulesForm {
+  base_pay: string;
+  per_km_rate: string;
+  batch_stop_bonus: string;
+  peak_multiplier: string;
+  rain_multiplier: string;
+}
+
+const DEFAULT_FORM: EarningsRulesForm = {
+  base_pay: '4',
+  per_km_rate: '0.4',
+  batch_stop_bonus: '1',
+  peak_multiplier: '1.2',
+  rain_multiplier: '1.3',
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export default function EarningsRulesManagement({ onBack }: EarningsRulesManagementProps) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<EarningsRulesForm>(DEFAULT_FORM);
+  const [peakHours, setPeakHours] = useState<PeakWindow[]>([]);
+  const [history, setHistory] = useState<RiderEarningRules[]>([]);
+  const [rainMode, setRainMode] = useState(false);
+  const [updatingRainMode, setUpdatingRainMode] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(message);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      const [rulesResult, rainResult] = await Promise.all([
+        supabase
+          .from('rider_earning_rules')
+          .select('*')
+          .order('version', { ascending: false })
+          .limit(10),
+        supabase
+          .from('platform_settings')
+          .select('value')
+          .eq('key', 'rain_mode')
+          .maybeSingle(),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (rainResult.error) throw rainResult.error;
+
+      const versions = (rulesResult.data || []) as RiderEarningRules[];
+      const current = versions[0];
+      setHistory(versions);
+      setRainMode(!!rainResult.data?.value?.active);
+
+      if (current) {
+        setForm({
+          base_pay: String(current.base_pay),
+          per_km_rate: String(current.per_km_rate),
+          batch_stop_bonus: String(current.batch_stop_bonus),
+          peak_multiplier: String(current.peak_multiplier),
+          rain_multiplier: String(current.rain_multiplier),
+        });
+        setPeakHours(current.peak_hours || []);
+      }
+    } catch (error) {
+      console.error('Error fetching earning rules:', error);
+      showMessage('Error', 'Failed to fetch earning rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRainMode = async (active: boolean) => {
+    try {
+      setUpdatingRainMode(true);
+      const { error } = await supabase
+        .from('platform_settings')
+        .upsert({
+          key: 'rain_mode',
+          value: { active },
+          updated_at: new Date().toISOString(),
+          updated_by: (await supabase.auth.getUser()).data.user?.id,
+        });
+
+      if (error) throw error;
+      setRainMode(active);
+    } catch (error: any) {
+      console.error('Error updating rain mode:', error);
+      showMessage('Error', error.message || 'Failed to update rain mode');
+    } finally {
+      setUpdatingRainMode(false);
+    }
+  };
+
+  // Saving never edits the current rules; it adds the next version so past
+  // earnings keep pointing at the rules that produced them
+  const saveRules = async () => {
+    const values = Object.fromEntries(
+      Object.entries(form).map(([key, value]) => [key, parseFloat(value)])
+    ) as Record<keyof EarningsRulesForm, number>;
+
+    if (Object.values(values).some((value) => isNaN(value) || value < 0)) {
+      showMessage('Error', 'All values must be numbers of 0 or more');
+      return;
+    }
+
+    if (values.peak_multiplier < 1 || values.rain_multiplier < 1) {
+      showMessage('Error', 'Multipliers must be 1 or more');
+      return;
+    }
+
+    const invalidWindow = peakHours.find(
+      (window) =>
+        !TIME_PATTERN.test(window.start) ||
+        !TIME_PATTERN.test(window.end) ||
+        window.start >= window.end
+    );
+    if (invalidWindow) {
+      showMessage('Error', 'Peak hours must be HH:MM times with the start before the end');
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      const { error } = await supabase.from('rider_earning_rules').insert({
+        base_pay: values.base_pay,
+        per_km_rate: values.per_km_rate,
+        batch_stop_bonus: values.batch_stop_bonus,
+        peak_multiplier: values.peak_multiplier,
+        rain_multiplier: values.rain_multiplier,
+        peak_hours: peakHours,
+        timezone: history[0]?.timezone,
+      });
+
+      if (error) throw error;
+
+      showMessage('Success', 'New earning rules apply to deliveries completed from now on');
+      await fetchRules();
+    } catch (error: any) {
+      console.error('Error saving earning rules:', error);
+      showMessage('Error', error.message || 'Failed to save earning rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updatePeakWindow = (index: number, field: keyof PeakWindow, value: string) => {
+    setPeakHours(peakHours.map((window, i) => (i === index ? { ...window, [field]: value } : window)));
+  };
+
+  const renderField = (key: keyof EarningsRulesForm, label: string, hint: string) => (
+    <View key={key}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={form[key]}
+        onChangeText={(text) => setForm({ ...form, [key]: text })}
+        keyboardType="decimal-pad"
+      />
+      <Text style={styles.hint}>{hint}</Text>
+    </View>
+  );
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#ff8c00" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerTop}>
+          {onBack && (
+            <TouchableOpacity style={styles.backButton} onPress={onBack}>
+              <ArrowLeft size={24} color="#ffffff" />
+            </TouchableOpacity>
+          )}
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.title}>Rider Earnings</Text>
+            <Text style={styles.subtitle}>
+              {history[0] ? `Version ${history[0].version} in force` : 'Pay rules for deliveries'}
+            </Text>
+          </View>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.section}>
+          <View style={styles.card}>
+            <View style={styles.rainRow}>
+              <CloudRain size={20} color="#ff8c00" />
+              <View style={styles.rainText}>
+                <Text style={styles.cardTitle}>Rain Mode</Text>
+                <Text style={styles.hint}>
+                  Applies the rain multiplier to deliveries completed while on
+                </Text>
+              </View>
+              <Switch
+                value={rainMode}
+                onValueChange={toggleRainMode}
+                disabled={updatingRainMode}
+                trackColor={{ false: '#d1d5db', true: '#6ee7b7' }}
+                thumbColor={rainMode ? '#ff8c00' : '#f3f4f6'}
+              />
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Delivery Pay</Text>
+            {renderField('base_pay', 'Base Pay (₦)', 'Paid for every completed delivery')}
+            {renderField('per_km_rate', 'Rate per km (₦)', 'Paid for each km between the restaurant and the customer')}
+            {renderField('batch_stop_bonus', 'Batch Stop Bonus (₦)', 'Added for each order delivered as part of a batch')}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Multipliers</Text>
+            {renderField('peak_multiplier', 'Peak Hour Multiplier', '1 means no boost, 1.5 adds 50%')}
+            {renderField('rain_multiplier', 'Rain Multiplier', 'Stacks with the peak multiplier while rain mode is on')}
+            <Text style={styles.hint}>Tips are not multiplied and always go to the rider in full.</Text>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Peak Hours</Text>
+            <Text style={styles.hint}>
+              24-hour local times ({history[0]?.timezone || 'Africa/Lagos'})
+            </Text>
+            {peakHours.map((window, index) => (
+              <View key={index} style={styles.windowRow}>
+                <TextInput
+                  style={[styles.input, styles.windowInput]}
+                  value={window.start}
+                  onChangeText={(text) => updatePeakWindow(index, 'start', text)}
+                  placeholder="11:30"
+                  placeholderTextColor="#9ca3af"
+                />
+                <Text style={styles.windowSeparator}>to</Text>
+                <TextInput
+                  style={[styles.input, styles.windowInput]}
+                  value={window.end}
+                  onChangeText={(text) => updatePeakWindow(index, 'end', text)}
+                  placeholder="14:00"
+                  placeholderTextColor="#9ca3af"
+                />
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => setPeakHours(peakHours.filter((_, i) => i !== index))}
+                >
+                  <X size={18} color="#ef4444" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={styles.addWindowButton}
+              onPress={() => setPeakHours([...peakHours, { start: '', end: '' }])}
+            >
+              <Plus size={16} color="#ff8c00" />
+              <Text style={styles.addWindowText}>Add Peak Window</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+          onPress={saveRules}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <>
+              <Save size={20} color="#ffffff" />
+              <Text style={styles.saveButtonText}>Save as New Version</Text>
+            </>
+          )}
+        </TouchableOpacity>
+
+        {history.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>History</Text>
+              {history.map((rules) => (
+                <View key={rules.id} style={styles.historyRow}>
+                  <Text style={styles.historyVersion}>v{rules.version}</Text>
+                  <Text style={styles.historyText}>
+                    {`₦${Number(rules.base_pay).toFixed(2)} + ₦${Number(rules.per_km_rate).toFixed(2)}/km, batch +₦${Number(rules.batch_stop_bonus).toFixed(2)}`}
+                  </Text>
+                  <Text style={styles.historyDate}>{formatDate(rules.created_at)}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#ff8c00',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#ffffff',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#e0f2fe',
+    marginTop: 4,
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  rainRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rainText: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#1f2937',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  windowInput: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  windowSeparator: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  removeButton: {
+    padding: 8,
+  },
+  addWindowButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+    alignSelf: 'flex-start',
+  },
+  addWindowText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ff8c00',
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  historyVersion: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ff8c00',
+    width: 36,
+  },
+  historyText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+  },
+  historyDate: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ff8c00',
+    marginHorizontal: 16,
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+});
@@ -11,9 +11,13 @@ import {
   TextInput,
   Alert,
 } from 'react-native';
-import { Package, Clock, CheckCircle, Truck, XCircle, Edit3, X, ArrowLeft, MapPin, Search, Trash2 } from 'lucide-react-native';
+import { Package, Clock, CheckCircle, Truck, XCircle, Edit3, X, ArrowLeft, MapPin, Search, Trash2, Timer, AlertTriangle, CalendarClock } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { cancellationReasonLabel } from '@/lib/orderCancellation';
+import { formatScheduledTime } from '@/lib/scheduledOrders';
 import { Order, OrderStatus } from '@/types/database';
+import DeliveryProof from '@/components/DeliveryProof';
+import CancelOrderModal from '@/components/CancelOrderModal';
 
 const statusIcons: Record<OrderStatus, any> = {
   pending: Clock,
@@ -58,9 +62,11 @@ interface OrderWithCustomer extends Order {
 
 interface OrderManagementProps {
   onBack?: () => void;
+  // Opened from a notification; shown once the orders have loaded
+  initialOrderId?: string;
 }
 
-export default function OrderManagement({ onBack }: OrderManagementProps) {
+export default function OrderManagement({ onBack, initialOrderId }: OrderManagementProps) {
   const [orders, setOrders] = useState<OrderWithCustomer[]>([]);
   const [filteredOrders, setFilteredOrders] = useState<OrderWithCustomer[]>([]);
   const [loading, setLoading] = useState(true);
@@ -69,6 +75,23 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
   const [updatingStatus, setUpdatingStatus] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [deletingOrder, setDeletingOrder] = useState(false);
+  const [cancellingOrder, setCancellingOrder] = useState<OrderWithCustomer | null>(null);
+  const [showAcceptanceSettings, setShowAcceptanceSettings] = useState(false);
+  const [acceptanceSettings, setAcceptanceSettings] = useState({
+    accept_window_minutes: '10',
+    escalate_after_minutes: '5',
+  });
+  const [showScheduleSettings, setShowScheduleSettings] = useState(false);
+  const [scheduleSettings, setScheduleSettings] = useState({
+    slot_minutes: '30',
+    min_lead_minutes: '60',
+    release_lead_minutes: '45',
+    max_days_ahead: '7',
+    default_slot_capacity: '10',
+    timezone: 'Africa/Lagos',
+  });
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [pendingOrderId, setPendingOrderId] = useState(initialOrderId);
 
   useEffect(() => {
     fetchOrders();
@@ -93,6 +116,17 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
     };
   }, []);
 
+  useEffect(() => {
+    if (!pendingOrderId) return;
+
+    const order = orders.find((o) => o.id === pendingOrderId);
+    if (order) {
+      setPendingOrderId(undefined);
+      setSelectedOrder(order);
+      setShowStatusModal(true);
+    }
+  }, [orders, pendingOrderId]);
+
   const fetchOrders = async () => {
     try {
       setLoading(true);
@@ -198,6 +232,142 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
     );
   };
 
+  const fetchAcceptanceSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('platform_settings')
+        .select('value')
+        .eq('key', 'order_acceptance')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data?.value) {
+        setAcceptanceSettings({
+          accept_window_minutes: String(data.value.accept_window_minutes ?? 10),
+          escalate_after_minutes: String(data.value.escalate_after_minutes ?? 5),
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching acceptance settings:', error);
+    }
+  };
+
+  const saveAcceptanceSettings = async () => {
+    const acceptWindow = parseInt(acceptanceSettings.accept_window_minutes, 10);
+    const escalateAfter = parseInt(acceptanceSettings.escalate_after_minutes, 10);
+
+    if (!acceptWindow || acceptWindow < 1 || !escalateAfter || escalateAfter < 1) {
+      Alert.alert('Invalid Settings', 'Both times must be at least 1 minute');
+      return;
+    }
+
+    if (escalateAfter >= acceptWindow) {
+      Alert.alert('Invalid Settings', 'Admins must be alerted before the order is cancelled');
+      return;
+    }
+
+    try {
+      setSavingSettings(true);
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('platform_settings')
+        .upsert({
+          key: 'order_acceptance',
+          value: {
+            accept_window_minutes: acceptWindow,
+            escalate_after_minutes: escalateAfter,
+          },
+          updated_at: new Date().toISOString(),
+          updated_by: userData.user?.id ?? null,
+        });
+
+      if (error) throw error;
+      Alert.alert('Success', 'Acceptance settings saved');
+      setShowAcceptanceSettings(false);
+    } catch (error: any) {
+      console.error('Error saving acceptance settings:', error);
+      Alert.alert('Error', error.message || 'Failed to save acceptance settings');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const fetchScheduleSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('platform_settings')
+        .select('value')
+        .eq('key', 'scheduled_orders')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data?.value) {
+        setScheduleSettings({
+          slot_minutes: String(data.value.slot_minutes ?? 30),
+          min_lead_minutes: String(data.value.min_lead_minutes ?? 60),
+          release_lead_minutes: String(data.value.release_lead_minutes ?? 45),
+          max_days_ahead: String(data.value.max_days_ahead ?? 7),
+          default_slot_capacity: String(data.value.default_slot_capacity ?? 10),
+          timezone: data.value.timezone ?? 'Africa/Lagos',
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching schedule settings:', error);
+    }
+  };
+
+  const saveScheduleSettings = async () => {
+    const slotMinutes = parseInt(scheduleSettings.slot_minutes, 10);
+    const minLead = parseInt(scheduleSettings.min_lead_minutes, 10);
+    const releaseLead = parseInt(scheduleSettings.release_lead_minutes, 10);
+    const maxDays = parseInt(scheduleSettings.max_days_ahead, 10);
+    const capacity = parseInt(scheduleSettings.default_slot_capacity, 10);
+
+    if (!slotMinutes || slotMinutes < 5) {
+      Alert.alert('Invalid Settings', 'Slots must be at least 5 minutes long');
+      return;
+    }
+
+    if ([minLead, releaseLead].some((value) => isNaN(value) || value < 0)) {
+      Alert.alert('Invalid Settings', 'Notice and release times cannot be negative');
+      return;
+    }
+
+    if (!maxDays || maxDays < 1 || !capacity || capacity < 1) {
+      Alert.alert('Invalid Settings', 'Days ahead and slot capacity must be at least 1');
+      return;
+    }
+
+    try {
+      setSavingSettings(true);
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('platform_settings')
+        .upsert({
+          key: 'scheduled_orders',
+          value: {
+            slot_minutes: slotMinutes,
+            min_lead_minutes: minLead,
+            release_lead_minutes: releaseLead,
+            max_days_ahead: maxDays,
+            default_slot_capacity: capacity,
+            timezone: scheduleSettings.timezone,
+          },
+          updated_at: new Date().toISOString(),
+          updated_by: userData.user?.id ?? null,
+        });
+
+      if (error) throw error;
+      Alert.alert('Success', 'Scheduling settings saved');
+      setShowScheduleSettings(false);
+    } catch (error: any) {
+      console.error('Error saving schedule settings:', error);
+      Alert.alert('Error', error.message || 'Failed to save scheduling settings');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
   const updateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
     try {
       setUpdatingStatus(true);
@@ -271,6 +441,24 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
             <Text style={styles.title}>Order Management</Text>
             <Text style={styles.subtitle}>{orders.length} total orders</Text>
           </View>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => {
+              fetchAcceptanceSettings();
+              setShowAcceptanceSettings(true);
+            }}
+          >
+            <Timer size={22} color="#ffffff" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => {
+              fetchScheduleSettings();
+              setShowScheduleSettings(true);
+            }}
+          >
+            <CalendarClock size={22} color="#ffffff" />
+          </TouchableOpacity>
         </View>
         <View style={styles.searchContainer}>
           <Search size={20} color="#94a3b8" style={styles.searchIcon} />
@@ -328,6 +516,18 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
                 <View style={styles.vendorInfo}>
                   <Text style={styles.infoLabel}>Vendor</Text>
                   <Text style={styles.infoValue}>{item.vendor.business_name}</Text>
+                  {item.status === 'pending' && item.acceptance_escalated_at && item.accept_by && (
+                    <View style={styles.escalationBadge}>
+                      <AlertTriangle size={14} color="#dc2626" />
+                      <Text style={styles.escalationText}>
+                        Not accepted yet, auto-cancels at{' '}
+                        {new Date(item.accept_by).toLocaleTimeString('en-US', {
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })}
+                      </Text>
+                    </View>
+                  )}
                 </View>
 
                 <View style={styles.deliveryInfo}>
@@ -340,6 +540,12 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
                       Meal Time: {((item as any).meal_time_preference as string).toUpperCase()}
                     </Text>
                   )}
+                  {item.is_scheduled && item.scheduled_delivery_time && (
+                    <Text style={styles.mealTimePreference}>
+                      Scheduled for {formatScheduledTime(item.scheduled_delivery_time)}
+                      {!item.released_at && item.status === 'pending' ? ' (not yet released)' : ''}
+                    </Text>
+                  )}
                   {item.delivery_type === 'delivery' && item.delivery_address && (
                     <Text style={styles.deliveryAddress}>{item.delivery_address}</Text>
                   )}
@@ -388,6 +594,26 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
                     Order #{selectedOrder.order_number}
                   </Text>
                   <Text style={styles.modalCustomer}>{selectedOrder.customer.full_name}</Text>
+                  {selectedOrder.status === 'cancelled' && (
+                    <Text style={styles.modalCancellation}>
+                      Cancelled by {selectedOrder.cancelled_by_role || 'admin'}:{' '}
+                      {cancellationReasonLabel(selectedOrder.cancellation_reason)}
+                      {selectedOrder.cancellation_note ? ` · ${selectedOrder.cancellation_note}` : ''}
+                    </Text>
+                  )}
+
+                  {selectedOrder.status === 'delivered' && selectedOrder.delivery_type === 'delivery' && (
+                    <View style={styles.proofSection}>
+                      <Text style={styles.proofTitle}>Proof of Delivery</Text>
+                      <DeliveryProof
+                        deliveredAt={selectedOrder.delivered_at}
+                        confirmationMethod={selectedOrder.customer_confirmation_method}
+                        codeVerifiedAt={selectedOrder.delivery_code_verified_at}
+                        photoPath={selectedOrder.delivery_photo_path}
+                        signature={selectedOrder.delivery_signature}
+                      />
+                    </View>
+                  )}
 
                   <TouchableOpacity
                     style={styles.deleteButton}
@@ -415,7 +641,17 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
                             isSelected && styles.statusOptionSelected,
                             { borderColor: optionColor + '40' },
                           ]}
-                          onPress={() => updateOrderStatus(selectedOrder.id, option.value)}
+                          onPress={() => {
+                            // Cancelling goes through the refund workflow, not a plain status change
+                            if (option.value === 'cancelled') {
+                              const order = selectedOrder;
+                              setShowStatusModal(false);
+                              setSelectedOrder(null);
+                              setTimeout(() => setCancellingOrder(order), 300);
+                              return;
+                            }
+                            updateOrderStatus(selectedOrder.id, option.value);
+                          }}
                           disabled={updatingStatus}
                         >
                           <OptionIcon size={20} color={optionColor} />
@@ -442,6 +678,162 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
           </View>
         </View>
       </Modal>
+
+      <Modal
+        visible={showAcceptanceSettings}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowAcceptanceSettings(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Vendor Acceptance</Text>
+              <TouchableOpacity
+                onPress={() => setShowAcceptanceSettings(false)}
+                style={styles.closeButton}
+              >
+                <X size={24} color="#64748b" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.settingsLabel}>Minutes a vendor has to accept or reject</Text>
+            <TextInput
+              style={styles.settingsInput}
+              value={acceptanceSettings.accept_window_minutes}
+              onChangeText={(value) =>
+                setAcceptanceSettings({ ...acceptanceSettings, accept_window_minutes: value })
+              }
+              keyboardType="number-pad"
+            />
+
+            <Text style={styles.settingsLabel}>Alert admins after (minutes)</Text>
+            <TextInput
+              style={styles.settingsInput}
+              value={acceptanceSettings.escalate_after_minutes}
+              onChangeText={(value) =>
+                setAcceptanceSettings({ ...acceptanceSettings, escalate_after_minutes: value })
+              }
+              keyboardType="number-pad"
+            />
+
+            <Text style={styles.settingsHint}>
+              Orders still unaccepted when the window ends are cancelled and refunded to the
+              customer's wallet.
+            </Text>
+
+            <TouchableOpacity
+              style={[styles.settingsSaveButton, savingSettings && styles.settingsSaveDisabled]}
+              onPress={saveAcceptanceSettings}
+              disabled={savingSettings}
+            >
+              {savingSettings ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.settingsSaveText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={showScheduleSettings}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowScheduleSettings(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Scheduled Orders</Text>
+              <TouchableOpacity
+                onPress={() => setShowScheduleSettings(false)}
+                style={styles.closeButton}
+              >
+                <X size={24} color="#64748b" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.settingsLabel}>Slot length (minutes)</Text>
+              <TextInput
+                style={styles.settingsInput}
+                value={scheduleSettings.slot_minutes}
+                onChangeText={(value) =>
+                  setScheduleSettings({ ...scheduleSettings, slot_minutes: value })
+                }
+                keyboardType="number-pad"
+              />
+
+              <Text style={styles.settingsLabel}>Minimum notice (minutes)</Text>
+              <TextInput
+                style={styles.settingsInput}
+                value={scheduleSettings.min_lead_minutes}
+                onChangeText={(value) =>
+                  setScheduleSettings({ ...scheduleSettings, min_lead_minutes: value })
+                }
+                keyboardType="number-pad"
+              />
+
+              <Text style={styles.settingsLabel}>Send to vendor before slot (minutes)</Text>
+              <TextInput
+                style={styles.settingsInput}
+                value={scheduleSettings.release_lead_minutes}
+                onChangeText={(value) =>
+                  setScheduleSettings({ ...scheduleSettings, release_lead_minutes: value })
+                }
+                keyboardType="number-pad"
+              />
+
+              <Text style={styles.settingsLabel}>Days customers can book ahead</Text>
+              <TextInput
+                style={styles.settingsInput}
+                value={scheduleSettings.max_days_ahead}
+                onChangeText={(value) =>
+                  setScheduleSettings({ ...scheduleSettings, max_days_ahead: value })
+                }
+                keyboardType="number-pad"
+              />
+
+              <Text style={styles.settingsLabel}>Default orders per slot</Text>
+              <TextInput
+                style={styles.settingsInput}
+                value={scheduleSettings.default_slot_capacity}
+                onChangeText={(value) =>
+                  setScheduleSettings({ ...scheduleSettings, default_slot_capacity: value })
+                }
+                keyboardType="number-pad"
+              />
+
+              <Text style={styles.settingsHint}>
+                Scheduled orders stay hidden from the vendor until the release time, then enter
+                their queue like any new order. Vendors can set their own slot capacity.
+              </Text>
+
+              <TouchableOpacity
+                style={[styles.settingsSaveButton, savingSettings && styles.settingsSaveDisabled]}
+                onPress={saveScheduleSettings}
+                disabled={savingSettings}
+              >
+                {savingSettings ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.settingsSaveText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      <CancelOrderModal
+        visible={!!cancellingOrder}
+        order={cancellingOrder}
+        role="admin"
+        onClose={() => setCancellingOrder(null)}
+        onCancelled={fetchOrders}
+      />
     </View>
   );
 }
@@ -548,6 +940,22 @@ const styles = StyleSheet.create({
   vendorInfo: {
     marginBottom: 12,
   },
+  escalationBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    alignSelf: 'flex-start',
+    backgroundColor: '#fef2f2',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginTop: 8,
+  },
+  escalationText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
   deliveryInfo: {
     marginBottom: 12,
   },
@@ -647,6 +1055,41 @@ const styles = StyleSheet.create({
   closeButton: {
     padding: 4,
   },
+  settingsLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  settingsInput: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 16,
+  },
+  settingsHint: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 20,
+  },
+  settingsSaveButton: {
+    backgroundColor: '#ff8c00',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  settingsSaveDisabled: {
+    opacity: 0.6,
+  },
+  settingsSaveText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
   modalOrderNumber: {
     fontSize: 16,
     fontWeight: '700',
@@ -658,6 +1101,28 @@ const styles = StyleSheet.create({
     color: '#64748b',
     marginBottom: 20,
   },
+  modalCancellation: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#b91c1c',
+    backgroundColor: '#fef2f2',
+    borderRadius: 8,
+    padding: 10,
+    marginTop: -12,
+    marginBottom: 20,
+  },
+  proofSection: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  proofTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
   deleteButton: {
     flexDirection: 'row',
     alignItems: 'center',
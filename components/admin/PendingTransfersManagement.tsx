@@ -0,0 +1,896 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Modal,
+  Alert,
+  Platform,
+} from 'react-native';
+import { ArrowLeft, CheckCircle, Upload, X, XCircle } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { parseStatementCsv, suggestMatches } from '@/lib/bankTransfers';
+import { BankStatementLine, CheckoutGroup } from '@/types/database';
+
+interface PendingTransfersManagementProps {
+  onBack?: () => void;
+}
+
+interface BankAccount {
+  id: string;
+  bank_name: string;
+  account_number: string;
+  account_name: string;
+}
+
+type PendingTransfer = CheckoutGroup & {
+  customer?: { full_name: string; email: string } | null;
+};
+
+const DEFAULT_WINDOW_HOURS = 24;
+
+const formatAmount = (amount: number) => `₦${Number(amount).toFixed(2)}`;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${minutes % 60}m`;
+};
+
+export default function PendingTransfersManagement({ onBack }: PendingTransfersManagementProps) {
+  const [transfers, setTransfers] = useState<PendingTransfer[]>([]);
+  const [lines, setLines] = useState<BankStatementLine[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [windowHours, setWindowHours] = useState(String(DEFAULT_WINDOW_HOURS));
+  const [statementName, setStatementName] = useState('');
+  const [statementCsv, setStatementCsv] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [savingWindow, setSavingWindow] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [selectedTransfer, setSelectedTransfer] = useState<PendingTransfer | null>(null);
+  const [manualReference, setManualReference] = useState('');
+  const [rejectReason, setRejectReason] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(message);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const confirmAction = (title: string, message: string, label: string, action: () => void) => {
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) action();
+      return;
+    }
+
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: label, onPress: action },
+    ]);
+  };
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [transfersResult, linesResult, accountsResult, settingsResult] = await Promise.all([
+        supabase
+          .from('checkout_groups')
+          .select('*, customer:profiles(full_name, email)')
+          .eq('payment_method', 'bank_transfer')
+          .eq('payment_status', 'pending')
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('bank_statement_lines')
+          .select('*')
+          .eq('status', 'unmatched')
+          .order('transaction_date', { ascending: false })
+          .limit(200),
+        supabase
+          .from('bank_accounts')
+          .select('id, bank_name, account_number, account_name')
+          .order('display_order', { ascending: true }),
+        supabase
+          .from('platform_settings')
+          .select('value')
+          .eq('key', 'bank_transfer')
+          .maybeSingle(),
+      ]);
+
+      if (transfersResult.error) throw transfersResult.error;
+      if (linesResult.error) throw linesResult.error;
+      if (accountsResult.error) throw accountsResult.error;
+      if (settingsResult.error) throw settingsResult.error;
+
+      setTransfers((transfersResult.data || []) as PendingTransfer[]);
+      setLines(linesResult.data || []);
+      setBankAccounts(accountsResult.data || []);
+      setSelectedAccountId((current) => current ?? accountsResult.data?.[0]?.id ?? null);
+      setWindowHours(
+        String(settingsResult.data?.value?.payment_window_hours ?? DEFAULT_WINDOW_HOURS)
+      );
+    } catch (error: any) {
+      console.error('Error fetching pending transfers:', error);
+      showMessage('Error', error.message || 'Failed to fetch pending transfers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveWindow = async () => {
+    const hours = parseFloat(windowHours);
+    if (isNaN(hours) || hours <= 0) {
+      showMessage('Invalid Window', 'Enter the number of hours customers have to pay');
+      return;
+    }
+
+    try {
+      setSavingWindow(true);
+      const { error } = await supabase
+        .from('platform_settings')
+        .upsert({
+          key: 'bank_transfer',
+          value: { payment_window_hours: hours },
+          updated_at: new Date().toISOString(),
+          updated_by: (await supabase.auth.getUser()).data.user?.id,
+        });
+
+      if (error) throw error;
+      showMessage('Saved', `Unpaid transfers will be cancelled after ${hours} hours`);
+    } catch (error: any) {
+      console.error('Error saving payment window:', error);
+      showMessage('Error', error.message || 'Failed to save payment window');
+    } finally {
+      setSavingWindow(false);
+    }
+  };
+
+  const importStatement = async () => {
+    if (!selectedAccountId) {
+      showMessage('No Bank Account', 'Choose the account the statement belongs to');
+      return;
+    }
+
+    let parsed;
+    try {
+      parsed = parseStatementCsv(statementCsv);
+    } catch (error: any) {
+      showMessage('Invalid Statement', error.message);
+      return;
+    }
+
+    if (parsed.length === 0) {
+      showMessage('Nothing to Import', 'The statement has no credit lines');
+      return;
+    }
+
+    try {
+      setImporting(true);
+      const { data, error } = await supabase.rpc('import_bank_statement', {
+        p_bank_account_id: selectedAccountId,
+        p_file_name: statementName,
+        p_lines: parsed,
+      });
+
+      if (error) throw error;
+
+      setStatementCsv('');
+      setStatementName('');
+      showMessage(
+        'Statement Imported',
+        `${data.imported} new credits imported, ${data.duplicates} already imported`
+      );
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error importing statement:', error);
+      showMessage('Error', error.message || 'Failed to import statement');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const closeTransfer = () => {
+    setSelectedTransfer(null);
+    setManualReference('');
+    setRejectReason('');
+  };
+
+  const confirmTransfer = async (transfer: PendingTransfer, line?: BankStatementLine) => {
+    try {
+      setProcessing(true);
+      const { error } = await supabase.rpc('confirm_bank_transfer', {
+        p_checkout_group_id: transfer.id,
+        p_statement_line_id: line?.id ?? null,
+        p_reference: line ? null : manualReference,
+      });
+
+      if (error) throw error;
+
+      closeTransfer();
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error confirming transfer:', error);
+      showMessage('Error', error.message || 'Failed to confirm transfer');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const rejectTransfer = async (transfer: PendingTransfer) => {
+    try {
+      setProcessing(true);
+      const { error } = await supabase.rpc('reject_bank_transfer', {
+        p_checkout_group_id: transfer.id,
+        p_reason: rejectReason,
+      });
+
+      if (error) throw error;
+
+      closeTransfer();
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error rejecting transfer:', error);
+      showMessage('Error', error.message || 'Failed to reject transfer');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const ignoreLine = async (line: BankStatementLine) => {
+    try {
+      const { error } = await supabase
+        .from('bank_statement_lines')
+        .update({ status: 'ignored' })
+        .eq('id', line.id);
+
+      if (error) throw error;
+      setLines((current) => current.filter((item) => item.id !== line.id));
+    } catch (error: any) {
+      console.error('Error ignoring statement line:', error);
+      showMessage('Error', error.message || 'Failed to ignore statement line');
+    }
+  };
+
+  const timeLeft = (transfer: PendingTransfer) => {
+    const hours = parseFloat(windowHours) || DEFAULT_WINDOW_HOURS;
+    const deadline = new Date(transfer.created_at).getTime() + hours * 3600000;
+    return deadline - Date.now();
+  };
+
+  const selectedMatches = selectedTransfer ? suggestMatches(selectedTransfer, lines) : [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerTop}>
+          {onBack && (
+            <TouchableOpacity style={styles.backButton} onPress={onBack}>
+              <ArrowLeft size={24} color="#ffffff" />
+            </TouchableOpacity>
+          )}
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.title}>Pending Transfers</Text>
+            <Text style={styles.subtitle}>Match bank transfers to unpaid orders</Text>
+          </View>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.section}>
+          <View style={styles.card}>
+            <View style={styles.cardHeaderRow}>
+              <Text style={styles.cardTitle}>Awaiting Payment</Text>
+              <Text style={styles.totalText}>{transfers.length}</Text>
+            </View>
+
+            {loading ? (
+              <ActivityIndicator size="small" color="#ff8c00" style={styles.loader} />
+            ) : transfers.length === 0 ? (
+              <Text style={styles.emptyText}>No unpaid bank transfers</Text>
+            ) : (
+              transfers.map((transfer) => {
+                const matches = suggestMatches(transfer, lines);
+                const remaining = timeLeft(transfer);
+
+                return (
+                  <TouchableOpacity
+                    key={transfer.id}
+                    style={styles.row}
+                    onPress={() => setSelectedTransfer(transfer)}
+                  >
+                    <View style={styles.rowInfo}>
+                      <Text style={styles.rowTitle}>#{transfer.group_number}</Text>
+                      <Text style={styles.rowMeta}>
+                        {transfer.customer?.full_name || 'Customer'} · placed{' '}
+                        {formatDuration(Date.now() - new Date(transfer.created_at).getTime())} ago
+                      </Text>
+                      <Text style={[styles.rowMeta, remaining < 3600000 && styles.urgentText]}>
+                        {remaining > 0
+                          ? `Cancels in ${formatDuration(remaining)}`
+                          : 'Cancelling shortly'}
+                      </Text>
+                    </View>
+                    <View style={styles.rowAmounts}>
+                      <Text style={styles.rowAmount}>{formatAmount(transfer.total)}</Text>
+                      {matches.length > 0 && (
+                        <View style={styles.matchBadge}>
+                          <Text style={styles.matchBadgeText}>
+                            {matches.length} {matches.length === 1 ? 'match' : 'matches'}
+                          </Text>
+                        </View>
+                      )}
+                    </View>
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Import Statement</Text>
+            <Text style={styles.hint}>
+              Paste the CSV export of the account. Only credits are imported, and lines
+              already imported are skipped.
+            </Text>
+
+            <Text style={styles.label}>Bank Account</Text>
+            {bankAccounts.length === 0 ? (
+              <Text style={styles.hint}>Add a bank account under Bank Accounts first.</Text>
+            ) : (
+              <View style={styles.chipRow}>
+                {bankAccounts.map((account) => (
+                  <TouchableOpacity
+                    key={account.id}
+                    style={[styles.chip, selectedAccountId === account.id && styles.chipActive]}
+                    onPress={() => setSelectedAccountId(account.id)}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        selectedAccountId === account.id && styles.chipTextActive,
+                      ]}
+                    >
+                      {account.bank_name} {account.account_number}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <Text style={styles.label}>Statement Name</Text>
+            <TextInput
+              style={styles.input}
+              value={statementName}
+              onChangeText={setStatementName}
+              placeholder="e.g. GTBank 19 Oct"
+              placeholderTextColor="#9ca3af"
+            />
+
+            <Text style={styles.label}>CSV</Text>
+            <TextInput
+              style={[styles.input, styles.csvInput]}
+              value={statementCsv}
+              onChangeText={setStatementCsv}
+              placeholder={'Date,Narration,Reference,Debit,Credit\n19/10/2026,TRF ORD-1760...,FT123,,5000.00'}
+              placeholderTextColor="#9ca3af"
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (importing || !statementCsv.trim()) && styles.buttonDisabled]}
+              onPress={importStatement}
+              disabled={importing || !statementCsv.trim()}
+            >
+              {importing ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <>
+                  <Upload size={18} color="#ffffff" />
+                  <Text style={styles.primaryButtonText}>Import</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.card}>
+            <View style={styles.cardHeaderRow}>
+              <Text style={styles.cardTitle}>Unmatched Credits</Text>
+              <Text style={styles.totalText}>{lines.length}</Text>
+            </View>
+            {lines.length === 0 ? (
+              <Text style={styles.emptyText}>No unmatched credits</Text>
+            ) : (
+              lines.map((line) => (
+                <View key={line.id} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{formatAmount(line.amount)}</Text>
+                    <Text style={styles.rowMeta} numberOfLines={2}>
+                      {line.transaction_date} · {line.narration || 'No narration'}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={() =>
+                      confirmAction(
+                        'Ignore Credit',
+                        `Ignore the ${formatAmount(line.amount)} credit? It will no longer be suggested.`,
+                        'Ignore',
+                        () => ignoreLine(line)
+                      )
+                    }
+                  >
+                    <Text style={styles.secondaryButtonText}>Ignore</Text>
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Payment Window</Text>
+            <Text style={styles.hint}>
+              Bank transfer orders still unpaid after this many hours are cancelled and
+              their stock released.
+            </Text>
+            <View style={styles.windowRow}>
+              <TextInput
+                style={[styles.input, styles.windowInput]}
+                value={windowHours}
+                onChangeText={setWindowHours}
+                keyboardType="decimal-pad"
+                placeholder="24"
+                placeholderTextColor="#9ca3af"
+              />
+              <Text style={styles.windowUnit}>hours</Text>
+              <TouchableOpacity
+                style={[styles.saveButton, savingWindow && styles.buttonDisabled]}
+                onPress={saveWindow}
+                disabled={savingWindow}
+              >
+                {savingWindow ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </ScrollView>
+
+      <Modal
+        visible={!!selectedTransfer}
+        transparent
+        animationType="slide"
+        onRequestClose={closeTransfer}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>#{selectedTransfer?.group_number}</Text>
+              <TouchableOpacity onPress={closeTransfer} style={styles.closeButton}>
+                <X size={24} color="#64748b" />
+              </TouchableOpacity>
+            </View>
+
+            {selectedTransfer && (
+              <ScrollView showsVerticalScrollIndicator={false}>
+                <View style={styles.summary}>
+                  <Text style={styles.summaryAmount}>{formatAmount(selectedTransfer.total)}</Text>
+                  <Text style={styles.summaryMeta}>
+                    {selectedTransfer.customer?.full_name || 'Customer'}
+                    {selectedTransfer.customer?.email ? ` · ${selectedTransfer.customer.email}` : ''}
+                  </Text>
+                  <Text style={styles.summaryMeta}>
+                    Placed {new Date(selectedTransfer.created_at).toLocaleString()}
+                  </Text>
+                </View>
+
+                <Text style={styles.label}>Suggested Matches</Text>
+                {selectedMatches.length === 0 ? (
+                  <Text style={styles.hint}>
+                    No imported credit matches this amount or order number.
+                  </Text>
+                ) : (
+                  selectedMatches.map(({ line, amountMatches, narrationMatches }) => (
+                    <View key={line.id} style={styles.row}>
+                      <View style={styles.rowInfo}>
+                        <Text style={styles.rowTitle}>
+                          {formatAmount(line.amount)} · {line.transaction_date}
+                        </Text>
+                        <Text style={styles.rowMeta} numberOfLines={2}>
+                          {line.narration || 'No narration'}
+                        </Text>
+                        <View style={styles.reasonRow}>
+                          {narrationMatches && (
+                            <Text style={styles.reasonText}>Order number in narration</Text>
+                          )}
+                          {amountMatches && <Text style={styles.reasonText}>Exact amount</Text>}
+                        </View>
+                      </View>
+                      <TouchableOpacity
+                        style={[styles.confirmButton, processing && styles.buttonDisabled]}
+                        disabled={processing}
+                        onPress={() =>
+                          confirmAction(
+                            'Confirm Payment',
+                            `Mark #${selectedTransfer.group_number} as paid with the ${formatAmount(line.amount)} credit?`,
+                            'Confirm',
+                            () => confirmTransfer(selectedTransfer, line)
+                          )
+                        }
+                      >
+                        <CheckCircle size={16} color="#ffffff" />
+                        <Text style={styles.primaryButtonText}>Confirm</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))
+                )}
+
+                <Text style={styles.label}>Confirm Without Statement</Text>
+                <View style={styles.windowRow}>
+                  <TextInput
+                    style={[styles.input, styles.flexInput]}
+                    value={manualReference}
+                    onChangeText={setManualReference}
+                    placeholder="Bank transfer reference"
+                    placeholderTextColor="#9ca3af"
+                    autoCapitalize="characters"
+                  />
+                  <TouchableOpacity
+                    style={[
+                      styles.confirmButton,
+                      (processing || !manualReference.trim()) && styles.buttonDisabled,
+                    ]}
+                    disabled={processing || !manualReference.trim()}
+                    onPress={() => confirmTransfer(selectedTransfer)}
+                  >
+                    <CheckCircle size={16} color="#ffffff" />
+                    <Text style={styles.primaryButtonText}>Confirm</Text>
+                  </TouchableOpacity>
+                </View>
+
+                <Text style={styles.label}>Reject</Text>
+                <TextInput
+                  style={styles.input}
+                  value={rejectReason}
+                  onChangeText={setRejectReason}
+                  placeholder="Reason shown to the customer (optional)"
+                  placeholderTextColor="#9ca3af"
+                />
+                <TouchableOpacity
+                  style={[styles.rejectButton, processing && styles.buttonDisabled]}
+                  disabled={processing}
+                  onPress={() =>
+                    confirmAction(
+                      'Reject Transfer',
+                      `Cancel #${selectedTransfer.group_number} as unpaid? The customer will be notified.`,
+                      'Reject',
+                      () => rejectTransfer(selectedTransfer)
+                    )
+                  }
+                >
+                  <XCircle size={18} color="#ffffff" />
+                  <Text style={styles.primaryButtonText}>Reject and Cancel Orders</Text>
+                </TouchableOpacity>
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    backgroundColor: '#ff8c00',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#ffffff',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#e0f2fe',
+    marginTop: 4,
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  cardHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  totalText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#ff8c00',
+  },
+  loader: {
+    marginVertical: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#1f2937',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  csvInput: {
+    minHeight: 140,
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+  },
+  flexInput: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f3f4f6',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  chipActive: {
+    backgroundColor: '#fff7ed',
+    borderColor: '#ff8c00',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4b5563',
+  },
+  chipTextActive: {
+    color: '#c2410c',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#ff8c00',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  secondaryButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+  },
+  secondaryButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4b5563',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  urgentText: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  rowAmounts: {
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+  rowAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  matchBadge: {
+    backgroundColor: '#d1fae5',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  matchBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#047857',
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  reasonText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#047857',
+  },
+  confirmButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#10b981',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  rejectButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#ef4444',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  windowInput: {
+    width: 80,
+  },
+  windowUnit: {
+    flex: 1,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  saveButton: {
+    backgroundColor: '#ff8c00',
+    borderRadius: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  summary: {
+    backgroundColor: '#fff7ed',
+    borderRadius: 12,
+    padding: 16,
+  },
+  summaryAmount: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: '#1f2937',
+  },
+  summaryMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '800',
+    color: '#1e293b',
+  },
+  closeButton: {
+    padding: 4,
+  },
+});
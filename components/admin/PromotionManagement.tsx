@@ -0,0 +1,777 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Alert,
+  Platform,
+  Switch,
+} from 'react-native';
+import { ArrowLeft, Plus, Edit, Trash2, Save, X, Tag } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+
+interface PromotionManagementProps {
+  onBack?: () => void;
+}
+
+type DiscountType = 'percentage' | 'fixed_amount' | 'free_delivery';
+
+interface Promotion {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: DiscountType;
+  discount_value: number;
+  max_discount: number | null;
+  min_basket: number;
+  vendor_id: string | null;
+  category_id: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  usage_limit: number | null;
+  per_user_limit: number | null;
+  times_used: number;
+  is_active: boolean;
+}
+
+interface PromotionForm {
+  code: string;
+  description: string;
+  discount_type: DiscountType;
+  discount_value: string;
+  max_discount: string;
+  min_basket: string;
+  vendor_id: string | null;
+  category_id: string | null;
+  starts_at: string;
+  ends_at: string;
+  usage_limit: string;
+  per_user_limit: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: PromotionForm = {
+  code: '',
+  description: '',
+  discount_type: 'percentage',
+  discount_value: '',
+  max_discount: '',
+  min_basket: '0',
+  vendor_id: null,
+  category_id: null,
+  starts_at: '',
+  ends_at: '',
+  usage_limit: '',
+  per_user_limit: '1',
+  is_active: true,
+};
+
+const DISCOUNT_TYPES: { value: DiscountType; label: string }[] = [
+  { value: 'percentage', label: 'Percentage' },
+  { value: 'fixed_amount', label: 'Fixed Amount' },
+  { value: 'free_delivery', label: 'Free Delivery' },
+];
+
+export default function PromotionManagement({ onBack }: PromotionManagementProps) {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [vendors, setVendors] = useState<{ id: string; business_name: string }[]>([]);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PromotionForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchPromotions();
+    fetchScopes();
+  }, []);
+
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(message);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const fetchPromotions = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('promotions')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setPromotions(data || []);
+    } catch (error) {
+      console.error('Error fetching promotions:', error);
+      showMessage('Error', 'Failed to fetch promotions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchScopes = async () => {
+    const [{ data: vendorData }, { data: categoryData }] = await Promise.all([
+      supabase.from('vendors').select('id, business_name').order('business_name'),
+      supabase.from('categories').select('id, name').order('name'),
+    ]);
+
+    setVendors(vendorData || []);
+    setCategories(categoryData || []);
+  };
+
+  const handleEdit = (promotion: Promotion) => {
+    setEditingId(promotion.id);
+    setShowForm(true);
+    setForm({
+      code: promotion.code,
+      description: promotion.description || '',
+      discount_type: promotion.discount_type,
+      discount_value: String(promotion.discount_value),
+      max_discount: promotion.max_discount != null ? String(promotion.max_discount) : '',
+      min_basket: String(promotion.min_basket),
+      vendor_id: promotion.vendor_id,
+      category_id: promotion.category_id,
+      starts_at: promotion.starts_at ? promotion.starts_at.slice(0, 10) : '',
+      ends_at: promotion.ends_at ? promotion.ends_at.slice(0, 10) : '',
+      usage_limit: promotion.usage_limit != null ? String(promotion.usage_limit) : '',
+      per_user_limit: promotion.per_user_limit != null ? String(promotion.per_user_limit) : '',
+      is_active: promotion.is_active,
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setShowForm(false);
+    setForm(EMPTY_FORM);
+  };
+
+  const parseOptional = (value: string) => (value.trim() ? parseFloat(value) : null);
+
+  const handleSave = async () => {
+    const code = form.code.trim().toUpperCase();
+    const discountValue = form.discount_type === 'free_delivery' ? 0 : parseFloat(form.discount_value);
+    const maxDiscount = parseOptional(form.max_discount);
+    const minBasket = parseFloat(form.min_basket || '0');
+    const usageLimit = parseOptional(form.usage_limit);
+    const perUserLimit = parseOptional(form.per_user_limit);
+
+    if (!/^[A-Z0-9_-]{3,20}$/.test(code)) {
+      showMessage('Error', 'Code must be 3-20 letters, numbers, dashes or underscores');
+      return;
+    }
+
+    if (isNaN(discountValue) || discountValue < 0 || isNaN(minBasket) || minBasket < 0) {
+      showMessage('Error', 'Discount and minimum basket must be numbers of 0 or more');
+      return;
+    }
+
+    if (form.discount_type === 'percentage' && (discountValue <= 0 || discountValue > 100)) {
+      showMessage('Error', 'Percentage must be between 1 and 100');
+      return;
+    }
+
+    if (form.discount_type === 'fixed_amount' && discountValue <= 0) {
+      showMessage('Error', 'Fixed discount must be greater than 0');
+      return;
+    }
+
+    if ([maxDiscount, usageLimit, perUserLimit].some((value) => value !== null && (isNaN(value) || value <= 0))) {
+      showMessage('Error', 'Caps and limits must be greater than 0, or left empty');
+      return;
+    }
+
+    const dates = [form.starts_at, form.ends_at].filter((value) => value.trim());
+    if (dates.some((value) => !/^\d{4}-\d{2}-\d{2}$/.test(value.trim()))) {
+      showMessage('Error', 'Dates must use the YYYY-MM-DD format');
+      return;
+    }
+
+    // Codes run from the start of the first day to the end of the last
+    const startsAt = form.starts_at.trim() ? new Date(`${form.starts_at.trim()}T00:00:00`).toISOString() : null;
+    const endsAt = form.ends_at.trim() ? new Date(`${form.ends_at.trim()}T23:59:59`).toISOString() : null;
+
+    if (startsAt && endsAt && startsAt >= endsAt) {
+      showMessage('Error', 'End date must be after the start date');
+      return;
+    }
+
+    const payload = {
+      code,
+      description: form.description.trim() || null,
+      discount_type: form.discount_type,
+      discount_value: discountValue,
+      max_discount: form.discount_type === 'percentage' ? maxDiscount : null,
+      min_basket: minBasket,
+      vendor_id: form.vendor_id,
+      category_id: form.category_id,
+      starts_at: startsAt,
+      ends_at: endsAt,
+      usage_limit: usageLimit !== null ? Math.floor(usageLimit) : null,
+      per_user_limit: perUserLimit !== null ? Math.floor(perUserLimit) : null,
+      is_active: form.is_active,
+      updated_at: new Date().toISOString(),
+    };
+
+    try {
+      setSaving(true);
+
+      const { error } = editingId
+        ? await supabase.from('promotions').update(payload).eq('id', editingId)
+        : await supabase
+            .from('promotions')
+            .insert({ ...payload, created_by: (await supabase.auth.getUser()).data.user?.id });
+
+      if (error) {
+        if (error.code === '23505') {
+          showMessage('Error', `The code ${code} already exists`);
+          return;
+        }
+        throw error;
+      }
+
+      showMessage('Success', editingId ? 'Promotion updated successfully' : 'Promotion created successfully');
+      handleCancel();
+      await fetchPromotions();
+    } catch (error: any) {
+      console.error('Error saving promotion:', error);
+      showMessage('Error', error.message || 'Failed to save promotion');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setActive = async (promotion: Promotion, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('promotions')
+        .update({ is_active: isActive, updated_at: new Date().toISOString() })
+        .eq('id', promotion.id);
+
+      if (error) throw error;
+      await fetchPromotions();
+    } catch (error: any) {
+      console.error('Error updating promotion:', error);
+      showMessage('Error', error.message || 'Failed to update promotion');
+    }
+  };
+
+  const handleDelete = (promotion: Promotion) => {
+    const remove = async () => {
+      try {
+        const { error } = await supabase.from('promotions').delete().eq('id', promotion.id);
+        if (error) throw error;
+        await fetchPromotions();
+      } catch (error: any) {
+        console.error('Error deleting promotion:', error);
+        showMessage('Error', error.message || 'Failed to delete promotion');
+      }
+    };
+
+    // Used codes are kept so past orders still point at them
+    const message = promotion.times_used > 0
+      ? `${promotion.code} has been used ${promotion.times_used} times. Deactivate it instead?`
+      : `Delete ${promotion.code}?`;
+
+    if (promotion.times_used > 0) {
+      if (Platform.OS === 'web') {
+        if (window.confirm(message)) setActive(promotion, false);
+        return;
+      }
+      Alert.alert('Promotion In Use', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Deactivate', onPress: () => setActive(promotion, false) },
+      ]);
+      return;
+    }
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) remove();
+      return;
+    }
+
+    Alert.alert('Delete Promotion', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: remove },
+    ]);
+  };
+
+  const describeDiscount = (promotion: Promotion) => {
+    if (promotion.discount_type === 'free_delivery') return 'Free delivery';
+    if (promotion.discount_type === 'fixed_amount') return `₦${Number(promotion.discount_value).toFixed(2)} off`;
+    return `${Number(promotion.discount_value)}% off${
+      promotion.max_discount != null ? ` (up to ₦${Number(promotion.max_discount).toFixed(2)})` : ''
+    }`;
+  };
+
+  const describeScope = (promotion: Promotion) => {
+    const parts = [];
+    if (promotion.vendor_id) {
+      parts.push(vendors.find((v) => v.id === promotion.vendor_id)?.business_name ?? 'One restaurant');
+    }
+    if (promotion.category_id) {
+      parts.push(categories.find((c) => c.id === promotion.category_id)?.name ?? 'One category');
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'All restaurants';
+  };
+
+  const renderField = (
+    key: 'discount_value' | 'max_discount' | 'min_basket' | 'usage_limit' | 'per_user_limit' | 'starts_at' | 'ends_at',
+    label: string,
+    hint: string,
+    keyboardType: 'decimal-pad' | 'number-pad' | 'default' = 'decimal-pad'
+  ) => (
+    <View key={key}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={form[key]}
+        onChangeText={(text) => setForm({ ...form, [key]: text })}
+        keyboardType={keyboardType}
+        placeholder={keyboardType === 'default' ? 'YYYY-MM-DD' : undefined}
+        placeholderTextColor="#9ca3af"
+      />
+      <Text style={styles.hint}>{hint}</Text>
+    </View>
+  );
+
+  const renderChips = (
+    options: { id: string; label: string }[],
+    selected: string | null,
+    onSelect: (id: string | null) => void,
+    allLabel: string
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+      {[{ id: null as string | null, label: allLabel }, ...options].map((option) => (
+        <TouchableOpacity
+          key={option.id ?? 'all'}
+          style={[styles.chip, selected === option.id && styles.chipActive]}
+          onPress={() => onSelect(option.id)}
+        >
+          <Text style={[styles.chipText, selected === option.id && styles.chipTextActive]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#ff8c00" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerTop}>
+          {onBack && (
+            <TouchableOpacity style={styles.backButton} onPress={onBack}>
+              <ArrowLeft size={24} color="#ffffff" />
+            </TouchableOpacity>
+          )}
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.title}>Promotions</Text>
+            <Text style={styles.subtitle}>Promo codes and vouchers</Text>
+          </View>
+          {!showForm && (
+            <TouchableOpacity style={styles.addButton} onPress={() => setShowForm(true)}>
+              <Plus size={20} color="#ff8c00" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.section}>
+          {showForm && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{editingId ? 'Edit Promotion' : 'New Promotion'}</Text>
+
+              <Text style={styles.label}>Code</Text>
+              <TextInput
+                style={styles.input}
+                value={form.code}
+                onChangeText={(text) => setForm({ ...form, code: text.toUpperCase() })}
+                autoCapitalize="characters"
+                placeholder="e.g. LUNCH20"
+                placeholderTextColor="#9ca3af"
+              />
+
+              <Text style={styles.label}>Description</Text>
+              <TextInput
+                style={styles.input}
+                value={form.description}
+                onChangeText={(text) => setForm({ ...form, description: text })}
+                placeholder="Shown to the customer when the code is applied"
+                placeholderTextColor="#9ca3af"
+              />
+
+              <Text style={styles.label}>Discount Type</Text>
+              <View style={styles.chipRowStatic}>
+                {DISCOUNT_TYPES.map((type) => (
+                  <TouchableOpacity
+                    key={type.value}
+                    style={[styles.chip, form.discount_type === type.value && styles.chipActive]}
+                    onPress={() => setForm({ ...form, discount_type: type.value })}
+                  >
+                    <Text style={[styles.chipText, form.discount_type === type.value && styles.chipTextActive]}>
+                      {type.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {form.discount_type === 'percentage' &&
+                renderField('discount_value', 'Percent Off', 'Applied to the eligible items in the basket')}
+              {form.discount_type === 'percentage' &&
+                renderField('max_discount', 'Maximum Discount (₦)', 'Optional cap on the discount')}
+              {form.discount_type === 'fixed_amount' &&
+                renderField('discount_value', 'Amount Off (₦)', 'Never more than the eligible items cost')}
+              {renderField('min_basket', 'Minimum Basket (₦)', 'Eligible subtotal needed to use the code')}
+            </View>
+          )}
+
+          {showForm && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Scope</Text>
+              <Text style={styles.label}>Restaurant</Text>
+              {renderChips(
+                vendors.map((v) => ({ id: v.id, label: v.business_name })),
+                form.vendor_id,
+                (id) => setForm({ ...form, vendor_id: id }),
+                'All restaurants'
+              )}
+              <Text style={styles.label}>Category</Text>
+              {renderChips(
+                categories.map((c) => ({ id: c.id, label: c.name })),
+                form.category_id,
+                (id) => setForm({ ...form, category_id: id }),
+                'All categories'
+              )}
+            </View>
+          )}
+
+          {showForm && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Validity and Limits</Text>
+              {renderField('starts_at', 'Starts On', 'Leave empty to start now', 'default')}
+              {renderField('ends_at', 'Ends On', 'Leave empty to never expire', 'default')}
+              {renderField('usage_limit', 'Total Uses', 'Leave empty for unlimited', 'number-pad')}
+              {renderField('per_user_limit', 'Uses per Customer', 'Leave empty for unlimited', 'number-pad')}
+
+              <View style={styles.switchRow}>
+                <Text style={styles.label}>Active</Text>
+                <Switch
+                  value={form.is_active}
+                  onValueChange={(value) => setForm({ ...form, is_active: value })}
+                  trackColor={{ false: '#e2e8f0', true: '#ffb366' }}
+                  thumbColor={form.is_active ? '#ff8c00' : '#f4f3f4'}
+                />
+              </View>
+
+              <View style={styles.formActions}>
+                <TouchableOpacity style={styles.cancelButton} onPress={handleCancel}>
+                  <X size={18} color="#64748b" />
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+                  onPress={handleSave}
+                  disabled={saving}
+                >
+                  {saving ? (
+                    <ActivityIndicator color="#ffffff" />
+                  ) : (
+                    <>
+                      <Save size={18} color="#ffffff" />
+                      <Text style={styles.saveButtonText}>Save</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {promotions.map((promotion) => (
+            <View key={promotion.id} style={[styles.card, !promotion.is_active && styles.cardInactive]}>
+              <View style={styles.promotionHeader}>
+                <View style={styles.promotionTitleRow}>
+                  <Tag size={18} color="#ff8c00" />
+                  <Text style={styles.promotionCode}>{promotion.code}</Text>
+                  {!promotion.is_active && (
+                    <View style={styles.inactiveBadge}>
+                      <Text style={styles.inactiveBadgeText}>Inactive</Text>
+                    </View>
+                  )}
+                </View>
+                <View style={styles.promotionActions}>
+                  <Switch
+                    value={promotion.is_active}
+                    onValueChange={(value) => setActive(promotion, value)}
+                    trackColor={{ false: '#e2e8f0', true: '#ffb366' }}
+                    thumbColor={promotion.is_active ? '#ff8c00' : '#f4f3f4'}
+                  />
+                  <TouchableOpacity style={styles.iconButton} onPress={() => handleEdit(promotion)}>
+                    <Edit size={16} color="#3b82f6" />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(promotion)}>
+                    <Trash2 size={16} color="#ef4444" />
+                  </TouchableOpacity>
+                </View>
+              </View>
+              <Text style={styles.promotionDiscount}>{describeDiscount(promotion)}</Text>
+              {promotion.description && <Text style={styles.hint}>{promotion.description}</Text>}
+              <Text style={styles.promotionMeta}>
+                {describeScope(promotion)}
+                {Number(promotion.min_basket) > 0 ? ` · Min ₦${Number(promotion.min_basket).toFixed(2)}` : ''}
+              </Text>
+              <Text style={styles.promotionMeta}>
+                Used {promotion.times_used}
+                {promotion.usage_limit != null ? ` of ${promotion.usage_limit}` : ''} times
+                {promotion.ends_at ? ` · Ends ${new Date(promotion.ends_at).toLocaleDateString()}` : ''}
+              </Text>
+            </View>
+          ))}
+
+          {promotions.length === 0 && !showForm && (
+            <View style={styles.emptyState}>
+              <Tag size={48} color="#cbd5e1" />
+              <Text style={styles.emptyText}>No promotions yet</Text>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#ff8c00',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#ffffff',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#e0f2fe',
+    marginTop: 4,
+  },
+  addButton: {
+    backgroundColor: '#ffffff',
+    borderRadius: 20,
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardInactive: {
+    opacity: 0.6,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#1f2937',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  chipRow: {
+    flexGrow: 0,
+  },
+  chipRowStatic: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f1f5f9',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: '#ff8c00',
+    borderColor: '#ff8c00',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#f1f5f9',
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#ff8c00',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  promotionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  promotionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    flex: 1,
+  },
+  promotionCode: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#1f2937',
+    letterSpacing: 1,
+  },
+  inactiveBadge: {
+    backgroundColor: '#f1f5f9',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  inactiveBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  promotionActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  promotionDiscount: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ff8c00',
+    marginTop: 8,
+  },
+  promotionMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginTop: 12,
+  },
+});
@@ -9,6 +9,7 @@ import {
   Modal,
   Alert,
   TextInput,
+  Switch,
 } from 'react-native';
 import {
   Bike,
@@ -21,8 +22,12 @@ import {
   Package,
   Calendar,
   ArrowLeft,
+  AlertTriangle,
+  RefreshCw,
+  Settings,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { optimizeBatchRoute } from '@/lib/routeOptimizer';
 
 interface Rider {
   id: string;
@@ -48,12 +53,25 @@ interface Order {
   };
 }
 
+interface EscalatedOrder extends Order {
+  dispatch_escalated_at: string;
+}
+
+interface DispatchSettings {
+  enabled: boolean;
+  offer_timeout_minutes: string;
+  max_attempts: string;
+  search_radius_km: string;
+  max_active_orders: string;
+  location_max_age_minutes: string;
+}
+
 interface RiderAssignmentManagerProps {
   onBack: () => void;
 }
 
 export default function RiderAssignmentManager({ onBack }: RiderAssignmentManagerProps) {
-  const [view, setView] = useState<'main' | 'on-demand' | 'batch'>('main');
+  const [view, setView] = useState<'main' | 'on-demand' | 'batch' | 'dispatch-settings'>('main');
   const [riders, setRiders] = useState<Rider[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
@@ -63,10 +81,23 @@ export default function RiderAssignmentManager({ onBack }: RiderAssignmentManage
   const [assigning, setAssigning] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [mealTime, setMealTime] = useState<'breakfast' | 'lunch' | 'dinner'>('lunch');
+  const [escalatedOrders, setEscalatedOrders] = useState<EscalatedOrder[]>([]);
+  const [retryingOrderId, setRetryingOrderId] = useState<string | null>(null);
+  const [dispatchSettings, setDispatchSettings] = useState<DispatchSettings>({
+    enabled: true,
+    offer_timeout_minutes: '10',
+    max_attempts: '5',
+    search_radius_km: '10',
+    max_active_orders: '2',
+    location_max_age_minutes: '10',
+  });
+  const [savingSettings, setSavingSettings] = useState(false);
 
   useEffect(() => {
     fetchRiders();
     fetchUnassignedOrders();
+    fetchEscalatedOrders();
+    fetchDispatchSettings();
   }, []);
 
   const fetchRiders = async () => {
@@ -105,6 +136,7 @@ export default function RiderAssignmentManager({ onBack }: RiderAssignmentManage
         `)
         .eq('delivery_type', 'delivery')
         .is('assigned_rider_id', null)
+        .not('released_at', 'is', null)
         .in('status', ['pending', 'confirmed'])
         .order('created_at', { ascending: true });
 
@@ -115,6 +147,135 @@ export default function RiderAssignmentManager({ onBack }: RiderAssignmentManage
     }
   };
 
+  const fetchEscalatedOrders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          id,
+          order_number,
+          delivery_address,
+          total,
+          status,
+          delivery_type,
+          meal_time_preference,
+          dispatch_escalated_at,
+          vendor:vendors!inner(business_name, address)
+        `)
+        .eq('delivery_type', 'delivery')
+        .is('assigned_rider_id', null)
+        .not('dispatch_escalated_at', 'is', null)
+        .in('status', ['pending', 'confirmed'])
+        .order('dispatch_escalated_at', { ascending: true });
+
+      if (error) throw error;
+      setEscalatedOrders(
+        (data || []).map((order: any) => ({
+          ...order,
+          vendor: Array.isArray(order.vendor) ? order.vendor[0] : order.vendor,
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching escalated orders:', error);
+    }
+  };
+
+  const fetchDispatchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('platform_settings')
+        .select('value')
+        .eq('key', 'dispatch_settings')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data?.value) {
+        setDispatchSettings({
+          enabled: data.value.enabled ?? true,
+          offer_timeout_minutes: String(data.value.offer_timeout_minutes ?? 10),
+          max_attempts: String(data.value.max_attempts ?? 5),
+          search_radius_km: String(data.value.search_radius_km ?? 10),
+          max_active_orders: String(data.value.max_active_orders ?? 2),
+          location_max_age_minutes: String(data.value.location_max_age_minutes ?? 10),
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching dispatch settings:', error);
+    }
+  };
+
+  const saveDispatchSettings = async () => {
+    const offerTimeout = parseInt(dispatchSettings.offer_timeout_minutes, 10);
+    const maxAttempts = parseInt(dispatchSettings.max_attempts, 10);
+    const searchRadius = parseFloat(dispatchSettings.search_radius_km);
+    const maxActiveOrders = parseInt(dispatchSettings.max_active_orders, 10);
+    const locationMaxAge = parseInt(dispatchSettings.location_max_age_minutes, 10);
+
+    if (
+      !(offerTimeout > 0)
+      || !(maxAttempts > 0)
+      || !(searchRadius > 0)
+      || !(maxActiveOrders > 0)
+      || !(locationMaxAge > 0)
+    ) {
+      Alert.alert('Error', 'All values must be numbers greater than 0');
+      return;
+    }
+
+    try {
+      setSavingSettings(true);
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('platform_settings')
+        .upsert({
+          key: 'dispatch_settings',
+          value: {
+            enabled: dispatchSettings.enabled,
+            offer_timeout_minutes: offerTimeout,
+            max_attempts: maxAttempts,
+            search_radius_km: searchRadius,
+            max_active_orders: maxActiveOrders,
+            location_max_age_minutes: locationMaxAge,
+          },
+          updated_at: new Date().toISOString(),
+          updated_by: userData.user?.id ?? null,
+        });
+
+      if (error) throw error;
+      Alert.alert('Success', 'Dispatch settings saved');
+      setView('main');
+    } catch (error: any) {
+      console.error('Error saving dispatch settings:', error);
+      Alert.alert('Error', error.message || 'Failed to save dispatch settings');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const retryDispatch = async (order: EscalatedOrder) => {
+    try {
+      setRetryingOrderId(order.id);
+      const { data, error } = await supabase.rpc('retry_order_dispatch', { p_order_id: order.id });
+
+      if (error) throw error;
+
+      if (data?.id) {
+        Alert.alert('Dispatch Restarted', `Order ${order.order_number} has been offered to a rider.`);
+      } else {
+        Alert.alert(
+          'No Rider Available',
+          `No available rider is in range for order ${order.order_number} right now. It will be offered automatically as riders come online.`
+        );
+      }
+      await fetchEscalatedOrders();
+    } catch (error: any) {
+      console.error('Error retrying dispatch:', error);
+      Alert.alert('Error', error.message || 'Failed to restart dispatch');
+    } finally {
+      setRetryingOrderId(null);
+    }
+  };
+
   const assignRiderToOrder = async () => {
     if (!selectedOrder || !selectedRider) {
       Alert.alert('Error', 'Please select both an order and a rider');
@@ -157,6 +318,7 @@ export default function RiderAssignmentManager({ onBack }: RiderAssignmentManage
       setSelectedOrder(null);
       setSelectedRider(null);
       await fetchUnassignedOrders();
+      await fetchEscalatedOrders();
     } catch (error: any) {
       console.error('Error assigning rider:', error);
       Alert.alert('Error', error.message || 'Failed to assign rider. Please try again.');
@@ -220,6 +382,16 @@ export default function RiderAssignmentManager({ onBack }: RiderAssignmentManage
 
       console.log('Batch orders inserted');
 
+      // Stops stay in the order they were picked if some have no map location
+      let routeSummary = '';
+      try {
+        const route = await optimizeBatchRoute(batch.id);
+        routeSummary = ` Planned route: ${route.distanceKm.toFixed(1)} km, about ${route.durationMinutes} min of travel.`;
+      } catch (routeError: any) {
+        console.error('Route optimization error:', routeError);
+        routeSummary = ` The route could not be optimized (${routeError.message}), so stops are in the order selected.`;
+      }
+
       await supabase.from('notifications').insert({
         user_id: selectedRider.user_id,
         type: 'batch_assignment',
@@ -247,7 +419,7 @@ export default function RiderAssignmentManager({ onBack }: RiderAssignmentManage
 
       Alert.alert(
         'Success',
-        `Batch delivery assigned to ${selectedRider.full_name} with ${selectedOrders.length} orders. The rider has 10 minutes to accept this assignment.`
+        `Batch delivery assigned to ${selectedRider.full_name} with ${selectedOrders.length} orders. The rider has 10 minutes to accept this assignment.${routeSummary}`
       );
       setSelectedOrders([]);
       setSelectedRider(null);
@@ -414,6 +586,71 @@ export default function RiderAssignmentManager({ onBack }: RiderAssignmentManage
     );
   }
 
+  if (view === 'dispatch-settings') {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => setView('main')} style={styles.backButton}>
+            <ArrowLeft size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Auto Dispatch</Text>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <View style={styles.settingsCard}>
+            <View style={styles.settingsSwitchRow}>
+              <View style={styles.riderInfo}>
+                <Text style={styles.settingsLabel}>Automatic dispatch</Text>
+                <Text style={styles.settingsHint}>
+                  Offer confirmed delivery orders to the nearest available rider
+                </Text>
+              </View>
+              <Switch
+                value={dispatchSettings.enabled}
+                onValueChange={(value) => setDispatchSettings({ ...dispatchSettings, enabled: value })}
+                trackColor={{ false: '#d1d5db', true: '#fdba74' }}
+                thumbColor={dispatchSettings.enabled ? '#ff8c00' : '#f3f4f6'}
+              />
+            </View>
+
+            {([
+              ['offer_timeout_minutes', 'Minutes to accept an offer'],
+              ['max_attempts', 'Offers before alerting admins'],
+              ['search_radius_km', 'Search radius (km)'],
+              ['max_active_orders', 'Max orders per rider'],
+              ['location_max_age_minutes', 'Minutes a rider location stays valid'],
+            ] as const).map(([key, label]) => (
+              <View key={key} style={styles.settingsField}>
+                <Text style={styles.settingsLabel}>{label}</Text>
+                <TextInput
+                  style={styles.settingsInput}
+                  value={dispatchSettings[key]}
+                  onChangeText={(value) => setDispatchSettings({ ...dispatchSettings, [key]: value })}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            ))}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.assignButton, savingSettings && styles.disabledButton]}
+            onPress={saveDispatchSettings}
+            disabled={savingSettings}
+          >
+            {savingSettings ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <>
+                <CheckCircle size={20} color="#fff" />
+                <Text style={styles.assignButtonText}>Save Settings</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    );
+  }
+
   if (view === 'batch') {
     return (
       <View style={styles.container}>
@@ -495,7 +732,7 @@ export default function RiderAssignmentManager({ onBack }: RiderAssignmentManage
         <Text style={styles.title}>Rider Assignment</Text>
       </View>
 
-      <View style={styles.content}>
+      <ScrollView style={styles.content}>
         <View style={styles.statsRow}>
           <View style={styles.statBox}>
             <Bike size={24} color="#ff8c00" />
@@ -526,7 +763,77 @@ export default function RiderAssignmentManager({ onBack }: RiderAssignmentManage
             Create Batch Delivery
           </Text>
         </TouchableOpacity>
-      </View>
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.secondaryButton]}
+          onPress={() => setView('dispatch-settings')}
+        >
+          <Settings size={20} color="#ff8c00" />
+          <Text style={[styles.actionButtonText, styles.secondaryButtonText]}>
+            Auto Dispatch: {dispatchSettings.enabled ? 'On' : 'Off'}
+          </Text>
+        </TouchableOpacity>
+
+        {escalatedOrders.length > 0 && (
+          <>
+            <View style={styles.escalationHeader}>
+              <AlertTriangle size={20} color="#dc2626" />
+              <Text style={styles.escalationTitle}>Needs a Rider ({escalatedOrders.length})</Text>
+            </View>
+            <Text style={styles.escalationHint}>
+              No rider accepted these orders. Assign one manually or restart dispatch.
+            </Text>
+            {escalatedOrders.map((order) => (
+              <View key={order.id} style={styles.escalatedCard}>
+                <View style={styles.orderHeader}>
+                  <Text style={styles.orderNumber}>{order.order_number}</Text>
+                  <Text style={styles.orderTotal}>₦{Number(order.total).toFixed(2)}</Text>
+                </View>
+                <View style={styles.orderInfo}>
+                  <MapPin size={14} color="#6b7280" />
+                  <Text style={styles.orderAddress} numberOfLines={1}>
+                    {order.vendor.business_name}
+                  </Text>
+                </View>
+                <View style={styles.orderInfo}>
+                  <Clock size={14} color="#dc2626" />
+                  <Text style={styles.orderAddress}>
+                    Escalated {new Date(order.dispatch_escalated_at).toLocaleTimeString()}
+                  </Text>
+                </View>
+                <View style={styles.escalationActions}>
+                  <TouchableOpacity
+                    style={styles.escalationButton}
+                    onPress={() => retryDispatch(order)}
+                    disabled={retryingOrderId === order.id}
+                  >
+                    {retryingOrderId === order.id ? (
+                      <ActivityIndicator size="small" color="#ff8c00" />
+                    ) : (
+                      <>
+                        <RefreshCw size={16} color="#ff8c00" />
+                        <Text style={styles.escalationButtonText}>Retry Dispatch</Text>
+                      </>
+                    )}
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.escalationButton, styles.escalationButtonPrimary]}
+                    onPress={() => {
+                      setSelectedOrder(order);
+                      setView('on-demand');
+                    }}
+                  >
+                    <Bike size={16} color="#fff" />
+                    <Text style={[styles.escalationButtonText, styles.escalationButtonTextPrimary]}>
+                      Assign Manually
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
     </View>
   );
 }
@@ -758,4 +1065,88 @@ const styles = StyleSheet.create({
   selectedMealTimeText: {
     color: '#fff',
   },
+  escalationHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 20,
+  },
+  escalationTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+  escalationHint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  escalatedCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: '#fecaca',
+  },
+  escalationActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  escalationButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: '#ff8c00',
+  },
+  escalationButtonPrimary: {
+    backgroundColor: '#ff8c00',
+  },
+  escalationButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ff8c00',
+  },
+  escalationButtonTextPrimary: {
+    color: '#fff',
+  },
+  settingsCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+  },
+  settingsSwitchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  settingsField: {
+    marginTop: 16,
+  },
+  settingsLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 6,
+  },
+  settingsHint: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  settingsInput: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 16,
+    color: '#1f2937',
+  },
 });
@@ -0,0 +1,482 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Modal,
+  Alert,
+  Platform,
+} from 'react-native';
+import { ArrowLeft, Banknote, X } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { RiderPayout } from '@/types/database';
+import PayoutStatement from '@/components/rider/PayoutStatement';
+
+interface RiderPayoutManagementProps {
+  onBack?: () => void;
+}
+
+interface PendingRider {
+  rider_id: string;
+  full_name: string;
+  phone: string;
+  pending_amount: number;
+  earnings_count: number;
+}
+
+type PayoutWithRider = RiderPayout & { rider?: { full_name: string } | null };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toDateString(date);
+};
+
+const PRESETS = [
+  { label: 'Last 7 days', start: () => daysAgo(6) },
+  { label: 'Last 30 days', start: () => daysAgo(29) },
+  { label: 'All pending', start: () => '2000-01-01' },
+];
+
+export default function RiderPayoutManagement({ onBack }: RiderPayoutManagementProps) {
+  const [periodStart, setPeriodStart] = useState(daysAgo(6));
+  const [periodEnd, setPeriodEnd] = useState(toDateString(new Date()));
+  const [pendingRiders, setPendingRiders] = useState<PendingRider[]>([]);
+  const [recentPayouts, setRecentPayouts] = useState<PayoutWithRider[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [payingRiderId, setPayingRiderId] = useState<string | null>(null);
+  const [selectedPayout, setSelectedPayout] = useState<PayoutWithRider | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, [periodStart, periodEnd]);
+
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(message);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const fetchData = async () => {
+    if (!DATE_PATTERN.test(periodStart) || !DATE_PATTERN.test(periodEnd)) return;
+
+    try {
+      setLoading(true);
+      const [summaryResult, payoutsResult] = await Promise.all([
+        supabase.rpc('rider_payout_summary', {
+          p_period_start: periodStart,
+          p_period_end: periodEnd,
+        }),
+        supabase
+          .from('rider_payouts')
+          .select('*, rider:riders(full_name)')
+          .order('created_at', { ascending: false })
+          .limit(20),
+      ]);
+
+      if (summaryResult.error) throw summaryResult.error;
+      if (payoutsResult.error) throw payoutsResult.error;
+
+      setPendingRiders(summaryResult.data || []);
+      setRecentPayouts((payoutsResult.data || []) as PayoutWithRider[]);
+    } catch (error: any) {
+      console.error('Error fetching payouts:', error);
+      showMessage('Error', error.message || 'Failed to fetch payouts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const payRider = async (rider: PendingRider) => {
+    try {
+      setPayingRiderId(rider.rider_id);
+      const { data, error } = await supabase.rpc('create_rider_payout', {
+        p_rider_id: rider.rider_id,
+        p_period_start: periodStart,
+        p_period_end: periodEnd,
+      });
+
+      if (error) throw error;
+
+      setSelectedPayout({ ...(data as RiderPayout), rider: { full_name: rider.full_name } });
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error creating payout:', error);
+      showMessage('Error', error.message || 'Failed to pay rider');
+    } finally {
+      setPayingRiderId(null);
+    }
+  };
+
+  const confirmPayout = (rider: PendingRider) => {
+    const message = `Pay ₦${Number(rider.pending_amount).toFixed(2)} for ${rider.earnings_count} deliveries into ${rider.full_name}'s wallet?`;
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) payRider(rider);
+      return;
+    }
+
+    Alert.alert('Confirm Payout', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Pay', onPress: () => payRider(rider) },
+    ]);
+  };
+
+  const totalPending = pendingRiders.reduce((sum, rider) => sum + Number(rider.pending_amount), 0);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerTop}>
+          {onBack && (
+            <TouchableOpacity style={styles.backButton} onPress={onBack}>
+              <ArrowLeft size={24} color="#ffffff" />
+            </TouchableOpacity>
+          )}
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.title}>Rider Payouts</Text>
+            <Text style={styles.subtitle}>Pay pending earnings into rider wallets</Text>
+          </View>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.section}>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Period</Text>
+            <View style={styles.presetRow}>
+              {PRESETS.map((preset) => (
+                <TouchableOpacity
+                  key={preset.label}
+                  style={styles.presetButton}
+                  onPress={() => {
+                    setPeriodStart(preset.start());
+                    setPeriodEnd(toDateString(new Date()));
+                  }}
+                >
+                  <Text style={styles.presetText}>{preset.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.dateRow}>
+              <View style={styles.dateField}>
+                <Text style={styles.label}>From</Text>
+                <TextInput
+                  style={styles.input}
+                  value={periodStart}
+                  onChangeText={setPeriodStart}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#9ca3af"
+                />
+              </View>
+              <View style={styles.dateField}>
+                <Text style={styles.label}>To</Text>
+                <TextInput
+                  style={styles.input}
+                  value={periodEnd}
+                  onChangeText={setPeriodEnd}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#9ca3af"
+                />
+              </View>
+            </View>
+            <Text style={styles.hint}>Earnings are grouped by the day the order was delivered.</Text>
+          </View>
+
+          <View style={styles.card}>
+            <View style={styles.cardHeaderRow}>
+              <Text style={styles.cardTitle}>Pending Earnings</Text>
+              <Text style={styles.totalText}>₦{totalPending.toFixed(2)}</Text>
+            </View>
+
+            {loading ? (
+              <ActivityIndicator size="small" color="#ff8c00" style={styles.loader} />
+            ) : pendingRiders.length === 0 ? (
+              <Text style={styles.emptyText}>No pending earnings for this period</Text>
+            ) : (
+              pendingRiders.map((rider) => (
+                <View key={rider.rider_id} style={styles.riderRow}>
+                  <View style={styles.riderInfo}>
+                    <Text style={styles.riderName}>{rider.full_name}</Text>
+                    <Text style={styles.riderMeta}>
+                      {rider.earnings_count} {rider.earnings_count === 1 ? 'delivery' : 'deliveries'} · {rider.phone}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.payButton, payingRiderId === rider.rider_id && styles.payButtonDisabled]}
+                    onPress={() => confirmPayout(rider)}
+                    disabled={!!payingRiderId}
+                  >
+                    {payingRiderId === rider.rider_id ? (
+                      <ActivityIndicator size="small" color="#ffffff" />
+                    ) : (
+                      <>
+                        <Banknote size={16} color="#ffffff" />
+                        <Text style={styles.payButtonText}>
+                          ₦{Number(rider.pending_amount).toFixed(2)}
+                        </Text>
+                      </>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Recent Payouts</Text>
+            {recentPayouts.length === 0 ? (
+              <Text style={styles.emptyText}>No payouts yet</Text>
+            ) : (
+              recentPayouts.map((payout) => (
+                <TouchableOpacity
+                  key={payout.id}
+                  style={styles.riderRow}
+                  onPress={() => setSelectedPayout(payout)}
+                >
+                  <View style={styles.riderInfo}>
+                    <Text style={styles.riderName}>{payout.rider?.full_name || 'Rider'}</Text>
+                    <Text style={styles.riderMeta}>
+                      {payout.period_start} to {payout.period_end} · {payout.earnings_count} deliveries
+                    </Text>
+                  </View>
+                  <Text style={styles.payoutAmount}>₦{Number(payout.amount).toFixed(2)}</Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+        </View>
+      </ScrollView>
+
+      <Modal
+        visible={!!selectedPayout}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setSelectedPayout(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {selectedPayout?.rider?.full_name || 'Payout'} Statement
+              </Text>
+              <TouchableOpacity onPress={() => setSelectedPayout(null)} style={styles.closeButton}>
+                <X size={24} color="#64748b" />
+              </TouchableOpacity>
+            </View>
+            {selectedPayout && (
+              <ScrollView showsVerticalScrollIndicator={false}>
+                <PayoutStatement payout={selectedPayout} />
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    backgroundColor: '#ff8c00',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#ffffff',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#e0f2fe',
+    marginTop: 4,
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  cardHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  totalText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#ff8c00',
+  },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  presetButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#fff7ed',
+    borderWidth: 1,
+    borderColor: '#fed7aa',
+  },
+  presetText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#c2410c',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateField: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#1f2937',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 8,
+  },
+  loader: {
+    marginVertical: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  riderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  riderInfo: {
+    flex: 1,
+  },
+  riderName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  riderMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  payButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#10b981',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    minWidth: 96,
+    justifyContent: 'center',
+  },
+  payButtonDisabled: {
+    opacity: 0.6,
+  },
+  payButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  payoutAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#10b981',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    maxHeight: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '800',
+    color: '#1e293b',
+  },
+  closeButton: {
+    padding: 4,
+  },
+});
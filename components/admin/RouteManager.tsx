@@ -20,6 +20,7 @@ import {
   Trash2,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { optimizeBatchRoute } from '@/lib/routeOptimizer';
 
 interface BatchDelivery {
   id: string;
@@ -28,12 +29,16 @@ interface BatchDelivery {
   pickup_window_end: string;
   delivery_deadline: string;
   status: string;
+  estimated_distance_km: number | null;
+  estimated_duration_minutes: number | null;
+  route_optimized_at: string | null;
   rider: {
     full_name: string;
     phone: string;
   };
   batch_delivery_orders: Array<{
     id: string;
+    pickup_sequence: number | null;
     delivery_sequence: number;
     delivered_at: string | null;
     orders: {
@@ -50,12 +55,16 @@ interface BatchDelivery {
 
 interface RouteManagerProps {
   onBack: () => void;
+  // Opened from a notification; shown once the routes have loaded
+  initialBatchId?: string;
 }
 
-export default function RouteManager({ onBack }: RouteManagerProps) {
+export default function RouteManager({ onBack, initialBatchId }: RouteManagerProps) {
   const [batches, setBatches] = useState<BatchDelivery[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedBatch, setSelectedBatch] = useState<BatchDelivery | null>(null);
+  const [optimizing, setOptimizing] = useState(false);
+  const [pendingBatchId, setPendingBatchId] = useState(initialBatchId);
 
   useEffect(() => {
     fetchBatches();
@@ -80,6 +89,23 @@ export default function RouteManager({ onBack }: RouteManagerProps) {
     };
   }, []);
 
+  // Keep the open route in step with refreshed data
+  useEffect(() => {
+    setSelectedBatch((current) =>
+      current ? batches.find((batch) => batch.id === current.id) ?? null : null
+    );
+  }, [batches]);
+
+  useEffect(() => {
+    if (!pendingBatchId) return;
+
+    const batch = batches.find((b) => b.id === pendingBatchId);
+    if (batch) {
+      setPendingBatchId(undefined);
+      setSelectedBatch(batch);
+    }
+  }, [batches, pendingBatchId]);
+
   const fetchBatches = async () => {
     try {
       setLoading(true);
@@ -92,9 +118,13 @@ export default function RouteManager({ onBack }: RouteManagerProps) {
           pickup_window_end,
           delivery_deadline,
           status,
+          estimated_distance_km,
+          estimated_duration_minutes,
+          route_optimized_at,
           rider:riders!inner(full_name, phone),
           batch_delivery_orders(
             id,
+            pickup_sequence,
             delivery_sequence,
             delivered_at,
             orders!inner(
@@ -117,11 +147,33 @@ export default function RouteManager({ onBack }: RouteManagerProps) {
   };
 
   const optimizeRoute = async (batchId: string) => {
-    Alert.alert(
-      'Optimize Route',
-      'This would use a route optimization algorithm to reorder stops for the most efficient delivery path.',
-      [{ text: 'OK' }]
-    );
+    try {
+      setOptimizing(true);
+      const route = await optimizeBatchRoute(batchId);
+      Alert.alert(
+        'Route Optimized',
+        `${route.stops.length} stops reordered. Estimated ${route.distanceKm.toFixed(1)} km, about ${route.durationMinutes} min of travel.`
+      );
+      await fetchBatches();
+    } catch (error: any) {
+      console.error('Error optimizing route:', error);
+      Alert.alert('Error', error.message || 'Failed to optimize route');
+    } finally {
+      setOptimizing(false);
+    }
+  };
+
+  // Pickups and drop-offs in route order, once the route has been optimised
+  const getRouteStops = (batch: BatchDelivery) => {
+    if (!batch.route_optimized_at) return [];
+    return batch.batch_delivery_orders
+      .flatMap((stop) => [
+        ...(stop.pickup_sequence != null
+          ? [{ key: `${stop.id}-pickup`, type: 'pickup' as const, sequence: stop.pickup_sequence, stop }]
+          : []),
+        { key: `${stop.id}-dropoff`, type: 'dropoff' as const, sequence: stop.delivery_sequence, stop },
+      ])
+      .sort((a, b) => a.sequence - b.sequence);
   };
 
   const deleteRoute = async (batchId: string) => {
@@ -197,6 +249,9 @@ export default function RouteManager({ onBack }: RouteManagerProps) {
       (o) => o.delivered_at
     ).length;
     const totalStops = selectedBatch.batch_delivery_orders.length;
+    const routeStops = getRouteStops(selectedBatch);
+    const canOptimize =
+      deliveredCount === 0 && !['in_progress', 'completed', 'cancelled'].includes(selectedBatch.status);
 
     return (
       <View style={styles.container}>
@@ -281,10 +336,66 @@ export default function RouteManager({ onBack }: RouteManagerProps) {
                 />
               </View>
             </View>
+
+            {selectedBatch.estimated_distance_km != null && (
+              <View style={styles.routeEstimate}>
+                <Navigation size={16} color="#ff8c00" />
+                <Text style={styles.routeEstimateText}>
+                  {Number(selectedBatch.estimated_distance_km).toFixed(1)} km · about{' '}
+                  {selectedBatch.estimated_duration_minutes} min of travel
+                </Text>
+              </View>
+            )}
           </View>
 
-          <Text style={styles.sectionTitle}>Delivery Stops</Text>
-          {selectedBatch.batch_delivery_orders
+          {routeStops.length > 0 ? (
+            <>
+              <Text style={styles.sectionTitle}>Route</Text>
+              {routeStops.map((routeStop, index) => (
+                <View key={routeStop.key} style={styles.stopCard}>
+                  <View style={styles.stopHeader}>
+                    <View style={styles.routeStopTitle}>
+                      <View
+                        style={[
+                          styles.stopNumber,
+                          routeStop.type === 'pickup' && styles.pickupStopNumber,
+                        ]}
+                      >
+                        <Text style={styles.stopNumberText}>{index + 1}</Text>
+                      </View>
+                      <Text style={styles.routeStopType}>
+                        {routeStop.type === 'pickup' ? 'Pick up' : 'Drop off'}
+                      </Text>
+                    </View>
+                    {routeStop.type === 'dropoff' && routeStop.stop.delivered_at && (
+                      <View style={styles.deliveredBadge}>
+                        <CheckCircle size={16} color="#10b981" />
+                        <Text style={styles.deliveredText}>Delivered</Text>
+                      </View>
+                    )}
+                  </View>
+
+                  <Text style={styles.orderNumber}>{routeStop.stop.orders.order_number}</Text>
+
+                  <View style={styles.addressRow}>
+                    <MapPin size={14} color={routeStop.type === 'pickup' ? '#6b7280' : '#ff8c00'} />
+                    <Text
+                      style={
+                        routeStop.type === 'pickup' ? styles.vendorAddress : styles.customerAddress
+                      }
+                    >
+                      {routeStop.type === 'pickup'
+                        ? `${routeStop.stop.orders.vendor.business_name}, ${routeStop.stop.orders.vendor.address}`
+                        : routeStop.stop.orders.delivery_address}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </>
+          ) : (
+            <Text style={styles.sectionTitle}>Delivery Stops</Text>
+          )}
+          {routeStops.length === 0 && selectedBatch.batch_delivery_orders
             .sort((a, b) => a.delivery_sequence - b.delivery_sequence)
             .map((stop, index) => (
               <View key={stop.id} style={styles.stopCard}>
@@ -323,13 +434,20 @@ export default function RouteManager({ onBack }: RouteManagerProps) {
             ))}
 
           <View style={styles.actionButtons}>
-            {selectedBatch.status === 'pending' && (
+            {canOptimize && (
               <TouchableOpacity
-                style={styles.optimizeButton}
+                style={[styles.optimizeButton, optimizing && styles.buttonDisabled]}
                 onPress={() => optimizeRoute(selectedBatch.id)}
+                disabled={optimizing}
               >
-                <Navigation size={20} color="#fff" />
-                <Text style={styles.optimizeButtonText}>Optimize Route</Text>
+                {optimizing ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Navigation size={20} color="#fff" />
+                )}
+                <Text style={styles.optimizeButtonText}>
+                  {selectedBatch.route_optimized_at ? 'Re-optimize Route' : 'Optimize Route'}
+                </Text>
               </TouchableOpacity>
             )}
 
@@ -659,6 +777,33 @@ const styles = StyleSheet.create({
     height: '100%',
     backgroundColor: '#10b981',
   },
+  routeEstimate: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: '#fff7ed',
+    borderRadius: 12,
+  },
+  routeEstimateText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#9a3412',
+  },
+  routeStopTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  routeStopType: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  pickupStopNumber: {
+    backgroundColor: '#6b7280',
+  },
   stopCard: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -746,6 +891,9 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#fff',
   },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
   deleteButton: {
     backgroundColor: '#ef4444',
     borderRadius: 12,
@@ -0,0 +1,746 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Modal,
+  Alert,
+  Platform,
+} from 'react-native';
+import { ArrowLeft, FileText, Percent, X, CheckCircle } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { CommissionRule, VendorSettlement } from '@/types/database';
+import SettlementStatement from '@/components/vendor/SettlementStatement';
+
+interface VendorSettlementManagementProps {
+  onBack?: () => void;
+}
+
+type SettlementWithVendor = VendorSettlement & { vendor?: { business_name: string } | null };
+
+interface NamedItem {
+  id: string;
+  name: string;
+}
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const lastWeek = () => {
+  const end = new Date();
+  end.setDate(end.getDate() - 1);
+  const start = new Date(end);
+  start.setDate(start.getDate() - 6);
+  return { start: toDateString(start), end: toDateString(end) };
+};
+
+export default function VendorSettlementManagement({ onBack }: VendorSettlementManagementProps) {
+  const [tab, setTab] = useState<'statements' | 'commission'>('statements');
+  const [loading, setLoading] = useState(true);
+  const [settlements, setSettlements] = useState<SettlementWithVendor[]>([]);
+  const [periodStart, setPeriodStart] = useState(lastWeek().start);
+  const [periodEnd, setPeriodEnd] = useState(lastWeek().end);
+  const [generating, setGenerating] = useState(false);
+  const [selectedSettlement, setSelectedSettlement] = useState<SettlementWithVendor | null>(null);
+  const [paymentReference, setPaymentReference] = useState('');
+  const [markingPaid, setMarkingPaid] = useState(false);
+
+  const [defaultRate, setDefaultRate] = useState('15');
+  const [vendors, setVendors] = useState<NamedItem[]>([]);
+  const [categories, setCategories] = useState<NamedItem[]>([]);
+  // Rates being edited, keyed by `vendor:<id>` or `category:<id>`; blank means no rule
+  const [rates, setRates] = useState<Record<string, string>>({});
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [savingCommission, setSavingCommission] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(message);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [settlementsResult, rulesResult, settingsResult, vendorsResult, categoriesResult] =
+        await Promise.all([
+          supabase
+            .from('vendor_settlements')
+            .select('*, vendor:vendors(business_name)')
+            .order('created_at', { ascending: false })
+            .limit(50),
+          supabase.from('commission_rules').select('*'),
+          supabase.from('platform_settings').select('value').eq('key', 'commission').maybeSingle(),
+          supabase.from('vendors').select('id, business_name').order('business_name'),
+          supabase.from('categories').select('id, name').order('name'),
+        ]);
+
+      if (settlementsResult.error) throw settlementsResult.error;
+      if (rulesResult.error) throw rulesResult.error;
+
+      const loadedRules = (rulesResult.data || []) as CommissionRule[];
+      setSettlements((settlementsResult.data || []) as SettlementWithVendor[]);
+      setRules(loadedRules);
+      setDefaultRate(String(settingsResult.data?.value?.default_rate ?? 15));
+      setVendors((vendorsResult.data || []).map((v) => ({ id: v.id, name: v.business_name })));
+      setCategories(categoriesResult.data || []);
+      setRates(
+        Object.fromEntries(
+          loadedRules.map((rule) => [
+            rule.vendor_id ? `vendor:${rule.vendor_id}` : `category:${rule.category_id}`,
+            String(rule.rate_percent),
+          ])
+        )
+      );
+    } catch (error: any) {
+      console.error('Error fetching settlements:', error);
+      showMessage('Error', error.message || 'Failed to fetch settlements');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const generateSettlements = async () => {
+    try {
+      setGenerating(true);
+      const { data, error } = await supabase.rpc('generate_vendor_settlements', {
+        p_period_start: periodStart,
+        p_period_end: periodEnd,
+      });
+
+      if (error) throw error;
+
+      showMessage(
+        'Statements',
+        data > 0 ? `${data} statement${data === 1 ? '' : 's'} created` : 'No unsettled sales in this period'
+      );
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error generating settlements:', error);
+      showMessage('Error', error.message || 'Failed to generate statements');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const markPaid = async () => {
+    if (!selectedSettlement) return;
+
+    if (!paymentReference.trim()) {
+      showMessage('Error', 'Enter the bank transfer reference');
+      return;
+    }
+
+    try {
+      setMarkingPaid(true);
+      const { data, error } = await supabase.rpc('mark_vendor_settlement_paid', {
+        p_settlement_id: selectedSettlement.id,
+        p_reference: paymentReference.trim(),
+      });
+
+      if (error) throw error;
+
+      setSelectedSettlement({ ...(data as VendorSettlement), vendor: selectedSettlement.vendor });
+      setPaymentReference('');
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error marking settlement paid:', error);
+      showMessage('Error', error.message || 'Failed to mark settlement paid');
+    } finally {
+      setMarkingPaid(false);
+    }
+  };
+
+  const saveCommission = async () => {
+    const platformRate = parseFloat(defaultRate);
+    if (isNaN(platformRate) || platformRate < 0 || platformRate > 100) {
+      showMessage('Error', 'Commission rates must be between 0 and 100');
+      return;
+    }
+
+    const entries = Object.entries(rates).map(([key, value]) => {
+      const [scope, id] = key.split(':');
+      return { scope, id, value: value.trim(), rate: parseFloat(value) };
+    });
+
+    if (entries.some((entry) => entry.value && (isNaN(entry.rate) || entry.rate < 0 || entry.rate > 100))) {
+      showMessage('Error', 'Commission rates must be between 0 and 100');
+      return;
+    }
+
+    try {
+      setSavingCommission(true);
+      const userId = (await supabase.auth.getUser()).data.user?.id;
+
+      const { error: settingsError } = await supabase.from('platform_settings').upsert({
+        key: 'commission',
+        value: { default_rate: platformRate },
+        updated_at: new Date().toISOString(),
+        updated_by: userId,
+      });
+      if (settingsError) throw settingsError;
+
+      for (const entry of entries) {
+        const column = entry.scope === 'vendor' ? 'vendor_id' : 'category_id';
+        const existing = rules.find((rule) => rule[column] === entry.id);
+
+        if (!entry.value) {
+          if (existing) {
+            const { error } = await supabase.from('commission_rules').delete().eq('id', existing.id);
+            if (error) throw error;
+          }
+          continue;
+        }
+
+        if (existing) {
+          if (Number(existing.rate_percent) === entry.rate) continue;
+          const { error } = await supabase
+            .from('commission_rules')
+            .update({ rate_percent: entry.rate, updated_by: userId, updated_at: new Date().toISOString() })
+            .eq('id', existing.id);
+          if (error) throw error;
+        } else {
+          const { error } = await supabase
+            .from('commission_rules')
+            .insert({ [column]: entry.id, rate_percent: entry.rate, updated_by: userId });
+          if (error) throw error;
+        }
+      }
+
+      showMessage('Success', 'Commission applies to orders delivered from now on');
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error saving commission:', error);
+      showMessage('Error', error.message || 'Failed to save commission');
+    } finally {
+      setSavingCommission(false);
+    }
+  };
+
+  const renderRateRow = (scope: 'vendor' | 'category', item: NamedItem) => {
+    const key = `${scope}:${item.id}`;
+    return (
+      <View key={key} style={styles.rateRow}>
+        <Text style={styles.rateName} numberOfLines={1}>
+          {item.name}
+        </Text>
+        <TextInput
+          style={styles.rateInput}
+          value={rates[key] ?? ''}
+          onChangeText={(text) => setRates({ ...rates, [key]: text })}
+          placeholder="—"
+          placeholderTextColor="#9ca3af"
+          keyboardType="decimal-pad"
+        />
+        <Text style={styles.ratePercent}>%</Text>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#ff8c00" />
+      </View>
+    );
+  }
+
+  const outstanding = settlements
+    .filter((settlement) => settlement.status === 'pending')
+    .reduce((sum, settlement) => sum + Number(settlement.net_payable), 0);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerTop}>
+          {onBack && (
+            <TouchableOpacity style={styles.backButton} onPress={onBack}>
+              <ArrowLeft size={24} color="#ffffff" />
+            </TouchableOpacity>
+          )}
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.title}>Vendor Settlements</Text>
+            <Text style={styles.subtitle}>₦{outstanding.toFixed(2)} awaiting payment</Text>
+          </View>
+        </View>
+      </View>
+
+      <View style={styles.tabs}>
+        <TouchableOpacity
+          style={[styles.tab, tab === 'statements' && styles.tabActive]}
+          onPress={() => setTab('statements')}
+        >
+          <FileText size={16} color={tab === 'statements' ? '#ff8c00' : '#6b7280'} />
+          <Text style={[styles.tabText, tab === 'statements' && styles.tabTextActive]}>Statements</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, tab === 'commission' && styles.tabActive]}
+          onPress={() => setTab('commission')}
+        >
+          <Percent size={16} color={tab === 'commission' ? '#ff8c00' : '#6b7280'} />
+          <Text style={[styles.tabText, tab === 'commission' && styles.tabTextActive]}>Commission</Text>
+        </TouchableOpacity>
+      </View>
+
+      {tab === 'statements' ? (
+        <ScrollView style={styles.content}>
+          <View style={styles.section}>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Create Statements</Text>
+              <Text style={styles.hint}>
+                Statements for the previous week are created every Monday. Use this for other periods.
+              </Text>
+              <View style={styles.dateRow}>
+                <View style={styles.dateField}>
+                  <Text style={styles.label}>From</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={periodStart}
+                    onChangeText={setPeriodStart}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor="#9ca3af"
+                  />
+                </View>
+                <View style={styles.dateField}>
+                  <Text style={styles.label}>To</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={periodEnd}
+                    onChangeText={setPeriodEnd}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor="#9ca3af"
+                  />
+                </View>
+              </View>
+              <TouchableOpacity
+                style={[styles.primaryButton, generating && styles.buttonDisabled]}
+                onPress={generateSettlements}
+                disabled={generating}
+              >
+                {generating ? (
+                  <ActivityIndicator color="#ffffff" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Create Statements</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Statements</Text>
+              {settlements.length === 0 ? (
+                <Text style={styles.emptyText}>No statements yet</Text>
+              ) : (
+                settlements.map((settlement) => (
+                  <TouchableOpacity
+                    key={settlement.id}
+                    style={styles.settlementRow}
+                    onPress={() => {
+                      setPaymentReference('');
+                      setSelectedSettlement(settlement);
+                    }}
+                  >
+                    <View style={styles.settlementInfo}>
+                      <Text style={styles.settlementVendor}>
+                        {settlement.vendor?.business_name || 'Vendor'}
+                      </Text>
+                      <Text style={styles.settlementMeta}>
+                        {settlement.period_start} to {settlement.period_end} · {settlement.order_count} orders
+                      </Text>
+                    </View>
+                    <View style={styles.settlementRight}>
+                      <Text style={styles.settlementAmount}>
+                        ₦{Number(settlement.net_payable).toFixed(2)}
+                      </Text>
+                      <Text
+                        style={[
+                          styles.settlementStatus,
+                          settlement.status === 'paid' ? styles.statusPaid : styles.statusPending,
+                        ]}
+                      >
+                        {settlement.status === 'paid' ? 'Paid' : 'Pending'}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                ))
+              )}
+            </View>
+          </View>
+        </ScrollView>
+      ) : (
+        <ScrollView style={styles.content}>
+          <View style={styles.section}>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Platform Default</Text>
+              <Text style={styles.hint}>
+                Charged on item sales unless a restaurant or category rate applies. Delivery fees are
+                not commissioned.
+              </Text>
+              <View style={styles.rateRow}>
+                <Text style={styles.rateName}>Default rate</Text>
+                <TextInput
+                  style={styles.rateInput}
+                  value={defaultRate}
+                  onChangeText={setDefaultRate}
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.ratePercent}>%</Text>
+              </View>
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Restaurant Rates</Text>
+              <Text style={styles.hint}>Override every other rate for that restaurant. Leave blank to use the default.</Text>
+              {vendors.map((vendor) => renderRateRow('vendor', vendor))}
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Category Rates</Text>
+              <Text style={styles.hint}>Apply to items in the category. Leave blank to use the default.</Text>
+              {categories.map((category) => renderRateRow('category', category))}
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, savingCommission && styles.buttonDisabled]}
+            onPress={saveCommission}
+            disabled={savingCommission}
+          >
+            {savingCommission ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Save Commission</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={!!selectedSettlement}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setSelectedSettlement(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle} numberOfLines={1}>
+                {selectedSettlement?.vendor?.business_name || 'Statement'}
+              </Text>
+              <TouchableOpacity onPress={() => setSelectedSettlement(null)} style={styles.closeButton}>
+                <X size={24} color="#64748b" />
+              </TouchableOpacity>
+            </View>
+            {selectedSettlement && (
+              <ScrollView showsVerticalScrollIndicator={false}>
+                <SettlementStatement settlement={selectedSettlement} />
+
+                {selectedSettlement.status === 'pending' && (
+                  <View style={styles.payForm}>
+                    {!selectedSettlement.bank_details && (
+                      <Text style={styles.warningText}>
+                        This restaurant had no payout bank details when the statement was created.
+                      </Text>
+                    )}
+                    <Text style={styles.label}>Bank Transfer Reference</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={paymentReference}
+                      onChangeText={setPaymentReference}
+                      placeholderTextColor="#9ca3af"
+                    />
+                    <TouchableOpacity
+                      style={[styles.paidButton, markingPaid && styles.buttonDisabled]}
+                      onPress={markPaid}
+                      disabled={markingPaid}
+                    >
+                      {markingPaid ? (
+                        <ActivityIndicator color="#ffffff" />
+                      ) : (
+                        <>
+                          <CheckCircle size={18} color="#ffffff" />
+                          <Text style={styles.primaryButtonText}>Mark as Paid</Text>
+                        </>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#ff8c00',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#ffffff',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#e0f2fe',
+    marginTop: 4,
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 14,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabActive: {
+    borderBottomColor: '#ff8c00',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  tabTextActive: {
+    color: '#ff8c00',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateField: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#1f2937',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ff8c00',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  settlementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  settlementInfo: {
+    flex: 1,
+  },
+  settlementVendor: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  settlementMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  settlementRight: {
+    alignItems: 'flex-end',
+  },
+  settlementAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  settlementStatus: {
+    fontSize: 12,
+    fontWeight: '700',
+    marginTop: 2,
+  },
+  statusPaid: {
+    color: '#059669',
+  },
+  statusPending: {
+    color: '#d97706',
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  rateName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  rateInput: {
+    width: 72,
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 14,
+    color: '#1f2937',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    textAlign: 'center',
+  },
+  ratePercent: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  saveButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ff8c00',
+    marginHorizontal: 16,
+    marginBottom: 32,
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '800',
+    color: '#1e293b',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  payForm: {
+    marginTop: 16,
+    paddingBottom: 16,
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#b45309',
+    backgroundColor: '#fef3c7',
+    padding: 10,
+    borderRadius: 8,
+  },
+  paidButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#10b981',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+});
@@ -1,9 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
-  FlatList,
+  SectionList,
   TouchableOpacity,
   TextInput,
   ScrollView,
@@ -11,7 +11,7 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Search, Clock, Sun, Utensils, Moon } from 'lucide-react-native';
+import { Search, Clock, Sun, Utensils, Moon, SlidersHorizontal, X } from 'lucide-react-native';
 import { useFonts } from 'expo-font';
 import {
   Poppins_400Regular,
@@ -26,9 +26,41 @@ import {
   Inter_600SemiBold,
 } from '@expo-google-fonts/inter';
 import { supabase } from '@/lib/supabase';
-import { Vendor, Category } from '@/types/database';
+import {
+  Vendor,
+  Category,
+  CatalogSearchResults,
+  DishSearchResult,
+  SearchResultGroup,
+} from '@/types/database';
 import { useAuth } from '@/contexts/AuthContext';
+import { searchCatalog, hasActiveFilters, SearchFilters } from '@/lib/search';
 import RestaurantCard from '@/components/RestaurantCard';
+import DishSearchResultCard from '@/components/DishSearchResultCard';
+
+type ResultGroup = 'restaurants' | 'dishes';
+
+interface ResultSection {
+  key: ResultGroup;
+  title: string;
+  total: number;
+  nextOffset: number | null;
+  data: (Vendor | DishSearchResult)[];
+}
+
+const RATING_OPTIONS = [3.5, 4, 4.5];
+const SEARCH_DEBOUNCE_MS = 300;
+
+const parsePrice = (value: string) => {
+  const amount = parseFloat(value);
+  return value.trim() && !isNaN(amount) && amount >= 0 ? amount : null;
+};
+
+const appendPage = <T,>(
+  current: SearchResultGroup<T> | null,
+  page: SearchResultGroup<T> | null
+): SearchResultGroup<T> | null =>
+  page ? { ...page, items: [...(current?.items || []), ...page.items] } : current;
 
 export default function CustomerHome() {
   const { profile } = useAuth();
@@ -41,6 +73,16 @@ export default function CustomerHome() {
   const [loading, setLoading] = useState(true);
   const [selectedMealTime, setSelectedMealTime] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [minPriceInput, setMinPriceInput] = useState('');
+  const [maxPriceInput, setMaxPriceInput] = useState('');
+  const [searchResults, setSearchResults] = useState<CatalogSearchResults | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState<ResultGroup | null>(null);
+  // Bumped on every new search so slower, stale responses are ignored
+  const searchRequest = useRef(0);
 
   const [fontsLoaded, fontError] = useFonts({
     'Poppins-Regular': Poppins_400Regular,
@@ -130,28 +172,121 @@ export default function CustomerHome() {
     }
   };
 
+  const selectedCategoryName = categories.find((cat) => cat.id === selectedCategory)?.name;
+  const isSearching = searchQuery.trim() !== '' || hasActiveFilters(filters);
+
+  const searchFilters = (): SearchFilters => ({
+    ...filters,
+    cuisineTypes: selectedCategoryName ? [selectedCategoryName] : undefined,
+  });
+
+  useEffect(() => {
+    const requestId = ++searchRequest.current;
+
+    if (!isSearching) {
+      setSearchResults(null);
+      setSearchError(null);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchCatalog(searchQuery, searchFilters());
+        if (requestId !== searchRequest.current) return;
+        setSearchResults(results);
+        setSearchError(null);
+      } catch (error: any) {
+        if (requestId !== searchRequest.current) return;
+        console.error('Search error:', error);
+        setSearchError(`Search failed: ${error?.message || 'Unknown error'}`);
+      } finally {
+        if (requestId === searchRequest.current) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [searchQuery, filters, selectedCategoryName, isSearching]);
+
+  const loadMore = async (group: ResultGroup) => {
+    const nextOffset = searchResults?.[group]?.next_offset;
+    if (nextOffset == null || loadingMore) return;
+
+    const requestId = searchRequest.current;
+    setLoadingMore(group);
+    try {
+      const page = await searchCatalog(searchQuery, searchFilters(), group, nextOffset);
+      if (requestId !== searchRequest.current) return;
+      setSearchResults((prev) =>
+        prev && {
+          restaurants:
+            group === 'restaurants' ? appendPage(prev.restaurants, page.restaurants) : prev.restaurants,
+          dishes: group === 'dishes' ? appendPage(prev.dishes, page.dishes) : prev.dishes,
+        }
+      );
+    } catch (error: any) {
+      console.error('Error loading more results:', error);
+      setSearchError(`Search failed: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setLoadingMore(null);
+    }
+  };
+
+  const updatePrice = (bound: 'minPrice' | 'maxPrice', value: string) => {
+    if (bound === 'minPrice') setMinPriceInput(value);
+    else setMaxPriceInput(value);
+    setFilters((prev) => ({ ...prev, [bound]: parsePrice(value) }));
+  };
+
+  const clearFilters = () => {
+    setFilters({});
+    setMinPriceInput('');
+    setMaxPriceInput('');
+  };
+
   const openRestaurant = (restaurantId: string) => {
     router.push(`/restaurant/${restaurantId}`);
   };
 
+  // Typed searches run on the server; browsing only narrows by category
   const filteredRestaurants = restaurants.filter((restaurant) => {
-    const matchesSearch = restaurant.business_name
-      .toLowerCase()
-      .includes(searchQuery.toLowerCase());
-
-    if (!selectedCategory) return matchesSearch;
+    if (!selectedCategory) return true;
 
-    const matchesCategory =
+    return (
       restaurant.cuisine_types?.some((type) =>
-        categories
-          .find((cat) => cat.id === selectedCategory)
-          ?.name.toLowerCase()
-          .includes(type.toLowerCase())
-      ) || false;
-
-    return matchesSearch && matchesCategory;
+        selectedCategoryName?.toLowerCase().includes(type.toLowerCase())
+      ) || false
+    );
   });
 
+  const sections: ResultSection[] = isSearching
+    ? [
+        {
+          key: 'restaurants' as const,
+          title: 'Restaurants',
+          total: searchResults?.restaurants?.total || 0,
+          nextOffset: searchResults?.restaurants?.next_offset ?? null,
+          data: searchResults?.restaurants?.items || [],
+        },
+        {
+          key: 'dishes' as const,
+          title: 'Dishes',
+          total: searchResults?.dishes?.total || 0,
+          nextOffset: searchResults?.dishes?.next_offset ?? null,
+          data: searchResults?.dishes?.items || [],
+        },
+      ].filter((section) => section.data.length > 0)
+    : [
+        {
+          key: 'restaurants',
+          title: 'Available Restaurants',
+          total: filteredRestaurants.length,
+          nextOffset: null,
+          data: filteredRestaurants,
+        },
+      ];
+
   const renderHeader = () => (
     <>
       <View style={[styles.header, { paddingTop: insets.top + 20 }]}>
@@ -165,8 +300,94 @@ export default function CustomerHome() {
             placeholder="Search food or vendor..."
             value={searchQuery}
             onChangeText={setSearchQuery}
+            returnKeyType="search"
           />
+          {searchQuery !== '' && (
+            <TouchableOpacity onPress={() => setSearchQuery('')} style={styles.searchAction}>
+              <X size={18} color="#9ca3af" />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={() => setShowFilters(!showFilters)}
+            style={[styles.searchAction, hasActiveFilters(filters) && styles.filterButtonActive]}
+          >
+            <SlidersHorizontal size={18} color={hasActiveFilters(filters) ? '#ffffff' : '#64748b'} />
+          </TouchableOpacity>
         </View>
+
+        {showFilters && (
+          <View style={styles.filterPanel}>
+            <Text style={styles.filterLabel}>Diet</Text>
+            <View style={styles.filterRow}>
+              <TouchableOpacity
+                style={[styles.filterChip, filters.vegetarian && styles.filterChipActive]}
+                onPress={() => setFilters((prev) => ({ ...prev, vegetarian: !prev.vegetarian }))}
+              >
+                <Text style={[styles.filterChipText, filters.vegetarian && styles.filterChipTextActive]}>
+                  Vegetarian
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.filterChip, filters.vegan && styles.filterChipActive]}
+                onPress={() => setFilters((prev) => ({ ...prev, vegan: !prev.vegan }))}
+              >
+                <Text style={[styles.filterChipText, filters.vegan && styles.filterChipTextActive]}>
+                  Vegan
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.filterLabel}>Rating</Text>
+            <View style={styles.filterRow}>
+              {RATING_OPTIONS.map((rating) => (
+                <TouchableOpacity
+                  key={rating}
+                  style={[styles.filterChip, filters.minRating === rating && styles.filterChipActive]}
+                  onPress={() =>
+                    setFilters((prev) => ({
+                      ...prev,
+                      minRating: prev.minRating === rating ? null : rating,
+                    }))
+                  }
+                >
+                  <Text
+                    style={[
+                      styles.filterChipText,
+                      filters.minRating === rating && styles.filterChipTextActive,
+                    ]}
+                  >
+                    {rating}+
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.filterLabel}>Dish price (₦)</Text>
+            <View style={styles.filterRow}>
+              <TextInput
+                style={styles.priceInput}
+                placeholder="Min"
+                keyboardType="numeric"
+                value={minPriceInput}
+                onChangeText={(value) => updatePrice('minPrice', value)}
+              />
+              <Text style={styles.priceSeparator}>–</Text>
+              <TextInput
+                style={styles.priceInput}
+                placeholder="Max"
+                keyboardType="numeric"
+                value={maxPriceInput}
+                onChangeText={(value) => updatePrice('maxPrice', value)}
+              />
+            </View>
+
+            {hasActiveFilters(filters) && (
+              <TouchableOpacity onPress={clearFilters}>
+                <Text style={styles.clearFiltersText}>Clear filters</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
       </View>
 
       <View style={styles.categoriesWrapper}>
@@ -205,121 +426,151 @@ export default function CustomerHome() {
         </ScrollView>
       </View>
 
-      <View style={styles.scheduledMealsSection}>
-        <View style={styles.sectionHeader}>
-          <Clock size={20} color="#1e293b" />
-          <Text style={styles.sectionTitle}>Schedule Your Meal</Text>
-        </View>
-        <Text style={styles.sectionSubtitle}>Choose your preferred meal time</Text>
+      {!isSearching && (
+        <View style={styles.scheduledMealsSection}>
+          <View style={styles.sectionHeader}>
+            <Clock size={20} color="#1e293b" />
+            <Text style={styles.sectionTitle}>Schedule Your Meal</Text>
+          </View>
+          <Text style={styles.sectionSubtitle}>Choose your preferred meal time</Text>
 
-        <View style={styles.mealTimesContainer}>
-          <TouchableOpacity
-            style={[
-              styles.mealTimeCard,
-              selectedMealTime === 'breakfast' && styles.mealTimeCardActive,
-            ]}
-            onPress={() => setSelectedMealTime(selectedMealTime === 'breakfast' ? null : 'breakfast')}
-          >
-            <View style={[
-              styles.mealTimeIcon,
-              selectedMealTime === 'breakfast' && styles.mealTimeIconActive,
-            ]}>
-              <Sun size={24} color={selectedMealTime === 'breakfast' ? '#ffffff' : '#ff8c00'} />
-            </View>
-            <Text style={[
-              styles.mealTimeName,
-              selectedMealTime === 'breakfast' && styles.mealTimeNameActive,
-            ]}>
-              BREAKFAST
-            </Text>
-            <Text style={[
-              styles.mealTimeInfo,
-              selectedMealTime === 'breakfast' && styles.mealTimeInfoActive,
-            ]}>
-              Order before 7 am
-            </Text>
-            <Text style={[
-              styles.mealTimeDelivery,
-              selectedMealTime === 'breakfast' && styles.mealTimeDeliveryActive,
-            ]}>
-              Delivered before 8 am
-            </Text>
-          </TouchableOpacity>
+          <View style={styles.mealTimesContainer}>
+            <TouchableOpacity
+              style={[
+                styles.mealTimeCard,
+                selectedMealTime === 'breakfast' && styles.mealTimeCardActive,
+              ]}
+              onPress={() => setSelectedMealTime(selectedMealTime === 'breakfast' ? null : 'breakfast')}
+            >
+              <View style={[
+                styles.mealTimeIcon,
+                selectedMealTime === 'breakfast' && styles.mealTimeIconActive,
+              ]}>
+                <Sun size={24} color={selectedMealTime === 'breakfast' ? '#ffffff' : '#ff8c00'} />
+              </View>
+              <Text style={[
+                styles.mealTimeName,
+                selectedMealTime === 'breakfast' && styles.mealTimeNameActive,
+              ]}>
+                BREAKFAST
+              </Text>
+              <Text style={[
+                styles.mealTimeInfo,
+                selectedMealTime === 'breakfast' && styles.mealTimeInfoActive,
+              ]}>
+                Order before 7 am
+              </Text>
+              <Text style={[
+                styles.mealTimeDelivery,
+                selectedMealTime === 'breakfast' && styles.mealTimeDeliveryActive,
+              ]}>
+                Delivered before 8 am
+              </Text>
+            </TouchableOpacity>
 
-          <TouchableOpacity
-            style={[
-              styles.mealTimeCard,
-              selectedMealTime === 'lunch' && styles.mealTimeCardActive,
-            ]}
-            onPress={() => setSelectedMealTime(selectedMealTime === 'lunch' ? null : 'lunch')}
-          >
-            <View style={[
-              styles.mealTimeIcon,
-              selectedMealTime === 'lunch' && styles.mealTimeIconActive,
-            ]}>
-              <Utensils size={24} color={selectedMealTime === 'lunch' ? '#ffffff' : '#ff8c00'} />
-            </View>
-            <Text style={[
-              styles.mealTimeName,
-              selectedMealTime === 'lunch' && styles.mealTimeNameActive,
-            ]}>
-              LUNCH
-            </Text>
-            <Text style={[
-              styles.mealTimeInfo,
-              selectedMealTime === 'lunch' && styles.mealTimeInfoActive,
-            ]}>
-              Order before 11 am
-            </Text>
-            <Text style={[
-              styles.mealTimeDelivery,
-              selectedMealTime === 'lunch' && styles.mealTimeDeliveryActive,
-            ]}>
-              Delivered before 12 pm
-            </Text>
-          </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.mealTimeCard,
+                selectedMealTime === 'lunch' && styles.mealTimeCardActive,
+              ]}
+              onPress={() => setSelectedMealTime(selectedMealTime === 'lunch' ? null : 'lunch')}
+            >
+              <View style={[
+                styles.mealTimeIcon,
+                selectedMealTime === 'lunch' && styles.mealTimeIconActive,
+              ]}>
+                <Utensils size={24} color={selectedMealTime === 'lunch' ? '#ffffff' : '#ff8c00'} />
+              </View>
+              <Text style={[
+                styles.mealTimeName,
+                selectedMealTime === 'lunch' && styles.mealTimeNameActive,
+              ]}>
+                LUNCH
+              </Text>
+              <Text style={[
+                styles.mealTimeInfo,
+                selectedMealTime === 'lunch' && styles.mealTimeInfoActive,
+              ]}>
+                Order before 11 am
+              </Text>
+              <Text style={[
+                styles.mealTimeDelivery,
+                selectedMealTime === 'lunch' && styles.mealTimeDeliveryActive,
+              ]}>
+                Delivered before 12 pm
+              </Text>
+            </TouchableOpacity>
 
-          <TouchableOpacity
-            style={[
-              styles.mealTimeCard,
-              selectedMealTime === 'dinner' && styles.mealTimeCardActive,
-            ]}
-            onPress={() => setSelectedMealTime(selectedMealTime === 'dinner' ? null : 'dinner')}
-          >
-            <View style={[
-              styles.mealTimeIcon,
-              selectedMealTime === 'dinner' && styles.mealTimeIconActive,
-            ]}>
-              <Moon size={24} color={selectedMealTime === 'dinner' ? '#ffffff' : '#ff8c00'} />
-            </View>
-            <Text style={[
-              styles.mealTimeName,
-              selectedMealTime === 'dinner' && styles.mealTimeNameActive,
-            ]}>
-              DINNER
-            </Text>
-            <Text style={[
-              styles.mealTimeInfo,
-              selectedMealTime === 'dinner' && styles.mealTimeInfoActive,
-            ]}>
-              Order before 5 pm
-            </Text>
-            <Text style={[
-              styles.mealTimeDelivery,
-              selectedMealTime === 'dinner' && styles.mealTimeDeliveryActive,
-            ]}>
-              Delivered before 7 pm
-            </Text>
-          </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.mealTimeCard,
+                selectedMealTime === 'dinner' && styles.mealTimeCardActive,
+              ]}
+              onPress={() => setSelectedMealTime(selectedMealTime === 'dinner' ? null : 'dinner')}
+            >
+              <View style={[
+                styles.mealTimeIcon,
+                selectedMealTime === 'dinner' && styles.mealTimeIconActive,
+              ]}>
+                <Moon size={24} color={selectedMealTime === 'dinner' ? '#ffffff' : '#ff8c00'} />
+              </View>
+              <Text style={[
+                styles.mealTimeName,
+                selectedMealTime === 'dinner' && styles.mealTimeNameActive,
+              ]}>
+                DINNER
+              </Text>
+              <Text style={[
+                styles.mealTimeInfo,
+                selectedMealTime === 'dinner' && styles.mealTimeInfoActive,
+              ]}>
+                Order before 5 pm
+              </Text>
+              <Text style={[
+                styles.mealTimeDelivery,
+                selectedMealTime === 'dinner' && styles.mealTimeDeliveryActive,
+              ]}>
+                Delivered before 7 pm
+              </Text>
+            </TouchableOpacity>
+          </View>
         </View>
-      </View>
+      )}
 
       <View style={styles.restaurantsHeader}>
-        <Text style={styles.restaurantsTitle}>Available Restaurants</Text>
+        <Text style={styles.restaurantsTitle}>
+          {isSearching ? 'Search Results' : 'Available Restaurants'}
+        </Text>
+        {isSearching && searching && searchResults && (
+          <ActivityIndicator size="small" color="#ff8c00" />
+        )}
       </View>
+
+      {isSearching && searchError && <Text style={styles.searchErrorText}>{searchError}</Text>}
     </>
   );
 
+  const renderSearchEmpty = () => {
+    if (!isSearching) return null;
+
+    if (searching) {
+      return (
+        <View style={styles.searchEmpty}>
+          <ActivityIndicator size="large" color="#ff8c00" />
+        </View>
+      );
+    }
+
+    if (searchError) return null;
+
+    return (
+      <View style={styles.searchEmpty}>
+        <Text style={styles.searchEmptyTitle}>No matches found</Text>
+        <Text style={styles.searchEmptyText}>Try another spelling or fewer filters.</Text>
+      </View>
+    );
+  };
+
   if (!fontsLoaded && !fontError) {
     return (
       <View style={[styles.container, styles.loadingContainer]}>
@@ -360,15 +611,47 @@ export default function CustomerHome() {
 
   return (
     <View style={styles.container}>
-      <FlatList
-        data={filteredRestaurants}
-        keyExtractor={(item) => item.id}
-        ListHeaderComponent={renderHeader}
+      <SectionList
+        sections={sections}
+        keyExtractor={(item, index) => `${item.id}-${index}`}
+        ListHeaderComponent={renderHeader()}
+        ListEmptyComponent={renderSearchEmpty()}
         contentContainerStyle={styles.restaurantList}
         showsVerticalScrollIndicator={false}
-        renderItem={({ item }) => (
-          <RestaurantCard restaurant={item} onPress={() => openRestaurant(item.id)} />
-        )}
+        keyboardShouldPersistTaps="handled"
+        stickySectionHeadersEnabled={false}
+        renderSectionHeader={({ section }) =>
+          isSearching ? (
+            <Text style={styles.resultSectionTitle}>
+              {section.title} ({section.total})
+            </Text>
+          ) : null
+        }
+        renderSectionFooter={({ section }) =>
+          section.nextOffset != null ? (
+            <TouchableOpacity
+              style={styles.loadMoreButton}
+              onPress={() => loadMore(section.key)}
+              disabled={loadingMore !== null}
+            >
+              {loadingMore === section.key ? (
+                <ActivityIndicator size="small" color="#ff8c00" />
+              ) : (
+                <Text style={styles.loadMoreText}>Load more {section.title.toLowerCase()}</Text>
+              )}
+            </TouchableOpacity>
+          ) : null
+        }
+        renderItem={({ item, section }) =>
+          section.key === 'dishes' ? (
+            <DishSearchResultCard
+              dish={item as DishSearchResult}
+              onPress={() => openRestaurant((item as DishSearchResult).vendor_id)}
+            />
+          ) : (
+            <RestaurantCard restaurant={item as Vendor} onPress={() => openRestaurant(item.id)} />
+          )
+        }
       />
     </View>
   );
@@ -421,6 +704,73 @@ const styles = StyleSheet.create({
   searchIcon: {
     marginRight: 8,
   },
+  searchAction: {
+    padding: 8,
+    borderRadius: 10,
+  },
+  filterButtonActive: {
+    backgroundColor: '#ff8c00',
+  },
+  filterPanel: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 12,
+  },
+  filterLabel: {
+    fontSize: 13,
+    fontFamily: 'Poppins-SemiBold',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f8fafc',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  filterChipActive: {
+    backgroundColor: '#ff8c00',
+    borderColor: '#ff8c00',
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontFamily: 'Inter-SemiBold',
+    color: '#475569',
+  },
+  filterChipTextActive: {
+    color: '#ffffff',
+  },
+  priceInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#1e293b',
+  },
+  priceSeparator: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  clearFiltersText: {
+    fontSize: 13,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ff8c00',
+    textAlign: 'right',
+  },
   searchInput: {
     flex: 1,
     padding: 14,
@@ -571,6 +921,9 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.8)',
   },
   restaurantsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
     paddingHorizontal: 16,
     marginBottom: 12,
   },
@@ -580,6 +933,49 @@ const styles = StyleSheet.create({
     color: '#1e293b',
     letterSpacing: 0.3,
   },
+  searchErrorText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#ef4444',
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  resultSectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Poppins-Bold',
+    color: '#475569',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#fed7aa',
+    backgroundColor: '#fff7ed',
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ff8c00',
+  },
+  searchEmpty: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  searchEmptyTitle: {
+    fontSize: 16,
+    fontFamily: 'Poppins-Bold',
+    color: '#1e293b',
+    marginBottom: 4,
+  },
+  searchEmptyText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#64748b',
+  },
   errorContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -6,13 +6,21 @@ import {
   ScrollView,
   TouchableOpacity,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Package, DollarSign, ShoppingBag, TrendingUp, AlertCircle, Clock, XCircle } from 'lucide-react-native';
+import { Package, DollarSign, ShoppingBag, TrendingUp, AlertCircle, Clock, XCircle, ShieldCheck, BellRing, CalendarClock, CircleCheck, CirclePause, Store } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { formatCountdown, isAwaitingAcceptance, secondsToAccept } from '@/lib/orderAcceptance';
+import { useNewOrderAlert } from '@/hooks/useNewOrderAlert';
+import { PAUSE_MINUTES, pauseVendorOrders } from '@/lib/vendorHours';
+import { Order } from '@/types/database';
 import { useAuth } from '@/contexts/AuthContext';
-import { router, useFocusEffect } from 'expo-router';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
 import VendorOrderManagement from '@/components/vendor/VendorOrderManagement';
+import DeliveryProofSettings from '@/components/vendor/DeliveryProofSettings';
+import ScheduledOrderSettings from '@/components/vendor/ScheduledOrderSettings';
+import OpeningHoursSettings from '@/components/vendor/OpeningHoursSettings';
 
 interface DashboardStats {
   totalProducts: number;
@@ -37,6 +45,48 @@ export default function VendorHome() {
   });
   const [loading, setLoading] = useState(true);
   const [showOrders, setShowOrders] = useState(false);
+  const params = useLocalSearchParams();
+  const orderId = typeof params.orderId === 'string' ? params.orderId : undefined;
+  const [showDeliveryProof, setShowDeliveryProof] = useState(false);
+  const [showScheduleSettings, setShowScheduleSettings] = useState(false);
+  const [showOpeningHours, setShowOpeningHours] = useState(false);
+  const [isOpenNow, setIsOpenNow] = useState<boolean | null>(null);
+  const [pausedUntil, setPausedUntil] = useState<string | null>(null);
+  const [pausing, setPausing] = useState(false);
+  const [awaitingOrders, setAwaitingOrders] = useState<Order[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  // Rings until every new order has been accepted or rejected, except while
+  // the vendor is already on the orders screen dealing with them
+  useNewOrderAlert(awaitingOrders.length > 0 && !showOrders);
+
+  useEffect(() => {
+    if (awaitingOrders.length === 0) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [awaitingOrders.length]);
+
+  // Opening an order notification lands on that order
+  useEffect(() => {
+    if (params.screen === 'orders') {
+      setShowOrders(true);
+    }
+  }, [params.screen, orderId]);
+
+  // Drop the paused banner by itself once the pause runs out
+  useEffect(() => {
+    if (!pausedUntil) return;
+
+    const remaining = new Date(pausedUntil).getTime() - Date.now();
+    if (remaining <= 0) {
+      setPausedUntil(null);
+      return;
+    }
+
+    const timer = setTimeout(() => setPausedUntil(null), remaining);
+    return () => clearTimeout(timer);
+  }, [pausedUntil]);
 
   const fetchDashboardStats = async (isInitialLoad = false) => {
     if (!profile || !vendorId) return;
@@ -79,6 +129,12 @@ export default function VendorHome() {
         (o) => o.status === 'pending' || o.status === 'confirmed'
       ).length;
 
+      setAwaitingOrders(
+        orders
+          .filter(isAwaitingAcceptance)
+          .sort((a, b) => new Date(a.accept_by).getTime() - new Date(b.accept_by).getTime())
+      );
+
       const totalRevenue = orders
         .filter((o) => o.status === 'delivered')
         .reduce((sum, order) => sum + parseFloat(order.total.toString()), 0);
@@ -115,7 +171,7 @@ export default function VendorHome() {
       try {
         const { data, error } = await supabase
           .from('vendors')
-          .select('id')
+          .select('id, is_currently_open, orders_paused_until')
           .eq('user_id', profile.id)
           .single();
 
@@ -123,6 +179,8 @@ export default function VendorHome() {
         if (data) {
           console.log('Vendor ID found:', data.id);
           setVendorId(data.id);
+          setIsOpenNow(data.is_currently_open ?? null);
+          setPausedUntil(data.orders_paused_until);
         }
       } catch (error) {
         console.error('Error fetching vendor ID:', error);
@@ -185,8 +243,38 @@ export default function VendorHome() {
     }, [vendorId])
   );
 
+  const togglePause = async () => {
+    try {
+      setPausing(true);
+      setPausedUntil(await pauseVendorOrders(pausedUntil ? 0 : PAUSE_MINUTES));
+    } catch (error: any) {
+      console.error('Error pausing orders:', error);
+      Alert.alert('Error', error.message || 'Failed to update order pause');
+    } finally {
+      setPausing(false);
+    }
+  };
+
   if (showOrders) {
-    return <VendorOrderManagement onBack={() => setShowOrders(false)} />;
+    return (
+      <VendorOrderManagement
+        key={orderId}
+        initialOrderId={orderId}
+        onBack={() => setShowOrders(false)}
+      />
+    );
+  }
+
+  if (showDeliveryProof) {
+    return <DeliveryProofSettings onBack={() => setShowDeliveryProof(false)} />;
+  }
+
+  if (showOpeningHours) {
+    return <OpeningHoursSettings onBack={() => setShowOpeningHours(false)} />;
+  }
+
+  if (showScheduleSettings) {
+    return <ScheduledOrderSettings onBack={() => setShowScheduleSettings(false)} />;
   }
 
   if (profile?.vendor_status === 'pending') {
@@ -260,6 +348,60 @@ export default function VendorHome() {
       </View>
 
       <View style={styles.content}>
+        {awaitingOrders.length > 0 && (
+          <TouchableOpacity style={styles.newOrderAlert} onPress={() => setShowOrders(true)} activeOpacity={0.8}>
+            <View style={styles.newOrderIcon}>
+              <BellRing size={28} color="#ffffff" />
+            </View>
+            <View style={styles.newOrderContent}>
+              <Text style={styles.newOrderTitle}>
+                {awaitingOrders.length === 1
+                  ? 'New order waiting!'
+                  : `${awaitingOrders.length} new orders waiting!`}
+              </Text>
+              <Text style={styles.newOrderText}>
+                Accept or reject #{awaitingOrders[0].order_number} within{' '}
+                {formatCountdown(secondsToAccept(awaitingOrders[0], now))} or it will be cancelled
+              </Text>
+            </View>
+            <Text style={styles.newOrderAction}>Respond</Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={[styles.pauseCard, pausedUntil && styles.pauseCardActive]}>
+          {pausedUntil ? (
+            <CirclePause size={28} color="#dc2626" />
+          ) : (
+            <CircleCheck size={28} color={isOpenNow === false ? '#94a3b8' : '#10b981'} />
+          )}
+          <View style={styles.pauseContent}>
+            <Text style={styles.pauseTitle}>
+              {pausedUntil ? 'New orders paused' : isOpenNow === false ? 'Closed now' : 'Taking orders'}
+            </Text>
+            <Text style={styles.pauseText}>
+              {pausedUntil
+                ? `Customers can order again at ${new Date(pausedUntil).toLocaleTimeString('en-US', {
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}`
+                : isOpenNow === false
+                  ? 'Outside your opening hours. Customers can still schedule orders.'
+                  : `Kitchen too busy? Pause new orders for ${PAUSE_MINUTES} minutes.`}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.pauseButton, pausedUntil && styles.resumeButton]}
+            onPress={togglePause}
+            disabled={pausing}
+          >
+            {pausing ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <Text style={styles.pauseButtonText}>{pausedUntil ? 'Resume' : 'Pause'}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
         <View>
           <View style={styles.statsGrid}>
             <View style={[styles.statCard, styles.statCardPrimary]}>
@@ -325,6 +467,18 @@ export default function VendorHome() {
               <ShoppingBag size={20} color="#ff8c00" />
               <Text style={styles.actionButtonText}>View Orders</Text>
             </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => setShowDeliveryProof(true)}>
+              <ShieldCheck size={20} color="#ff8c00" />
+              <Text style={styles.actionButtonText}>Delivery Proof Settings</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => setShowScheduleSettings(true)}>
+              <CalendarClock size={20} color="#ff8c00" />
+              <Text style={styles.actionButtonText}>Scheduled Order Settings</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => setShowOpeningHours(true)}>
+              <Store size={20} color="#ff8c00" />
+              <Text style={styles.actionButtonText}>Opening Hours & Closures</Text>
+            </TouchableOpacity>
           </View>
         </View>
 
@@ -442,6 +596,95 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     textAlign: 'center',
   },
+  newOrderAlert: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#dc2626',
+    borderRadius: 18,
+    padding: 16,
+    marginBottom: 12,
+    gap: 12,
+    shadowColor: '#dc2626',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 6,
+  },
+  newOrderIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  newOrderContent: {
+    flex: 1,
+  },
+  newOrderTitle: {
+    fontSize: 17,
+    fontWeight: '800',
+    color: '#ffffff',
+    marginBottom: 2,
+  },
+  newOrderText: {
+    fontSize: 13,
+    color: '#fee2e2',
+  },
+  newOrderAction: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#dc2626',
+    backgroundColor: '#ffffff',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    overflow: 'hidden',
+  },
+  pauseCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  pauseCardActive: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+  },
+  pauseContent: {
+    flex: 1,
+  },
+  pauseTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  pauseText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  pauseButton: {
+    backgroundColor: '#ff8c00',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  resumeButton: {
+    backgroundColor: '#10b981',
+  },
+  pauseButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
   alertCard: {
     flexDirection: 'row',
     backgroundColor: '#fef3c7',
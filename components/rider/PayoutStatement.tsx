@@ -0,0 +1,133 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { RiderPayout } from '@/types/database';
+
+interface PayoutStatementProps {
+  payout: RiderPayout;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+// Line-by-line statement of the earnings a payout covered
+export default function PayoutStatement({ payout }: PayoutStatementProps) {
+  const tips = payout.statement.reduce((sum, line) => sum + Number(line.tip || 0), 0);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summary}>
+        <Text style={styles.period}>
+          {formatDate(payout.period_start)} – {formatDate(payout.period_end)}
+        </Text>
+        <Text style={styles.total}>₦{Number(payout.amount).toFixed(2)}</Text>
+        <Text style={styles.meta}>
+          {payout.earnings_count} {payout.earnings_count === 1 ? 'delivery' : 'deliveries'} · paid to
+          wallet {formatDate(payout.created_at)}
+        </Text>
+      </View>
+
+      {payout.statement.map((line) => (
+        <View key={line.earning_id} style={styles.line}>
+          <View style={styles.lineInfo}>
+            <Text style={styles.lineOrder}>
+              {line.order_number ? `#${line.order_number}` : 'Delivery'}
+            </Text>
+            <Text style={styles.lineDate}>{formatDate(line.date)}</Text>
+          </View>
+          <View style={styles.lineAmounts}>
+            <Text style={styles.lineAmount}>₦{Number(line.amount).toFixed(2)}</Text>
+            {Number(line.tip) > 0 && (
+              <Text style={styles.lineTip}>incl. ₦{Number(line.tip).toFixed(2)} tip</Text>
+            )}
+          </View>
+        </View>
+      ))}
+
+      {tips > 0 && (
+        <View style={styles.footer}>
+          <Text style={styles.footerLabel}>Tips included</Text>
+          <Text style={styles.footerValue}>₦{tips.toFixed(2)}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  summary: {
+    backgroundColor: '#fff7ed',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  period: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#9a3412',
+  },
+  total: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: '#1f2937',
+    marginTop: 4,
+  },
+  meta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  line: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineOrder: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  lineDate: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  lineAmounts: {
+    alignItems: 'flex-end',
+  },
+  lineAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  lineTip: {
+    fontSize: 12,
+    color: '#10b981',
+    marginTop: 2,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingTop: 8,
+  },
+  footerLabel: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  footerValue: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#10b981',
+  },
+});
@@ -1,6 +1,7 @@
 import React, { createContext, useState, useEffect, useContext } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { unregisterPushToken } from '@/lib/pushNotifications';
 import { Profile } from '@/types/database';
 
 interface AuthContextType {
@@ -138,6 +139,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const signOut = async () => {
     try {
+      await unregisterPushToken();
       await supabase.auth.signOut();
     } catch (error) {
       console.error('Sign out error:', error);
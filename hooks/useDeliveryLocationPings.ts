@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import * as Location from 'expo-location';
+import { supabase } from '@/lib/supabase';
+
+// At most one ping this often, however fast the device reports positions
+const PING_INTERVAL_MS = 15000;
+const PING_DISTANCE_METRES = 25;
+
+// Publishes the rider's position against an order while `active` is true.
+// Returns false when location permission was refused.
+export function useDeliveryLocationPings(
+  orderId: string | null,
+  riderId: string | null,
+  active: boolean
+) {
+  const [permissionGranted, setPermissionGranted] = useState(true);
+
+  useEffect(() => {
+    if (!orderId || !riderId || !active) return;
+
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+    let lastSentAt = 0;
+
+    const start = async () => {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      setPermissionGranted(status === 'granted');
+      if (status !== 'granted' || cancelled) return;
+
+      subscription = await Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.High,
+          timeInterval: PING_INTERVAL_MS,
+          distanceInterval: PING_DISTANCE_METRES,
+        },
+        async (position) => {
+          const now = Date.now();
+          if (now - lastSentAt < PING_INTERVAL_MS) return;
+          lastSentAt = now;
+
+          const { error } = await supabase.from('order_location_pings').insert({
+            order_id: orderId,
+            rider_id: riderId,
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+            speed: position.coords.speed != null && position.coords.speed >= 0 ? position.coords.speed : null,
+            heading: position.coords.heading != null && position.coords.heading >= 0 ? position.coords.heading : null,
+            recorded_at: new Date(position.timestamp).toISOString(),
+          });
+
+          if (error) console.error('Error sending location ping:', error);
+        }
+      );
+
+      if (cancelled) subscription.remove();
+    };
+
+    start().catch((error) => console.error('Error starting location tracking:', error));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [orderId, riderId, active]);
+
+  return permissionGranted;
+}
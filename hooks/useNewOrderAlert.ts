@@ -0,0 +1,62 @@
+import { useEffect } from 'react';
+import { Platform, Vibration } from 'react-native';
+
+const ALERT_INTERVAL_MS = 2500;
+const VIBRATION_PATTERN = [0, 800, 400, 800];
+
+// Older Safari only has the prefixed constructor
+type WebkitWindow = Window & { webkitAudioContext?: typeof AudioContext };
+
+// Two short high beeps, loud enough to hear across a kitchen
+const playWebChime = (context: AudioContext) => {
+  [0, 0.3].forEach((offset) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const start = context.currentTime + offset;
+
+    oscillator.type = 'square';
+    oscillator.frequency.setValueAtTime(1046, start);
+    gain.gain.setValueAtTime(0.4, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.25);
+
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.25);
+  });
+};
+
+// Keeps chiming (web) or vibrating (native) while `active` is true
+export function useNewOrderAlert(active: boolean) {
+  useEffect(() => {
+    if (!active) return;
+
+    if (Platform.OS !== 'web') {
+      Vibration.vibrate(VIBRATION_PATTERN, true);
+      return () => Vibration.cancel();
+    }
+
+    const AudioContextClass =
+      typeof window !== 'undefined'
+        ? window.AudioContext || (window as WebkitWindow).webkitAudioContext
+        : undefined;
+    if (!AudioContextClass) return;
+
+    const context: AudioContext = new AudioContextClass();
+    const ring = () => {
+      // Browsers suspend audio until the page has been interacted with
+      if (context.state === 'suspended') {
+        context.resume().catch(() => {});
+      }
+      playWebChime(context);
+    };
+
+    ring();
+    const interval = setInterval(ring, ALERT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      context.close().catch(() => {});
+    };
+  }, [active]);
+}
@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+import { registerForPushNotifications } from '@/lib/pushNotifications';
+import { getNotificationRoute } from '@/lib/notifications';
+import { Profile } from '@/types/database';
+
+// The last tapped push stays available for the life of the app, so it is
+// only opened once even when the hook runs again for another sign-in
+let handledResponseId: string | null = null;
+
+const openNotification = (profile: Profile, response: Notifications.NotificationResponse) => {
+  const responseId = response.notification.request.identifier;
+  if (responseId === handledResponseId) return;
+  handledResponseId = responseId;
+
+  const data = response.notification.request.content.data ?? {};
+  router.push(getNotificationRoute(profile.role, { type: data.type as string, data }) ?? '/(tabs)/notifications');
+};
+
+// Registers the device for pushes once signed in and opens the relevant
+// screen when a push is tapped, including the one that launched the app
+export function usePushNotifications(profile: Profile | null) {
+  useEffect(() => {
+    if (!profile || Platform.OS === 'web') return;
+
+    registerForPushNotifications().catch((error) =>
+      console.error('Error registering for push notifications:', error)
+    );
+
+    Notifications.getLastNotificationResponseAsync().then((response) => {
+      if (response) {
+        openNotification(profile, response);
+      }
+    }).catch((error) => {
+      console.error('Error reading the last notification response:', error);
+    });
+
+    const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      openNotification(profile, response);
+    });
+
+    return () => subscription.remove();
+  }, [profile?.id]);
+}
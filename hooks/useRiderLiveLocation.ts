@@ -0,0 +1,59 @@
+import { useEffect } from 'react';
+import * as Location from 'expo-location';
+import { supabase } from '@/lib/supabase';
+
+// Dispatch only trusts positions a few minutes old, so idle riders report in
+// about once a minute or when they move a block
+const UPDATE_INTERVAL_MS = 60000;
+const UPDATE_DISTANCE_METRES = 100;
+
+// Keeps rider_live_status at the rider's position while they are available
+// for offers. Positions during a delivery come from the order pings instead.
+export function useRiderLiveLocation(riderId: string | null, active: boolean) {
+  useEffect(() => {
+    if (!riderId || !active) return;
+
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+    let lastSentAt = 0;
+
+    const start = async () => {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted' || cancelled) return;
+
+      subscription = await Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.Balanced,
+          timeInterval: UPDATE_INTERVAL_MS,
+          distanceInterval: UPDATE_DISTANCE_METRES,
+        },
+        async (position) => {
+          const now = Date.now();
+          if (now - lastSentAt < UPDATE_INTERVAL_MS) return;
+          lastSentAt = now;
+
+          const { error } = await supabase
+            .from('rider_live_status')
+            .update({
+              latitude: position.coords.latitude,
+              longitude: position.coords.longitude,
+              location_updated_at: new Date(position.timestamp).toISOString(),
+              updated_at: new Date().toISOString(),
+            })
+            .eq('rider_id', riderId);
+
+          if (error) console.error('Error updating rider location:', error);
+        }
+      );
+
+      if (cancelled) subscription.remove();
+    };
+
+    start().catch((error) => console.error('Error starting rider location updates:', error));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [riderId, active]);
+}
@@ -0,0 +1,167 @@
+import { BankStatementLine, CheckoutGroup } from '@/types/database';
+
+export interface ParsedStatementLine {
+  transaction_date: string;
+  amount: number;
+  narration: string;
+  reference: string;
+}
+
+export interface TransferMatch {
+  line: BankStatementLine;
+  amountMatches: boolean;
+  narrationMatches: boolean;
+}
+
+const COLUMN_NAMES = {
+  date: ['date', 'transaction date', 'trans date', 'txn date', 'value date', 'posting date'],
+  credit: ['credit', 'credit amount', 'deposit', 'deposits', 'money in', 'cr'],
+  amount: ['amount', 'transaction amount'],
+  narration: ['narration', 'description', 'details', 'remarks', 'transaction details'],
+  reference: ['reference', 'ref', 'reference number', 'transaction reference', 'ref no'],
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Splits one CSV row, honouring quoted fields and doubled quotes
+const splitRow = (row: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+};
+
+const parseAmount = (value: string | undefined) => {
+  if (!value) return 0;
+  const negative = /^\(.*\)$/.test(value.trim()) || value.trim().startsWith('-');
+  const amount = parseFloat(value.replace(/[^0-9.]/g, ''));
+  if (isNaN(amount)) return 0;
+  return negative ? -amount : amount;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Accepts 2026-10-19, 19/10/2026, 19-10-2026 and 19-Oct-2026 (day first, as
+// Nigerian bank statements are); returns YYYY-MM-DD or null
+export const parseStatementDate = (value: string) => {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return `${iso[1]}-${pad(+iso[2])}-${pad(+iso[3])}`;
+
+  const numeric = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (numeric) {
+    const year = numeric[3].length === 2 ? 2000 + +numeric[3] : +numeric[3];
+    return `${year}-${pad(+numeric[2])}-${pad(+numeric[1])}`;
+  }
+
+  const named = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2,4})/);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].toLowerCase());
+    if (month === -1) return null;
+    const year = named[3].length === 2 ? 2000 + +named[3] : +named[3];
+    return `${year}-${pad(month + 1)}-${pad(+named[1])}`;
+  }
+
+  return null;
+};
+
+const findColumn = (headers: string[], names: string[]) =>
+  headers.findIndex((header) => names.includes(header));
+
+// Reads the credit lines out of a CSV bank statement. The header row is
+// found by looking for a date column, so bank banners above it are skipped.
+export const parseStatementCsv = (csv: string): ParsedStatementLine[] => {
+  const rows = csv
+    .split(/\r?\n/)
+    .filter((row) => row.trim() !== '')
+    .map(splitRow);
+
+  const headerIndex = rows.findIndex(
+    (row) => findColumn(row.map((cell) => cell.toLowerCase()), COLUMN_NAMES.date) !== -1
+  );
+  if (headerIndex === -1) {
+    throw new Error('Could not find a date column in the statement');
+  }
+
+  const headers = rows[headerIndex].map((cell) => cell.toLowerCase());
+  const dateColumn = findColumn(headers, COLUMN_NAMES.date);
+  const creditColumn = findColumn(headers, COLUMN_NAMES.credit);
+  const amountColumn = creditColumn !== -1 ? creditColumn : findColumn(headers, COLUMN_NAMES.amount);
+  const narrationColumn = findColumn(headers, COLUMN_NAMES.narration);
+  const referenceColumn = findColumn(headers, COLUMN_NAMES.reference);
+
+  if (amountColumn === -1) {
+    throw new Error('Could not find a credit or amount column in the statement');
+  }
+
+  return rows.slice(headerIndex + 1).flatMap((row) => {
+    const date = parseStatementDate(row[dateColumn] || '');
+    const amount = parseAmount(row[amountColumn]);
+    if (!date || amount <= 0) return [];
+
+    return [
+      {
+        transaction_date: date,
+        amount: Math.round(amount * 100) / 100,
+        narration: narrationColumn !== -1 ? row[narrationColumn] || '' : '',
+        reference: referenceColumn !== -1 ? row[referenceColumn] || '' : '',
+      },
+    ];
+  });
+};
+
+const normalise = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Customers type the order number in many ways ("ORD-1729...", "ord 1729...",
+// or just the digits), so narrations are compared without punctuation and
+// the digits alone also count.
+const narrationMentions = (narration: string, groupNumber: string) => {
+  const text = normalise(narration);
+  const number = normalise(groupNumber);
+  const digits = groupNumber.replace(/\D/g, '');
+  return text.includes(number) || (digits.length >= 8 && text.includes(digits));
+};
+
+// Unmatched statement lines that could pay for a checkout, best first. Lines
+// for less than the checkout total are never suggested.
+export const suggestMatches = (
+  group: Pick<CheckoutGroup, 'group_number' | 'total'>,
+  lines: BankStatementLine[]
+): TransferMatch[] =>
+  lines
+    .filter((line) => line.status === 'unmatched' && Number(line.amount) >= Number(group.total))
+    .map((line) => ({
+      line,
+      amountMatches: Number(line.amount) === Number(group.total),
+      narrationMatches: narrationMentions(line.narration, group.group_number),
+    }))
+    .filter((match) => match.amountMatches || match.narrationMatches)
+    .sort(
+      (a, b) =>
+        Number(b.narrationMatches) * 2 + Number(b.amountMatches) -
+        (Number(a.narrationMatches) * 2 + Number(a.amountMatches))
+    );
@@ -0,0 +1,32 @@
+import { supabase } from '@/lib/supabase';
+import { DeliveryProofRequirements } from '@/types/database';
+
+const BUCKET = 'delivery-proofs';
+
+export const DEFAULT_PROOF_REQUIREMENTS: DeliveryProofRequirements = {
+  code: false,
+  photo: false,
+  signature: false,
+};
+
+// Uploads a delivery photo into the order's folder and returns its object path.
+// The bucket is private, so the path is stored rather than a public URL.
+export const uploadDeliveryPhoto = async (orderId: string, uri: string) => {
+  const response = await fetch(uri);
+  const blob = await response.blob();
+  const path = `${orderId}/photo_${Date.now()}.jpg`;
+
+  const { error } = await supabase.storage.from(BUCKET).upload(path, blob, {
+    contentType: blob.type || 'image/jpeg',
+    upsert: false,
+  });
+
+  if (error) throw error;
+  return path;
+};
+
+export const getDeliveryPhotoUrl = async (path: string) => {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, 60 * 60);
+  if (error) throw error;
+  return data.signedUrl;
+};
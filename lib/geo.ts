@@ -0,0 +1,34 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Typical rider speed in city traffic, used when a device doesn't report one
+export const AVERAGE_SPEED_KMH = 20;
+
+// Roads are usually about 30% longer than the straight line between two points
+export const ROAD_DISTANCE_FACTOR = 1.3;
+
+// Straight-line (haversine) distance in kilometres
+export const distanceKm = (from: Coordinates, to: Coordinates) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export const roadDistanceKm = (from: Coordinates, to: Coordinates) =>
+  distanceKm(from, to) * ROAD_DISTANCE_FACTOR;
+
+// Rough arrival estimate in whole minutes
+export const estimateEtaMinutes = (
+  from: Coordinates,
+  to: Coordinates,
+  speedMetresPerSecond?: number | null
+) => {
+  const reportedKmh = speedMetresPerSecond ? speedMetresPerSecond * 3.6 : 0;
+  const speedKmh = reportedKmh >= 5 ? reportedKmh : AVERAGE_SPEED_KMH;
+  return Math.max(1, Math.round((roadDistanceKm(from, to) / speedKmh) * 60));
+};
@@ -0,0 +1,20 @@
+type NotificationEventListener = () => void;
+
+// Realtime does not deliver filtered deletes, so screens that dismiss or read
+// notifications emit this to refresh the unread badge straight away
+class NotificationEventEmitter {
+  private listeners: NotificationEventListener[] = [];
+
+  subscribe(listener: NotificationEventListener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const notificationEvents = new NotificationEventEmitter();
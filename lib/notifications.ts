@@ -0,0 +1,41 @@
+import { Href } from 'expo-router';
+import { supabase } from '@/lib/supabase';
+import { Notification, UserRole } from '@/types/database';
+
+// Offers have to be accepted from the deliveries tab before the order opens
+const RIDER_OFFER_TYPES = ['order_assignment', 'batch_assignment'];
+
+// Where opening a notification takes each kind of user. Null means there is
+// nothing more to show than the notification itself.
+export const getNotificationRoute = (
+  role: UserRole,
+  notification: Pick<Notification, 'type' | 'data'>
+): Href | null => {
+  const data = notification.data ?? {};
+
+  switch (role) {
+    case 'rider':
+      if (RIDER_OFFER_TYPES.includes(notification.type)) return '/(tabs)/rider';
+      if (data.batch_id) return `/rider/batch/${data.batch_id}`;
+      if (data.order_id) return `/rider/delivery/${data.order_id}`;
+      return '/(tabs)/rider';
+    case 'vendor':
+      return data.order_id ? `/(tabs)?screen=orders&orderId=${data.order_id}` : null;
+    case 'admin':
+      if (data.batch_id) return `/(tabs)/admin?screen=routes&batchId=${data.batch_id}`;
+      if (data.order_id) return `/(tabs)/admin?screen=orders&orderId=${data.order_id}`;
+      return '/(tabs)/admin';
+    default:
+      return data.order_id ? `/order-tracking?orderId=${data.order_id}` : null;
+  }
+};
+
+export const markAllNotificationsRead = async (userId: string) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read: true })
+    .eq('user_id', userId)
+    .eq('read', false);
+
+  if (error) throw error;
+};
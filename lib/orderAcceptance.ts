@@ -0,0 +1,28 @@
+import { supabase } from '@/lib/supabase';
+import { Order } from '@/types/database';
+
+export const PREP_TIME_OPTIONS = [10, 15, 20, 30, 45, 60];
+
+// Pending orders whose clock is running; unpaid bank transfers have no deadline yet
+export const isAwaitingAcceptance = (order: Pick<Order, 'status' | 'accept_by'>) =>
+  order.status === 'pending' && !!order.accept_by;
+
+export const secondsToAccept = (order: Pick<Order, 'accept_by'>, now = Date.now()) =>
+  order.accept_by
+    ? Math.max(0, Math.floor((new Date(order.accept_by).getTime() - now) / 1000))
+    : 0;
+
+export const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const acceptOrder = async (orderId: string, prepMinutes: number) => {
+  const { data, error } = await supabase.rpc('accept_order', {
+    p_order_id: orderId,
+    p_prep_minutes: prepMinutes,
+  });
+
+  if (error) throw error;
+  return data as Order;
+};
@@ -0,0 +1,91 @@
+import { supabase } from '@/lib/supabase';
+import { CancellationReason, Order } from '@/types/database';
+
+export type CancellingRole = 'customer' | 'vendor' | 'admin';
+
+export interface CancellationResult {
+  order_id: string;
+  order_number: string;
+  refund_amount: number;
+  refund_method: 'wallet' | 'paystack' | null;
+  refund_status: 'pending' | 'processing' | 'completed' | 'failed' | null;
+}
+
+export const CANCELLATION_REASONS: {
+  code: CancellationReason;
+  label: string;
+  roles: CancellingRole[];
+}[] = [
+  { code: 'customer_request', label: 'Customer asked to cancel', roles: ['customer', 'admin'] },
+  { code: 'customer_unreachable', label: 'Customer could not be reached', roles: ['admin'] },
+  { code: 'items_unavailable', label: 'Items are unavailable', roles: ['vendor', 'admin'] },
+  { code: 'vendor_closed', label: 'Restaurant is closed', roles: ['vendor', 'admin'] },
+  { code: 'vendor_delay', label: 'Cannot prepare in time', roles: ['vendor', 'admin'] },
+  { code: 'no_rider_available', label: 'No rider available', roles: ['admin'] },
+  { code: 'duplicate_order', label: 'Duplicate order', roles: ['vendor', 'admin'] },
+  { code: 'other', label: 'Other', roles: ['vendor', 'admin'] },
+];
+
+const CUSTOMER_FAULT_REASONS: CancellationReason[] = ['customer_request', 'customer_unreachable'];
+
+// Reasons only the system records, never offered in the cancel form
+const SYSTEM_REASON_LABELS: Partial<Record<CancellationReason, string>> = {
+  payment_not_received: 'Bank transfer not received',
+  vendor_no_response: 'Restaurant did not accept in time',
+};
+
+export const cancellationReasonLabel = (code?: string | null) =>
+  SYSTEM_REASON_LABELS[code as CancellationReason] ??
+  CANCELLATION_REASONS.find((reason) => reason.code === code)?.label ??
+  'Cancelled';
+
+// Mirrors the server rules so the screen can say what happens before anyone confirms
+export const canCancelOrder = (order: Pick<Order, 'status'>, role: CancellingRole) => {
+  if (order.status === 'delivered' || order.status === 'cancelled') return false;
+  if (role === 'customer') return order.status === 'pending';
+  if (role === 'vendor') {
+    return ['pending', 'confirmed', 'arrived_at_vendor'].includes(order.status);
+  }
+  return true;
+};
+
+// Only admins cancelling for a customer reason after the vendor has started
+// can cut the refund; the cut itself comes from platform settings.
+export const isFullRefund = (
+  order: Pick<Order, 'status'>,
+  reason: CancellationReason,
+  role: CancellingRole
+) => role !== 'admin' || order.status === 'pending' || !CUSTOMER_FAULT_REASONS.includes(reason);
+
+export const cancelOrder = async (params: {
+  orderId: string;
+  reasonCode: CancellationReason;
+  note?: string;
+  refundTo?: 'original' | 'wallet';
+}): Promise<CancellationResult> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('No session');
+
+  const response = await fetch(
+    `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/order-cancel`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        order_id: params.orderId,
+        reason_code: params.reasonCode,
+        note: params.note,
+        refund_to: params.refundTo ?? 'original',
+      }),
+    }
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to cancel order');
+  }
+  return result;
+};
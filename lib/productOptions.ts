@@ -0,0 +1,24 @@
+import { ProductOptionGroup, SelectedOption } from '@/types/database';
+
+// Identifies a product/option combination so identical choices share a cart line
+export const optionsKey = (options: SelectedOption[]) =>
+  options.map((option) => option.option_id).sort().join(',');
+
+export const optionsTotal = (options: SelectedOption[] | null | undefined) =>
+  (options ?? []).reduce((sum, option) => sum + Number(option.price_delta), 0);
+
+export const formatSelectedOptions = (options: SelectedOption[] | null | undefined) =>
+  (options ?? []).map((option) => option.name).join(', ');
+
+export const minimumSelections = (group: ProductOptionGroup) =>
+  group.is_required ? Math.max(group.min_selections, 1) : group.min_selections;
+
+// Returns the first group whose selection is out of bounds, if any
+export const findIncompleteGroup = (
+  groups: ProductOptionGroup[],
+  selected: SelectedOption[]
+) =>
+  groups.find((group) => {
+    const count = selected.filter((option) => option.group_id === group.id).length;
+    return count < minimumSelections(group) || count > group.max_selections;
+  });
@@ -0,0 +1,97 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import Constants from 'expo-constants';
+import { supabase } from '@/lib/supabase';
+import { UserRole } from '@/types/database';
+
+export interface NotificationTypeOption {
+  type: string;
+  label: string;
+  description: string;
+  roles: UserRole[];
+}
+
+// Types a user can mute, matching `notifications.type`
+export const NOTIFICATION_TYPES: NotificationTypeOption[] = [
+  { type: 'order_accepted', label: 'Order accepted', description: 'The restaurant has started on your order', roles: ['customer'] },
+  { type: 'rider_arrived', label: 'Rider arrived', description: 'Your rider is at the door', roles: ['customer'] },
+  { type: 'order_picked_up', label: 'Order picked up', description: 'Your order is on its way', roles: ['customer'] },
+  { type: 'order_delivered', label: 'Order delivered', description: 'Your order has been delivered', roles: ['customer'] },
+  { type: 'payment_confirmed', label: 'Payment received', description: 'We received your bank transfer', roles: ['customer'] },
+  { type: 'payment_failed', label: 'Payment problems', description: 'A payment did not go through', roles: ['customer'] },
+  { type: 'order_refund', label: 'Refunds', description: 'Money returned for a cancelled order', roles: ['customer'] },
+  { type: 'new_order', label: 'New orders', description: 'An order is waiting for you to accept', roles: ['vendor'] },
+  { type: 'acceptance_reminder', label: 'Order reminders', description: 'An order is about to be cancelled', roles: ['vendor'] },
+  { type: 'low_stock', label: 'Low stock', description: 'A menu item is running low', roles: ['vendor'] },
+  { type: 'sold_out', label: 'Sold out', description: 'A menu item has run out', roles: ['vendor'] },
+  { type: 'vendor_settlement', label: 'Settlements', description: 'Statements and payments to your bank', roles: ['vendor'] },
+  { type: 'order_assignment', label: 'Delivery offers', description: 'A new order to accept', roles: ['rider'] },
+  { type: 'batch_delivery', label: 'Batch deliveries', description: 'A batch of orders assigned to you', roles: ['rider'] },
+  { type: 'rider_payout', label: 'Payouts', description: 'Earnings paid into your wallet', roles: ['rider'] },
+  { type: 'order_cancelled', label: 'Cancellations', description: 'An order was cancelled', roles: ['customer', 'vendor', 'rider'] },
+  { type: 'dispatch_escalation', label: 'Orders needing a rider', description: 'Dispatch could not find a rider', roles: ['admin'] },
+  { type: 'acceptance_escalation', label: 'Vendors not responding', description: 'A vendor has not accepted an order', roles: ['admin'] },
+  { type: 'delivery_issue', label: 'Delivery issues', description: 'A rider reported a problem', roles: ['admin'] },
+];
+
+let registeredToken: string | null = null;
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+// Registers this device for the signed-in user. Returns null on web,
+// simulators, or when the user refuses permission.
+export const registerForPushNotifications = async () => {
+  if (Platform.OS === 'web' || !Device.isDevice) return null;
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync('default', {
+      name: 'General',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+    // Offers that expire within minutes need to cut through
+    await Notifications.setNotificationChannelAsync('urgent', {
+      name: 'New orders and delivery offers',
+      importance: Notifications.AndroidImportance.MAX,
+      vibrationPattern: [0, 500, 250, 500],
+      sound: 'default',
+    });
+  }
+
+  let { status } = await Notifications.getPermissionsAsync();
+  if (status !== 'granted') {
+    ({ status } = await Notifications.requestPermissionsAsync());
+  }
+  if (status !== 'granted') return null;
+
+  const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+  const { data: token } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+
+  const { error } = await supabase.rpc('register_push_token', {
+    p_token: token,
+    p_platform: Platform.OS,
+    p_device_name: Device.deviceName ?? Device.modelName ?? null,
+  });
+
+  if (error) throw error;
+
+  registeredToken = token;
+  return token;
+};
+
+// Called before signing out so the next user of the device does not get
+// the previous user's notifications
+export const unregisterPushToken = async () => {
+  if (!registeredToken) return;
+
+  const { error } = await supabase.from('push_tokens').delete().eq('token', registeredToken);
+  if (error) console.error('Error removing push token:', error);
+  registeredToken = null;
+};
@@ -0,0 +1,252 @@
+import { supabase } from '@/lib/supabase';
+import { AVERAGE_SPEED_KMH, Coordinates, roadDistanceKm } from '@/lib/geo';
+
+export interface RouteOrder {
+  orderId: string;
+  pickup: Coordinates;
+  dropoff: Coordinates;
+}
+
+export interface RouteStop {
+  orderId: string;
+  type: 'pickup' | 'dropoff';
+}
+
+export interface PlannedRoute {
+  stops: RouteStop[];
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+// Exact search is instant up to here; bigger batches use the heuristic
+const EXACT_SEARCH_MAX_ORDERS = 7;
+const MAX_IMPROVEMENT_PASSES = 50;
+
+// Stop i * 2 is order i's pickup and i * 2 + 1 its drop-off
+const isPickup = (stop: number) => stop % 2 === 0;
+const pickupOf = (stop: number) => stop - 1;
+
+const buildMatrix = (points: Coordinates[]) =>
+  points.map((from) => points.map((to) => roadDistanceKm(from, to)));
+
+const routeLength = (route: number[], matrix: number[][], startLegs: number[] | null) => {
+  let total = startLegs ? startLegs[route[0]] : 0;
+  for (let i = 1; i < route.length; i++) {
+    total += matrix[route[i - 1]][route[i]];
+  }
+  return total;
+};
+
+const isFeasible = (route: number[]) => {
+  const seen = new Set<number>();
+  for (const stop of route) {
+    if (!isPickup(stop) && !seen.has(pickupOf(stop))) return false;
+    seen.add(stop);
+  }
+  return true;
+};
+
+// Dynamic programming over visited sets; a drop-off can only be added once its
+// pickup is in the set.
+const exactRoute = (stopCount: number, matrix: number[][], startLegs: number[] | null) => {
+  const full = (1 << stopCount) - 1;
+  const cost: number[][] = Array.from({ length: full + 1 }, () => new Array(stopCount).fill(Infinity));
+  const previous: number[][] = Array.from({ length: full + 1 }, () => new Array(stopCount).fill(-1));
+
+  for (let stop = 0; stop < stopCount; stop += 2) {
+    cost[1 << stop][stop] = startLegs ? startLegs[stop] : 0;
+  }
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let last = 0; last < stopCount; last++) {
+      const current = cost[mask][last];
+      if (current === Infinity) continue;
+
+      for (let next = 0; next < stopCount; next++) {
+        if (mask & (1 << next)) continue;
+        if (!isPickup(next) && !(mask & (1 << pickupOf(next)))) continue;
+
+        const nextMask = mask | (1 << next);
+        const nextCost = current + matrix[last][next];
+        if (nextCost < cost[nextMask][next]) {
+          cost[nextMask][next] = nextCost;
+          previous[nextMask][next] = last;
+        }
+      }
+    }
+  }
+
+  let last = 0;
+  for (let stop = 1; stop < stopCount; stop++) {
+    if (cost[full][stop] < cost[full][last]) last = stop;
+  }
+
+  const route: number[] = [];
+  let mask = full;
+  while (last !== -1) {
+    route.unshift(last);
+    const before = previous[mask][last];
+    mask &= ~(1 << last);
+    last = before;
+  }
+  return route;
+};
+
+// Nearest feasible stop first, then move single stops around while that
+// shortens the route.
+const heuristicRoute = (stopCount: number, matrix: number[][], startLegs: number[] | null) => {
+  const visited = new Set<number>();
+  const route: number[] = [];
+
+  while (route.length < stopCount) {
+    let best = -1;
+    let bestDistance = Infinity;
+    for (let stop = 0; stop < stopCount; stop++) {
+      if (visited.has(stop)) continue;
+      if (!isPickup(stop) && !visited.has(pickupOf(stop))) continue;
+
+      const distance = route.length === 0
+        ? (startLegs ? startLegs[stop] : 0)
+        : matrix[route[route.length - 1]][stop];
+      if (distance < bestDistance) {
+        best = stop;
+        bestDistance = distance;
+      }
+    }
+    route.push(best);
+    visited.add(best);
+  }
+
+  let bestRoute = route;
+  let bestLength = routeLength(route, matrix, startLegs);
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+    for (let from = 0; from < stopCount; from++) {
+      for (let to = 0; to < stopCount; to++) {
+        if (from === to) continue;
+        const candidate = [...bestRoute];
+        const [stop] = candidate.splice(from, 1);
+        candidate.splice(to, 0, stop);
+        if (!isFeasible(candidate)) continue;
+
+        const length = routeLength(candidate, matrix, startLegs);
+        if (length < bestLength - 1e-9) {
+          bestRoute = candidate;
+          bestLength = length;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return bestRoute;
+};
+
+// Orders every pickup and drop-off to minimise travel, never dropping an order
+// off before collecting it. Starts from `start` when the rider's position is
+// known, otherwise from whichever pickup gives the shortest route.
+export const planRoute = (orders: RouteOrder[], start?: Coordinates | null): PlannedRoute => {
+  if (orders.length === 0) {
+    return { stops: [], distanceKm: 0, durationMinutes: 0 };
+  }
+
+  const points = orders.flatMap((order) => [order.pickup, order.dropoff]);
+  const matrix = buildMatrix(points);
+  const startLegs = start ? points.map((point) => roadDistanceKm(start, point)) : null;
+
+  const route = orders.length <= EXACT_SEARCH_MAX_ORDERS
+    ? exactRoute(points.length, matrix, startLegs)
+    : heuristicRoute(points.length, matrix, startLegs);
+
+  const distanceKm = routeLength(route, matrix, startLegs);
+  return {
+    stops: route.map((stop) => ({
+      orderId: orders[Math.floor(stop / 2)].orderId,
+      type: isPickup(stop) ? 'pickup' : 'dropoff',
+    })),
+    distanceKm: Math.round(distanceKm * 10) / 10,
+    durationMinutes: Math.round((distanceKm / AVERAGE_SPEED_KMH) * 60),
+  };
+};
+
+// Plans the batch from the stored vendor and delivery pins and saves the new
+// stop order. Throws if any stop has no map location.
+export const optimizeBatchRoute = async (batchId: string): Promise<PlannedRoute> => {
+  const { data: batch, error: batchError } = await supabase
+    .from('batch_deliveries')
+    .select(`
+      rider_id,
+      batch_delivery_orders(
+        order_id,
+        orders!inner(
+          order_number,
+          delivery_address_snapshot,
+          vendor:vendors!inner(business_name, latitude, longitude)
+        )
+      )
+    `)
+    .eq('id', batchId)
+    .single();
+
+  if (batchError) throw batchError;
+
+  const routeOrders: RouteOrder[] = [];
+  const missing: string[] = [];
+
+  for (const item of batch.batch_delivery_orders as any[]) {
+    const order = item.orders;
+    const vendor = Array.isArray(order.vendor) ? order.vendor[0] : order.vendor;
+    const snapshot = order.delivery_address_snapshot;
+
+    if (vendor?.latitude == null || vendor?.longitude == null) {
+      missing.push(vendor?.business_name || order.order_number);
+      continue;
+    }
+    if (snapshot?.latitude == null || snapshot?.longitude == null) {
+      missing.push(`#${order.order_number}`);
+      continue;
+    }
+
+    routeOrders.push({
+      orderId: item.order_id,
+      pickup: { latitude: Number(vendor.latitude), longitude: Number(vendor.longitude) },
+      dropoff: { latitude: Number(snapshot.latitude), longitude: Number(snapshot.longitude) },
+    });
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`No map location for ${missing.join(', ')}`);
+  }
+
+  const { data: live } = await supabase
+    .from('rider_live_status')
+    .select('latitude, longitude')
+    .eq('rider_id', batch.rider_id)
+    .maybeSingle();
+
+  const start = live?.latitude != null && live?.longitude != null
+    ? { latitude: Number(live.latitude), longitude: Number(live.longitude) }
+    : null;
+
+  const route = planRoute(routeOrders, start);
+
+  const sequences = new Map<string, { pickup_sequence: number; delivery_sequence: number }>();
+  route.stops.forEach((stop, index) => {
+    const entry = sequences.get(stop.orderId) ?? { pickup_sequence: 0, delivery_sequence: 0 };
+    if (stop.type === 'pickup') entry.pickup_sequence = index + 1;
+    else entry.delivery_sequence = index + 1;
+    sequences.set(stop.orderId, entry);
+  });
+
+  const { error } = await supabase.rpc('apply_batch_route', {
+    p_batch_id: batchId,
+    p_stops: Array.from(sequences, ([orderId, entry]) => ({ order_id: orderId, ...entry })),
+    p_distance_km: route.distanceKm,
+    p_duration_minutes: route.durationMinutes,
+  });
+
+  if (error) throw error;
+  return route;
+};
@@ -0,0 +1,57 @@
+import { supabase } from '@/lib/supabase';
+import { DeliverySlot } from '@/types/database';
+
+export interface SlotDay {
+  key: string;
+  label: string;
+  slots: DeliverySlot[];
+}
+
+// Slots every vendor in the cart is open for, soonest first
+export const fetchDeliverySlots = async (vendorIds: string[]) => {
+  const { data, error } = await supabase.rpc('get_delivery_slots', {
+    p_vendor_ids: vendorIds,
+  });
+
+  if (error) throw error;
+  return (data || []) as DeliverySlot[];
+};
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const formatSlotDay = (iso: string) => {
+  const date = new Date(iso);
+  const today = new Date();
+  const tomorrow = new Date();
+  tomorrow.setDate(today.getDate() + 1);
+
+  if (dayKey(date) === dayKey(today)) return 'Today';
+  if (dayKey(date) === dayKey(tomorrow)) return 'Tomorrow';
+  return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+export const formatSlotTime = (slot: Pick<DeliverySlot, 'slot_start' | 'slot_end'>) =>
+  `${formatTime(slot.slot_start)} - ${formatTime(slot.slot_end)}`;
+
+// "Tomorrow, 12:30 PM" for order cards and summaries
+export const formatScheduledTime = (iso: string) => `${formatSlotDay(iso)}, ${formatTime(iso)}`;
+
+export const groupSlotsByDay = (slots: DeliverySlot[]): SlotDay[] => {
+  const days: SlotDay[] = [];
+
+  for (const slot of slots) {
+    const key = dayKey(new Date(slot.slot_start));
+    let day = days.find((d) => d.key === key);
+    if (!day) {
+      day = { key, label: formatSlotDay(slot.slot_start), slots: [] };
+      days.push(day);
+    }
+    day.slots.push(slot);
+  }
+
+  return days;
+};
@@ -0,0 +1,47 @@
+import { supabase } from '@/lib/supabase';
+import { CatalogSearchResults } from '@/types/database';
+
+export const SEARCH_PAGE_SIZE = 20;
+
+export interface SearchFilters {
+  cuisineTypes?: string[];
+  vegetarian?: boolean;
+  vegan?: boolean;
+  minPrice?: number | null;
+  maxPrice?: number | null;
+  minRating?: number | null;
+}
+
+export type SearchGroup = 'all' | 'restaurants' | 'dishes';
+
+export const hasActiveFilters = (filters: SearchFilters) =>
+  !!filters.vegetarian ||
+  !!filters.vegan ||
+  filters.minPrice != null ||
+  filters.maxPrice != null ||
+  filters.minRating != null;
+
+// Restaurants and dishes matching the query, ranked on the server. Pass a
+// single group with an offset to load the next page of it.
+export const searchCatalog = async (
+  query: string,
+  filters: SearchFilters = {},
+  group: SearchGroup = 'all',
+  offset = 0
+) => {
+  const { data, error } = await supabase.rpc('search_catalog', {
+    p_query: query.trim(),
+    p_cuisine_types: filters.cuisineTypes?.length ? filters.cuisineTypes : null,
+    p_vegetarian: !!filters.vegetarian,
+    p_vegan: !!filters.vegan,
+    p_min_price: filters.minPrice ?? null,
+    p_max_price: filters.maxPrice ?? null,
+    p_min_rating: filters.minRating ?? null,
+    p_group: group,
+    p_limit: SEARCH_PAGE_SIZE,
+    p_offset: offset,
+  });
+
+  if (error) throw error;
+  return data as CatalogSearchResults;
+};
@@ -0,0 +1,15 @@
+import { Product } from '@/types/database';
+
+export const isSoldOut = (product: Pick<Product, 'stock_quantity' | 'sold_out_at'>) =>
+  product.stock_quantity <= 0 || !!product.sold_out_at;
+
+// "Only N left" once stock reaches the vendor's low-stock level
+export const stockLabel = (
+  product: Pick<Product, 'stock_quantity' | 'sold_out_at' | 'low_stock_threshold'>
+) => {
+  if (isSoldOut(product)) return 'Sold out';
+  if (product.stock_quantity <= (product.low_stock_threshold ?? 5)) {
+    return `Only ${product.stock_quantity} left`;
+  }
+  return null;
+};
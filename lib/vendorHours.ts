@@ -0,0 +1,74 @@
+import { supabase } from '@/lib/supabase';
+import { formatScheduledTime } from '@/lib/scheduledOrders';
+import { OpeningShift, OperatingHoursDay, VendorAvailability } from '@/types/database';
+
+export const WEEK_DAYS = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+] as const;
+
+export const PAUSE_MINUTES = 30;
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+export const isValidTime = (value: string) => TIME_PATTERN.test(value.trim());
+
+// Days saved before split shifts only have open and close
+export const getDayShifts = (day?: OperatingHoursDay): OpeningShift[] => {
+  if (!day) return [];
+  if (day.shifts && day.shifts.length > 0) return day.shifts;
+  return day.open && day.close ? [{ open: day.open, close: day.close }] : [];
+};
+
+export const fetchVendorAvailability = async (vendorIds: string[]) => {
+  const { data, error } = await supabase.rpc('get_vendor_availability', {
+    p_vendor_ids: vendorIds,
+  });
+
+  if (error) throw error;
+  return (data || []) as VendorAvailability[];
+};
+
+// Pass 0 to take orders again straight away
+export const pauseVendorOrders = async (minutes: number) => {
+  const { data, error } = await supabase.rpc('set_vendor_orders_paused', {
+    p_minutes: minutes,
+  });
+
+  if (error) throw error;
+  return data as string | null;
+};
+
+const formatClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+// Why a store can't take an order right now, for banners and checkout
+export const availabilityMessage = (availability: VendorAvailability) => {
+  const name = availability.business_name || 'This restaurant';
+  const reopens = availability.next_open_at
+    ? ` It opens again ${formatScheduledTime(availability.next_open_at)}.`
+    : '';
+
+  if (!availability.is_accepting_orders) {
+    return `${name} is not accepting orders right now.`;
+  }
+
+  if (availability.closure_reason) {
+    return `${name} is closed for ${availability.closure_reason}.${reopens}`;
+  }
+
+  if (!availability.is_open) {
+    return `${name} is closed right now.${reopens}`;
+  }
+
+  if (availability.paused_until) {
+    return `${name} is very busy and has paused new orders until ${formatClock(availability.paused_until)}.`;
+  }
+
+  return null;
+};
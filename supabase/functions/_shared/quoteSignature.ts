@@ -0,0 +1,32 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const CHECKOUT_QUOTE_SECRET = Deno.env.get('CHECKOUT_QUOTE_SECRET') ?? '';
+
+export interface SignedQuote {
+  id: string;
+  user_id: string;
+  total: number | string;
+  expires_at: string;
+}
+
+// Functions that sign or accept quotes must refuse to run without the secret;
+// an empty key would let anyone sign their own quotes.
+export const isQuoteSigningConfigured = () => CHECKOUT_QUOTE_SECRET !== '';
+
+export const signQuote = (quoteId: string, userId: string, total: number, expiresAt: string) => {
+  if (!isQuoteSigningConfigured()) {
+    throw new Error('CHECKOUT_QUOTE_SECRET is not set');
+  }
+
+  return createHmac('sha256', CHECKOUT_QUOTE_SECRET)
+    .update(`${quoteId}:${userId}:${total.toFixed(2)}:${new Date(expiresAt).toISOString()}`)
+    .digest('hex');
+};
+
+export const isValidSignature = (quote: SignedQuote, signature: string) => {
+  if (!isQuoteSigningConfigured() || typeof signature !== 'string') return false;
+
+  const expected = signQuote(quote.id, quote.user_id, parseFloat(String(quote.total)), quote.expires_at);
+  return expected.length === signature.length
+    && timingSafeEqual(new TextEncoder().encode(expected), new TextEncoder().encode(signature));
+};
@@ -0,0 +1,32 @@
+export interface ClosedVendor {
+  vendor_id: string;
+  message: string;
+  next_open_at: string | null;
+}
+
+// First vendor that cannot take an order right now, or null when all can.
+// Quotes are checked when priced and again before ordering, since a vendor
+// may pause or close while the customer is on the checkout screen.
+export const findClosedVendor = async (
+  supabaseClient: any,
+  vendorIds: string[]
+): Promise<ClosedVendor | null> => {
+  const { data: availability, error } = await supabaseClient.rpc('get_vendor_availability', {
+    p_vendor_ids: vendorIds,
+  });
+
+  if (error) throw error;
+
+  const unavailable = (availability ?? []).find((a: any) => !a.can_order_now);
+  if (!unavailable) return null;
+
+  const reason = unavailable.is_open && unavailable.paused_until
+    ? 'is very busy and has paused new orders'
+    : 'is closed right now';
+
+  return {
+    vendor_id: unavailable.vendor_id,
+    message: `${unavailable.business_name} ${reason}. Please schedule your order for later.`,
+    next_open_at: unavailable.next_open_at,
+  };
+};
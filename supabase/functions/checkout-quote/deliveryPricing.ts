@@ -0,0 +1,124 @@
+export interface DeliveryPricing {
+  base_fee: number;
+  per_km_rate: number;
+  surge_multipliers: Record<string, number>;
+  free_delivery_threshold: number;
+  default_radius_km: number;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export const DEFAULT_DELIVERY_PRICING: DeliveryPricing = {
+  base_fee: 5.0,
+  per_km_rate: 0.5,
+  surge_multipliers: { breakfast: 1.0, lunch: 1.0, dinner: 1.0 },
+  free_delivery_threshold: 0,
+  default_radius_km: 10,
+};
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
+const GEOCODER_USER_AGENT = Deno.env.get('GEOCODER_USER_AGENT') ?? 'food-delivery-checkout';
+
+export const loadDeliveryPricing = async (supabaseClient: any): Promise<DeliveryPricing> => {
+  const { data } = await supabaseClient
+    .from('platform_settings')
+    .select('value')
+    .eq('key', 'delivery_pricing')
+    .maybeSingle();
+
+  const value = data?.value ?? {};
+  return {
+    base_fee: Number(value.base_fee ?? DEFAULT_DELIVERY_PRICING.base_fee),
+    per_km_rate: Number(value.per_km_rate ?? DEFAULT_DELIVERY_PRICING.per_km_rate),
+    surge_multipliers: { ...DEFAULT_DELIVERY_PRICING.surge_multipliers, ...(value.surge_multipliers ?? {}) },
+    free_delivery_threshold: Number(value.free_delivery_threshold ?? DEFAULT_DELIVERY_PRICING.free_delivery_threshold),
+    default_radius_km: Number(value.default_radius_km ?? DEFAULT_DELIVERY_PRICING.default_radius_km),
+  };
+};
+
+// Nominatim allows one request a second; lookups within this instance wait
+// their turn, and every address found is cached in geocode_cache.
+const GEOCODER_INTERVAL_MS = 1000;
+let nextGeocodeAt = 0;
+
+export const geocodeAddress = async (supabaseClient: any, address: string): Promise<Coordinates | null> => {
+  const query = address.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!query) return null;
+
+  const { data: cached } = await supabaseClient
+    .from('geocode_cache')
+    .select('latitude, longitude')
+    .eq('query', query)
+    .maybeSingle();
+
+  if (cached) {
+    return {
+      latitude: parseFloat(cached.latitude),
+      longitude: parseFloat(cached.longitude),
+    };
+  }
+
+  const waitMs = nextGeocodeAt - Date.now();
+  nextGeocodeAt = Math.max(nextGeocodeAt, Date.now()) + GEOCODER_INTERVAL_MS;
+  if (waitMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  }
+
+  const params = new URLSearchParams({
+    q: query,
+    format: 'json',
+    limit: '1',
+    countrycodes: 'ng',
+  });
+
+  const response = await fetch(`${NOMINATIM_URL}?${params}`, {
+    headers: { 'User-Agent': GEOCODER_USER_AGENT },
+  });
+
+  if (!response.ok) {
+    console.error('Geocoding failed:', response.status);
+    return null;
+  }
+
+  const results = await response.json();
+  if (!results || results.length === 0) return null;
+
+  const location = {
+    latitude: parseFloat(results[0].lat),
+    longitude: parseFloat(results[0].lon),
+  };
+
+  await supabaseClient
+    .from('geocode_cache')
+    .upsert({ query, ...location }, { onConflict: 'query' });
+
+  return location;
+};
+
+// Straight-line (haversine) distance in kilometres
+export const distanceKm = (from: Coordinates, to: Coordinates) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return Math.round(6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)) * 10) / 10;
+};
+
+export const calculateDeliveryFee = (
+  pricing: DeliveryPricing,
+  distance: number,
+  vendorSubtotal: number,
+  mealTime: string | null
+) => {
+  if (pricing.free_delivery_threshold > 0 && vendorSubtotal >= pricing.free_delivery_threshold) {
+    return 0;
+  }
+
+  const surge = (mealTime && pricing.surge_multipliers[mealTime]) || 1;
+  const fee = (pricing.base_fee + pricing.per_km_rate * distance) * surge;
+  return Math.round(fee * 100) / 100;
+};
@@ -0,0 +1,552 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  Coordinates,
+  calculateDeliveryFee,
+  distanceKm,
+  geocodeAddress,
+  loadDeliveryPricing,
+} from './deliveryPricing.ts';
+import { applyPromotion } from './promotions.ts';
+import { OptionGroup, resolveSelectedOptions } from './productOptions.ts';
+import { isQuoteSigningConfigured, signQuote } from '../_shared/quoteSignature.ts';
+import { findClosedVendor } from '../_shared/vendorAvailability.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface CartRow {
+  id: string;
+  product_id: string;
+  quantity: number;
+  selected_options: { option_id: string }[] | null;
+  products: {
+    id: string;
+    name: string;
+    price: number | string;
+    vendor_id: string;
+    category_id: string | null;
+    stock_quantity: number;
+    is_available: boolean;
+    product_option_groups: OptionGroup[] | null;
+  };
+}
+
+const QUOTE_TTL_MINUTES = 15;
+const PAYMENT_METHODS = ['cash_on_delivery', 'bank_transfer', 'wallet', 'paystack'];
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    if (!isQuoteSigningConfigured()) {
+      console.error('CHECKOUT_QUOTE_SECRET is not set');
+      return new Response(
+        JSON.stringify({ error: 'Checkout is not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const {
+      delivery_type,
+      address_id,
+      delivery_address,
+      is_scheduled,
+      scheduled_delivery_time,
+      meal_time_preference,
+      payment_method,
+      promo_code,
+      preview,
+    } = await req.json();
+
+    if (delivery_type !== 'pickup' && delivery_type !== 'delivery') {
+      return new Response(
+        JSON.stringify({ error: 'Invalid delivery type' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!PAYMENT_METHODS.includes(payment_method)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid payment method' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Price the cart from the database, never from the client
+    const { data: cartItems, error: cartError } = await supabaseClient
+      .from('carts')
+      .select(`
+        id,
+        product_id,
+        quantity,
+        selected_options,
+        products (
+          id,
+          name,
+          price,
+          vendor_id,
+          category_id,
+          stock_quantity,
+          is_available,
+          product_option_groups (
+            id,
+            name,
+            is_required,
+            min_selections,
+            max_selections,
+            product_options (
+              id,
+              name,
+              price_delta,
+              is_available
+            )
+          )
+        )
+      `)
+      .eq('user_id', user.id);
+
+    if (cartError) throw cartError;
+
+    const cartRows: CartRow[] = cartItems ?? [];
+
+    if (cartRows.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'Your cart is empty' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The same product can sit on several lines with different options, so
+    // stock is checked against the combined quantity
+    const quantityByProduct: Record<string, number> = {};
+    for (const item of cartRows) {
+      quantityByProduct[item.product_id] = (quantityByProduct[item.product_id] ?? 0) + item.quantity;
+    }
+
+    const unavailable: string[] = [];
+    const invalidOptions: string[] = [];
+    const items = cartRows.map((item) => {
+      const product = item.products;
+      if (!product.is_available || product.stock_quantity < quantityByProduct[product.id]) {
+        const label = !product.is_available || product.stock_quantity <= 0
+          ? `${product.name} (sold out)`
+          : `${product.name} (only ${product.stock_quantity} left)`;
+        if (!unavailable.includes(label)) unavailable.push(label);
+      }
+
+      const resolved = resolveSelectedOptions(product.product_option_groups ?? [], item.selected_options);
+      const selectedOptions = 'error' in resolved ? [] : resolved.options;
+      if ('error' in resolved) {
+        invalidOptions.push(`${product.name}: ${resolved.error}`);
+      }
+
+      const unitPrice = Math.round(
+        (parseFloat(String(product.price)) + selectedOptions.reduce((sum, option) => sum + option.price_delta, 0)) * 100
+      ) / 100;
+      return {
+        cart_id: item.id,
+        product_id: product.id,
+        vendor_id: product.vendor_id,
+        category_id: product.category_id,
+        name: product.name,
+        selected_options: selectedOptions,
+        quantity: item.quantity,
+        unit_price: unitPrice,
+        subtotal: Math.round(unitPrice * item.quantity * 100) / 100,
+      };
+    });
+
+    if (invalidOptions.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: `Please update these items in your cart. ${invalidOptions.join('. ')}`,
+          invalid_options: invalidOptions,
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (unavailable.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: `Not enough stock for: ${unavailable.join(', ')}`,
+          unavailable_items: unavailable,
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const vendorIds = [...new Set(items.map((item) => item.vendor_id))];
+
+    const { data: vendors, error: vendorsError } = await supabaseClient
+      .from('vendors')
+      .select('id, business_name, minimum_order, is_active, address, city, state, latitude, longitude, delivery_radius')
+      .in('id', vendorIds);
+
+    if (vendorsError) throw vendorsError;
+
+    const pricing = delivery_type === 'delivery' ? await loadDeliveryPricing(supabaseClient) : null;
+
+    // The delivery address is either a saved address book entry or one typed
+    // at checkout; either way the order keeps a structured snapshot of it.
+    let addressSnapshot: Record<string, unknown> | null = null;
+
+    if (delivery_type === 'delivery' && address_id) {
+      const { data: savedAddress } = await supabaseClient
+        .from('addresses')
+        .select('id, label, recipient_name, phone, address_line, landmark, latitude, longitude')
+        .eq('id', address_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!savedAddress) {
+        return new Response(
+          JSON.stringify({ error: 'Saved address not found' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      addressSnapshot = {
+        address_id: savedAddress.id,
+        label: savedAddress.label,
+        recipient_name: savedAddress.recipient_name,
+        phone: savedAddress.phone,
+        address_line: savedAddress.address_line,
+        landmark: savedAddress.landmark,
+        latitude: savedAddress.latitude != null ? parseFloat(savedAddress.latitude) : null,
+        longitude: savedAddress.longitude != null ? parseFloat(savedAddress.longitude) : null,
+      };
+    } else if (delivery_type === 'delivery' && delivery_address) {
+      addressSnapshot = {
+        address_id: null,
+        label: null,
+        recipient_name: (delivery_address.recipient_name || '').trim(),
+        phone: (delivery_address.phone || '').trim(),
+        address_line: (delivery_address.address_line || '').trim(),
+        landmark: (delivery_address.landmark || '').trim() || null,
+        latitude: Number.isFinite(delivery_address.latitude) ? delivery_address.latitude : null,
+        longitude: Number.isFinite(delivery_address.longitude) ? delivery_address.longitude : null,
+      };
+    }
+
+    // Customer location: the pinned coordinates when we have them, otherwise
+    // geocode the street address. Previews before an address is entered are
+    // priced at distance 0 and cannot be ordered.
+    let customerLocation: Coordinates | null = null;
+
+    if (addressSnapshot) {
+      if (addressSnapshot.latitude != null && addressSnapshot.longitude != null) {
+        customerLocation = {
+          latitude: addressSnapshot.latitude as number,
+          longitude: addressSnapshot.longitude as number,
+        };
+      } else if (addressSnapshot.address_line) {
+        customerLocation = await geocodeAddress(supabaseClient, addressSnapshot.address_line as string);
+
+        if (!customerLocation) {
+          return new Response(
+            JSON.stringify({ error: 'We could not find that delivery address. Please check it or drop a pin on the map.' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        addressSnapshot.latitude = customerLocation.latitude;
+        addressSnapshot.longitude = customerLocation.longitude;
+      }
+    }
+
+    // Ordering now needs every vendor in the cart open, accepting orders and
+    // not paused; a closed store can still be ordered from for a later slot
+    if (!is_scheduled) {
+      const closedVendor = await findClosedVendor(supabaseClient, vendorIds);
+
+      if (closedVendor) {
+        return new Response(
+          JSON.stringify({
+            error: closedVendor.message,
+            store_closed: true,
+            vendor_id: closedVendor.vendor_id,
+            next_open_at: closedVendor.next_open_at,
+          }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // Scheduled orders must land on a slot every vendor in the cart is open
+    // for and still has room in; the database checks again when ordering
+    let scheduledSlot: string | null = null;
+
+    if (is_scheduled) {
+      const requested = scheduled_delivery_time ? new Date(scheduled_delivery_time).getTime() : NaN;
+
+      if (Number.isNaN(requested)) {
+        return new Response(
+          JSON.stringify({ error: 'Please choose a delivery slot' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: slots, error: slotsError } = await supabaseClient.rpc('get_delivery_slots', {
+        p_vendor_ids: vendorIds,
+      });
+
+      if (slotsError) throw slotsError;
+
+      const slot = (slots ?? []).find((s: any) => new Date(s.slot_start).getTime() === requested);
+
+      if (!slot || slot.remaining <= 0) {
+        return new Response(
+          JSON.stringify({
+            error: slot
+              ? 'That delivery slot is fully booked. Please choose another time.'
+              : 'That delivery slot is no longer available. Please choose another time.',
+            slot_unavailable: true,
+          }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      scheduledSlot = slot.slot_start;
+    }
+
+    const { data: vendorSettings } = await supabaseClient
+      .from('vendor_settings')
+      .select('vendor_id, delivery_radius')
+      .in('vendor_id', vendorIds);
+
+    // Every vendor in the cart becomes its own order with its own fee and minimum
+    const orderNumber = `ORD-${Date.now()}`;
+    const vendorOrders = [];
+
+    for (const [index, vendorId] of vendorIds.entries()) {
+      const vendor = vendors?.find((v: any) => v.id === vendorId);
+
+      if (!vendor || !vendor.is_active) {
+        return new Response(
+          JSON.stringify({
+            error: `${vendor?.business_name ?? 'A restaurant in your cart'} is not accepting orders`,
+            vendor_id: vendorId,
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const vendorItems = items.filter((item) => item.vendor_id === vendorId);
+      const vendorSubtotal = Math.round(vendorItems.reduce((sum, item) => sum + item.subtotal, 0) * 100) / 100;
+      const minimumOrder = parseFloat(vendor.minimum_order ?? 0);
+
+      if (vendorSubtotal < minimumOrder) {
+        return new Response(
+          JSON.stringify({
+            error: `${vendor.business_name} requires a minimum order of ₦${minimumOrder.toFixed(2)}`,
+            vendor_id: vendorId,
+            minimum_order: minimumOrder,
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      let vendorDeliveryFee = 0;
+      let distance: number | null = null;
+
+      if (pricing && customerLocation) {
+        let vendorLocation: Coordinates | null = vendor.latitude != null && vendor.longitude != null
+          ? { latitude: parseFloat(vendor.latitude), longitude: parseFloat(vendor.longitude) }
+          : null;
+
+        // Vendors are geocoded from their address once and cached
+        if (!vendorLocation) {
+          vendorLocation = await geocodeAddress(
+            supabaseClient,
+            [vendor.address, vendor.city, vendor.state].filter(Boolean).join(', ')
+          );
+
+          if (vendorLocation) {
+            await supabaseClient
+              .from('vendors')
+              .update({ latitude: vendorLocation.latitude, longitude: vendorLocation.longitude })
+              .eq('id', vendor.id);
+          }
+        }
+
+        if (!vendorLocation) {
+          return new Response(
+            JSON.stringify({
+              error: `Delivery from ${vendor.business_name} is not available yet`,
+              vendor_id: vendorId,
+            }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        distance = distanceKm(vendorLocation, customerLocation);
+
+        const settings = vendorSettings?.find((s: any) => s.vendor_id === vendorId);
+        const radius = parseFloat(settings?.delivery_radius ?? vendor.delivery_radius ?? pricing.default_radius_km);
+
+        if (distance > radius) {
+          return new Response(
+            JSON.stringify({
+              error: `${vendor.business_name} only delivers within ${radius} km. Your address is ${distance} km away.`,
+              vendor_id: vendorId,
+              out_of_radius: true,
+              distance_km: distance,
+              delivery_radius: radius,
+            }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        vendorDeliveryFee = calculateDeliveryFee(pricing, distance, vendorSubtotal, meal_time_preference ?? null);
+      } else if (pricing) {
+        vendorDeliveryFee = calculateDeliveryFee(pricing, 0, vendorSubtotal, meal_time_preference ?? null);
+      }
+
+      vendorOrders.push({
+        vendor_id: vendorId,
+        vendor_name: vendor.business_name,
+        order_number: vendorIds.length === 1 ? orderNumber : `${orderNumber}-${index + 1}`,
+        subtotal: vendorSubtotal,
+        delivery_fee: vendorDeliveryFee,
+        distance_km: distance,
+        discount: 0,
+        total: Math.round((vendorSubtotal + vendorDeliveryFee) * 100) / 100,
+      });
+    }
+
+    // An invalid code does not block checkout; the quote is priced without it
+    // and the reason is returned for the promo field
+    let promotion = null;
+    let promoError: string | null = null;
+
+    if (promo_code && String(promo_code).trim()) {
+      const result = await applyPromotion(supabaseClient, String(promo_code), user.id, items, vendorOrders, delivery_type);
+
+      if ('error' in result) {
+        promoError = result.error;
+      } else {
+        promotion = result.promotion;
+        for (const order of vendorOrders) {
+          order.discount = result.discounts[order.vendor_id] ?? 0;
+          order.total = Math.round((order.subtotal + order.delivery_fee - order.discount) * 100) / 100;
+        }
+      }
+    }
+
+    const subtotal = Math.round(vendorOrders.reduce((sum, order) => sum + order.subtotal, 0) * 100) / 100;
+    const deliveryFee = Math.round(vendorOrders.reduce((sum, order) => sum + order.delivery_fee, 0) * 100) / 100;
+    const discountTotal = Math.round(vendorOrders.reduce((sum, order) => sum + order.discount, 0) * 100) / 100;
+    const total = Math.round((subtotal + deliveryFee - discountTotal) * 100) / 100;
+
+    const pricingSummary = {
+      items,
+      vendor_orders: vendorOrders,
+      subtotal,
+      delivery_fee: deliveryFee,
+      discount_total: discountTotal,
+      total,
+      promotion: promotion
+        ? { code: promotion.code, description: promotion.description, discount_type: promotion.discount_type }
+        : null,
+    };
+
+    // Previews keep the checkout screen's totals current and are not stored;
+    // a signed quote is only saved when the customer goes to pay.
+    if (preview) {
+      return new Response(
+        JSON.stringify({ success: true, quote: pricingSummary, promo_error: promoError }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const quoteId = crypto.randomUUID();
+    const expiresAt = new Date(Date.now() + QUOTE_TTL_MINUTES * 60 * 1000).toISOString();
+    const signature = signQuote(quoteId, user.id, total, expiresAt);
+
+    const { data: quote, error: quoteError } = await supabaseClient
+      .from('checkout_quotes')
+      .insert({
+        id: quoteId,
+        user_id: user.id,
+        vendor_id: vendorIds.length === 1 ? vendorIds[0] : null,
+        order_data: {
+          order_number: orderNumber,
+          delivery_type,
+          delivery_address: delivery_type === 'delivery' ? (addressSnapshot?.address_line ?? '') : 'N/A',
+          delivery_address_snapshot: addressSnapshot,
+          delivery_latitude: customerLocation?.latitude ?? null,
+          delivery_longitude: customerLocation?.longitude ?? null,
+          is_scheduled: !!scheduledSlot,
+          scheduled_delivery_time: scheduledSlot,
+          meal_time_preference: meal_time_preference ?? null,
+          payment_method,
+          promotion_id: promotion?.id ?? null,
+        },
+        items,
+        vendor_orders: vendorOrders,
+        subtotal,
+        delivery_fee: deliveryFee,
+        discount_total: discountTotal,
+        total,
+        signature,
+        expires_at: expiresAt,
+      })
+      .select()
+      .single();
+
+    if (quoteError) throw quoteError;
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        quote: {
+          id: quote.id,
+          order_number: quote.order_data.order_number,
+          ...pricingSummary,
+          expires_at: expiresAt,
+          signature,
+        },
+        promo_error: promoError,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
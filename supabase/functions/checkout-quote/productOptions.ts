@@ -0,0 +1,63 @@
+export interface SelectedOption {
+  group_id: string;
+  group_name: string;
+  option_id: string;
+  name: string;
+  price_delta: number;
+}
+
+export interface OptionGroup {
+  id: string;
+  name: string;
+  is_required: boolean;
+  min_selections: number;
+  max_selections: number;
+  product_options: {
+    id: string;
+    name: string;
+    price_delta: number | string;
+    is_available: boolean;
+  }[];
+}
+
+// Resolves the option ids stored on a cart line against the product's current
+// option groups. Names and prices always come from the database; the cart's
+// copy is only for display.
+export const resolveSelectedOptions = (
+  groups: OptionGroup[],
+  cartOptions: { option_id: string }[] | null
+): { options: SelectedOption[] } | { error: string } => {
+  const chosenIds = new Set((cartOptions ?? []).map((option) => option.option_id));
+  const options: SelectedOption[] = [];
+
+  for (const group of groups) {
+    const chosen = group.product_options.filter((option) => chosenIds.has(option.id));
+
+    if (chosen.some((option) => !option.is_available)) {
+      return { error: `An option you chose for ${group.name} is no longer available` };
+    }
+
+    const minimum = group.is_required ? Math.max(group.min_selections, 1) : group.min_selections;
+    if (chosen.length < minimum || chosen.length > group.max_selections) {
+      return { error: `Please update your choice for ${group.name}` };
+    }
+
+    for (const option of chosen) {
+      chosenIds.delete(option.id);
+      options.push({
+        group_id: group.id,
+        group_name: group.name,
+        option_id: option.id,
+        name: option.name,
+        price_delta: parseFloat(String(option.price_delta)),
+      });
+    }
+  }
+
+  // Anything left over was removed by the vendor since it was added to the cart
+  if (chosenIds.size > 0) {
+    return { error: 'Some options you chose are no longer offered' };
+  }
+
+  return { options };
+};
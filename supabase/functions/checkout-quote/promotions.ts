@@ -0,0 +1,140 @@
+export interface Promotion {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: 'percentage' | 'fixed_amount' | 'free_delivery';
+  discount_value: number;
+  max_discount: number | null;
+  min_basket: number;
+  vendor_id: string | null;
+  category_id: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  usage_limit: number | null;
+  per_user_limit: number | null;
+  times_used: number;
+  is_active: boolean;
+}
+
+interface QuoteItem {
+  vendor_id: string;
+  category_id: string | null;
+  subtotal: number;
+}
+
+interface VendorOrder {
+  vendor_id: string;
+  delivery_fee: number;
+}
+
+export type PromotionResult =
+  | { promotion: Promotion; discounts: Record<string, number> }
+  | { error: string };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Checks a code against its window, usage caps, scope and minimum basket and
+// works out the discount for each vendor order. Caps are checked again when
+// the orders are created, under a lock.
+export const applyPromotion = async (
+  supabaseClient: any,
+  code: string,
+  userId: string,
+  items: QuoteItem[],
+  vendorOrders: VendorOrder[],
+  deliveryType: string
+): Promise<PromotionResult> => {
+  const { data: promotion } = await supabaseClient
+    .from('promotions')
+    .select('*')
+    .eq('code', code.trim().toUpperCase())
+    .maybeSingle();
+
+  if (!promotion || !promotion.is_active) {
+    return { error: 'This promo code is not valid' };
+  }
+
+  const now = new Date();
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) {
+    return { error: 'This promo code is not active yet' };
+  }
+  if (promotion.ends_at && new Date(promotion.ends_at) <= now) {
+    return { error: 'This promo code has expired' };
+  }
+
+  if (promotion.usage_limit != null && promotion.times_used >= promotion.usage_limit) {
+    return { error: 'This promo code has been fully redeemed' };
+  }
+
+  if (promotion.per_user_limit != null) {
+    const { count } = await supabaseClient
+      .from('promotion_redemptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('promotion_id', promotion.id)
+      .eq('user_id', userId);
+
+    if ((count ?? 0) >= promotion.per_user_limit) {
+      return { error: 'You have already used this promo code' };
+    }
+  }
+
+  const eligibleItems = items.filter((item) =>
+    (!promotion.vendor_id || item.vendor_id === promotion.vendor_id)
+    && (!promotion.category_id || item.category_id === promotion.category_id)
+  );
+
+  if (eligibleItems.length === 0) {
+    return { error: 'This promo code does not apply to the items in your cart' };
+  }
+
+  const eligibleByVendor: Record<string, number> = {};
+  for (const item of eligibleItems) {
+    eligibleByVendor[item.vendor_id] = (eligibleByVendor[item.vendor_id] ?? 0) + item.subtotal;
+  }
+  const eligibleSubtotal = round(Object.values(eligibleByVendor).reduce((sum, value) => sum + value, 0));
+
+  const minBasket = parseFloat(promotion.min_basket ?? 0);
+  if (eligibleSubtotal < minBasket) {
+    return { error: `Spend at least ₦${minBasket.toFixed(2)} on eligible items to use this code` };
+  }
+
+  const discounts: Record<string, number> = {};
+
+  if (promotion.discount_type === 'free_delivery') {
+    if (deliveryType !== 'delivery') {
+      return { error: 'This promo code only applies to delivery orders' };
+    }
+
+    for (const order of vendorOrders) {
+      if (eligibleByVendor[order.vendor_id] && order.delivery_fee > 0) {
+        discounts[order.vendor_id] = order.delivery_fee;
+      }
+    }
+
+    return { promotion, discounts };
+  }
+
+  const value = parseFloat(promotion.discount_value);
+  let discountTotal = promotion.discount_type === 'percentage'
+    ? eligibleSubtotal * value / 100
+    : Math.min(value, eligibleSubtotal);
+
+  if (promotion.max_discount != null) {
+    discountTotal = Math.min(discountTotal, parseFloat(promotion.max_discount));
+  }
+  discountTotal = round(discountTotal);
+
+  // Split across vendors in proportion to their eligible items; the last
+  // vendor takes the rounding remainder so the parts add up exactly
+  const vendorIds = Object.keys(eligibleByVendor);
+  let allocated = 0;
+  vendorIds.forEach((vendorId, index) => {
+    const share = index === vendorIds.length - 1
+      ? round(discountTotal - allocated)
+      : round(discountTotal * eligibleByVendor[vendorId] / eligibleSubtotal);
+    discounts[vendorId] = share;
+    allocated = round(allocated + share);
+  });
+
+  return { promotion, discounts };
+};
@@ -0,0 +1,147 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const PAYSTACK_SECRET_KEY = Deno.env.get('PAYSTACK_SECRET_KEY') ?? '';
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { order_id, reason_code, note, refund_to } = await req.json();
+
+    if (!order_id || !reason_code) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Works out who is cancelling, checks they are allowed to at this stage,
+    // cancels the order and records the refund. Wallet refunds are credited
+    // in the same transaction; card refunds are left pending for us to send.
+    const { data: cancellation, error: cancelError } = await supabaseClient.rpc('cancel_order', {
+      p_order_id: order_id,
+      p_actor_id: user.id,
+      p_reason_code: reason_code,
+      p_note: note ?? null,
+      p_refund_to: refund_to === 'wallet' ? 'wallet' : 'original',
+    });
+
+    if (cancelError) {
+      return new Response(
+        JSON.stringify({ error: cancelError.message }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let refundMethod = cancellation.refund_method;
+    let refundStatus = cancellation.refund_status;
+
+    if (refundMethod === 'paystack' && refundStatus === 'pending') {
+      let refundResponse: Response | null = null;
+      let refundData: any = null;
+
+      try {
+        refundResponse = await fetch('https://api.paystack.co/refund', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${PAYSTACK_SECRET_KEY}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            transaction: cancellation.paystack_reference,
+            amount: Math.round(parseFloat(cancellation.refund_amount) * 100),
+            merchant_note: `Cancelled order #${cancellation.order_number}`,
+          }),
+        });
+        refundData = await refundResponse.json();
+      } catch (requestError) {
+        console.error('Paystack refund request did not complete:', requestError);
+      }
+
+      if (refundResponse && refundResponse.status >= 400 && refundResponse.status < 500) {
+        // The order is already cancelled, so the customer is never left
+        // without their money: a card refund Paystack refuses goes to the wallet.
+        const failureReason = refundData?.message || 'Failed to initiate refund';
+        console.error('Paystack refund rejected:', failureReason);
+
+        const { data: walletRefund, error: walletError } = await supabaseClient.rpc('refund_order_to_wallet', {
+          p_refund_id: cancellation.refund_id,
+          p_failure_reason: failureReason,
+        });
+
+        if (walletError) throw walletError;
+        refundMethod = walletRefund.method;
+        refundStatus = walletRefund.status;
+      } else if (refundResponse?.ok && refundData?.status) {
+        // wallet-webhook matches the refund.processed and refund.failed
+        // events on Paystack's refund id
+        const { error: updateError } = await supabaseClient
+          .from('order_refunds')
+          .update({
+            status: 'processing',
+            paystack_refund_id: refundData.data?.id ? String(refundData.data.id) : null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', cancellation.refund_id);
+
+        if (updateError) throw updateError;
+        refundStatus = 'processing';
+      }
+      // Otherwise the request timed out or Paystack errored after possibly
+      // accepting it. The refund stays pending and the refund.processed or
+      // refund.failed webhook settles it, so the customer is not paid twice.
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        order_id: cancellation.order_id,
+        order_number: cancellation.order_number,
+        refund_amount: cancellation.refund_amount,
+        refund_method: refundMethod,
+        refund_status: refundStatus,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
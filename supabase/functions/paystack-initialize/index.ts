@@ -1,4 +1,6 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { isQuoteSigningConfigured, isValidSignature } from '../_shared/quoteSignature.ts';
+import { findClosedVendor } from '../_shared/vendorAvailability.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,6 +19,14 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
+    if (!isQuoteSigningConfigured()) {
+      console.error('CHECKOUT_QUOTE_SECRET is not set');
+      return new Response(
+        JSON.stringify({ error: 'Checkout is not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
@@ -40,22 +50,95 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const { amount, email, order_number, order_data, order_items } = await req.json();
+    const { quote_id, signature, email } = await req.json();
 
-    if (!amount || !email || !order_number || !order_data || !order_items) {
+    if (!quote_id || !signature) {
       return new Response(
         JSON.stringify({ error: 'Missing required fields' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (amount <= 0) {
+    const { data: quote } = await supabaseClient
+      .from('checkout_quotes')
+      .select('*')
+      .eq('id', quote_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!quote || !isValidSignature(quote, signature) || quote.order_data.payment_method !== 'paystack') {
       return new Response(
-        JSON.stringify({ error: 'Invalid amount' }),
+        JSON.stringify({ error: 'Invalid quote' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    if (quote.consumed_at) {
+      return new Response(
+        JSON.stringify({ error: 'This quote has already been paid' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (new Date(quote.expires_at) < new Date()) {
+      return new Response(
+        JSON.stringify({ error: 'Quote has expired, please review your order again' }),
+        { status: 410, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The vendor may have paused or closed since the quote was priced
+    if (!quote.order_data.is_scheduled) {
+      const closedVendor = await findClosedVendor(
+        supabaseClient,
+        quote.vendor_orders.map((vendorOrder: { vendor_id: string }) => vendorOrder.vendor_id)
+      );
+
+      if (closedVendor) {
+        return new Response(
+          JSON.stringify({
+            error: closedVendor.message,
+            store_closed: true,
+            vendor_id: closedVendor.vendor_id,
+            next_open_at: closedVendor.next_open_at,
+          }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const amount = parseFloat(quote.total);
+    const orderNumber = quote.order_data.order_number;
+
+    // A quote is charged through one Paystack transaction at a time; retrying
+    // reopens the same checkout page instead of starting a second charge
+    const { data: openIntent } = await supabaseClient
+      .from('payment_intents')
+      .select('reference, status, authorization_url, access_code')
+      .eq('quote_id', quote.id)
+      .in('status', ['pending', 'succeeded'])
+      .maybeSingle();
+
+    if (openIntent?.status === 'succeeded') {
+      return new Response(
+        JSON.stringify({ error: 'This quote has already been paid' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (openIntent?.authorization_url) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          authorization_url: openIntent.authorization_url,
+          access_code: openIntent.access_code,
+          reference: openIntent.reference,
+          order_number: orderNumber,
+        }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const reference = `PAY-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
     const paystackResponse = await fetch('https://api.paystack.co/transaction/initialize', {
@@ -65,14 +148,13 @@ Deno.serve(async (req: Request) => {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        email: email,
+        email: email || user.email,
         amount: Math.round(amount * 100),
         reference: reference,
         metadata: {
-          order_number: order_number,
+          quote_id: quote.id,
+          order_number: orderNumber,
           user_id: user.id,
-          order_data: order_data,
-          order_items: order_items,
         },
         callback_url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/paystack-verify?reference=${reference}`,
       }),
@@ -85,12 +167,37 @@ Deno.serve(async (req: Request) => {
 
     const paystackData = await paystackResponse.json();
 
+    // The checkout screen subscribes to this row; wallet-webhook resolves it
+    // when Paystack reports the charge.
+    const { error: intentError } = await supabaseClient
+      .from('payment_intents')
+      .insert({
+        user_id: user.id,
+        quote_id: quote.id,
+        reference: reference,
+        amount: amount,
+        authorization_url: paystackData.data.authorization_url,
+        access_code: paystackData.data.access_code,
+      });
+
+    // Another request for the same quote got there first; the transaction
+    // started here is never shown to the customer, so it cannot be charged
+    if (intentError?.code === '23505') {
+      return new Response(
+        JSON.stringify({ error: 'A payment for this order is already in progress. Please try again.' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (intentError) throw intentError;
+
     return new Response(
       JSON.stringify({
         success: true,
         authorization_url: paystackData.data.authorization_url,
         access_code: paystackData.data.access_code,
         reference: reference,
+        order_number: orderNumber,
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
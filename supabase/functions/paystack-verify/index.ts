@@ -69,6 +69,11 @@ Deno.serve(async (req: Request) => {
     console.log('Transaction status:', transaction.status);
 
     if (transaction.status !== 'success') {
+      await supabaseClient.rpc('fail_payment_intent', {
+        p_reference: reference,
+        p_reason: `Transaction ${transaction.status}`,
+      });
+
       return new Response(
         `
         <!DOCTYPE html>
@@ -162,96 +167,44 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const orderData = transaction.metadata?.order_data;
-    const orderItems = transaction.metadata?.order_items;
+    console.log('Confirming payment intent...');
 
-    console.log('Order data from metadata:', orderData ? 'Found' : 'Missing');
-    console.log('Order items from metadata:', orderItems ? `Found (${orderItems.length} items)` : 'Missing');
+    // Shares confirm_payment_intent with wallet-webhook, so whichever of the
+    // callback and the webhook arrives second just sees the existing orders.
+    const { data: intent, error: intentError } = await supabaseClient.rpc('confirm_payment_intent', {
+      p_reference: reference,
+      p_amount_paid: transaction.amount / 100,
+    });
 
-    if (!orderData || !orderItems) {
-      console.error('Missing metadata - orderData:', !!orderData, 'orderItems:', !!orderItems);
-      throw new Error('Order data not found in transaction metadata');
+    if (intentError) {
+      console.error('Payment intent error:', intentError);
+      throw intentError;
     }
 
-    console.log('Fetching vendor information...');
-    // Fetch vendor user_id
-    const { data: vendor, error: vendorError } = await supabaseClient
-      .from('profiles')
-      .select('id, user_id')
-      .eq('id', orderData.vendor_id)
-      .single();
-
-    if (vendorError || !vendor) {
-      console.error('Vendor fetch error:', vendorError);
-      throw new Error('Failed to fetch vendor information');
+    if (intent.status !== 'succeeded') {
+      console.error('Payment intent not confirmed:', intent.failure_reason);
+      throw new Error(intent.failure_reason || 'Payment could not be confirmed');
     }
 
-    console.log('Vendor found:', vendor.id);
-    console.log('Creating order in database...');
-
-    const { data: newOrder, error: orderError } = await supabaseClient
-      .from('orders')
-      .insert({
-        customer_id: orderData.customer_id,
-        vendor_id: orderData.vendor_id,
-        vendor_user_id: vendor.user_id,
-        order_number: orderData.order_number,
-        subtotal: orderData.subtotal,
-        delivery_fee: orderData.delivery_fee,
-        total: orderData.total,
-        delivery_type: orderData.delivery_type,
-        delivery_address: orderData.delivery_address,
-        is_scheduled: orderData.is_scheduled,
-        scheduled_delivery_time: orderData.scheduled_delivery_time,
-        meal_time_preference: orderData.meal_time_preference,
-        payment_method: orderData.payment_method,
-        status: 'pending',
-        payment_status: 'completed',
-        payment_reference: reference,
-      })
-      .select()
+    const { data: group, error: groupError } = await supabaseClient
+      .from('checkout_groups')
+      .select('id, group_number, payment_status, customer_id')
+      .eq('id', intent.checkout_group_id)
       .single();
 
-    if (orderError) {
-      console.error('Order creation error:', orderError);
-      throw orderError;
-    }
-
-    console.log('Order created successfully:', {
-      order_id: newOrder.id,
-      order_number: newOrder.order_number,
-      payment_status: newOrder.payment_status,
-      customer_id: newOrder.customer_id
-    });
-
-    console.log('Inserting order items...');
-    const orderItemsWithOrderId = orderItems.map((item: any) => ({
-      ...item,
-      order_id: newOrder.id,
-    }));
-
-    const { error: itemsError } = await supabaseClient
-      .from('order_items')
-      .insert(orderItemsWithOrderId);
-
-    if (itemsError) {
-      console.error('Order items insertion error:', itemsError);
-      throw itemsError;
+    if (groupError) {
+      console.error('Checkout group fetch error:', groupError);
+      throw groupError;
     }
 
-    console.log('Order items inserted successfully - Count:', orderItemsWithOrderId.length);
-    console.log('Clearing cart for customer:', orderData.customer_id);
+    const orderData = { order_number: group.group_number };
 
-    const { error: deleteCartError } = await supabaseClient
-      .from('carts')
-      .delete()
-      .eq('user_id', orderData.customer_id);
-
-    if (deleteCartError) {
-      console.error('Failed to clear cart:', deleteCartError);
-    } else {
-      console.log('Cart cleared successfully for user:', orderData.customer_id);
-    }
+    console.log('Orders created successfully:', {
+      checkout_group_id: group.id,
+      order_number: group.group_number,
+      payment_status: group.payment_status,
+      customer_id: group.customer_id
+    });
 
     console.log('=== Payment verification completed successfully ===');
 
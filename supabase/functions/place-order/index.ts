@@ -0,0 +1,137 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { isQuoteSigningConfigured, isValidSignature } from '../_shared/quoteSignature.ts';
+import { findClosedVendor } from '../_shared/vendorAvailability.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// Payment methods settled outside the app; wallet and card orders are
+// created by wallet-payment and paystack-verify respectively.
+const OFFLINE_PAYMENT_METHODS = ['cash_on_delivery', 'bank_transfer'];
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    if (!isQuoteSigningConfigured()) {
+      console.error('CHECKOUT_QUOTE_SECRET is not set');
+      return new Response(
+        JSON.stringify({ error: 'Checkout is not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { quote_id, signature } = await req.json();
+
+    if (!quote_id || !signature) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: quote } = await supabaseClient
+      .from('checkout_quotes')
+      .select('*')
+      .eq('id', quote_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!quote || !isValidSignature(quote, signature)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid quote' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!OFFLINE_PAYMENT_METHODS.includes(quote.order_data.payment_method)) {
+      return new Response(
+        JSON.stringify({ error: 'This quote must be paid online' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!quote.consumed_at && new Date(quote.expires_at) < new Date()) {
+      return new Response(
+        JSON.stringify({ error: 'Quote has expired, please review your order again' }),
+        { status: 410, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The vendor may have paused or closed since the quote was priced; a
+    // quote already ordered just returns its orders
+    if (!quote.consumed_at && !quote.order_data.is_scheduled) {
+      const closedVendor = await findClosedVendor(
+        supabaseClient,
+        quote.vendor_orders.map((vendorOrder: { vendor_id: string }) => vendorOrder.vendor_id)
+      );
+
+      if (closedVendor) {
+        return new Response(
+          JSON.stringify({
+            error: closedVendor.message,
+            store_closed: true,
+            vendor_id: closedVendor.vendor_id,
+            next_open_at: closedVendor.next_open_at,
+          }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const { data: group, error: orderError } = await supabaseClient.rpc('create_orders_from_quote', {
+      p_quote_id: quote.id,
+      p_payment_status: 'pending',
+      p_payment_reference: null,
+    });
+
+    if (orderError) throw orderError;
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        checkout_group_id: group.id,
+        order_number: group.group_number,
+        total: group.total,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,74 @@
+// Stand-in for the Expo push API so push-send can be tried without real
+// devices. Run it with
+//   deno run --allow-net --allow-env supabase/functions/push-send/expo-push-stub.ts
+// and set EXPO_PUSH_API_URL to http://host.docker.internal:8787 for
+// `supabase functions serve`. Every message is logged and accepted, except
+// tokens containing "dead", which are answered with DeviceNotRegistered the
+// way Expo answers for an uninstalled app.
+
+const PORT = Number(Deno.env.get('EXPO_STUB_PORT') ?? '8787');
+
+interface StubMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+const isDeadToken = (token: string) => token.toLowerCase().includes('dead');
+
+// Ticket ids handed out by /send, so /getReceipts only knows about those
+const issuedTickets = new Set<string>();
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+Deno.serve({ port: PORT }, async (req: Request) => {
+  const { pathname } = new URL(req.url);
+
+  if (req.method !== 'POST') {
+    return json({ errors: [{ code: 'METHOD_NOT_ALLOWED', message: 'Use POST' }] }, 405);
+  }
+
+  if (pathname.endsWith('/send')) {
+    const payload = await req.json();
+    const messages: StubMessage[] = Array.isArray(payload) ? payload : [payload];
+
+    const data = messages.map((message) => {
+      console.log(`push -> ${message.to}: ${message.title} - ${message.body}`, message.data ?? {});
+
+      if (isDeadToken(message.to)) {
+        return {
+          status: 'error',
+          message: `"${message.to}" is not a registered push notification recipient`,
+          details: { error: 'DeviceNotRegistered' },
+        };
+      }
+
+      const id = crypto.randomUUID();
+      issuedTickets.add(id);
+      return { status: 'ok', id };
+    });
+
+    return json({ data });
+  }
+
+  if (pathname.endsWith('/getReceipts')) {
+    const { ids }: { ids: string[] } = await req.json();
+    const data: Record<string, { status: 'ok' }> = {};
+
+    for (const id of ids ?? []) {
+      if (issuedTickets.has(id)) {
+        data[id] = { status: 'ok' };
+        issuedTickets.delete(id);
+      }
+    }
+
+    return json({ data });
+  }
+
+  return json({ errors: [{ code: 'NOT_FOUND', message: `No stub for ${pathname}` }] }, 404);
+});
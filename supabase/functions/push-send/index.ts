@@ -0,0 +1,347 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey, X-Push-Secret',
+};
+
+// Point EXPO_PUSH_API_URL at a local stub to test without real devices
+const EXPO_PUSH_API_URL = Deno.env.get('EXPO_PUSH_API_URL') ?? 'https://exp.host/--/api/v2/push';
+const EXPO_ACCESS_TOKEN = Deno.env.get('EXPO_ACCESS_TOKEN') ?? '';
+const PUSH_WEBHOOK_SECRET = Deno.env.get('PUSH_WEBHOOK_SECRET') ?? '';
+
+// Expo accepts at most 100 messages and 1000 receipt ids per request
+const SEND_CHUNK_SIZE = 100;
+const RECEIPT_CHUNK_SIZE = 1000;
+const MAX_ATTEMPTS = 5;
+// Expo needs a while to hand tickets to Apple and Google
+const RECEIPT_DELAY_MINUTES = 15;
+const STALE_TOKEN_DAYS = 90;
+
+// Offers that lapse in minutes go out on their own high-priority channel
+const URGENT_TYPES = ['order_assignment', 'batch_assignment', 'batch_delivery', 'new_order', 'acceptance_reminder'];
+
+// Rows returned by claim_push_notifications
+interface ClaimedNotification {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown> | null;
+  push_attempts: number;
+}
+
+interface PushTokenRow {
+  id: string;
+  user_id: string;
+  token: string;
+}
+
+interface MutedPreference {
+  user_id: string;
+  notification_type: string;
+}
+
+interface PendingTicket {
+  id: string;
+  ticket_id: string;
+  push_token_id: string;
+}
+
+// Tickets from /send and receipts from /getReceipts share this shape
+interface ExpoPushStatus {
+  status: 'ok' | 'error';
+  message?: string;
+  details?: { error?: string };
+}
+
+interface ExpoPushTicket extends ExpoPushStatus {
+  id?: string;
+}
+
+interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  sound: 'default';
+  priority: 'high' | 'default';
+  channelId: string;
+}
+
+const expoHeaders = () => ({
+  'Accept': 'application/json',
+  'Content-Type': 'application/json',
+  ...(EXPO_ACCESS_TOKEN ? { 'Authorization': `Bearer ${EXPO_ACCESS_TOKEN}` } : {}),
+});
+
+const chunk = <T>(items: T[], size: number) => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Only the database webhook and the scheduler know the secret
+    if (!PUSH_WEBHOOK_SECRET || req.headers.get('x-push-secret') !== PUSH_WEBHOOK_SECRET) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // A database webhook posts the inserted row; the scheduled sweep posts
+    // nothing and picks up whatever is still pending.
+    const body = await req.text();
+    const payload = body ? JSON.parse(body) : {};
+    const notificationIds: string[] | null =
+      payload.type === 'INSERT' && payload.record?.id ? [payload.record.id] : null;
+
+    const { data: notifications, error: claimError } = await supabaseClient.rpc('claim_push_notifications', {
+      p_ids: notificationIds,
+      p_limit: 100,
+    });
+
+    if (claimError) throw claimError;
+
+    const summary = { claimed: notifications?.length ?? 0, sent: 0, skipped: 0, failed: 0, receipts: 0, tokens_removed: 0 };
+
+    const claimed: ClaimedNotification[] = notifications ?? [];
+
+    if (claimed.length > 0) {
+      const userIds = [...new Set(claimed.map((n) => n.user_id))];
+
+      const [{ data: tokens, error: tokensError }, { data: preferences, error: preferencesError }] = await Promise.all([
+        supabaseClient.from('push_tokens').select('id, user_id, token').in('user_id', userIds),
+        supabaseClient
+          .from('notification_preferences')
+          .select('user_id, notification_type, push_enabled')
+          .in('user_id', userIds)
+          .eq('push_enabled', false),
+      ]);
+
+      if (tokensError) throw tokensError;
+      if (preferencesError) throw preferencesError;
+
+      const pushTokens: PushTokenRow[] = tokens ?? [];
+      const mutedPreferences: MutedPreference[] = preferences ?? [];
+      const mutedTypes = new Set(mutedPreferences.map((p) => `${p.user_id}:${p.notification_type}`));
+      const messages: { notificationId: string; tokenId: string; message: PushMessage }[] = [];
+      const skipped: string[] = [];
+
+      for (const notification of claimed) {
+        const userTokens = pushTokens.filter((t) => t.user_id === notification.user_id);
+
+        if (mutedTypes.has(`${notification.user_id}:${notification.type}`) || userTokens.length === 0) {
+          skipped.push(notification.id);
+          continue;
+        }
+
+        const urgent = URGENT_TYPES.includes(notification.type);
+        for (const token of userTokens) {
+          messages.push({
+            notificationId: notification.id,
+            tokenId: token.id,
+            message: {
+              to: token.token,
+              title: notification.title,
+              body: notification.message,
+              data: { ...(notification.data ?? {}), notification_id: notification.id, type: notification.type },
+              sound: 'default',
+              priority: urgent ? 'high' : 'default',
+              channelId: urgent ? 'urgent' : 'default',
+            },
+          });
+        }
+      }
+
+      if (skipped.length > 0) {
+        const { error } = await supabaseClient
+          .from('notifications')
+          .update({ push_status: 'skipped', push_claimed_at: null })
+          .in('id', skipped);
+        if (error) throw error;
+        summary.skipped = skipped.length;
+      }
+
+      const delivered = new Set<string>();
+      const retry = new Map<string, string>();
+      const rejected = new Map<string, string>();
+      const deadTokens = new Set<string>();
+      const tickets: { notification_id: string; push_token_id: string; ticket_id: string }[] = [];
+
+      for (const batch of chunk(messages, SEND_CHUNK_SIZE)) {
+        try {
+          const response = await fetch(`${EXPO_PUSH_API_URL}/send`, {
+            method: 'POST',
+            headers: expoHeaders(),
+            body: JSON.stringify(batch.map((entry) => entry.message)),
+          });
+
+          const result: { data?: ExpoPushTicket[]; errors?: { message: string }[] } = await response.json();
+          if (!response.ok || !Array.isArray(result.data)) {
+            throw new Error(result.errors?.[0]?.message || `Expo push failed with ${response.status}`);
+          }
+
+          // Tickets come back in the same order as the messages
+          result.data.forEach((ticket, index) => {
+            const entry = batch[index];
+            if (ticket.status === 'ok' && ticket.id) {
+              delivered.add(entry.notificationId);
+              tickets.push({
+                notification_id: entry.notificationId,
+                push_token_id: entry.tokenId,
+                ticket_id: ticket.id,
+              });
+            } else if (ticket.details?.error === 'DeviceNotRegistered') {
+              deadTokens.add(entry.tokenId);
+              rejected.set(entry.notificationId, ticket.message || 'DeviceNotRegistered');
+            } else {
+              rejected.set(entry.notificationId, ticket.message || ticket.details?.error || 'Push rejected');
+            }
+          });
+        } catch (sendError) {
+          // Expo being down is worth another go on the next sweep
+          console.error('Error sending push batch:', sendError);
+          const reason = sendError instanceof Error ? sendError.message : String(sendError);
+          batch.forEach((entry) => retry.set(entry.notificationId, reason));
+        }
+      }
+
+      if (tickets.length > 0) {
+        const { error } = await supabaseClient.from('push_tickets').insert(tickets);
+        if (error) throw error;
+      }
+
+      const now = new Date().toISOString();
+      const claimedById = new Map<string, ClaimedNotification>(
+        claimed.map((n) => [n.id, n])
+      );
+
+      for (const notificationId of new Set(messages.map((m) => m.notificationId))) {
+        let update: Record<string, unknown>;
+
+        if (delivered.has(notificationId)) {
+          update = { push_status: 'sent', push_sent_at: now, push_error: null, push_claimed_at: null };
+          summary.sent += 1;
+        } else if (retry.has(notificationId) && (claimedById.get(notificationId)?.push_attempts ?? MAX_ATTEMPTS) < MAX_ATTEMPTS) {
+          update = { push_status: 'pending', push_error: retry.get(notificationId), push_claimed_at: null };
+        } else {
+          update = {
+            push_status: 'failed',
+            push_error: rejected.get(notificationId) ?? retry.get(notificationId) ?? 'Push failed',
+            push_claimed_at: null,
+          };
+          summary.failed += 1;
+        }
+
+        const { error } = await supabaseClient.from('notifications').update(update).eq('id', notificationId);
+        if (error) throw error;
+      }
+
+      if (deadTokens.size > 0) {
+        const { error } = await supabaseClient.from('push_tokens').delete().in('id', [...deadTokens]);
+        if (error) throw error;
+        summary.tokens_removed += deadTokens.size;
+      }
+    }
+
+    // Receipts and token clean-up only run on the sweep, not on every insert
+    if (!notificationIds) {
+      const receiptCutoff = new Date(Date.now() - RECEIPT_DELAY_MINUTES * 60 * 1000).toISOString();
+      const { data: pendingTickets, error: ticketsError } = await supabaseClient
+        .from('push_tickets')
+        .select('id, ticket_id, push_token_id')
+        .eq('status', 'pending')
+        .lt('created_at', receiptCutoff)
+        .limit(RECEIPT_CHUNK_SIZE * 5);
+
+      if (ticketsError) throw ticketsError;
+
+      for (const batch of chunk<PendingTicket>(pendingTickets ?? [], RECEIPT_CHUNK_SIZE)) {
+        const response = await fetch(`${EXPO_PUSH_API_URL}/getReceipts`, {
+          method: 'POST',
+          headers: expoHeaders(),
+          body: JSON.stringify({ ids: batch.map((ticket) => ticket.ticket_id) }),
+        });
+
+        const result: { data?: Record<string, ExpoPushStatus> } = await response.json();
+        if (!response.ok || !result.data) {
+          console.error('Error fetching push receipts:', result);
+          break;
+        }
+
+        const deadTokens = new Set<string>();
+        const checkedAt = new Date().toISOString();
+
+        for (const ticket of batch) {
+          const receipt = result.data[ticket.ticket_id];
+          // Receipts Expo has not produced yet are checked on a later sweep
+          if (!receipt) continue;
+
+          if (receipt.details?.error === 'DeviceNotRegistered') {
+            deadTokens.add(ticket.push_token_id);
+          }
+
+          const { error } = await supabaseClient
+            .from('push_tickets')
+            .update({
+              status: receipt.status === 'ok' ? 'ok' : 'error',
+              error: receipt.status === 'ok' ? null : receipt.message || receipt.details?.error || null,
+              checked_at: checkedAt,
+            })
+            .eq('id', ticket.id);
+
+          if (error) throw error;
+          summary.receipts += 1;
+        }
+
+        // Deleting the token also removes its tickets
+        if (deadTokens.size > 0) {
+          const { error } = await supabaseClient.from('push_tokens').delete().in('id', [...deadTokens]);
+          if (error) throw error;
+          summary.tokens_removed += deadTokens.size;
+        }
+      }
+
+      // Devices that have not opened the app in months are most likely gone
+      const staleCutoff = new Date(Date.now() - STALE_TOKEN_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const { data: staleTokens, error: staleError } = await supabaseClient
+        .from('push_tokens')
+        .delete()
+        .lt('last_seen_at', staleCutoff)
+        .select('id');
+
+      if (staleError) throw staleError;
+      summary.tokens_removed += staleTokens?.length ?? 0;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
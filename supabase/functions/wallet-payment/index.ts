@@ -1,4 +1,6 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { isQuoteSigningConfigured, isValidSignature } from '../_shared/quoteSignature.ts';
+import { findClosedVendor } from '../_shared/vendorAvailability.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,6 +17,14 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
+    if (!isQuoteSigningConfigured()) {
+      console.error('CHECKOUT_QUOTE_SECRET is not set');
+      return new Response(
+        JSON.stringify({ error: 'Checkout is not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
@@ -38,22 +48,66 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const { amount, description, order_data, order_items } = await req.json();
+    const { quote_id, signature, description } = await req.json();
 
-    if (!amount || !order_data || !order_items) {
+    if (!quote_id || !signature) {
       return new Response(
         JSON.stringify({ error: 'Missing required fields' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (amount <= 0) {
+    const { data: quote } = await supabaseClient
+      .from('checkout_quotes')
+      .select('*')
+      .eq('id', quote_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!quote || !isValidSignature(quote, signature) || quote.order_data.payment_method !== 'wallet') {
       return new Response(
-        JSON.stringify({ error: 'Invalid amount' }),
+        JSON.stringify({ error: 'Invalid quote' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    if (quote.consumed_at) {
+      return new Response(
+        JSON.stringify({ error: 'This quote has already been paid' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (new Date(quote.expires_at) < new Date()) {
+      return new Response(
+        JSON.stringify({ error: 'Quote has expired, please review your order again' }),
+        { status: 410, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The vendor may have paused or closed since the quote was priced
+    if (!quote.order_data.is_scheduled) {
+      const closedVendor = await findClosedVendor(
+        supabaseClient,
+        quote.vendor_orders.map((vendorOrder: { vendor_id: string }) => vendorOrder.vendor_id)
+      );
+
+      if (closedVendor) {
+        return new Response(
+          JSON.stringify({
+            error: closedVendor.message,
+            store_closed: true,
+            vendor_id: closedVendor.vendor_id,
+            next_open_at: closedVendor.next_open_at,
+          }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const amount = parseFloat(quote.total);
+    const orderNumber = quote.order_data.order_number;
+
     const { data: wallet } = await supabaseClient
       .from('wallets')
       .select('*')
@@ -86,70 +140,36 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const balanceBefore = currentBalance;
-    const balanceAfter = currentBalance - amount;
-
     const transactionReference = `PAY-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-    const { data: newOrder, error: orderError } = await supabaseClient
-      .from('orders')
-      .insert({
-        ...order_data,
-        status: 'pending',
-        payment_status: 'completed',
-        payment_reference: transactionReference,
-      })
-      .select()
-      .single();
-
-    if (orderError) throw orderError;
-
-    const orderItemsWithOrderId = order_items.map((item: any) => ({
-      ...item,
-      order_id: newOrder.id,
-    }));
-
-    const { error: itemsError } = await supabaseClient
-      .from('order_items')
-      .insert(orderItemsWithOrderId);
-
-    if (itemsError) throw itemsError;
-
-    const { error: transactionError } = await supabaseClient
-      .from('wallet_transactions')
-      .insert({
-        wallet_id: wallet.id,
-        user_id: user.id,
-        type: 'payment',
-        amount: amount,
-        balance_before: balanceBefore,
-        balance_after: balanceAfter,
-        status: 'completed',
-        reference: transactionReference,
-        description: description || `Payment for order #${order_data.order_number}`,
-        metadata: {
-          order_id: newOrder.id,
-          order_number: order_data.order_number,
-        },
-        order_id: newOrder.id,
-        completed_at: new Date().toISOString(),
-      });
-
-    if (transactionError) throw transactionError;
-
-    const { error: walletError } = await supabaseClient
-      .from('wallets')
-      .update({ balance: balanceAfter })
-      .eq('id', wallet.id);
+    // The balance check above is only a fast path; the database function locks
+    // the wallet and re-checks funds before creating the orders and debiting it.
+    const { data: payment, error: paymentError } = await supabaseClient.rpc('pay_quote_with_wallet', {
+      p_quote_id: quote.id,
+      p_reference: transactionReference,
+      p_description: description || `Payment for order #${orderNumber}`,
+    });
+
+    if (paymentError?.message === 'Insufficient balance') {
+      return new Response(
+        JSON.stringify({
+          error: 'Insufficient balance',
+          required_amount: amount,
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    if (walletError) throw walletError;
+    if (paymentError) throw paymentError;
 
     return new Response(
       JSON.stringify({
         success: true,
         message: 'Payment processed successfully',
         reference: transactionReference,
-        new_balance: balanceAfter,
+        checkout_group_id: payment.checkout_group_id,
+        order_number: payment.order_number,
+        new_balance: payment.new_balance,
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -39,6 +39,30 @@ Deno.serve(async (req: Request) => {
 
     const event = JSON.parse(body);
 
+    if (event.event === 'charge.success') {
+      const { data: intent } = await supabaseClient
+        .from('payment_intents')
+        .select('id')
+        .eq('reference', event.data.reference)
+        .maybeSingle();
+
+      if (intent) {
+        // Creates the orders from the stored quote; redeliveries and the
+        // paystack-verify callback resolve to the same intent and orders.
+        const { data: confirmed, error: confirmError } = await supabaseClient.rpc('confirm_payment_intent', {
+          p_reference: event.data.reference,
+          p_amount_paid: event.data.amount / 100,
+        });
+
+        if (confirmError) throw confirmError;
+
+        return new Response(
+          JSON.stringify({ success: true, status: confirmed.status, checkout_group_id: confirmed.checkout_group_id }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
     if (event.event === 'charge.success' && event.data.channel === 'dedicated_nuban') {
       const { data } = event;
       const amount = data.amount / 100;
@@ -71,42 +95,154 @@ Deno.serve(async (req: Request) => {
         );
       }
 
-      const balanceBefore = parseFloat(wallet.balance);
-      const balanceAfter = balanceBefore + amount;
+      // The reference is derived from Paystack's, so concurrent redeliveries
+      // return the original transaction instead of crediting twice.
+      const { error: transactionError } = await supabaseClient.rpc('post_wallet_transaction', {
+        p_wallet_id: wallet.id,
+        p_type: 'deposit',
+        p_amount: amount,
+        p_reference: `DEP-${reference}`,
+        p_status: 'completed',
+        p_description: 'Deposit via bank transfer',
+        p_metadata: {
+          customer_code: customerCode,
+          channel: data.channel,
+        },
+        p_paystack_reference: reference,
+      });
 
-      const transactionReference = `DEP-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      if (transactionError) throw transactionError;
 
-      const { error: transactionError } = await supabaseClient
-        .from('wallet_transactions')
-        .insert({
-          wallet_id: wallet.id,
-          user_id: wallet.user_id,
-          type: 'deposit',
-          amount: amount,
-          balance_before: balanceBefore,
-          balance_after: balanceAfter,
-          status: 'completed',
-          reference: transactionReference,
-          paystack_reference: reference,
-          description: `Deposit via bank transfer`,
-          metadata: {
-            customer_code: customerCode,
-            channel: data.channel,
-          },
-          completed_at: new Date().toISOString(),
+      return new Response(
+        JSON.stringify({ success: true, message: 'Deposit processed successfully' }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (['transfer.success', 'transfer.failed', 'transfer.reversed'].includes(event.event)) {
+      const { data } = event;
+      const transferCode = data.transfer_code;
+      const reference = data.reference;
+
+      // Each identifier is looked up on its own, and only when Paystack sent
+      // it, so a missing value never ends up in the filter
+      const findWithdrawal = async (column: string, value: string) => {
+        const { data: matches, error: lookupError } = await supabaseClient
+          .from('wallet_transactions')
+          .select('id, status')
+          .eq('type', 'withdrawal')
+          .eq(column, value)
+          .limit(1);
+
+        if (lookupError) throw lookupError;
+        return matches?.[0] ?? null;
+      };
+
+      let withdrawal = reference ? await findWithdrawal('paystack_reference', reference) : null;
+
+      if (!withdrawal && transferCode) {
+        withdrawal = await findWithdrawal('metadata->>transfer_code', transferCode);
+      }
+
+      // The webhook can beat wallet-withdraw storing the transfer details, so
+      // fall back to our own reference, which Paystack echoes in lower case.
+      if (!withdrawal && reference) {
+        const { data: byReference } = await supabaseClient
+          .from('wallet_transactions')
+          .select('id, status')
+          .eq('type', 'withdrawal')
+          .ilike('reference', reference)
+          .maybeSingle();
+
+        withdrawal = byReference;
+      }
+
+      if (!withdrawal) {
+        return new Response(
+          JSON.stringify({ error: 'Withdrawal not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (event.event === 'transfer.success') {
+        const { error: completeError } = await supabaseClient.rpc('complete_wallet_withdrawal', {
+          p_transaction_id: withdrawal.id,
+          p_paystack_reference: reference,
         });
 
-      if (transactionError) throw transactionError;
+        if (completeError) throw completeError;
 
-      const { error: walletError } = await supabaseClient
-        .from('wallets')
-        .update({ balance: balanceAfter })
-        .eq('id', wallet.id);
+        return new Response(
+          JSON.stringify({ success: true, message: 'Withdrawal completed' }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Failed and reversed transfers credit the amount back to the wallet
+      const { error: refundError } = await supabaseClient.rpc('refund_wallet_withdrawal', {
+        p_transaction_id: withdrawal.id,
+        p_status: event.event === 'transfer.reversed' ? 'cancelled' : 'failed',
+      });
 
-      if (walletError) throw walletError;
+      if (refundError) throw refundError;
 
       return new Response(
-        JSON.stringify({ success: true, message: 'Deposit processed successfully' }),
+        JSON.stringify({ success: true, message: 'Withdrawal refunded' }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (['refund.processed', 'refund.failed'].includes(event.event)) {
+      const { data } = event;
+
+      const openRefunds = () => supabaseClient
+        .from('order_refunds')
+        .select('id')
+        .eq('method', 'paystack')
+        .neq('status', 'completed');
+
+      // order-cancel stores the id Paystack gave the refund when it was created
+      let refund: { id: string } | null = null;
+      if (data.id) {
+        const { data: matches, error: lookupError } = await openRefunds()
+          .eq('paystack_refund_id', String(data.id))
+          .limit(1);
+        if (lookupError) throw lookupError;
+        refund = matches?.[0] ?? null;
+      }
+
+      // Last resort for a refund whose creation request timed out before we
+      // saw its id. Several vendor orders from one checkout can each refund
+      // part of the same charge, so the amount tells them apart; refunds that
+      // already have an id are left to the lookup above.
+      if (!refund && data.transaction_reference) {
+        const { data: matches, error: lookupError } = await openRefunds()
+          .is('paystack_refund_id', null)
+          .eq('paystack_reference', data.transaction_reference)
+          .eq('amount', Number(data.amount) / 100)
+          .limit(1);
+        if (lookupError) throw lookupError;
+        refund = matches?.[0] ?? null;
+      }
+
+      if (!refund) {
+        return new Response(
+          JSON.stringify({ error: 'Refund not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { error: refundError } = event.event === 'refund.processed'
+        ? await supabaseClient.rpc('complete_order_refund', { p_refund_id: refund.id })
+        : await supabaseClient.rpc('refund_order_to_wallet', {
+          p_refund_id: refund.id,
+          p_failure_reason: 'Card refund failed',
+        });
+
+      if (refundError) throw refundError;
+
+      return new Response(
+        JSON.stringify({ success: true, message: 'Refund updated' }),
         { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
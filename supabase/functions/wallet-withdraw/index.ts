@@ -77,87 +77,134 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const transferRecipientResponse = await fetch('https://api.paystack.co/transferrecipient', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${PAYSTACK_SECRET_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        type: 'nuban',
-        name: account_name,
-        account_number: account_number,
+    const transactionReference = `WTH-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    // Reserve the funds before asking Paystack to move money, so two
+    // concurrent withdrawals cannot both spend the same balance.
+    const { data: withdrawal, error: debitError } = await supabaseClient.rpc('post_wallet_transaction', {
+      p_wallet_id: wallet.id,
+      p_type: 'withdrawal',
+      p_amount: amount,
+      p_reference: transactionReference,
+      p_status: 'pending',
+      p_description: `Withdrawal to ${account_number}`,
+      p_metadata: {
         bank_code: bank_code,
-        currency: 'NGN',
-      }),
+        account_number: account_number,
+        account_name: account_name,
+      },
     });
 
-    if (!transferRecipientResponse.ok) {
-      const errorData = await transferRecipientResponse.json();
-      throw new Error(errorData.message || 'Failed to create transfer recipient');
+    if (debitError?.message === 'Insufficient balance') {
+      return new Response(
+        JSON.stringify({ error: 'Insufficient balance' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    const recipientData = await transferRecipientResponse.json();
-    const recipientCode = recipientData.data.recipient_code;
+    if (debitError) throw debitError;
 
-    const transferResponse = await fetch('https://api.paystack.co/transfer', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${PAYSTACK_SECRET_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        source: 'balance',
-        amount: amount * 100,
-        recipient: recipientCode,
-        reason: 'Wallet withdrawal',
-      }),
-    });
+    const refundWithdrawal = async () => {
+      const { error: refundError } = await supabaseClient.rpc('refund_wallet_withdrawal', {
+        p_transaction_id: withdrawal.id,
+        p_status: 'failed',
+      });
+
+      if (refundError) console.error('Failed to refund withdrawal:', refundError);
+    };
+
+    // No money moves until the transfer itself, so any failure here is safe
+    // to refund.
+    let recipientCode: string;
+
+    try {
+      const transferRecipientResponse = await fetch('https://api.paystack.co/transferrecipient', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${PAYSTACK_SECRET_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          type: 'nuban',
+          name: account_name,
+          account_number: account_number,
+          bank_code: bank_code,
+          currency: 'NGN',
+        }),
+      });
+
+      if (!transferRecipientResponse.ok) {
+        const errorData = await transferRecipientResponse.json();
+        throw new Error(errorData.message || 'Failed to create transfer recipient');
+      }
 
-    if (!transferResponse.ok) {
-      const errorData = await transferResponse.json();
-      throw new Error(errorData.message || 'Failed to initiate transfer');
+      const recipientData = await transferRecipientResponse.json();
+      recipientCode = recipientData.data.recipient_code;
+    } catch (recipientError) {
+      await refundWithdrawal();
+      throw recipientError;
     }
 
-    const transferData = await transferResponse.json();
-    const transferCode = transferData.data.transfer_code;
-    const reference = transferData.data.reference;
+    let transferResponse: Response | null = null;
+    let transferData: any = null;
+
+    try {
+      transferResponse = await fetch('https://api.paystack.co/transfer', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${PAYSTACK_SECRET_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          source: 'balance',
+          amount: Math.round(amount * 100),
+          recipient: recipientCode,
+          reference: transactionReference.toLowerCase(),
+          reason: 'Wallet withdrawal',
+        }),
+      });
+      transferData = await transferResponse.json();
+    } catch (transferError) {
+      console.error('Transfer request did not complete:', transferError);
+    }
 
-    const balanceBefore = currentBalance;
-    const balanceAfter = currentBalance - amount;
+    // A 4xx answer means Paystack refused the transfer and kept the money
+    if (transferResponse && transferResponse.status >= 400 && transferResponse.status < 500) {
+      await refundWithdrawal();
+      throw new Error(transferData?.message || 'Failed to initiate transfer');
+    }
 
-    const transactionReference = `WTH-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    // A timeout, dropped connection or server error may come after Paystack
+    // accepted the transfer. The withdrawal stays pending and the transfer
+    // webhook, which also matches on our reference, completes or refunds it.
+    if (!transferResponse?.ok || !transferData?.data) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          pending: true,
+          message: 'Withdrawal is being processed. The amount is returned to your wallet if the transfer fails.',
+          reference: transactionReference,
+        }),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const transferCode: string = transferData.data.transfer_code;
+    const reference: string = transferData.data.reference;
 
     const { error: transactionError } = await supabaseClient
       .from('wallet_transactions')
-      .insert({
-        wallet_id: wallet.id,
-        user_id: user.id,
-        type: 'withdrawal',
-        amount: amount,
-        balance_before: balanceBefore,
-        balance_after: balanceAfter,
-        status: 'pending',
-        reference: transactionReference,
+      .update({
         paystack_reference: reference,
-        description: `Withdrawal to ${account_number}`,
         metadata: {
-          bank_code: bank_code,
-          account_number: account_number,
-          account_name: account_name,
+          ...withdrawal.metadata,
           transfer_code: transferCode,
         },
-      });
+      })
+      .eq('id', withdrawal.id);
 
     if (transactionError) throw transactionError;
 
-    const { error: walletError } = await supabaseClient
-      .from('wallets')
-      .update({ balance: balanceAfter })
-      .eq('id', wallet.id);
-
-    if (walletError) throw walletError;
-
     return new Response(
       JSON.stringify({
         success: true,
@@ -0,0 +1,192 @@
+/*
+  # Add Server-Side Checkout Quotes
+
+  1. New Tables
+    - `checkout_quotes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles) - Customer the quote was issued to
+      - `vendor_id` (uuid, foreign key to vendors)
+      - `order_data` (jsonb) - Delivery type, address, schedule, meal time and payment method
+      - `items` (jsonb) - Re-priced cart lines (product_id, name, quantity, unit_price, subtotal)
+      - `subtotal` (decimal) - Sum of item subtotals at `products.price`
+      - `delivery_fee` (decimal)
+      - `total` (decimal)
+      - `signature` (text) - HMAC issued by the `checkout-quote` edge function
+      - `expires_at` (timestamptz) - Quotes are only valid for a short window
+      - `consumed_at` (timestamptz) - Set once an order has been created from the quote
+      - `order_id` (uuid, foreign key to orders) - Order created from the quote
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `create_order_from_quote(p_quote_id, p_payment_status, p_payment_reference, p_ignore_expiry)`
+      - Locks the quote row, creates the order and its items from the quoted prices
+      - Clears the quoted products from the customer's cart
+      - Idempotent: a consumed quote returns the order it already produced
+
+  3. Security
+    - Enable RLS on `checkout_quotes`; customers can only read their own quotes
+    - Quotes are written by edge functions using the service role
+    - Remove direct INSERT access on `orders` and `order_items` for app users so
+      orders can only be created from a server-priced quote
+    - `create_order_from_quote` is only executable by the service role
+*/
+
+-- Create checkout_quotes table
+CREATE TABLE IF NOT EXISTS checkout_quotes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  vendor_id uuid REFERENCES vendors(id) ON DELETE CASCADE NOT NULL,
+  order_data jsonb DEFAULT '{}'::jsonb NOT NULL,
+  items jsonb DEFAULT '[]'::jsonb NOT NULL,
+  subtotal decimal(12, 2) NOT NULL CHECK (subtotal >= 0),
+  delivery_fee decimal(12, 2) DEFAULT 0.00 NOT NULL CHECK (delivery_fee >= 0),
+  total decimal(12, 2) NOT NULL CHECK (total > 0),
+  signature text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  consumed_at timestamptz,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_quotes_user_id ON checkout_quotes(user_id);
+CREATE INDEX IF NOT EXISTS idx_checkout_quotes_expires_at ON checkout_quotes(expires_at);
+
+-- Enable RLS
+ALTER TABLE checkout_quotes ENABLE ROW LEVEL SECURITY;
+
+-- Customers can view their own quotes
+CREATE POLICY "Users can view own checkout quotes"
+  ON checkout_quotes FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Admins can view all quotes
+CREATE POLICY "Admins can view all checkout quotes"
+  ON checkout_quotes FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Orders are now created only by the checkout edge functions (service role).
+-- The original customer INSERT policies predate the migrations folder, so drop
+-- whatever INSERT policies exist on the two tables by looking them up.
+DO $$
+DECLARE
+  v_policy record;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname, tablename
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN ('orders', 'order_items')
+      AND cmd = 'INSERT'
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END $$;
+
+-- Create an order (and its items) from a checkout quote
+CREATE OR REPLACE FUNCTION create_order_from_quote(
+  p_quote_id uuid,
+  p_payment_status text,
+  p_payment_reference text DEFAULT NULL,
+  p_ignore_expiry boolean DEFAULT false
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote checkout_quotes%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_quote
+  FROM checkout_quotes
+  WHERE id = p_quote_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  -- Replaying a consumed quote returns the order it already created
+  IF v_quote.consumed_at IS NOT NULL THEN
+    SELECT * INTO v_order FROM orders WHERE id = v_quote.order_id;
+    RETURN v_order;
+  END IF;
+
+  -- Card payments are verified after the customer has paid, so the caller
+  -- may honour a quote that expired while the payment page was open
+  IF v_quote.expires_at < now() AND NOT p_ignore_expiry THEN
+    RAISE EXCEPTION 'Quote has expired';
+  END IF;
+
+  -- Quotes can be previewed before the address is entered, but not ordered
+  IF v_quote.order_data->>'delivery_type' = 'delivery'
+     AND COALESCE(trim(v_quote.order_data->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required';
+  END IF;
+
+  INSERT INTO orders (
+    customer_id,
+    vendor_id,
+    order_number,
+    subtotal,
+    delivery_fee,
+    total,
+    delivery_type,
+    delivery_address,
+    is_scheduled,
+    scheduled_delivery_time,
+    meal_time_preference,
+    payment_method,
+    status,
+    payment_status,
+    payment_reference
+  ) VALUES (
+    v_quote.user_id,
+    v_quote.vendor_id,
+    v_quote.order_data->>'order_number',
+    v_quote.subtotal,
+    v_quote.delivery_fee,
+    v_quote.total,
+    v_quote.order_data->>'delivery_type',
+    v_quote.order_data->>'delivery_address',
+    COALESCE((v_quote.order_data->>'is_scheduled')::boolean, false),
+    (v_quote.order_data->>'scheduled_delivery_time')::timestamptz,
+    v_quote.order_data->>'meal_time_preference',
+    v_quote.order_data->>'payment_method',
+    'pending',
+    p_payment_status,
+    p_payment_reference
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+  SELECT
+    v_order.id,
+    (item->>'product_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'unit_price')::decimal,
+    (item->>'subtotal')::decimal
+  FROM jsonb_array_elements(v_quote.items) AS item;
+
+  DELETE FROM carts
+  WHERE user_id = v_quote.user_id
+    AND product_id IN (
+      SELECT (item->>'product_id')::uuid
+      FROM jsonb_array_elements(v_quote.items) AS item
+    );
+
+  UPDATE checkout_quotes
+  SET consumed_at = now(),
+      order_id = v_order.id
+  WHERE id = v_quote.id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_order_from_quote(uuid, text, text, boolean) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION create_order_from_quote IS 'Creates an order from a server-priced checkout quote; replays return the existing order';
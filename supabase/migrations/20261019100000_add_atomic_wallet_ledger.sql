@@ -0,0 +1,309 @@
+/*
+  # Add Atomic Wallet Ledger
+
+  1. New Tables
+    - `wallet_ledger_entries`
+      - `id` (uuid, primary key)
+      - `transaction_id` (uuid, foreign key to wallet_transactions)
+      - `account` (text) - `wallet` for the user's wallet, otherwise a platform
+        account: `paystack_clearing`, `platform_orders` or `platform_refunds`
+      - `wallet_id` (uuid, foreign key to wallets) - Set on the wallet side of the entry
+      - `entry_type` (text) - 'debit' or 'credit'
+      - `amount` (decimal)
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `post_wallet_transaction(...)`
+      - Locks the wallet row, checks funds for debits, records the
+        `wallet_transactions` row, posts a balanced debit/credit pair to the
+        ledger and updates `wallets.balance` in one transaction
+      - Idempotent on `reference`: posting the same reference twice returns the
+        original transaction instead of moving money again
+    - `refund_wallet_withdrawal(p_transaction_id, p_status)`
+      - Marks a pending withdrawal as failed/cancelled and credits the amount back
+    - `pay_quote_with_wallet(p_quote_id, p_reference, p_description)`
+      - Creates the order from a checkout quote and debits the wallet atomically
+
+  3. Security
+    - Users can view ledger entries for their own wallet; admins can view all
+    - Drop the client UPDATE policy on `wallets` and INSERT policy on
+      `wallet_transactions`; balances now only change through these functions
+    - The functions are only executable by the service role (edge functions)
+*/
+
+-- Create wallet_ledger_entries table
+CREATE TABLE IF NOT EXISTS wallet_ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id uuid REFERENCES wallet_transactions(id) ON DELETE CASCADE NOT NULL,
+  account text NOT NULL CHECK (account IN ('wallet', 'paystack_clearing', 'platform_orders', 'platform_refunds')),
+  wallet_id uuid REFERENCES wallets(id) ON DELETE CASCADE,
+  entry_type text NOT NULL CHECK (entry_type IN ('debit', 'credit')),
+  amount decimal(12, 2) NOT NULL CHECK (amount > 0),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK ((account = 'wallet') = (wallet_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_ledger_entries_transaction_id ON wallet_ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_wallet_ledger_entries_wallet_id ON wallet_ledger_entries(wallet_id);
+CREATE INDEX IF NOT EXISTS idx_wallet_ledger_entries_account ON wallet_ledger_entries(account);
+
+-- Enable RLS
+ALTER TABLE wallet_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+-- Users can view ledger entries for their own wallet
+CREATE POLICY "Users can view own ledger entries"
+  ON wallet_ledger_entries FOR SELECT
+  TO authenticated
+  USING (
+    wallet_id IN (
+      SELECT id FROM wallets WHERE user_id = auth.uid()
+    )
+  );
+
+-- Admins can view the whole ledger
+CREATE POLICY "Admins can view all ledger entries"
+  ON wallet_ledger_entries FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Balances may no longer be written from the app
+DROP POLICY IF EXISTS "Users can update own wallet" ON wallets;
+DROP POLICY IF EXISTS "Users can create own transactions" ON wallet_transactions;
+
+-- Post a wallet transaction and its double-entry ledger record atomically
+CREATE OR REPLACE FUNCTION post_wallet_transaction(
+  p_wallet_id uuid,
+  p_type text,
+  p_amount decimal,
+  p_reference text,
+  p_status text DEFAULT 'completed',
+  p_description text DEFAULT NULL,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_order_id uuid DEFAULT NULL,
+  p_paystack_reference text DEFAULT NULL
+)
+RETURNS wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet wallets%ROWTYPE;
+  v_transaction wallet_transactions%ROWTYPE;
+  v_is_credit boolean;
+  v_contra_account text;
+  v_balance_after decimal(12, 2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid amount';
+  END IF;
+
+  CASE p_type
+    WHEN 'deposit' THEN
+      v_is_credit := true;
+      v_contra_account := 'paystack_clearing';
+    WHEN 'refund' THEN
+      v_is_credit := true;
+      v_contra_account := 'platform_refunds';
+    WHEN 'payment' THEN
+      v_is_credit := false;
+      v_contra_account := 'platform_orders';
+    WHEN 'withdrawal' THEN
+      v_is_credit := false;
+      v_contra_account := 'paystack_clearing';
+    ELSE
+      RAISE EXCEPTION 'Unknown transaction type: %', p_type;
+  END CASE;
+
+  -- Serialise all balance changes for this wallet
+  SELECT * INTO v_wallet
+  FROM wallets
+  WHERE id = p_wallet_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  -- A reference can only ever move money once
+  SELECT * INTO v_transaction
+  FROM wallet_transactions
+  WHERE reference = p_reference;
+
+  IF FOUND THEN
+    RETURN v_transaction;
+  END IF;
+
+  IF NOT v_is_credit THEN
+    IF NOT v_wallet.is_active THEN
+      RAISE EXCEPTION 'Wallet is inactive';
+    END IF;
+
+    IF v_wallet.balance < p_amount THEN
+      RAISE EXCEPTION 'Insufficient balance';
+    END IF;
+  END IF;
+
+  v_balance_after := CASE
+    WHEN v_is_credit THEN v_wallet.balance + p_amount
+    ELSE v_wallet.balance - p_amount
+  END;
+
+  INSERT INTO wallet_transactions (
+    wallet_id,
+    user_id,
+    type,
+    amount,
+    balance_before,
+    balance_after,
+    status,
+    reference,
+    paystack_reference,
+    description,
+    metadata,
+    order_id,
+    completed_at
+  ) VALUES (
+    v_wallet.id,
+    v_wallet.user_id,
+    p_type,
+    p_amount,
+    v_wallet.balance,
+    v_balance_after,
+    p_status,
+    p_reference,
+    p_paystack_reference,
+    p_description,
+    COALESCE(p_metadata, '{}'::jsonb),
+    p_order_id,
+    CASE WHEN p_status = 'completed' THEN now() END
+  )
+  RETURNING * INTO v_transaction;
+
+  INSERT INTO wallet_ledger_entries (transaction_id, account, wallet_id, entry_type, amount)
+  VALUES
+    (v_transaction.id, 'wallet', v_wallet.id, CASE WHEN v_is_credit THEN 'credit' ELSE 'debit' END, p_amount),
+    (v_transaction.id, v_contra_account, NULL, CASE WHEN v_is_credit THEN 'debit' ELSE 'credit' END, p_amount);
+
+  UPDATE wallets
+  SET balance = v_balance_after
+  WHERE id = v_wallet.id;
+
+  RETURN v_transaction;
+END;
+$$;
+
+-- Fail a pending withdrawal and return the funds to the wallet
+CREATE OR REPLACE FUNCTION refund_wallet_withdrawal(
+  p_transaction_id uuid,
+  p_status text DEFAULT 'failed'
+)
+RETURNS wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal wallet_transactions%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('failed', 'cancelled') THEN
+    RAISE EXCEPTION 'Invalid withdrawal status: %', p_status;
+  END IF;
+
+  SELECT * INTO v_withdrawal
+  FROM wallet_transactions
+  WHERE id = p_transaction_id
+    AND type = 'withdrawal'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Withdrawal not found';
+  END IF;
+
+  IF v_withdrawal.status = 'pending' THEN
+    UPDATE wallet_transactions
+    SET status = p_status,
+        completed_at = now()
+    WHERE id = v_withdrawal.id;
+  END IF;
+
+  -- The refund reference is derived from the withdrawal, so retries are no-ops
+  RETURN post_wallet_transaction(
+    v_withdrawal.wallet_id,
+    'refund',
+    v_withdrawal.amount,
+    'RFD-' || v_withdrawal.reference,
+    'completed',
+    'Refund for withdrawal ' || v_withdrawal.reference,
+    jsonb_build_object('withdrawal_id', v_withdrawal.id),
+    NULL,
+    v_withdrawal.paystack_reference
+  );
+END;
+$$;
+
+-- Create an order from a quote and pay for it from the wallet in one transaction
+CREATE OR REPLACE FUNCTION pay_quote_with_wallet(
+  p_quote_id uuid,
+  p_reference text,
+  p_description text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote checkout_quotes%ROWTYPE;
+  v_wallet_id uuid;
+  v_order orders%ROWTYPE;
+  v_transaction wallet_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_quote
+  FROM checkout_quotes
+  WHERE id = p_quote_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF v_quote.consumed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quote has already been used';
+  END IF;
+
+  SELECT id INTO v_wallet_id
+  FROM wallets
+  WHERE user_id = v_quote.user_id;
+
+  IF v_wallet_id IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  v_order := create_order_from_quote(p_quote_id, 'completed', p_reference);
+
+  v_transaction := post_wallet_transaction(
+    v_wallet_id,
+    'payment',
+    v_quote.total,
+    p_reference,
+    'completed',
+    COALESCE(p_description, 'Payment for order #' || v_order.order_number),
+    jsonb_build_object('order_id', v_order.id, 'order_number', v_order.order_number),
+    v_order.id
+  );
+
+  RETURN jsonb_build_object(
+    'order_id', v_order.id,
+    'order_number', v_order.order_number,
+    'transaction_id', v_transaction.id,
+    'new_balance', v_transaction.balance_after
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION post_wallet_transaction(uuid, text, decimal, text, text, text, jsonb, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_wallet_withdrawal(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION pay_quote_with_wallet(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION post_wallet_transaction IS 'Single entry point for wallet balance changes; locks the wallet and posts a balanced ledger record';
@@ -0,0 +1,113 @@
+/*
+  # Handle Withdrawal Transfer Events
+
+  1. Functions
+    - `complete_wallet_withdrawal(p_transaction_id, p_paystack_reference)`
+      - Marks a pending withdrawal as completed once Paystack reports
+        `transfer.success`; withdrawals that already failed are left alone
+    - `refund_wallet_withdrawal(p_transaction_id, p_status)`
+      - Now also finalises withdrawals that were completed before Paystack
+        reversed them, so `transfer.reversed` after `transfer.success` is
+        refunded and recorded as cancelled
+
+  2. Indexes
+    - Look up withdrawals by `metadata->>'transfer_code'` for transfer webhooks
+
+  3. Security
+    - Both functions are only executable by the service role (edge functions)
+*/
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_transfer_code
+  ON wallet_transactions ((metadata->>'transfer_code'))
+  WHERE type = 'withdrawal';
+
+-- Finalise a withdrawal Paystack has paid out
+CREATE OR REPLACE FUNCTION complete_wallet_withdrawal(
+  p_transaction_id uuid,
+  p_paystack_reference text DEFAULT NULL
+)
+RETURNS wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal wallet_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_withdrawal
+  FROM wallet_transactions
+  WHERE id = p_transaction_id
+    AND type = 'withdrawal'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Withdrawal not found';
+  END IF;
+
+  -- A refunded withdrawal must never be flipped back to completed
+  IF v_withdrawal.status <> 'pending' THEN
+    RETURN v_withdrawal;
+  END IF;
+
+  UPDATE wallet_transactions
+  SET status = 'completed',
+      completed_at = now(),
+      paystack_reference = COALESCE(paystack_reference, p_paystack_reference)
+  WHERE id = v_withdrawal.id
+  RETURNING * INTO v_withdrawal;
+
+  RETURN v_withdrawal;
+END;
+$$;
+
+-- Fail or reverse a withdrawal and return the funds to the wallet
+CREATE OR REPLACE FUNCTION refund_wallet_withdrawal(
+  p_transaction_id uuid,
+  p_status text DEFAULT 'failed'
+)
+RETURNS wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal wallet_transactions%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('failed', 'cancelled') THEN
+    RAISE EXCEPTION 'Invalid withdrawal status: %', p_status;
+  END IF;
+
+  SELECT * INTO v_withdrawal
+  FROM wallet_transactions
+  WHERE id = p_transaction_id
+    AND type = 'withdrawal'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Withdrawal not found';
+  END IF;
+
+  IF v_withdrawal.status IN ('pending', 'completed') THEN
+    UPDATE wallet_transactions
+    SET status = p_status,
+        completed_at = now()
+    WHERE id = v_withdrawal.id;
+  END IF;
+
+  -- The refund reference is derived from the withdrawal, so retries are no-ops
+  RETURN post_wallet_transaction(
+    v_withdrawal.wallet_id,
+    'refund',
+    v_withdrawal.amount,
+    'RFD-' || v_withdrawal.reference,
+    'completed',
+    'Refund for withdrawal ' || v_withdrawal.reference,
+    jsonb_build_object('withdrawal_id', v_withdrawal.id),
+    NULL,
+    v_withdrawal.paystack_reference
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION complete_wallet_withdrawal(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_wallet_withdrawal(uuid, text) FROM PUBLIC, anon, authenticated;
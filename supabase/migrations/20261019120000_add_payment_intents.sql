@@ -0,0 +1,155 @@
+/*
+  # Add Payment Intents for Card Checkout
+
+  1. New Tables
+    - `payment_intents`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `quote_id` (uuid, foreign key to checkout_quotes)
+      - `reference` (text, unique) - Paystack transaction reference
+      - `amount` (decimal) - Quoted total the customer is charged
+      - `status` (text) - 'pending', 'succeeded' or 'failed'
+      - `order_id` (uuid, foreign key to orders) - Set once the order is created
+      - `order_number` (text)
+      - `failure_reason` (text)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Functions
+    - `confirm_payment_intent(p_reference, p_amount_paid)`
+      - Called for Paystack `charge.success` (webhook or callback verification)
+      - Checks the amount, creates the order from the quote and marks the
+        intent succeeded in one transaction; replays return the same intent
+    - `fail_payment_intent(p_reference, p_reason)`
+      - Marks a pending intent failed
+
+  3. Security
+    - Enable RLS; customers can view their own intents, admins can view all
+    - Intents are written by edge functions using the service role
+    - Functions are only executable by the service role
+
+  4. Realtime
+    - Enable realtime so checkout learns the payment outcome without polling
+*/
+
+-- Create payment_intents table
+CREATE TABLE IF NOT EXISTS payment_intents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  quote_id uuid REFERENCES checkout_quotes(id) ON DELETE CASCADE NOT NULL,
+  reference text UNIQUE NOT NULL,
+  amount decimal(12, 2) NOT NULL CHECK (amount > 0),
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed')),
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  order_number text,
+  failure_reason text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_intents_user_id ON payment_intents(user_id);
+CREATE INDEX IF NOT EXISTS idx_payment_intents_quote_id ON payment_intents(quote_id);
+
+-- Enable RLS
+ALTER TABLE payment_intents ENABLE ROW LEVEL SECURITY;
+
+-- Customers can view their own payment intents
+CREATE POLICY "Users can view own payment intents"
+  ON payment_intents FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Admins can view all payment intents
+CREATE POLICY "Admins can view all payment intents"
+  ON payment_intents FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Confirm a successful charge and create its order
+CREATE OR REPLACE FUNCTION confirm_payment_intent(
+  p_reference text,
+  p_amount_paid decimal
+)
+RETURNS payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_intent payment_intents%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_intent
+  FROM payment_intents
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment intent not found';
+  END IF;
+
+  -- Webhook and callback can both report the same charge
+  IF v_intent.status = 'succeeded' THEN
+    RETURN v_intent;
+  END IF;
+
+  IF p_amount_paid < v_intent.amount THEN
+    UPDATE payment_intents
+    SET status = 'failed',
+        failure_reason = 'Paid amount does not match the quoted total',
+        updated_at = now()
+    WHERE id = v_intent.id
+    RETURNING * INTO v_intent;
+
+    RETURN v_intent;
+  END IF;
+
+  -- The customer has already paid, so a quote that expired meanwhile is honoured
+  v_order := create_order_from_quote(v_intent.quote_id, 'completed', p_reference, true);
+
+  UPDATE payment_intents
+  SET status = 'succeeded',
+      order_id = v_order.id,
+      order_number = v_order.order_number,
+      failure_reason = NULL,
+      updated_at = now()
+  WHERE id = v_intent.id
+  RETURNING * INTO v_intent;
+
+  RETURN v_intent;
+END;
+$$;
+
+-- Record a charge that did not succeed
+CREATE OR REPLACE FUNCTION fail_payment_intent(
+  p_reference text,
+  p_reason text DEFAULT NULL
+)
+RETURNS payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_intent payment_intents%ROWTYPE;
+BEGIN
+  UPDATE payment_intents
+  SET status = 'failed',
+      failure_reason = p_reason,
+      updated_at = now()
+  WHERE reference = p_reference
+    AND status = 'pending'
+  RETURNING * INTO v_intent;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_intent FROM payment_intents WHERE reference = p_reference;
+  END IF;
+
+  RETURN v_intent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION confirm_payment_intent(text, decimal) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_payment_intent(text, text) FROM PUBLIC, anon, authenticated;
+
+-- Enable realtime for payment_intents table
+ALTER PUBLICATION supabase_realtime ADD TABLE payment_intents;
@@ -0,0 +1,362 @@
+/*
+  # Split Multi-Vendor Checkouts into Per-Vendor Orders
+
+  1. New Tables
+    - `checkout_groups`
+      - `id` (uuid, primary key)
+      - `customer_id` (uuid, foreign key to profiles)
+      - `group_number` (text, unique) - Number shown to the customer for the whole checkout
+      - `subtotal`, `delivery_fee`, `total` (decimal) - Sums across the vendor orders
+      - `payment_method`, `payment_status`, `payment_reference` (text) - The single payment
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `orders`: add `checkout_group_id` (uuid, foreign key to checkout_groups)
+    - `checkout_quotes`:
+      - `vendor_id` is now optional; each item carries its own `vendor_id`
+      - add `vendor_orders` (jsonb) - One entry per vendor with its order number,
+        subtotal, delivery fee and total
+      - add `checkout_group_id` (uuid) - Group created from the quote
+    - `payment_intents`: add `checkout_group_id`
+
+  3. Functions
+    - `create_orders_from_quote(p_quote_id, p_payment_status, p_payment_reference, p_ignore_expiry)`
+      - Replaces `create_order_from_quote`
+      - Creates the checkout group and one order per vendor, each with its own
+        items, delivery fee and status; replays return the existing group
+    - `pay_quote_with_wallet` and `confirm_payment_intent` now create groups
+
+  4. Security
+    - Enable RLS on `checkout_groups`; customers can view their own, admins all
+    - Functions are only executable by the service role
+*/
+
+-- Create checkout_groups table
+CREATE TABLE IF NOT EXISTS checkout_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  group_number text UNIQUE NOT NULL,
+  subtotal decimal(12, 2) NOT NULL CHECK (subtotal >= 0),
+  delivery_fee decimal(12, 2) DEFAULT 0.00 NOT NULL CHECK (delivery_fee >= 0),
+  total decimal(12, 2) NOT NULL CHECK (total > 0),
+  payment_method text NOT NULL,
+  payment_status text DEFAULT 'pending' NOT NULL,
+  payment_reference text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_groups_customer_id ON checkout_groups(customer_id);
+CREATE INDEX IF NOT EXISTS idx_checkout_groups_payment_reference ON checkout_groups(payment_reference);
+
+-- Enable RLS
+ALTER TABLE checkout_groups ENABLE ROW LEVEL SECURITY;
+
+-- Customers can view their own checkout groups
+CREATE POLICY "Users can view own checkout groups"
+  ON checkout_groups FOR SELECT
+  TO authenticated
+  USING (auth.uid() = customer_id);
+
+-- Admins can view all checkout groups
+CREATE POLICY "Admins can view all checkout groups"
+  ON checkout_groups FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Link orders, quotes and payment intents to their group
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'checkout_group_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN checkout_group_id uuid REFERENCES checkout_groups(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'checkout_quotes' AND column_name = 'vendor_orders'
+  ) THEN
+    ALTER TABLE checkout_quotes ADD COLUMN vendor_orders jsonb DEFAULT '[]'::jsonb NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'checkout_quotes' AND column_name = 'checkout_group_id'
+  ) THEN
+    ALTER TABLE checkout_quotes ADD COLUMN checkout_group_id uuid REFERENCES checkout_groups(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'payment_intents' AND column_name = 'checkout_group_id'
+  ) THEN
+    ALTER TABLE payment_intents ADD COLUMN checkout_group_id uuid REFERENCES checkout_groups(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+ALTER TABLE checkout_quotes ALTER COLUMN vendor_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_checkout_group_id ON orders(checkout_group_id);
+
+DROP FUNCTION IF EXISTS create_order_from_quote(uuid, text, text, boolean);
+
+-- Create a checkout group and one order per vendor from a checkout quote
+CREATE OR REPLACE FUNCTION create_orders_from_quote(
+  p_quote_id uuid,
+  p_payment_status text,
+  p_payment_reference text DEFAULT NULL,
+  p_ignore_expiry boolean DEFAULT false
+)
+RETURNS checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote checkout_quotes%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_vendor_order jsonb;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_quote
+  FROM checkout_quotes
+  WHERE id = p_quote_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  -- Replaying a consumed quote returns the group it already created
+  IF v_quote.consumed_at IS NOT NULL THEN
+    SELECT * INTO v_group FROM checkout_groups WHERE id = v_quote.checkout_group_id;
+    RETURN v_group;
+  END IF;
+
+  -- Card payments are verified after the customer has paid, so the caller
+  -- may honour a quote that expired while the payment page was open
+  IF v_quote.expires_at < now() AND NOT p_ignore_expiry THEN
+    RAISE EXCEPTION 'Quote has expired';
+  END IF;
+
+  -- Quotes can be previewed before the address is entered, but not ordered
+  IF v_quote.order_data->>'delivery_type' = 'delivery'
+     AND COALESCE(trim(v_quote.order_data->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required';
+  END IF;
+
+  INSERT INTO checkout_groups (
+    customer_id,
+    group_number,
+    subtotal,
+    delivery_fee,
+    total,
+    payment_method,
+    payment_status,
+    payment_reference
+  ) VALUES (
+    v_quote.user_id,
+    v_quote.order_data->>'order_number',
+    v_quote.subtotal,
+    v_quote.delivery_fee,
+    v_quote.total,
+    v_quote.order_data->>'payment_method',
+    p_payment_status,
+    p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  FOR v_vendor_order IN
+    SELECT * FROM jsonb_array_elements(v_quote.vendor_orders)
+  LOOP
+    INSERT INTO orders (
+      customer_id,
+      vendor_id,
+      checkout_group_id,
+      order_number,
+      subtotal,
+      delivery_fee,
+      total,
+      delivery_type,
+      delivery_address,
+      is_scheduled,
+      scheduled_delivery_time,
+      meal_time_preference,
+      payment_method,
+      status,
+      payment_status,
+      payment_reference
+    ) VALUES (
+      v_quote.user_id,
+      (v_vendor_order->>'vendor_id')::uuid,
+      v_group.id,
+      v_vendor_order->>'order_number',
+      (v_vendor_order->>'subtotal')::decimal,
+      (v_vendor_order->>'delivery_fee')::decimal,
+      (v_vendor_order->>'total')::decimal,
+      v_quote.order_data->>'delivery_type',
+      v_quote.order_data->>'delivery_address',
+      COALESCE((v_quote.order_data->>'is_scheduled')::boolean, false),
+      (v_quote.order_data->>'scheduled_delivery_time')::timestamptz,
+      v_quote.order_data->>'meal_time_preference',
+      v_quote.order_data->>'payment_method',
+      'pending',
+      p_payment_status,
+      p_payment_reference
+    )
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT
+      v_order_id,
+      (item->>'product_id')::uuid,
+      (item->>'quantity')::integer,
+      (item->>'unit_price')::decimal,
+      (item->>'subtotal')::decimal
+    FROM jsonb_array_elements(v_quote.items) AS item
+    WHERE item->>'vendor_id' = v_vendor_order->>'vendor_id';
+  END LOOP;
+
+  DELETE FROM carts
+  WHERE user_id = v_quote.user_id
+    AND product_id IN (
+      SELECT (item->>'product_id')::uuid
+      FROM jsonb_array_elements(v_quote.items) AS item
+    );
+
+  UPDATE checkout_quotes
+  SET consumed_at = now(),
+      checkout_group_id = v_group.id
+  WHERE id = v_quote.id;
+
+  RETURN v_group;
+END;
+$$;
+
+-- Create the orders for a quote and pay for them from the wallet in one transaction
+CREATE OR REPLACE FUNCTION pay_quote_with_wallet(
+  p_quote_id uuid,
+  p_reference text,
+  p_description text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote checkout_quotes%ROWTYPE;
+  v_wallet_id uuid;
+  v_group checkout_groups%ROWTYPE;
+  v_order_id uuid;
+  v_transaction wallet_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_quote
+  FROM checkout_quotes
+  WHERE id = p_quote_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF v_quote.consumed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quote has already been used';
+  END IF;
+
+  SELECT id INTO v_wallet_id
+  FROM wallets
+  WHERE user_id = v_quote.user_id;
+
+  IF v_wallet_id IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  v_group := create_orders_from_quote(p_quote_id, 'completed', p_reference);
+
+  -- A single-vendor checkout still links the payment to its order
+  IF jsonb_array_length(v_quote.vendor_orders) = 1 THEN
+    SELECT id INTO v_order_id FROM orders WHERE checkout_group_id = v_group.id;
+  END IF;
+
+  v_transaction := post_wallet_transaction(
+    v_wallet_id,
+    'payment',
+    v_quote.total,
+    p_reference,
+    'completed',
+    COALESCE(p_description, 'Payment for order #' || v_group.group_number),
+    jsonb_build_object('checkout_group_id', v_group.id, 'order_number', v_group.group_number),
+    v_order_id
+  );
+
+  RETURN jsonb_build_object(
+    'checkout_group_id', v_group.id,
+    'order_number', v_group.group_number,
+    'transaction_id', v_transaction.id,
+    'new_balance', v_transaction.balance_after
+  );
+END;
+$$;
+
+-- Confirm a successful charge and create its orders
+CREATE OR REPLACE FUNCTION confirm_payment_intent(
+  p_reference text,
+  p_amount_paid decimal
+)
+RETURNS payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_intent payment_intents%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+BEGIN
+  SELECT * INTO v_intent
+  FROM payment_intents
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment intent not found';
+  END IF;
+
+  -- Webhook and callback can both report the same charge
+  IF v_intent.status = 'succeeded' THEN
+    RETURN v_intent;
+  END IF;
+
+  IF p_amount_paid < v_intent.amount THEN
+    UPDATE payment_intents
+    SET status = 'failed',
+        failure_reason = 'Paid amount does not match the quoted total',
+        updated_at = now()
+    WHERE id = v_intent.id
+    RETURNING * INTO v_intent;
+
+    RETURN v_intent;
+  END IF;
+
+  -- The customer has already paid, so a quote that expired meanwhile is honoured
+  v_group := create_orders_from_quote(v_intent.quote_id, 'completed', p_reference, true);
+
+  UPDATE payment_intents
+  SET status = 'succeeded',
+      checkout_group_id = v_group.id,
+      order_number = v_group.group_number,
+      failure_reason = NULL,
+      updated_at = now()
+  WHERE id = v_intent.id
+  RETURNING * INTO v_intent;
+
+  RETURN v_intent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_orders_from_quote(uuid, text, text, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION pay_quote_with_wallet(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION confirm_payment_intent(text, decimal) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION create_orders_from_quote IS 'Creates a checkout group with one order per vendor from a server-priced quote; replays return the existing group';
@@ -0,0 +1,257 @@
+/*
+  # Add Distance-Based Delivery Pricing
+
+  1. New Tables
+    - `platform_settings`
+      - `key` (text, primary key)
+      - `value` (jsonb)
+      - `updated_at` (timestamptz)
+      - `updated_by` (uuid, foreign key to profiles)
+    - Seeded with `delivery_pricing`:
+      - `base_fee` - Flat fee for every delivery
+      - `per_km_rate` - Added per kilometre between vendor and customer
+      - `surge_multipliers` - Multiplier per `meal_time_preference` slot
+      - `free_delivery_threshold` - Vendor subtotal at which delivery is free (0 disables)
+      - `default_radius_km` - Used when a vendor has not set a delivery radius
+
+  2. Modified Tables
+    - `vendors`: add `latitude`, `longitude` (geocoded from the vendor address on
+      first checkout) and `delivery_radius` if missing
+    - `orders`: add `delivery_latitude`, `delivery_longitude`, `delivery_distance_km`
+
+  3. Functions
+    - `create_orders_from_quote` now copies the delivery coordinates and each
+      vendor's distance onto the orders
+
+  4. Security
+    - Enable RLS on `platform_settings`
+    - Any signed-in user can read settings (checkout shows the pricing rules)
+    - Only admins can change them
+*/
+
+-- Create platform_settings table
+CREATE TABLE IF NOT EXISTS platform_settings (
+  key text PRIMARY KEY,
+  value jsonb DEFAULT '{}'::jsonb NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+-- Enable RLS
+ALTER TABLE platform_settings ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users can read platform settings
+CREATE POLICY "Authenticated users can view platform settings"
+  ON platform_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Admins can manage platform settings
+CREATE POLICY "Admins can insert platform settings"
+  ON platform_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update platform settings"
+  ON platform_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+INSERT INTO platform_settings (key, value)
+VALUES (
+  'delivery_pricing',
+  jsonb_build_object(
+    'base_fee', 5.00,
+    'per_km_rate', 0.50,
+    'surge_multipliers', jsonb_build_object('breakfast', 1.0, 'lunch', 1.0, 'dinner', 1.0),
+    'free_delivery_threshold', 0,
+    'default_radius_km', 10
+  )
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- Vendor and order coordinates
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'vendors' AND column_name = 'latitude'
+  ) THEN
+    ALTER TABLE vendors ADD COLUMN latitude numeric(9, 6);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'vendors' AND column_name = 'longitude'
+  ) THEN
+    ALTER TABLE vendors ADD COLUMN longitude numeric(9, 6);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'vendors' AND column_name = 'delivery_radius'
+  ) THEN
+    ALTER TABLE vendors ADD COLUMN delivery_radius numeric;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_latitude'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_latitude numeric(9, 6);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_longitude'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_longitude numeric(9, 6);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_distance_km'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_distance_km numeric(6, 2);
+  END IF;
+END $$;
+
+-- Create a checkout group and one order per vendor from a checkout quote
+CREATE OR REPLACE FUNCTION create_orders_from_quote(
+  p_quote_id uuid,
+  p_payment_status text,
+  p_payment_reference text DEFAULT NULL,
+  p_ignore_expiry boolean DEFAULT false
+)
+RETURNS checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote checkout_quotes%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_vendor_order jsonb;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_quote
+  FROM checkout_quotes
+  WHERE id = p_quote_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  -- Replaying a consumed quote returns the group it already created
+  IF v_quote.consumed_at IS NOT NULL THEN
+    SELECT * INTO v_group FROM checkout_groups WHERE id = v_quote.checkout_group_id;
+    RETURN v_group;
+  END IF;
+
+  -- Card payments are verified after the customer has paid, so the caller
+  -- may honour a quote that expired while the payment page was open
+  IF v_quote.expires_at < now() AND NOT p_ignore_expiry THEN
+    RAISE EXCEPTION 'Quote has expired';
+  END IF;
+
+  -- Quotes can be previewed before the address is entered, but not ordered
+  IF v_quote.order_data->>'delivery_type' = 'delivery'
+     AND COALESCE(trim(v_quote.order_data->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required';
+  END IF;
+
+  INSERT INTO checkout_groups (
+    customer_id,
+    group_number,
+    subtotal,
+    delivery_fee,
+    total,
+    payment_method,
+    payment_status,
+    payment_reference
+  ) VALUES (
+    v_quote.user_id,
+    v_quote.order_data->>'order_number',
+    v_quote.subtotal,
+    v_quote.delivery_fee,
+    v_quote.total,
+    v_quote.order_data->>'payment_method',
+    p_payment_status,
+    p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  FOR v_vendor_order IN
+    SELECT * FROM jsonb_array_elements(v_quote.vendor_orders)
+  LOOP
+    INSERT INTO orders (
+      customer_id,
+      vendor_id,
+      checkout_group_id,
+      order_number,
+      subtotal,
+      delivery_fee,
+      total,
+      delivery_type,
+      delivery_address,
+      is_scheduled,
+      scheduled_delivery_time,
+      meal_time_preference,
+      payment_method,
+      status,
+      payment_status,
+      payment_reference,
+      delivery_latitude,
+      delivery_longitude,
+      delivery_distance_km
+    ) VALUES (
+      v_quote.user_id,
+      (v_vendor_order->>'vendor_id')::uuid,
+      v_group.id,
+      v_vendor_order->>'order_number',
+      (v_vendor_order->>'subtotal')::decimal,
+      (v_vendor_order->>'delivery_fee')::decimal,
+      (v_vendor_order->>'total')::decimal,
+      v_quote.order_data->>'delivery_type',
+      v_quote.order_data->>'delivery_address',
+      COALESCE((v_quote.order_data->>'is_scheduled')::boolean, false),
+      (v_quote.order_data->>'scheduled_delivery_time')::timestamptz,
+      v_quote.order_data->>'meal_time_preference',
+      v_quote.order_data->>'payment_method',
+      'pending',
+      p_payment_status,
+      p_payment_reference,
+      (v_quote.order_data->>'delivery_latitude')::numeric,
+      (v_quote.order_data->>'delivery_longitude')::numeric,
+      (v_vendor_order->>'distance_km')::numeric
+    )
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT
+      v_order_id,
+      (item->>'product_id')::uuid,
+      (item->>'quantity')::integer,
+      (item->>'unit_price')::decimal,
+      (item->>'subtotal')::decimal
+    FROM jsonb_array_elements(v_quote.items) AS item
+    WHERE item->>'vendor_id' = v_vendor_order->>'vendor_id';
+  END LOOP;
+
+  DELETE FROM carts
+  WHERE user_id = v_quote.user_id
+    AND product_id IN (
+      SELECT (item->>'product_id')::uuid
+      FROM jsonb_array_elements(v_quote.items) AS item
+    );
+
+  UPDATE checkout_quotes
+  SET consumed_at = now(),
+      checkout_group_id = v_group.id
+  WHERE id = v_quote.id;
+
+  RETURN v_group;
+END;
+$$;
@@ -0,0 +1,253 @@
+/*
+  # Add Customer Address Book
+
+  1. New Tables
+    - `addresses`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `label` (text) - e.g. Home, Work
+      - `recipient_name` (text)
+      - `phone` (text)
+      - `address_line` (text) - Street address
+      - `landmark` (text) - Directions for the rider
+      - `latitude`, `longitude` (numeric) - From a map pin or the device location
+      - `is_default` (boolean) - Preselected at checkout
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Modified Tables
+    - `orders`: add `delivery_address_snapshot` (jsonb) - Copy of the address
+      used for the order (label, recipient, phone, street, landmark, coordinates),
+      so later edits to the address book do not change past orders.
+      `delivery_address` now holds only the street address.
+
+  3. Functions
+    - `set_single_default_address()` trigger keeps one default address per user
+    - `create_orders_from_quote` copies the address snapshot onto each order
+
+  4. Security
+    - Enable RLS on `addresses`; users can only manage their own addresses
+*/
+
+-- Create addresses table
+CREATE TABLE IF NOT EXISTS addresses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  label text DEFAULT 'Home' NOT NULL,
+  recipient_name text NOT NULL,
+  phone text NOT NULL,
+  address_line text NOT NULL,
+  landmark text,
+  latitude numeric(9, 6),
+  longitude numeric(9, 6),
+  is_default boolean DEFAULT false NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_addresses_user_id ON addresses(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_addresses_one_default
+  ON addresses(user_id)
+  WHERE is_default;
+
+-- Enable RLS
+ALTER TABLE addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own addresses"
+  ON addresses FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own addresses"
+  ON addresses FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own addresses"
+  ON addresses FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own addresses"
+  ON addresses FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Making an address the default clears the flag on the user's other addresses
+CREATE OR REPLACE FUNCTION set_single_default_address()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_default THEN
+    UPDATE addresses
+    SET is_default = false
+    WHERE user_id = NEW.user_id
+      AND id <> NEW.id
+      AND is_default;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_single_default_address_trigger ON addresses;
+CREATE TRIGGER set_single_default_address_trigger
+  BEFORE INSERT OR UPDATE ON addresses
+  FOR EACH ROW
+  EXECUTE FUNCTION set_single_default_address();
+
+-- Structured delivery address on orders
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_address_snapshot'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_address_snapshot jsonb;
+  END IF;
+END $$;
+
+-- Create a checkout group and one order per vendor from a checkout quote
+CREATE OR REPLACE FUNCTION create_orders_from_quote(
+  p_quote_id uuid,
+  p_payment_status text,
+  p_payment_reference text DEFAULT NULL,
+  p_ignore_expiry boolean DEFAULT false
+)
+RETURNS checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote checkout_quotes%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_vendor_order jsonb;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_quote
+  FROM checkout_quotes
+  WHERE id = p_quote_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  -- Replaying a consumed quote returns the group it already created
+  IF v_quote.consumed_at IS NOT NULL THEN
+    SELECT * INTO v_group FROM checkout_groups WHERE id = v_quote.checkout_group_id;
+    RETURN v_group;
+  END IF;
+
+  -- Card payments are verified after the customer has paid, so the caller
+  -- may honour a quote that expired while the payment page was open
+  IF v_quote.expires_at < now() AND NOT p_ignore_expiry THEN
+    RAISE EXCEPTION 'Quote has expired';
+  END IF;
+
+  -- Quotes can be previewed before the address is entered, but not ordered
+  IF v_quote.order_data->>'delivery_type' = 'delivery'
+     AND COALESCE(trim(v_quote.order_data->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required';
+  END IF;
+
+  INSERT INTO checkout_groups (
+    customer_id,
+    group_number,
+    subtotal,
+    delivery_fee,
+    total,
+    payment_method,
+    payment_status,
+    payment_reference
+  ) VALUES (
+    v_quote.user_id,
+    v_quote.order_data->>'order_number',
+    v_quote.subtotal,
+    v_quote.delivery_fee,
+    v_quote.total,
+    v_quote.order_data->>'payment_method',
+    p_payment_status,
+    p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  FOR v_vendor_order IN
+    SELECT * FROM jsonb_array_elements(v_quote.vendor_orders)
+  LOOP
+    INSERT INTO orders (
+      customer_id,
+      vendor_id,
+      checkout_group_id,
+      order_number,
+      subtotal,
+      delivery_fee,
+      total,
+      delivery_type,
+      delivery_address,
+      is_scheduled,
+      scheduled_delivery_time,
+      meal_time_preference,
+      payment_method,
+      status,
+      payment_status,
+      payment_reference,
+      delivery_latitude,
+      delivery_longitude,
+      delivery_distance_km,
+      delivery_address_snapshot
+    ) VALUES (
+      v_quote.user_id,
+      (v_vendor_order->>'vendor_id')::uuid,
+      v_group.id,
+      v_vendor_order->>'order_number',
+      (v_vendor_order->>'subtotal')::decimal,
+      (v_vendor_order->>'delivery_fee')::decimal,
+      (v_vendor_order->>'total')::decimal,
+      v_quote.order_data->>'delivery_type',
+      v_quote.order_data->>'delivery_address',
+      COALESCE((v_quote.order_data->>'is_scheduled')::boolean, false),
+      (v_quote.order_data->>'scheduled_delivery_time')::timestamptz,
+      v_quote.order_data->>'meal_time_preference',
+      v_quote.order_data->>'payment_method',
+      'pending',
+      p_payment_status,
+      p_payment_reference,
+      (v_quote.order_data->>'delivery_latitude')::numeric,
+      (v_quote.order_data->>'delivery_longitude')::numeric,
+      (v_vendor_order->>'distance_km')::numeric,
+      v_quote.order_data->'delivery_address_snapshot'
+    )
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT
+      v_order_id,
+      (item->>'product_id')::uuid,
+      (item->>'quantity')::integer,
+      (item->>'unit_price')::decimal,
+      (item->>'subtotal')::decimal
+    FROM jsonb_array_elements(v_quote.items) AS item
+    WHERE item->>'vendor_id' = v_vendor_order->>'vendor_id';
+  END LOOP;
+
+  DELETE FROM carts
+  WHERE user_id = v_quote.user_id
+    AND product_id IN (
+      SELECT (item->>'product_id')::uuid
+      FROM jsonb_array_elements(v_quote.items) AS item
+    );
+
+  UPDATE checkout_quotes
+  SET consumed_at = now(),
+      checkout_group_id = v_group.id
+  WHERE id = v_quote.id;
+
+  RETURN v_group;
+END;
+$$;
@@ -0,0 +1,350 @@
+/*
+  # Add Promo Codes
+
+  1. New Tables
+    - `promotions`
+      - `id` (uuid, primary key)
+      - `code` (text, unique, stored upper case)
+      - `description` (text)
+      - `discount_type` (text) - percentage, fixed_amount or free_delivery
+      - `discount_value` (decimal) - Percent off or naira off; unused for free delivery
+      - `max_discount` (decimal) - Optional cap for percentage codes
+      - `min_basket` (decimal) - Eligible subtotal needed to use the code
+      - `vendor_id` (uuid, foreign key to vendors) - Optional vendor scope
+      - `category_id` (uuid, foreign key to categories) - Optional category scope
+      - `starts_at`, `ends_at` (timestamptz) - Validity window, either end open
+      - `usage_limit` (integer) - Total redemptions allowed, null for unlimited
+      - `per_user_limit` (integer) - Redemptions per customer, null for unlimited
+      - `times_used` (integer)
+      - `is_active` (boolean)
+      - `created_by` (uuid, foreign key to profiles)
+      - `created_at`, `updated_at` (timestamptz)
+    - `promotion_redemptions`
+      - `id` (uuid, primary key)
+      - `promotion_id` (uuid, foreign key to promotions)
+      - `user_id` (uuid, foreign key to profiles)
+      - `checkout_group_id` (uuid, foreign key to checkout_groups)
+      - `discount_amount` (decimal)
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `orders`: add `discount_total` and `promotion_id`
+    - `checkout_groups`: add `discount_total` and `promotion_id`
+    - `checkout_quotes`: add `discount_total`
+
+  3. Functions
+    - `create_orders_from_quote` now copies each vendor's discount onto its
+      order and records the redemption. Usage caps are re-checked under a lock
+      so two checkouts cannot both take the last use of a code.
+
+  4. Security
+    - Enable RLS on both tables
+    - Only admins can read or manage promotions; customers validate codes
+      through `checkout-quote`
+    - Users can view their own redemptions; admins can view all
+*/
+
+-- Create promotions table
+CREATE TABLE IF NOT EXISTS promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL CHECK (code = upper(code)),
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed_amount', 'free_delivery')),
+  discount_value decimal(10, 2) DEFAULT 0 NOT NULL CHECK (discount_value >= 0),
+  max_discount decimal(10, 2) CHECK (max_discount IS NULL OR max_discount > 0),
+  min_basket decimal(10, 2) DEFAULT 0 NOT NULL CHECK (min_basket >= 0),
+  vendor_id uuid REFERENCES vendors(id) ON DELETE CASCADE,
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  usage_limit integer CHECK (usage_limit IS NULL OR usage_limit > 0),
+  per_user_limit integer DEFAULT 1 CHECK (per_user_limit IS NULL OR per_user_limit > 0),
+  times_used integer DEFAULT 0 NOT NULL,
+  is_active boolean DEFAULT true NOT NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+-- Create promotion_redemptions table
+CREATE TABLE IF NOT EXISTS promotion_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id uuid REFERENCES promotions(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  checkout_group_id uuid REFERENCES checkout_groups(id) ON DELETE CASCADE NOT NULL,
+  discount_amount decimal(10, 2) NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (promotion_id, checkout_group_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_promotion_user
+  ON promotion_redemptions(promotion_id, user_id);
+
+-- Enable RLS
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view promotions"
+  ON promotions FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can create promotions"
+  ON promotions FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update promotions"
+  ON promotions FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete promotions"
+  ON promotions FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Users can view own redemptions"
+  ON promotion_redemptions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all redemptions"
+  ON promotion_redemptions FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Discount columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'discount_total'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN discount_total decimal(10, 2) DEFAULT 0 NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'promotion_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'checkout_groups' AND column_name = 'discount_total'
+  ) THEN
+    ALTER TABLE checkout_groups ADD COLUMN discount_total decimal(10, 2) DEFAULT 0 NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'checkout_groups' AND column_name = 'promotion_id'
+  ) THEN
+    ALTER TABLE checkout_groups ADD COLUMN promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'checkout_quotes' AND column_name = 'discount_total'
+  ) THEN
+    ALTER TABLE checkout_quotes ADD COLUMN discount_total decimal(10, 2) DEFAULT 0 NOT NULL;
+  END IF;
+END $$;
+
+-- Create a checkout group and one order per vendor from a checkout quote
+CREATE OR REPLACE FUNCTION create_orders_from_quote(
+  p_quote_id uuid,
+  p_payment_status text,
+  p_payment_reference text DEFAULT NULL,
+  p_ignore_expiry boolean DEFAULT false
+)
+RETURNS checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote checkout_quotes%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_promotion promotions%ROWTYPE;
+  v_promotion_id uuid;
+  v_user_redemptions integer;
+  v_vendor_order jsonb;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_quote
+  FROM checkout_quotes
+  WHERE id = p_quote_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  -- Replaying a consumed quote returns the group it already created
+  IF v_quote.consumed_at IS NOT NULL THEN
+    SELECT * INTO v_group FROM checkout_groups WHERE id = v_quote.checkout_group_id;
+    RETURN v_group;
+  END IF;
+
+  -- Card payments are verified after the customer has paid, so the caller
+  -- may honour a quote that expired while the payment page was open
+  IF v_quote.expires_at < now() AND NOT p_ignore_expiry THEN
+    RAISE EXCEPTION 'Quote has expired';
+  END IF;
+
+  -- Quotes can be previewed before the address is entered, but not ordered
+  IF v_quote.order_data->>'delivery_type' = 'delivery'
+     AND COALESCE(trim(v_quote.order_data->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required';
+  END IF;
+
+  v_promotion_id := (v_quote.order_data->>'promotion_id')::uuid;
+
+  IF v_promotion_id IS NOT NULL THEN
+    SELECT * INTO v_promotion
+    FROM promotions
+    WHERE id = v_promotion_id
+    FOR UPDATE;
+
+    -- A customer who has already paid keeps the price they were quoted
+    IF NOT p_ignore_expiry THEN
+      IF NOT FOUND OR NOT v_promotion.is_active THEN
+        RAISE EXCEPTION 'Promo code is no longer available';
+      END IF;
+
+      IF v_promotion.usage_limit IS NOT NULL AND v_promotion.times_used >= v_promotion.usage_limit THEN
+        RAISE EXCEPTION 'Promo code % has been fully redeemed', v_promotion.code;
+      END IF;
+
+      IF v_promotion.per_user_limit IS NOT NULL THEN
+        SELECT count(*) INTO v_user_redemptions
+        FROM promotion_redemptions
+        WHERE promotion_id = v_promotion_id
+          AND user_id = v_quote.user_id;
+
+        IF v_user_redemptions >= v_promotion.per_user_limit THEN
+          RAISE EXCEPTION 'You have already used promo code %', v_promotion.code;
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO checkout_groups (
+    customer_id,
+    group_number,
+    subtotal,
+    delivery_fee,
+    discount_total,
+    total,
+    promotion_id,
+    payment_method,
+    payment_status,
+    payment_reference
+  ) VALUES (
+    v_quote.user_id,
+    v_quote.order_data->>'order_number',
+    v_quote.subtotal,
+    v_quote.delivery_fee,
+    v_quote.discount_total,
+    v_quote.total,
+    v_promotion_id,
+    v_quote.order_data->>'payment_method',
+    p_payment_status,
+    p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  FOR v_vendor_order IN
+    SELECT * FROM jsonb_array_elements(v_quote.vendor_orders)
+  LOOP
+    INSERT INTO orders (
+      customer_id,
+      vendor_id,
+      checkout_group_id,
+      order_number,
+      subtotal,
+      delivery_fee,
+      discount_total,
+      total,
+      promotion_id,
+      delivery_type,
+      delivery_address,
+      is_scheduled,
+      scheduled_delivery_time,
+      meal_time_preference,
+      payment_method,
+      status,
+      payment_status,
+      payment_reference,
+      delivery_latitude,
+      delivery_longitude,
+      delivery_distance_km,
+      delivery_address_snapshot
+    ) VALUES (
+      v_quote.user_id,
+      (v_vendor_order->>'vendor_id')::uuid,
+      v_group.id,
+      v_vendor_order->>'order_number',
+      (v_vendor_order->>'subtotal')::decimal,
+      (v_vendor_order->>'delivery_fee')::decimal,
+      COALESCE((v_vendor_order->>'discount')::decimal, 0),
+      (v_vendor_order->>'total')::decimal,
+      CASE WHEN COALESCE((v_vendor_order->>'discount')::decimal, 0) > 0 THEN v_promotion_id END,
+      v_quote.order_data->>'delivery_type',
+      v_quote.order_data->>'delivery_address',
+      COALESCE((v_quote.order_data->>'is_scheduled')::boolean, false),
+      (v_quote.order_data->>'scheduled_delivery_time')::timestamptz,
+      v_quote.order_data->>'meal_time_preference',
+      v_quote.order_data->>'payment_method',
+      'pending',
+      p_payment_status,
+      p_payment_reference,
+      (v_quote.order_data->>'delivery_latitude')::numeric,
+      (v_quote.order_data->>'delivery_longitude')::numeric,
+      (v_vendor_order->>'distance_km')::numeric,
+      v_quote.order_data->'delivery_address_snapshot'
+    )
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT
+      v_order_id,
+      (item->>'product_id')::uuid,
+      (item->>'quantity')::integer,
+      (item->>'unit_price')::decimal,
+      (item->>'subtotal')::decimal
+    FROM jsonb_array_elements(v_quote.items) AS item
+    WHERE item->>'vendor_id' = v_vendor_order->>'vendor_id';
+  END LOOP;
+
+  IF v_promotion_id IS NOT NULL AND v_promotion.id IS NOT NULL THEN
+    INSERT INTO promotion_redemptions (promotion_id, user_id, checkout_group_id, discount_amount)
+    VALUES (v_promotion_id, v_quote.user_id, v_group.id, v_quote.discount_total);
+
+    UPDATE promotions
+    SET times_used = times_used + 1,
+        updated_at = now()
+    WHERE id = v_promotion_id;
+  END IF;
+
+  DELETE FROM carts
+  WHERE user_id = v_quote.user_id
+    AND product_id IN (
+      SELECT (item->>'product_id')::uuid
+      FROM jsonb_array_elements(v_quote.items) AS item
+    );
+
+  UPDATE checkout_quotes
+  SET consumed_at = now(),
+      checkout_group_id = v_group.id
+  WHERE id = v_quote.id;
+
+  RETURN v_group;
+END;
+$$;
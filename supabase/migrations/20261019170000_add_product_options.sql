@@ -0,0 +1,364 @@
+/*
+  # Add Product Option Groups
+
+  1. New Tables
+    - `product_option_groups`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key to products)
+      - `name` (text) - e.g. "Size", "Extras"
+      - `is_required` (boolean)
+      - `min_selections` (integer) - At least 1 when the group is required
+      - `max_selections` (integer) - 1 makes the group a single choice
+      - `display_order` (integer)
+      - `created_at` (timestamptz)
+    - `product_options`
+      - `id` (uuid, primary key)
+      - `group_id` (uuid, foreign key to product_option_groups)
+      - `name` (text) - e.g. "Large", "Extra chicken"
+      - `price_delta` (decimal) - Added to the product price when chosen
+      - `is_available` (boolean)
+      - `display_order` (integer)
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `carts`: add `selected_options` (jsonb), `options_key` (text) and
+      `unit_price` (decimal). The same product with different options is a
+      separate cart line, so the one-line-per-product constraint is replaced
+      by one line per product and option combination.
+    - `order_items`: add `selected_options` (jsonb); `unit_price` now includes
+      the option prices
+
+  3. Functions
+    - `create_orders_from_quote` copies each item's chosen options onto its
+      order item
+
+  4. Security
+    - Enable RLS on both tables
+    - Anyone can view option groups and options
+    - Vendors can manage options on their own products; admins on any product
+*/
+
+-- Create product_option_groups table
+CREATE TABLE IF NOT EXISTS product_option_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  is_required boolean DEFAULT false NOT NULL,
+  min_selections integer DEFAULT 0 NOT NULL CHECK (min_selections >= 0),
+  max_selections integer DEFAULT 1 NOT NULL CHECK (max_selections >= 1),
+  display_order integer DEFAULT 0 NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (min_selections <= max_selections),
+  CHECK (NOT is_required OR min_selections >= 1)
+);
+
+-- Create product_options table
+CREATE TABLE IF NOT EXISTS product_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid REFERENCES product_option_groups(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  price_delta decimal(10, 2) DEFAULT 0 NOT NULL CHECK (price_delta >= 0),
+  is_available boolean DEFAULT true NOT NULL,
+  display_order integer DEFAULT 0 NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_option_groups_product_id ON product_option_groups(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_options_group_id ON product_options(group_id);
+
+-- Enable RLS
+ALTER TABLE product_option_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product option groups"
+  ON product_option_groups FOR SELECT
+  USING (true);
+
+CREATE POLICY "Vendors can manage own product option groups"
+  ON product_option_groups FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM products
+      JOIN vendors ON vendors.id = products.vendor_id
+      WHERE products.id = product_option_groups.product_id
+        AND vendors.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM products
+      JOIN vendors ON vendors.id = products.vendor_id
+      WHERE products.id = product_option_groups.product_id
+        AND vendors.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage product option groups"
+  ON product_option_groups FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Anyone can view product options"
+  ON product_options FOR SELECT
+  USING (true);
+
+CREATE POLICY "Vendors can manage own product options"
+  ON product_options FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM product_option_groups
+      JOIN products ON products.id = product_option_groups.product_id
+      JOIN vendors ON vendors.id = products.vendor_id
+      WHERE product_option_groups.id = product_options.group_id
+        AND vendors.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM product_option_groups
+      JOIN products ON products.id = product_option_groups.product_id
+      JOIN vendors ON vendors.id = products.vendor_id
+      WHERE product_option_groups.id = product_options.group_id
+        AND vendors.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage product options"
+  ON product_options FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Chosen options on cart lines and order items
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'carts' AND column_name = 'selected_options'
+  ) THEN
+    ALTER TABLE carts ADD COLUMN selected_options jsonb DEFAULT '[]'::jsonb NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'carts' AND column_name = 'options_key'
+  ) THEN
+    ALTER TABLE carts ADD COLUMN options_key text DEFAULT '' NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'carts' AND column_name = 'unit_price'
+  ) THEN
+    ALTER TABLE carts ADD COLUMN unit_price decimal(10, 2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'selected_options'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN selected_options jsonb DEFAULT '[]'::jsonb NOT NULL;
+  END IF;
+END $$;
+
+ALTER TABLE carts DROP CONSTRAINT IF EXISTS carts_user_id_product_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_carts_user_product_options
+  ON carts(user_id, product_id, options_key);
+
+-- Create a checkout group and one order per vendor from a checkout quote
+CREATE OR REPLACE FUNCTION create_orders_from_quote(
+  p_quote_id uuid,
+  p_payment_status text,
+  p_payment_reference text DEFAULT NULL,
+  p_ignore_expiry boolean DEFAULT false
+)
+RETURNS checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote checkout_quotes%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_promotion promotions%ROWTYPE;
+  v_promotion_id uuid;
+  v_user_redemptions integer;
+  v_vendor_order jsonb;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_quote
+  FROM checkout_quotes
+  WHERE id = p_quote_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  -- Replaying a consumed quote returns the group it already created
+  IF v_quote.consumed_at IS NOT NULL THEN
+    SELECT * INTO v_group FROM checkout_groups WHERE id = v_quote.checkout_group_id;
+    RETURN v_group;
+  END IF;
+
+  -- Card payments are verified after the customer has paid, so the caller
+  -- may honour a quote that expired while the payment page was open
+  IF v_quote.expires_at < now() AND NOT p_ignore_expiry THEN
+    RAISE EXCEPTION 'Quote has expired';
+  END IF;
+
+  -- Quotes can be previewed before the address is entered, but not ordered
+  IF v_quote.order_data->>'delivery_type' = 'delivery'
+     AND COALESCE(trim(v_quote.order_data->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required';
+  END IF;
+
+  v_promotion_id := (v_quote.order_data->>'promotion_id')::uuid;
+
+  IF v_promotion_id IS NOT NULL THEN
+    SELECT * INTO v_promotion
+    FROM promotions
+    WHERE id = v_promotion_id
+    FOR UPDATE;
+
+    -- A customer who has already paid keeps the price they were quoted
+    IF NOT p_ignore_expiry THEN
+      IF NOT FOUND OR NOT v_promotion.is_active THEN
+        RAISE EXCEPTION 'Promo code is no longer available';
+      END IF;
+
+      IF v_promotion.usage_limit IS NOT NULL AND v_promotion.times_used >= v_promotion.usage_limit THEN
+        RAISE EXCEPTION 'Promo code % has been fully redeemed', v_promotion.code;
+      END IF;
+
+      IF v_promotion.per_user_limit IS NOT NULL THEN
+        SELECT count(*) INTO v_user_redemptions
+        FROM promotion_redemptions
+        WHERE promotion_id = v_promotion_id
+          AND user_id = v_quote.user_id;
+
+        IF v_user_redemptions >= v_promotion.per_user_limit THEN
+          RAISE EXCEPTION 'You have already used promo code %', v_promotion.code;
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO checkout_groups (
+    customer_id,
+    group_number,
+    subtotal,
+    delivery_fee,
+    discount_total,
+    total,
+    promotion_id,
+    payment_method,
+    payment_status,
+    payment_reference
+  ) VALUES (
+    v_quote.user_id,
+    v_quote.order_data->>'order_number',
+    v_quote.subtotal,
+    v_quote.delivery_fee,
+    v_quote.discount_total,
+    v_quote.total,
+    v_promotion_id,
+    v_quote.order_data->>'payment_method',
+    p_payment_status,
+    p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  FOR v_vendor_order IN
+    SELECT * FROM jsonb_array_elements(v_quote.vendor_orders)
+  LOOP
+    INSERT INTO orders (
+      customer_id,
+      vendor_id,
+      checkout_group_id,
+      order_number,
+      subtotal,
+      delivery_fee,
+      discount_total,
+      total,
+      promotion_id,
+      delivery_type,
+      delivery_address,
+      is_scheduled,
+      scheduled_delivery_time,
+      meal_time_preference,
+      payment_method,
+      status,
+      payment_status,
+      payment_reference,
+      delivery_latitude,
+      delivery_longitude,
+      delivery_distance_km,
+      delivery_address_snapshot
+    ) VALUES (
+      v_quote.user_id,
+      (v_vendor_order->>'vendor_id')::uuid,
+      v_group.id,
+      v_vendor_order->>'order_number',
+      (v_vendor_order->>'subtotal')::decimal,
+      (v_vendor_order->>'delivery_fee')::decimal,
+      COALESCE((v_vendor_order->>'discount')::decimal, 0),
+      (v_vendor_order->>'total')::decimal,
+      CASE WHEN COALESCE((v_vendor_order->>'discount')::decimal, 0) > 0 THEN v_promotion_id END,
+      v_quote.order_data->>'delivery_type',
+      v_quote.order_data->>'delivery_address',
+      COALESCE((v_quote.order_data->>'is_scheduled')::boolean, false),
+      (v_quote.order_data->>'scheduled_delivery_time')::timestamptz,
+      v_quote.order_data->>'meal_time_preference',
+      v_quote.order_data->>'payment_method',
+      'pending',
+      p_payment_status,
+      p_payment_reference,
+      (v_quote.order_data->>'delivery_latitude')::numeric,
+      (v_quote.order_data->>'delivery_longitude')::numeric,
+      (v_vendor_order->>'distance_km')::numeric,
+      v_quote.order_data->'delivery_address_snapshot'
+    )
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal, selected_options)
+    SELECT
+      v_order_id,
+      (item->>'product_id')::uuid,
+      (item->>'quantity')::integer,
+      (item->>'unit_price')::decimal,
+      (item->>'subtotal')::decimal,
+      COALESCE(item->'selected_options', '[]'::jsonb)
+    FROM jsonb_array_elements(v_quote.items) AS item
+    WHERE item->>'vendor_id' = v_vendor_order->>'vendor_id';
+  END LOOP;
+
+  IF v_promotion_id IS NOT NULL AND v_promotion.id IS NOT NULL THEN
+    INSERT INTO promotion_redemptions (promotion_id, user_id, checkout_group_id, discount_amount)
+    VALUES (v_promotion_id, v_quote.user_id, v_group.id, v_quote.discount_total);
+
+    UPDATE promotions
+    SET times_used = times_used + 1,
+        updated_at = now()
+    WHERE id = v_promotion_id;
+  END IF;
+
+  DELETE FROM carts
+  WHERE user_id = v_quote.user_id
+    AND product_id IN (
+      SELECT (item->>'product_id')::uuid
+      FROM jsonb_array_elements(v_quote.items) AS item
+    );
+
+  UPDATE checkout_quotes
+  SET consumed_at = now(),
+      checkout_group_id = v_group.id
+  WHERE id = v_quote.id;
+
+  RETURN v_group;
+END;
+$$;
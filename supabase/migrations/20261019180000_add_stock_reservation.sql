@@ -0,0 +1,416 @@
+/*
+  # Reserve Stock for Orders
+
+  1. Modified Tables
+    - `products`
+      - `low_stock_threshold` (integer) - The vendor is notified when stock
+        falls to this level
+      - `sold_out_at` (timestamptz) - Set when stock runs out and the item is
+        hidden automatically; cleared when it is restocked
+    - `orders`
+      - `stock_reservations` (jsonb) - Quantity taken from each product when
+        the order was created, keyed by product id
+
+  2. Functions
+    - `create_orders_from_quote` takes each order's items out of stock and
+      refuses quantities that are no longer available. Paid card checkouts
+      are still honoured and only reserve what is left. Only the cart lines
+      that were quoted are removed from the cart.
+    - `release_order_stock` trigger puts reserved stock back when an order is
+      cancelled
+    - `handle_product_sold_out` trigger marks items unavailable at zero stock
+      and available again when restocked
+    - `notify_vendor_low_stock` trigger notifies the vendor when an item runs
+      low or sells out
+
+  3. Security
+    - Trigger functions run with security definer privileges so stock can be
+      released and notifications created regardless of who changes the row
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'low_stock_threshold'
+  ) THEN
+    ALTER TABLE products ADD COLUMN low_stock_threshold integer DEFAULT 5 NOT NULL CHECK (low_stock_threshold >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'sold_out_at'
+  ) THEN
+    ALTER TABLE products ADD COLUMN sold_out_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'stock_reservations'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN stock_reservations jsonb DEFAULT '{}'::jsonb NOT NULL;
+  END IF;
+END $$;
+
+-- Hide items that run out and bring them back when the vendor restocks
+CREATE OR REPLACE FUNCTION handle_product_sold_out()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.stock_quantity <= 0 AND OLD.stock_quantity > 0 AND NEW.is_available THEN
+    NEW.is_available := false;
+    NEW.is_available_now := false;
+    NEW.sold_out_at := now();
+  ELSIF NEW.stock_quantity > 0 AND OLD.sold_out_at IS NOT NULL THEN
+    -- A vendor switching the item off in the same edit keeps it off
+    IF NEW.is_available IS NOT DISTINCT FROM OLD.is_available THEN
+      NEW.is_available := true;
+      NEW.is_available_now := true;
+    END IF;
+    NEW.sold_out_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_product_stock_changed ON products;
+CREATE TRIGGER on_product_stock_changed
+  BEFORE UPDATE OF stock_quantity ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_product_sold_out();
+
+-- Let the vendor know when an item is running low or has sold out
+CREATE OR REPLACE FUNCTION notify_vendor_low_stock()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_vendor_user_id uuid;
+BEGIN
+  SELECT user_id INTO v_vendor_user_id
+  FROM vendors
+  WHERE id = NEW.vendor_id;
+
+  IF v_vendor_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.stock_quantity <= 0 AND OLD.stock_quantity > 0 THEN
+    INSERT INTO notifications (user_id, type, title, message, data, read, created_at)
+    VALUES (
+      v_vendor_user_id,
+      'sold_out',
+      'Item Sold Out',
+      NEW.name || ' is sold out and has been hidden from your menu. Restock it to start selling again.',
+      jsonb_build_object('product_id', NEW.id, 'stock_quantity', NEW.stock_quantity),
+      false,
+      now()
+    );
+  ELSIF NEW.stock_quantity <= NEW.low_stock_threshold AND OLD.stock_quantity > NEW.low_stock_threshold THEN
+    INSERT INTO notifications (user_id, type, title, message, data, read, created_at)
+    VALUES (
+      v_vendor_user_id,
+      'low_stock',
+      'Low Stock',
+      'Only ' || NEW.stock_quantity || ' of ' || NEW.name || ' left.',
+      jsonb_build_object('product_id', NEW.id, 'stock_quantity', NEW.stock_quantity),
+      false,
+      now()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_product_stock_low ON products;
+CREATE TRIGGER on_product_stock_low
+  AFTER UPDATE OF stock_quantity ON products
+  FOR EACH ROW
+  WHEN (NEW.stock_quantity < OLD.stock_quantity)
+  EXECUTE FUNCTION notify_vendor_low_stock();
+
+-- Put reserved stock back when an order is cancelled
+CREATE OR REPLACE FUNCTION release_order_stock()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_reservation record;
+BEGIN
+  FOR v_reservation IN
+    SELECT key::uuid AS product_id, value::integer AS quantity
+    FROM jsonb_each_text(NEW.stock_reservations)
+    ORDER BY 1
+  LOOP
+    UPDATE products
+    SET stock_quantity = stock_quantity + v_reservation.quantity,
+        updated_at = now()
+    WHERE id = v_reservation.product_id;
+  END LOOP;
+
+  -- Cleared so a cancelled order can never release twice
+  NEW.stock_reservations := '{}'::jsonb;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_cancelled_release_stock ON orders;
+CREATE TRIGGER on_order_cancelled_release_stock
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND NEW.stock_reservations <> '{}'::jsonb)
+  EXECUTE FUNCTION release_order_stock();
+
+-- Create a checkout group and one order per vendor from a checkout quote
+CREATE OR REPLACE FUNCTION create_orders_from_quote(
+  p_quote_id uuid,
+  p_payment_status text,
+  p_payment_reference text DEFAULT NULL,
+  p_ignore_expiry boolean DEFAULT false
+)
+RETURNS checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote checkout_quotes%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_promotion promotions%ROWTYPE;
+  v_promotion_id uuid;
+  v_user_redemptions integer;
+  v_vendor_order jsonb;
+  v_order_id uuid;
+  v_stock record;
+  v_reserved jsonb;
+  v_product_name text;
+  v_available integer;
+BEGIN
+  SELECT * INTO v_quote
+  FROM checkout_quotes
+  WHERE id = p_quote_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  -- Replaying a consumed quote returns the group it already created
+  IF v_quote.consumed_at IS NOT NULL THEN
+    SELECT * INTO v_group FROM checkout_groups WHERE id = v_quote.checkout_group_id;
+    RETURN v_group;
+  END IF;
+
+  -- Card payments are verified after the customer has paid, so the caller
+  -- may honour a quote that expired while the payment page was open
+  IF v_quote.expires_at < now() AND NOT p_ignore_expiry THEN
+    RAISE EXCEPTION 'Quote has expired';
+  END IF;
+
+  -- Quotes can be previewed before the address is entered, but not ordered
+  IF v_quote.order_data->>'delivery_type' = 'delivery'
+     AND COALESCE(trim(v_quote.order_data->>'delivery_address'), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required';
+  END IF;
+
+  v_promotion_id := (v_quote.order_data->>'promotion_id')::uuid;
+
+  IF v_promotion_id IS NOT NULL THEN
+    SELECT * INTO v_promotion
+    FROM promotions
+    WHERE id = v_promotion_id
+    FOR UPDATE;
+
+    -- A customer who has already paid keeps the price they were quoted
+    IF NOT p_ignore_expiry THEN
+      IF NOT FOUND OR NOT v_promotion.is_active THEN
+        RAISE EXCEPTION 'Promo code is no longer available';
+      END IF;
+
+      IF v_promotion.usage_limit IS NOT NULL AND v_promotion.times_used >= v_promotion.usage_limit THEN
+        RAISE EXCEPTION 'Promo code % has been fully redeemed', v_promotion.code;
+      END IF;
+
+      IF v_promotion.per_user_limit IS NOT NULL THEN
+        SELECT count(*) INTO v_user_redemptions
+        FROM promotion_redemptions
+        WHERE promotion_id = v_promotion_id
+          AND user_id = v_quote.user_id;
+
+        IF v_user_redemptions >= v_promotion.per_user_limit THEN
+          RAISE EXCEPTION 'You have already used promo code %', v_promotion.code;
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO checkout_groups (
+    customer_id,
+    group_number,
+    subtotal,
+    delivery_fee,
+    discount_total,
+    total,
+    promotion_id,
+    payment_method,
+    payment_status,
+    payment_reference
+  ) VALUES (
+    v_quote.user_id,
+    v_quote.order_data->>'order_number',
+    v_quote.subtotal,
+    v_quote.delivery_fee,
+    v_quote.discount_total,
+    v_quote.total,
+    v_promotion_id,
+    v_quote.order_data->>'payment_method',
+    p_payment_status,
+    p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  FOR v_vendor_order IN
+    SELECT * FROM jsonb_array_elements(v_quote.vendor_orders)
+  LOOP
+    INSERT INTO orders (
+      customer_id,
+      vendor_id,
+      checkout_group_id,
+      order_number,
+      subtotal,
+      delivery_fee,
+      discount_total,
+      total,
+      promotion_id,
+      delivery_type,
+      delivery_address,
+      is_scheduled,
+      scheduled_delivery_time,
+      meal_time_preference,
+      payment_method,
+      status,
+      payment_status,
+      payment_reference,
+      delivery_latitude,
+      delivery_longitude,
+      delivery_distance_km,
+      delivery_address_snapshot
+    ) VALUES (
+      v_quote.user_id,
+      (v_vendor_order->>'vendor_id')::uuid,
+      v_group.id,
+      v_vendor_order->>'order_number',
+      (v_vendor_order->>'subtotal')::decimal,
+      (v_vendor_order->>'delivery_fee')::decimal,
+      COALESCE((v_vendor_order->>'discount')::decimal, 0),
+      (v_vendor_order->>'total')::decimal,
+      CASE WHEN COALESCE((v_vendor_order->>'discount')::decimal, 0) > 0 THEN v_promotion_id END,
+      v_quote.order_data->>'delivery_type',
+      v_quote.order_data->>'delivery_address',
+      COALESCE((v_quote.order_data->>'is_scheduled')::boolean, false),
+      (v_quote.order_data->>'scheduled_delivery_time')::timestamptz,
+      v_quote.order_data->>'meal_time_preference',
+      v_quote.order_data->>'payment_method',
+      'pending',
+      p_payment_status,
+      p_payment_reference,
+      (v_quote.order_data->>'delivery_latitude')::numeric,
+      (v_quote.order_data->>'delivery_longitude')::numeric,
+      (v_vendor_order->>'distance_km')::numeric,
+      v_quote.order_data->'delivery_address_snapshot'
+    )
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal, selected_options)
+    SELECT
+      v_order_id,
+      (item->>'product_id')::uuid,
+      (item->>'quantity')::integer,
+      (item->>'unit_price')::decimal,
+      (item->>'subtotal')::decimal,
+      COALESCE(item->'selected_options', '[]'::jsonb)
+    FROM jsonb_array_elements(v_quote.items) AS item
+    WHERE item->>'vendor_id' = v_vendor_order->>'vendor_id';
+
+    -- Reserve stock for the order. Products are locked in id order so
+    -- concurrent checkouts of the same items queue instead of deadlocking.
+    v_reserved := '{}'::jsonb;
+
+    FOR v_stock IN
+      SELECT
+        (item->>'product_id')::uuid AS product_id,
+        sum((item->>'quantity')::integer)::integer AS quantity
+      FROM jsonb_array_elements(v_quote.items) AS item
+      WHERE item->>'vendor_id' = v_vendor_order->>'vendor_id'
+      GROUP BY 1
+      ORDER BY 1
+    LOOP
+      SELECT name, GREATEST(stock_quantity, 0) INTO v_product_name, v_available
+      FROM products
+      WHERE id = v_stock.product_id
+      FOR UPDATE;
+
+      -- A customer who has already paid still gets their order; the vendor
+      -- is left to cancel and refund anything they cannot make
+      IF v_available < v_stock.quantity AND NOT p_ignore_expiry THEN
+        IF v_available = 0 THEN
+          RAISE EXCEPTION '% is sold out', v_product_name;
+        END IF;
+        RAISE EXCEPTION 'Only % of % left', v_available, v_product_name;
+      END IF;
+
+      UPDATE products
+      SET stock_quantity = v_available - LEAST(v_available, v_stock.quantity),
+          updated_at = now()
+      WHERE id = v_stock.product_id;
+
+      -- Only what was actually taken is put back on cancellation
+      v_reserved := v_reserved || jsonb_build_object(
+        v_stock.product_id::text,
+        LEAST(v_available, v_stock.quantity)
+      );
+    END LOOP;
+
+    UPDATE orders
+    SET stock_reservations = v_reserved
+    WHERE id = v_order_id;
+  END LOOP;
+
+  IF v_promotion_id IS NOT NULL AND v_promotion.id IS NOT NULL THEN
+    INSERT INTO promotion_redemptions (promotion_id, user_id, checkout_group_id, discount_amount)
+    VALUES (v_promotion_id, v_quote.user_id, v_group.id, v_quote.discount_total);
+
+    UPDATE promotions
+    SET times_used = times_used + 1,
+        updated_at = now()
+    WHERE id = v_promotion_id;
+  END IF;
+
+  -- Only the cart lines that were priced; lines added since the quote and
+  -- other option choices of the same product stay in the cart
+  DELETE FROM carts
+  WHERE user_id = v_quote.user_id
+    AND id IN (
+      SELECT (item->>'cart_id')::uuid
+      FROM jsonb_array_elements(v_quote.items) AS item
+      WHERE item->>'cart_id' IS NOT NULL
+    );
+
+  UPDATE checkout_quotes
+  SET consumed_at = now(),
+      checkout_group_id = v_group.id
+  WHERE id = v_quote.id;
+
+  RETURN v_group;
+END;
+$$;
@@ -0,0 +1,467 @@
+/*
+  # Automatic Rider Dispatch
+
+  1. Modified Tables
+    - `rider_live_status`
+      - `latitude`, `longitude` (numeric) - Rider's last known position
+      - `location_updated_at` (timestamptz)
+    - `orders`
+      - `dispatch_started_at` (timestamptz) - Start of the current dispatch
+        round; offers made before it are ignored when picking riders
+      - `dispatch_escalated_at` (timestamptz) - Set when dispatch gave up and
+        an admin has to assign the order
+    - `order_assignments`
+      - `is_auto` (boolean) - Offer made by the dispatcher rather than an admin
+      - `attempt_number` (integer) - Position of the offer in its dispatch round
+      - `distance_km` (numeric) - Rider's distance from the vendor at offer time
+    - `platform_settings` seeded with `dispatch_settings`:
+      - `enabled` - Turns automatic dispatch on or off
+      - `offer_timeout_minutes` - How long a rider has to accept
+      - `max_attempts` - Rejected or expired offers before admins are alerted
+      - `search_radius_km` - Riders further than this from the vendor are skipped
+      - `max_active_orders` - Riders already carrying this many orders are skipped
+      - `location_max_age_minutes` - Rider positions older than this are
+        treated as unknown
+
+  2. Functions
+    - `distance_km(lat1, lng1, lat2, lng2)` - Great-circle distance
+    - `dispatch_order(p_order_id)` - Offers the order to the best available
+      rider who has not been offered it yet. Once `max_attempts` offers
+      have been declined or have lapsed, it escalates to admins. Riders
+      with a recent position near the vendor come first; riders whose
+      position is unknown or stale are only tried after them
+    - `run_dispatch_sweep()` - Expires stale offers and dispatches confirmed
+      delivery orders still waiting for a rider; scheduled every minute with
+      pg_cron where the extension is available
+    - `retry_order_dispatch(p_order_id)` - Lets an admin restart dispatch for
+      an escalated order
+    - Triggers dispatch orders when a vendor confirms them and cascade to the
+      next rider when an offer is rejected or expires
+    - `notify_rider_on_assignment` now states the real acceptance window
+
+  3. Security
+    - Dispatch functions run with security definer privileges
+    - Only admins can call `retry_order_dispatch`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rider_live_status' AND column_name = 'latitude'
+  ) THEN
+    ALTER TABLE rider_live_status ADD COLUMN latitude numeric(10, 7);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rider_live_status' AND column_name = 'longitude'
+  ) THEN
+    ALTER TABLE rider_live_status ADD COLUMN longitude numeric(10, 7);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rider_live_status' AND column_name = 'location_updated_at'
+  ) THEN
+    ALTER TABLE rider_live_status ADD COLUMN location_updated_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'dispatch_started_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN dispatch_started_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'dispatch_escalated_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN dispatch_escalated_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_assignments' AND column_name = 'is_auto'
+  ) THEN
+    ALTER TABLE order_assignments ADD COLUMN is_auto boolean DEFAULT false NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_assignments' AND column_name = 'attempt_number'
+  ) THEN
+    ALTER TABLE order_assignments ADD COLUMN attempt_number integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_assignments' AND column_name = 'distance_km'
+  ) THEN
+    ALTER TABLE order_assignments ADD COLUMN distance_km numeric(8, 2);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_order_assignments_order_id ON order_assignments(order_id);
+CREATE INDEX IF NOT EXISTS idx_orders_awaiting_dispatch
+  ON orders(status, created_at)
+  WHERE assigned_rider_id IS NULL AND delivery_type = 'delivery';
+
+INSERT INTO platform_settings (key, value)
+VALUES (
+  'dispatch_settings',
+  jsonb_build_object(
+    'enabled', true,
+    'offer_timeout_minutes', 10,
+    'max_attempts', 5,
+    'search_radius_km', 10,
+    'max_active_orders', 2,
+    'location_max_age_minutes', 10
+  )
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- Great-circle distance in kilometres
+CREATE OR REPLACE FUNCTION distance_km(
+  p_lat1 numeric,
+  p_lng1 numeric,
+  p_lat2 numeric,
+  p_lng2 numeric
+)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (
+    6371 * 2 * asin(sqrt(
+      power(sin(radians(p_lat2 - p_lat1) / 2), 2)
+      + cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+    ))
+  )::numeric;
+$$;
+
+-- Offer an order to the next best rider, or hand it to admins
+CREATE OR REPLACE FUNCTION dispatch_order(p_order_id uuid)
+RETURNS order_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_order orders%ROWTYPE;
+  v_vendor vendors%ROWTYPE;
+  v_attempts integer;
+  v_max_attempts integer;
+  v_radius numeric;
+  v_location_max_age integer;
+  v_candidate record;
+  v_assignment order_assignments%ROWTYPE;
+BEGIN
+  SELECT value INTO v_settings FROM platform_settings WHERE key = 'dispatch_settings';
+  v_settings := COALESCE(v_settings, '{}'::jsonb);
+
+  IF NOT COALESCE((v_settings->>'enabled')::boolean, true) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+     OR v_order.delivery_type <> 'delivery'
+     OR v_order.assigned_rider_id IS NOT NULL
+     OR v_order.status NOT IN ('pending', 'confirmed')
+     OR v_order.dispatch_escalated_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- One live offer at a time, whether the dispatcher or an admin made it
+  IF EXISTS (
+    SELECT 1 FROM order_assignments
+    WHERE order_id = p_order_id
+      AND status = 'pending'
+      AND expires_at > now()
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_order.dispatch_started_at IS NULL THEN
+    UPDATE orders SET dispatch_started_at = now() WHERE id = p_order_id;
+    v_order.dispatch_started_at := now();
+  END IF;
+
+  SELECT count(*) INTO v_attempts
+  FROM order_assignments
+  WHERE order_id = p_order_id
+    AND is_auto
+    AND assigned_at >= v_order.dispatch_started_at;
+
+  v_max_attempts := COALESCE((v_settings->>'max_attempts')::integer, 5);
+  v_radius := COALESCE((v_settings->>'search_radius_km')::numeric, 10);
+  v_location_max_age := COALESCE((v_settings->>'location_max_age_minutes')::integer, 10);
+
+  SELECT * INTO v_vendor FROM vendors WHERE id = v_order.vendor_id;
+
+  IF v_attempts < v_max_attempts THEN
+    -- Riders are ranked by distance to the vendor in km, with each order
+    -- they are already carrying counting as 2 km further away and each
+    -- rating star as 0.5 km closer. Only a recently reported position
+    -- counts. Riders outside the search radius are skipped; riders whose
+    -- distance is unknown (no recent position, or a vendor without
+    -- coordinates) are only offered the order when no located rider is free.
+    SELECT * INTO v_candidate
+    FROM (
+      SELECT
+        riders.id,
+        riders.rating,
+        CASE
+          WHEN v_vendor.latitude IS NULL
+            OR v_vendor.longitude IS NULL
+            OR live.latitude IS NULL
+            OR live.longitude IS NULL
+            OR live.location_updated_at IS NULL
+            OR live.location_updated_at < now() - make_interval(mins => v_location_max_age)
+          THEN NULL
+          ELSE round(distance_km(v_vendor.latitude, v_vendor.longitude, live.latitude, live.longitude), 2)
+        END AS distance,
+        (
+          SELECT count(*) FROM orders active
+          WHERE active.assigned_rider_id = riders.id
+            AND active.status NOT IN ('delivered', 'cancelled')
+        ) AS active_orders
+      FROM riders
+      JOIN rider_live_status live ON live.rider_id = riders.id
+      WHERE riders.status = 'approved'
+        AND live.status = 'available'
+        AND NOT EXISTS (
+          SELECT 1 FROM order_assignments previous
+          WHERE previous.order_id = p_order_id
+            AND previous.rider_id = riders.id
+            AND previous.assigned_at >= v_order.dispatch_started_at
+        )
+    ) candidates
+    WHERE (distance IS NULL OR distance <= v_radius)
+      AND active_orders < COALESCE((v_settings->>'max_active_orders')::integer, 2)
+    ORDER BY
+      distance IS NULL,
+      COALESCE(distance, v_radius) + active_orders * 2 - COALESCE(rating, 0) * 0.5,
+      id
+    LIMIT 1;
+
+    IF FOUND THEN
+      INSERT INTO order_assignments (
+        order_id,
+        rider_id,
+        status,
+        assigned_at,
+        expires_at,
+        is_auto,
+        attempt_number,
+        distance_km
+      ) VALUES (
+        p_order_id,
+        v_candidate.id,
+        'pending',
+        now(),
+        now() + make_interval(mins => COALESCE((v_settings->>'offer_timeout_minutes')::integer, 10)),
+        true,
+        v_attempts + 1,
+        v_candidate.distance
+      )
+      RETURNING * INTO v_assignment;
+
+      RETURN v_assignment;
+    END IF;
+
+    -- Nobody free yet; the sweep will try again until max_attempts offers
+    -- have been made
+    RETURN NULL;
+  END IF;
+
+  -- The order has been declined or left to lapse max_attempts times
+  UPDATE orders
+  SET dispatch_escalated_at = now()
+  WHERE id = p_order_id;
+
+  INSERT INTO notifications (user_id, type, title, message, data, read, created_at)
+  SELECT
+    profiles.id,
+    'dispatch_escalation',
+    'Order Needs a Rider',
+    'No rider accepted order ' || v_order.order_number || ' after ' || v_attempts || ' offers. Please assign it manually.',
+    jsonb_build_object('order_id', p_order_id, 'order_number', v_order.order_number, 'attempts', v_attempts),
+    false,
+    now()
+  FROM profiles
+  WHERE profiles.role = 'admin';
+
+  RETURN NULL;
+END;
+$$;
+
+-- Expire lapsed offers and pick up orders that are still waiting
+CREATE OR REPLACE FUNCTION run_dispatch_sweep()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_dispatched integer := 0;
+BEGIN
+  -- Expiring an offer fires the cascade trigger for its order
+  PERFORM expire_old_assignments();
+
+  FOR v_order_id IN
+    SELECT id FROM orders
+    WHERE delivery_type = 'delivery'
+      AND status = 'confirmed'
+      AND assigned_rider_id IS NULL
+      AND dispatch_escalated_at IS NULL
+    ORDER BY created_at
+  LOOP
+    IF dispatch_order(v_order_id) IS NOT NULL THEN
+      v_dispatched := v_dispatched + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_dispatched;
+END;
+$$;
+
+-- Start a fresh dispatch round for an escalated order
+CREATE OR REPLACE FUNCTION retry_order_dispatch(p_order_id uuid)
+RETURNS order_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can restart dispatch';
+  END IF;
+
+  UPDATE orders
+  SET dispatch_escalated_at = NULL,
+      dispatch_started_at = now()
+  WHERE id = p_order_id;
+
+  RETURN dispatch_order(p_order_id);
+END;
+$$;
+
+-- Dispatch as soon as the vendor confirms a delivery order
+CREATE OR REPLACE FUNCTION dispatch_confirmed_order()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM dispatch_order(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_confirmed_dispatch ON orders;
+CREATE TRIGGER on_order_confirmed_dispatch
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (
+    NEW.status = 'confirmed'
+    AND OLD.status IS DISTINCT FROM 'confirmed'
+    AND NEW.delivery_type = 'delivery'
+    AND NEW.assigned_rider_id IS NULL
+  )
+  EXECUTE FUNCTION dispatch_confirmed_order();
+
+-- Move on to the next rider when an offer is declined or lapses
+CREATE OR REPLACE FUNCTION cascade_order_dispatch()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM dispatch_order(NEW.order_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_assignment_declined ON order_assignments;
+CREATE TRIGGER on_order_assignment_declined
+  AFTER UPDATE OF status ON order_assignments
+  FOR EACH ROW
+  WHEN (OLD.status = 'pending' AND NEW.status IN ('rejected', 'expired'))
+  EXECUTE FUNCTION cascade_order_dispatch();
+
+-- Tell the rider how long they actually have to accept
+CREATE OR REPLACE FUNCTION notify_rider_on_assignment()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_rider_user_id uuid;
+  v_order_number text;
+  v_delivery_address text;
+  v_minutes integer;
+BEGIN
+  SELECT user_id INTO v_rider_user_id
+  FROM riders
+  WHERE id = NEW.rider_id;
+
+  SELECT order_number, delivery_address INTO v_order_number, v_delivery_address
+  FROM orders
+  WHERE id = NEW.order_id;
+
+  v_minutes := GREATEST(ceil(extract(epoch FROM NEW.expires_at - now()) / 60)::integer, 1);
+
+  IF v_rider_user_id IS NOT NULL THEN
+    INSERT INTO notifications (
+      user_id,
+      type,
+      title,
+      message,
+      data,
+      read,
+      created_at
+    ) VALUES (
+      v_rider_user_id,
+      'order_assignment',
+      'New Order Assignment',
+      'You have been assigned order ' || v_order_number || '. Please accept within ' || v_minutes
+        || CASE WHEN v_minutes = 1 THEN ' minute.' ELSE ' minutes.' END,
+      jsonb_build_object(
+        'order_id', NEW.order_id,
+        'assignment_id', NEW.id,
+        'order_number', v_order_number,
+        'delivery_address', v_delivery_address,
+        'expires_at', NEW.expires_at
+      ),
+      false,
+      now()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION dispatch_order(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION run_dispatch_sweep() FROM PUBLIC, anon, authenticated;
+
+-- Offers expire and waiting orders are retried every minute
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('dispatch-sweep', '* * * * *', 'SELECT run_dispatch_sweep()');
+  END IF;
+END $$;
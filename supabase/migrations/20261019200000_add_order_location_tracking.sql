@@ -0,0 +1,113 @@
+/*
+  # Live Rider Location Tracking
+
+  1. New Tables
+    - `order_location_pings`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, foreign key to orders)
+      - `rider_id` (uuid, foreign key to riders)
+      - `latitude`, `longitude` (numeric) - Rider position
+      - `accuracy` (numeric) - Reported accuracy in metres
+      - `speed` (numeric) - Reported speed in metres per second
+      - `heading` (numeric) - Reported heading in degrees
+      - `recorded_at` (timestamptz)
+      - Kept after delivery so the route can be reviewed in disputes
+
+  2. Triggers
+    - `sync_rider_live_location` copies each ping onto `rider_live_status` so
+      dispatch always sees the rider's latest position
+
+  3. Security
+    - Enable RLS on `order_location_pings`
+    - Riders can record pings only for orders assigned to them that are still
+      in progress
+    - The order's customer, vendor and rider can view its pings; admins all
+
+  4. Realtime
+    - Add `order_location_pings` to the realtime publication so the tracking
+      screen follows the rider live
+*/
+
+-- Create order_location_pings table
+CREATE TABLE IF NOT EXISTS order_location_pings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  rider_id uuid REFERENCES riders(id) ON DELETE CASCADE NOT NULL,
+  latitude numeric(9, 6) NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude numeric(9, 6) NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  accuracy numeric(8, 2),
+  speed numeric(8, 2),
+  heading numeric(6, 2),
+  recorded_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_location_pings_order_recorded
+  ON order_location_pings(order_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_order_location_pings_rider_id ON order_location_pings(rider_id);
+
+-- Enable RLS
+ALTER TABLE order_location_pings ENABLE ROW LEVEL SECURITY;
+
+-- Riders can only publish their position for active orders assigned to them
+CREATE POLICY "Riders can record pings for assigned orders"
+  ON order_location_pings FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    rider_id IN (SELECT id FROM riders WHERE user_id = auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_location_pings.order_id
+        AND orders.assigned_rider_id = order_location_pings.rider_id
+        AND orders.status NOT IN ('delivered', 'cancelled')
+    )
+  );
+
+CREATE POLICY "Riders can view own pings"
+  ON order_location_pings FOR SELECT
+  TO authenticated
+  USING (rider_id IN (SELECT id FROM riders WHERE user_id = auth.uid()));
+
+CREATE POLICY "Customers and vendors can view pings for their orders"
+  ON order_location_pings FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_location_pings.order_id
+        AND (orders.customer_id = auth.uid() OR orders.vendor_user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view all pings"
+  ON order_location_pings FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Keep the rider's live position current for dispatch
+CREATE OR REPLACE FUNCTION sync_rider_live_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE rider_live_status
+  SET latitude = NEW.latitude,
+      longitude = NEW.longitude,
+      location_updated_at = NEW.recorded_at,
+      last_active_at = now(),
+      updated_at = now()
+  WHERE rider_id = NEW.rider_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_location_ping ON order_location_pings;
+CREATE TRIGGER on_order_location_ping
+  AFTER INSERT ON order_location_pings
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_rider_live_location();
+
+-- Enable realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE order_location_pings;
@@ -0,0 +1,126 @@
+/*
+  # Optimised Batch Delivery Routes
+
+  1. Modified Tables
+    - `batch_delivery_orders`: add `pickup_sequence` (integer) - Position of the
+      order's vendor pickup in the route. `delivery_sequence` becomes the position
+      of its drop-off in the same route, so pickups and drop-offs share one
+      numbering and each pickup comes before its drop-off
+    - `batch_deliveries`:
+      - add `estimated_distance_km` (numeric) - Length of the planned route
+      - add `estimated_duration_minutes` (integer) - Travel time of the planned route
+      - add `route_optimized_at` (timestamptz)
+
+  2. Functions
+    - `apply_batch_route(p_batch_id, p_stops, p_distance_km, p_duration_minutes)`
+      - Admin only
+      - Rewrites the pickup and drop-off sequence of every order in the batch in
+        one transaction and stores the route estimate
+      - Rejects routes that miss an order or drop one off before its pickup
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'batch_delivery_orders' AND column_name = 'pickup_sequence'
+  ) THEN
+    ALTER TABLE batch_delivery_orders ADD COLUMN pickup_sequence integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'batch_deliveries' AND column_name = 'estimated_distance_km'
+  ) THEN
+    ALTER TABLE batch_deliveries ADD COLUMN estimated_distance_km numeric(8, 2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'batch_deliveries' AND column_name = 'estimated_duration_minutes'
+  ) THEN
+    ALTER TABLE batch_deliveries ADD COLUMN estimated_duration_minutes integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'batch_deliveries' AND column_name = 'route_optimized_at'
+  ) THEN
+    ALTER TABLE batch_deliveries ADD COLUMN route_optimized_at timestamptz;
+  END IF;
+END $$;
+
+-- p_stops: [{ "order_id": uuid, "pickup_sequence": int, "delivery_sequence": int }]
+CREATE OR REPLACE FUNCTION apply_batch_route(
+  p_batch_id uuid,
+  p_stops jsonb,
+  p_distance_km numeric,
+  p_duration_minutes integer
+)
+RETURNS batch_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch batch_deliveries;
+  v_stop jsonb;
+  v_order_count integer;
+  v_updated integer := 0;
+  v_row_count integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change batch routes';
+  END IF;
+
+  SELECT * INTO v_batch
+  FROM batch_deliveries
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Batch not found';
+  END IF;
+
+  IF v_batch.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'This batch is already %', v_batch.status;
+  END IF;
+
+  SELECT count(*) INTO v_order_count
+  FROM batch_delivery_orders
+  WHERE batch_id = p_batch_id;
+
+  IF jsonb_array_length(p_stops) <> v_order_count THEN
+    RAISE EXCEPTION 'The route must include every order in the batch';
+  END IF;
+
+  FOR v_stop IN SELECT * FROM jsonb_array_elements(p_stops)
+  LOOP
+    IF (v_stop->>'pickup_sequence')::integer >= (v_stop->>'delivery_sequence')::integer THEN
+      RAISE EXCEPTION 'Each order must be picked up before it is dropped off';
+    END IF;
+
+    UPDATE batch_delivery_orders
+    SET pickup_sequence = (v_stop->>'pickup_sequence')::integer,
+        delivery_sequence = (v_stop->>'delivery_sequence')::integer
+    WHERE batch_id = p_batch_id
+      AND order_id = (v_stop->>'order_id')::uuid;
+
+    GET DIAGNOSTICS v_row_count = ROW_COUNT;
+    v_updated := v_updated + v_row_count;
+  END LOOP;
+
+  IF v_updated <> v_order_count THEN
+    RAISE EXCEPTION 'The route must include every order in the batch';
+  END IF;
+
+  UPDATE batch_deliveries
+  SET estimated_distance_km = p_distance_km,
+      estimated_duration_minutes = p_duration_minutes,
+      route_optimized_at = now()
+  WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$;
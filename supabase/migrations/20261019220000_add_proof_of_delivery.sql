@@ -0,0 +1,362 @@
+/*
+  # Proof of Delivery
+
+  1. Modified Tables
+    - `vendors`: add `delivery_proof_policy` (jsonb) - Which proof the vendor wants:
+      `code_required`, `code_min_order_total` (0 means every order),
+      `photo_required` and `signature_required`
+    - `orders`:
+      - add `delivery_proof_requirements` (jsonb) - `code`, `photo` and `signature`
+        flags worked out from the vendor's policy when the order is placed, so later
+        policy changes don't affect orders already on the road
+      - add `delivery_code_verified_at` (timestamptz)
+      - add `delivery_photo_path` (text) - Object path in the `delivery-proofs` bucket
+      - add `delivery_signature` (jsonb) - `{ width, height, paths }` of SVG strokes
+
+  2. New Tables
+    - `order_delivery_codes`
+      - `order_id` (uuid, primary key, foreign key to orders)
+      - `code` (text) - 4-digit code the customer gives the rider
+      - `failed_attempts` (integer) - Wrong codes entered so far
+      - `created_at` (timestamptz)
+      - Kept apart from `orders` so riders, who can read their orders, can't read it
+
+  3. Functions
+    - `complete_delivery(p_order_id, p_code, p_photo_path, p_signature)`
+      - Only the assigned rider can call it
+      - Checks the code and any required photo or signature, then marks the order
+        delivered and records the proof
+      - Returns `{ success, error, attempts_left }` rather than raising, so failed
+        code attempts are counted; after 5 wrong codes support has to step in
+
+  4. Triggers
+    - New delivery orders get their proof requirements and a delivery code
+    - Clients can't write proof columns directly, and can't mark an order needing
+      proof as delivered without `complete_delivery` (admins can override)
+
+  5. Storage
+    - Private `delivery-proofs` bucket, one folder per order id
+    - The assigned rider can upload; the customer, vendor, rider and admins can view
+
+  6. Security
+    - Enable RLS on `order_delivery_codes`; the customer can view their own codes,
+      admins all
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'vendors' AND column_name = 'delivery_proof_policy'
+  ) THEN
+    ALTER TABLE vendors ADD COLUMN delivery_proof_policy jsonb DEFAULT jsonb_build_object(
+      'code_required', false,
+      'code_min_order_total', 0,
+      'photo_required', false,
+      'signature_required', false
+    ) NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_proof_requirements'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_proof_requirements jsonb DEFAULT jsonb_build_object(
+      'code', false,
+      'photo', false,
+      'signature', false
+    ) NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_code_verified_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_code_verified_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_photo_path'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_photo_path text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_signature'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_signature jsonb;
+  END IF;
+END $$;
+
+-- Create order_delivery_codes table
+CREATE TABLE IF NOT EXISTS order_delivery_codes (
+  order_id uuid PRIMARY KEY REFERENCES orders(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code ~ '^[0-9]{4}$'),
+  failed_attempts integer DEFAULT 0 NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Enable RLS
+ALTER TABLE order_delivery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view own delivery codes"
+  ON order_delivery_codes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_delivery_codes.order_id
+        AND orders.customer_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all delivery codes"
+  ON order_delivery_codes FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Work out the proof a new delivery order needs from its vendor's policy
+CREATE OR REPLACE FUNCTION set_delivery_proof_requirements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy jsonb;
+BEGIN
+  IF NEW.delivery_type <> 'delivery' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT delivery_proof_policy INTO v_policy
+  FROM vendors
+  WHERE id = NEW.vendor_id;
+
+  IF v_policy IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.delivery_proof_requirements := jsonb_build_object(
+    'code', COALESCE((v_policy->>'code_required')::boolean, false)
+      AND NEW.total >= COALESCE((v_policy->>'code_min_order_total')::decimal, 0),
+    'photo', COALESCE((v_policy->>'photo_required')::boolean, false),
+    'signature', COALESCE((v_policy->>'signature_required')::boolean, false)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_set_delivery_proof ON orders;
+CREATE TRIGGER on_order_set_delivery_proof
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_delivery_proof_requirements();
+
+CREATE OR REPLACE FUNCTION create_delivery_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO order_delivery_codes (order_id, code)
+  VALUES (NEW.id, lpad(floor(random() * 10000)::integer::text, 4, '0'))
+  ON CONFLICT (order_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_create_delivery_code ON orders;
+CREATE TRIGGER on_order_create_delivery_code
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  WHEN (NEW.delivery_type = 'delivery')
+  EXECUTE FUNCTION create_delivery_code();
+
+-- Runs as the caller, so updates made inside complete_delivery (which runs as
+-- the function owner) pass while direct client updates are checked
+CREATE OR REPLACE FUNCTION enforce_delivery_proof()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.delivery_proof_requirements IS DISTINCT FROM OLD.delivery_proof_requirements
+     OR NEW.delivery_code_verified_at IS DISTINCT FROM OLD.delivery_code_verified_at
+     OR NEW.delivery_photo_path IS DISTINCT FROM OLD.delivery_photo_path
+     OR NEW.delivery_signature IS DISTINCT FROM OLD.delivery_signature THEN
+    RAISE EXCEPTION 'Proof of delivery can only be recorded when completing the delivery';
+  END IF;
+
+  IF NEW.status = 'delivered'
+     AND OLD.status <> 'delivered'
+     AND NOT is_admin()
+     AND (
+       COALESCE((OLD.delivery_proof_requirements->>'code')::boolean, false)
+       OR COALESCE((OLD.delivery_proof_requirements->>'photo')::boolean, false)
+       OR COALESCE((OLD.delivery_proof_requirements->>'signature')::boolean, false)
+     ) THEN
+    RAISE EXCEPTION 'This order needs proof of delivery';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_enforce_delivery_proof ON orders;
+CREATE TRIGGER on_order_enforce_delivery_proof
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_delivery_proof();
+
+CREATE OR REPLACE FUNCTION complete_delivery(
+  p_order_id uuid,
+  p_code text DEFAULT NULL,
+  p_photo_path text DEFAULT NULL,
+  p_signature jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_code order_delivery_codes;
+  v_requirements jsonb;
+  v_max_attempts integer := 5;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order not found');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM riders
+    WHERE riders.id = v_order.assigned_rider_id
+      AND riders.user_id = auth.uid()
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This order is not assigned to you');
+  END IF;
+
+  IF v_order.status IN ('delivered', 'cancelled') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This order is already ' || v_order.status);
+  END IF;
+
+  v_requirements := v_order.delivery_proof_requirements;
+
+  IF COALESCE((v_requirements->>'photo')::boolean, false) AND p_photo_path IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Take a photo of the delivered order');
+  END IF;
+
+  IF p_photo_path IS NOT NULL AND p_photo_path NOT LIKE p_order_id::text || '/%' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid delivery photo');
+  END IF;
+
+  IF COALESCE((v_requirements->>'signature')::boolean, false)
+     AND (p_signature IS NULL OR jsonb_array_length(COALESCE(p_signature->'paths', '[]'::jsonb)) = 0) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Ask the customer to sign');
+  END IF;
+
+  IF COALESCE((v_requirements->>'code')::boolean, false) THEN
+    SELECT * INTO v_code
+    FROM order_delivery_codes
+    WHERE order_id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'No delivery code found. Contact support.');
+    END IF;
+
+    IF v_code.failed_attempts >= v_max_attempts THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', 'Too many incorrect codes. Contact support to complete this delivery.',
+        'attempts_left', 0
+      );
+    END IF;
+
+    IF p_code IS NULL OR trim(p_code) <> v_code.code THEN
+      UPDATE order_delivery_codes
+      SET failed_attempts = failed_attempts + 1
+      WHERE order_id = p_order_id;
+
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', 'Incorrect delivery code',
+        'attempts_left', v_max_attempts - v_code.failed_attempts - 1
+      );
+    END IF;
+  END IF;
+
+  UPDATE orders
+  SET status = 'delivered',
+      delivered_at = now(),
+      customer_confirmation_method = CASE
+        WHEN COALESCE((v_requirements->>'code')::boolean, false) THEN 'delivery_code'
+        ELSE 'in_app'
+      END,
+      delivery_code_verified_at = CASE
+        WHEN COALESCE((v_requirements->>'code')::boolean, false) THEN now()
+        ELSE NULL
+      END,
+      delivery_photo_path = p_photo_path,
+      delivery_signature = p_signature,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Private bucket for delivery photos, one folder per order
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('delivery-proofs', 'delivery-proofs', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Assigned riders can upload delivery proof"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'delivery-proofs' AND
+    EXISTS (
+      SELECT 1 FROM orders
+      JOIN riders ON riders.id = orders.assigned_rider_id
+      WHERE orders.id::text = (storage.foldername(name))[1]
+        AND riders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Order parties can view delivery proof"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'delivery-proofs' AND (
+      is_admin() OR
+      EXISTS (
+        SELECT 1 FROM orders
+        LEFT JOIN riders ON riders.id = orders.assigned_rider_id
+        WHERE orders.id::text = (storage.foldername(name))[1]
+          AND (
+            orders.customer_id = auth.uid()
+            OR orders.vendor_user_id = auth.uid()
+            OR riders.user_id = auth.uid()
+          )
+      )
+    )
+  );
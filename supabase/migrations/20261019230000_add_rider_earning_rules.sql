@@ -0,0 +1,256 @@
+/*
+  # Rider Earning Rules
+
+  1. New Tables
+    - `rider_earning_rules` - One row per version; rows are never edited, saving
+      new rules adds the next version and the highest version is in force
+      - `id` (uuid, primary key)
+      - `version` (integer, unique) - Assigned on insert
+      - `base_pay` (decimal) - Paid for every delivery
+      - `per_km_rate` (decimal) - Paid per km between vendor and customer
+      - `batch_stop_bonus` (decimal) - Extra per order delivered as part of a batch
+      - `peak_multiplier` (decimal) - Applied when delivered inside a peak window
+      - `peak_hours` (jsonb) - `[{ "start": "11:30", "end": "14:00" }]` in local time
+      - `rain_multiplier` (decimal) - Applied while rain mode is on
+      - `timezone` (text) - Used to read peak windows
+      - `created_by` (uuid, foreign key to profiles), `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `orders`: add `tip_amount` (decimal) - Passed to the rider in full
+    - `rider_earnings`:
+      - add `rule_id` (uuid) and `rule_version` (integer) - Rules that produced the row
+      - add `tip_amount` (decimal)
+      - add `breakdown` (jsonb) - Each component of the amount
+
+  3. Settings
+    - `platform_settings.rain_mode` - `{ "active": false }`, switched by admins
+
+  4. Functions
+    - `record_rider_earning()` trigger: when an order is marked delivered, credits
+      the assigned rider once using the current rules. Replaces the flat 10% of
+      the order total previously inserted by the rider app, and also covers
+      batch deliveries
+
+  5. Security
+    - Enable RLS on `rider_earning_rules`; signed-in users can read, admins can
+      add versions
+*/
+
+-- Create rider_earning_rules table
+CREATE TABLE IF NOT EXISTS rider_earning_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version integer UNIQUE NOT NULL,
+  base_pay decimal(10, 2) NOT NULL CHECK (base_pay >= 0),
+  per_km_rate decimal(10, 2) NOT NULL CHECK (per_km_rate >= 0),
+  batch_stop_bonus decimal(10, 2) DEFAULT 0 NOT NULL CHECK (batch_stop_bonus >= 0),
+  peak_multiplier decimal(4, 2) DEFAULT 1 NOT NULL CHECK (peak_multiplier >= 1),
+  peak_hours jsonb DEFAULT '[]'::jsonb NOT NULL,
+  rain_multiplier decimal(4, 2) DEFAULT 1 NOT NULL CHECK (rain_multiplier >= 1),
+  timezone text DEFAULT 'Africa/Lagos' NOT NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Enable RLS
+ALTER TABLE rider_earning_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view earning rules"
+  ON rider_earning_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can add earning rules"
+  ON rider_earning_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+-- Versions are numbered by the database so concurrent saves can't collide
+CREATE OR REPLACE FUNCTION set_earning_rules_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  LOCK TABLE rider_earning_rules IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM rider_earning_rules;
+
+  NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_earning_rules_insert ON rider_earning_rules;
+CREATE TRIGGER on_earning_rules_insert
+  BEFORE INSERT ON rider_earning_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION set_earning_rules_version();
+
+INSERT INTO rider_earning_rules (
+  version, base_pay, per_km_rate, batch_stop_bonus, peak_multiplier, peak_hours, rain_multiplier
+)
+SELECT 1, 4.00, 0.40, 1.00, 1.20,
+  jsonb_build_array(
+    jsonb_build_object('start', '11:30', 'end', '14:00'),
+    jsonb_build_object('start', '18:00', 'end', '21:00')
+  ),
+  1.30
+WHERE NOT EXISTS (SELECT 1 FROM rider_earning_rules);
+
+INSERT INTO platform_settings (key, value)
+VALUES ('rain_mode', jsonb_build_object('active', false))
+ON CONFLICT (key) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'tip_amount'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN tip_amount decimal(10, 2) DEFAULT 0 NOT NULL CHECK (tip_amount >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rider_earnings' AND column_name = 'rule_id'
+  ) THEN
+    ALTER TABLE rider_earnings ADD COLUMN rule_id uuid REFERENCES rider_earning_rules(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rider_earnings' AND column_name = 'rule_version'
+  ) THEN
+    ALTER TABLE rider_earnings ADD COLUMN rule_version integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rider_earnings' AND column_name = 'tip_amount'
+  ) THEN
+    ALTER TABLE rider_earnings ADD COLUMN tip_amount decimal(10, 2) DEFAULT 0 NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rider_earnings' AND column_name = 'breakdown'
+  ) THEN
+    ALTER TABLE rider_earnings ADD COLUMN breakdown jsonb;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_rider_earnings_order_id ON rider_earnings(order_id);
+
+-- Credit the rider for a delivered order using the rules in force
+CREATE OR REPLACE FUNCTION record_rider_earning()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules rider_earning_rules;
+  v_delivered_at timestamptz;
+  v_local_time time;
+  v_distance decimal;
+  v_batch_id uuid;
+  v_is_peak boolean;
+  v_is_raining boolean;
+  v_multiplier decimal := 1;
+  v_distance_pay decimal;
+  v_batch_bonus decimal := 0;
+  v_delivery_pay decimal;
+  v_tip decimal;
+BEGIN
+  -- Each order is paid once, even if it is marked delivered again
+  IF EXISTS (SELECT 1 FROM rider_earnings WHERE order_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_rules
+  FROM rider_earning_rules
+  ORDER BY version DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  v_delivered_at := COALESCE(NEW.delivered_at, now());
+  v_local_time := (v_delivered_at AT TIME ZONE v_rules.timezone)::time;
+  v_distance := COALESCE(NEW.delivery_distance_km, 0);
+
+  SELECT batch_id INTO v_batch_id
+  FROM batch_delivery_orders
+  WHERE order_id = NEW.id
+  LIMIT 1;
+
+  SELECT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_rules.peak_hours) AS window_hours
+    WHERE v_local_time >= (window_hours->>'start')::time
+      AND v_local_time < (window_hours->>'end')::time
+  ) INTO v_is_peak;
+
+  SELECT COALESCE((value->>'active')::boolean, false) INTO v_is_raining
+  FROM platform_settings
+  WHERE key = 'rain_mode';
+  v_is_raining := COALESCE(v_is_raining, false);
+
+  IF v_is_peak THEN
+    v_multiplier := v_multiplier * v_rules.peak_multiplier;
+  END IF;
+  IF v_is_raining THEN
+    v_multiplier := v_multiplier * v_rules.rain_multiplier;
+  END IF;
+
+  v_distance_pay := round(v_distance * v_rules.per_km_rate, 2);
+  IF v_batch_id IS NOT NULL THEN
+    v_batch_bonus := v_rules.batch_stop_bonus;
+  END IF;
+
+  v_delivery_pay := round((v_rules.base_pay + v_distance_pay + v_batch_bonus) * v_multiplier, 2);
+  v_tip := COALESCE(NEW.tip_amount, 0);
+
+  INSERT INTO rider_earnings (
+    rider_id, order_id, amount, date, status,
+    rule_id, rule_version, tip_amount, breakdown
+  )
+  VALUES (
+    NEW.assigned_rider_id,
+    NEW.id,
+    v_delivery_pay + v_tip,
+    (v_delivered_at AT TIME ZONE v_rules.timezone)::date,
+    'pending',
+    v_rules.id,
+    v_rules.version,
+    v_tip,
+    jsonb_build_object(
+      'base_pay', v_rules.base_pay,
+      'distance_km', v_distance,
+      'distance_pay', v_distance_pay,
+      'batch_id', v_batch_id,
+      'batch_bonus', v_batch_bonus,
+      'peak', v_is_peak,
+      'rain', v_is_raining,
+      'multiplier', v_multiplier,
+      'delivery_pay', v_delivery_pay,
+      'tip', v_tip
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_delivered_record_earning ON orders;
+CREATE TRIGGER on_order_delivered_record_earning
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (
+    NEW.status = 'delivered'
+    AND OLD.status IS DISTINCT FROM 'delivered'
+    AND NEW.assigned_rider_id IS NOT NULL
+  )
+  EXECUTE FUNCTION record_rider_earning();
@@ -0,0 +1,398 @@
+/*
+  # Rider Payouts
+
+  1. New Tables
+    - `rider_payouts` - One row per payout run for a rider
+      - `id` (uuid, primary key)
+      - `rider_id` (uuid, foreign key to riders)
+      - `period_start`, `period_end` (date) - Earning dates covered, inclusive
+      - `amount` (decimal) - Sum of the earnings paid
+      - `earnings_count` (integer)
+      - `method` (text) - 'wallet'; the rider withdraws to their bank from the wallet
+      - `wallet_transaction_id` (uuid, foreign key to wallet_transactions)
+      - `statement` (jsonb) - One line per earning: order number, date, amount, tip
+      - `created_by` (uuid, foreign key to profiles), `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `rider_earnings`: add `payout_id` (uuid) and `paid_at` (timestamptz)
+    - `wallet_transactions.type`: allow 'payout'
+    - `wallet_ledger_entries.account`: allow 'platform_payouts'
+
+  3. Functions
+    - `post_wallet_transaction(...)`: 'payout' credits the wallet against
+      `platform_payouts`
+    - `rider_payout_summary(p_period_start, p_period_end)` - Pending totals per
+      rider for the period (admins only)
+    - `create_rider_payout(p_rider_id, p_period_start, p_period_end)` - Locks the
+      rider's pending earnings for the period, credits their wallet, records the
+      payout and statement and marks the earnings paid in one transaction
+      (admins only)
+
+  4. Security
+    - Enable RLS on `rider_payouts`; riders can view their own payouts, admins
+      can view all. Rows are only written by `create_rider_payout`
+*/
+
+-- Create rider_payouts table
+CREATE TABLE IF NOT EXISTS rider_payouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rider_id uuid REFERENCES riders(id) ON DELETE CASCADE NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  amount decimal(12, 2) NOT NULL CHECK (amount > 0),
+  earnings_count integer NOT NULL,
+  method text DEFAULT 'wallet' NOT NULL CHECK (method IN ('wallet')),
+  wallet_transaction_id uuid REFERENCES wallet_transactions(id) ON DELETE SET NULL,
+  statement jsonb DEFAULT '[]'::jsonb NOT NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (period_start <= period_end)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rider_payouts_rider_id ON rider_payouts(rider_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE rider_payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Riders can view own payouts"
+  ON rider_payouts FOR SELECT
+  TO authenticated
+  USING (
+    rider_id IN (
+      SELECT id FROM riders WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all payouts"
+  ON rider_payouts FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rider_earnings' AND column_name = 'payout_id'
+  ) THEN
+    ALTER TABLE rider_earnings ADD COLUMN payout_id uuid REFERENCES rider_payouts(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rider_earnings' AND column_name = 'paid_at'
+  ) THEN
+    ALTER TABLE rider_earnings ADD COLUMN paid_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_rider_earnings_pending
+  ON rider_earnings(rider_id, date)
+  WHERE status = 'pending';
+
+ALTER TABLE wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_type_check;
+ALTER TABLE wallet_transactions ADD CONSTRAINT wallet_transactions_type_check
+  CHECK (type IN ('deposit', 'withdrawal', 'payment', 'refund', 'payout'));
+
+ALTER TABLE wallet_ledger_entries DROP CONSTRAINT IF EXISTS wallet_ledger_entries_account_check;
+ALTER TABLE wallet_ledger_entries ADD CONSTRAINT wallet_ledger_entries_account_check
+  CHECK (account IN ('wallet', 'paystack_clearing', 'platform_orders', 'platform_refunds', 'platform_payouts'));
+
+-- Post a wallet transaction and its double-entry ledger record atomically
+CREATE OR REPLACE FUNCTION post_wallet_transaction(
+  p_wallet_id uuid,
+  p_type text,
+  p_amount decimal,
+  p_reference text,
+  p_status text DEFAULT 'completed',
+  p_description text DEFAULT NULL,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_order_id uuid DEFAULT NULL,
+  p_paystack_reference text DEFAULT NULL
+)
+RETURNS wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet wallets%ROWTYPE;
+  v_transaction wallet_transactions%ROWTYPE;
+  v_is_credit boolean;
+  v_contra_account text;
+  v_balance_after decimal(12, 2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid amount';
+  END IF;
+
+  CASE p_type
+    WHEN 'deposit' THEN
+      v_is_credit := true;
+      v_contra_account := 'paystack_clearing';
+    WHEN 'refund' THEN
+      v_is_credit := true;
+      v_contra_account := 'platform_refunds';
+    WHEN 'payout' THEN
+      v_is_credit := true;
+      v_contra_account := 'platform_payouts';
+    WHEN 'payment' THEN
+      v_is_credit := false;
+      v_contra_account := 'platform_orders';
+    WHEN 'withdrawal' THEN
+      v_is_credit := false;
+      v_contra_account := 'paystack_clearing';
+    ELSE
+      RAISE EXCEPTION 'Unknown transaction type: %', p_type;
+  END CASE;
+
+  -- Serialise all balance changes for this wallet
+  SELECT * INTO v_wallet
+  FROM wallets
+  WHERE id = p_wallet_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  -- A reference can only ever move money once
+  SELECT * INTO v_transaction
+  FROM wallet_transactions
+  WHERE reference = p_reference;
+
+  IF FOUND THEN
+    RETURN v_transaction;
+  END IF;
+
+  IF NOT v_is_credit THEN
+    IF NOT v_wallet.is_active THEN
+      RAISE EXCEPTION 'Wallet is inactive';
+    END IF;
+
+    IF v_wallet.balance < p_amount THEN
+      RAISE EXCEPTION 'Insufficient balance';
+    END IF;
+  END IF;
+
+  v_balance_after := CASE
+    WHEN v_is_credit THEN v_wallet.balance + p_amount
+    ELSE v_wallet.balance - p_amount
+  END;
+
+  INSERT INTO wallet_transactions (
+    wallet_id,
+    user_id,
+    type,
+    amount,
+    balance_before,
+    balance_after,
+    status,
+    reference,
+    paystack_reference,
+    description,
+    metadata,
+    order_id,
+    completed_at
+  ) VALUES (
+    v_wallet.id,
+    v_wallet.user_id,
+    p_type,
+    p_amount,
+    v_wallet.balance,
+    v_balance_after,
+    p_status,
+    p_reference,
+    p_paystack_reference,
+    p_description,
+    COALESCE(p_metadata, '{}'::jsonb),
+    p_order_id,
+    CASE WHEN p_status = 'completed' THEN now() END
+  )
+  RETURNING * INTO v_transaction;
+
+  INSERT INTO wallet_ledger_entries (transaction_id, account, wallet_id, entry_type, amount)
+  VALUES
+    (v_transaction.id, 'wallet', v_wallet.id, CASE WHEN v_is_credit THEN 'credit' ELSE 'debit' END, p_amount),
+    (v_transaction.id, v_contra_account, NULL, CASE WHEN v_is_credit THEN 'debit' ELSE 'credit' END, p_amount);
+
+  UPDATE wallets
+  SET balance = v_balance_after
+  WHERE id = v_wallet.id;
+
+  RETURN v_transaction;
+END;
+$$;
+
+-- Pending earnings per rider for the payout screen
+CREATE OR REPLACE FUNCTION rider_payout_summary(
+  p_period_start date,
+  p_period_end date
+)
+RETURNS TABLE (
+  rider_id uuid,
+  full_name text,
+  phone text,
+  pending_amount decimal,
+  earnings_count integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.full_name,
+    r.phone,
+    SUM(e.amount)::decimal,
+    COUNT(*)::integer
+  FROM rider_earnings e
+  JOIN riders r ON r.id = e.rider_id
+  WHERE e.status = 'pending'
+    AND e.date BETWEEN p_period_start AND p_period_end
+  GROUP BY r.id, r.full_name, r.phone
+  ORDER BY SUM(e.amount) DESC;
+END;
+$$;
+
+-- Pay a rider's pending earnings for a period into their wallet
+CREATE OR REPLACE FUNCTION create_rider_payout(
+  p_rider_id uuid,
+  p_period_start date,
+  p_period_end date
+)
+RETURNS rider_payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rider riders%ROWTYPE;
+  v_wallet_id uuid;
+  v_earning_ids uuid[];
+  v_amount decimal(12, 2);
+  v_count integer;
+  v_statement jsonb;
+  v_payout rider_payouts%ROWTYPE;
+  v_transaction wallet_transactions%ROWTYPE;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF p_period_start IS NULL OR p_period_end IS NULL OR p_period_start > p_period_end THEN
+    RAISE EXCEPTION 'Invalid payout period';
+  END IF;
+
+  SELECT * INTO v_rider
+  FROM riders
+  WHERE id = p_rider_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rider not found';
+  END IF;
+
+  -- Lock the earnings so a concurrent run cannot pay them twice. Everything
+  -- below works on these ids only, so an earning recorded while the payout
+  -- runs is left pending for the next payout rather than marked paid.
+  SELECT array_agg(id)
+  INTO v_earning_ids
+  FROM (
+    SELECT id
+    FROM rider_earnings
+    WHERE rider_id = p_rider_id
+      AND status = 'pending'
+      AND date BETWEEN p_period_start AND p_period_end
+    FOR UPDATE
+  ) locked;
+
+  IF v_earning_ids IS NULL THEN
+    RAISE EXCEPTION 'No pending earnings for this period';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(e.amount), 0),
+    COUNT(*),
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'earning_id', e.id,
+          'order_id', e.order_id,
+          'order_number', o.order_number,
+          'date', e.date,
+          'amount', e.amount,
+          'tip', e.tip_amount,
+          'rule_version', e.rule_version
+        )
+        ORDER BY e.date, e.created_at
+      ),
+      '[]'::jsonb
+    )
+  INTO v_amount, v_count, v_statement
+  FROM rider_earnings e
+  LEFT JOIN orders o ON o.id = e.order_id
+  WHERE e.id = ANY(v_earning_ids);
+
+  IF v_count = 0 OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'No pending earnings for this period';
+  END IF;
+
+  -- Riders who have never opened their wallet get one to be paid into
+  INSERT INTO wallets (user_id)
+  VALUES (v_rider.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT id INTO v_wallet_id
+  FROM wallets
+  WHERE user_id = v_rider.user_id;
+
+  INSERT INTO rider_payouts (
+    rider_id, period_start, period_end, amount, earnings_count, statement, created_by
+  )
+  VALUES (
+    p_rider_id, p_period_start, p_period_end, v_amount, v_count, v_statement, auth.uid()
+  )
+  RETURNING * INTO v_payout;
+
+  v_transaction := post_wallet_transaction(
+    v_wallet_id,
+    'payout',
+    v_amount,
+    'PAYOUT-' || v_payout.id,
+    'completed',
+    'Rider payout for ' || to_char(p_period_start, 'DD Mon') || ' - ' || to_char(p_period_end, 'DD Mon YYYY'),
+    jsonb_build_object('payout_id', v_payout.id, 'earnings_count', v_count)
+  );
+
+  UPDATE rider_payouts
+  SET wallet_transaction_id = v_transaction.id
+  WHERE id = v_payout.id
+  RETURNING * INTO v_payout;
+
+  UPDATE rider_earnings
+  SET status = 'paid',
+      payout_id = v_payout.id,
+      paid_at = now()
+  WHERE id = ANY(v_earning_ids);
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  VALUES (
+    v_rider.user_id,
+    'rider_payout',
+    'Payout Received',
+    '₦' || to_char(v_amount, 'FM999,999,990.00') || ' for ' || v_count || ' deliveries has been paid into your wallet',
+    jsonb_build_object('payout_id', v_payout.id),
+    false
+  );
+
+  RETURN v_payout;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rider_payout_summary(date, date) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION create_rider_payout(uuid, date, date) FROM PUBLIC, anon;
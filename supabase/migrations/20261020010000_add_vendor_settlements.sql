@@ -0,0 +1,503 @@
+/*
+  # Vendor Settlements and Platform Commission
+
+  1. New Tables
+    - `commission_rules` - Commission overrides; the platform default lives in
+      `platform_settings.commission`
+      - `id` (uuid, primary key)
+      - `vendor_id` (uuid, foreign key to vendors) - Applies to all of a vendor's items
+      - `category_id` (uuid, foreign key to categories) - Applies to items in a category
+      - `rate_percent` (decimal) - Exactly one of vendor or category is set
+      - `updated_by` (uuid), `created_at`, `updated_at` (timestamptz)
+    - `vendor_payout_accounts` - Bank account each vendor is paid into
+      - `vendor_id` (uuid, primary key, foreign key to vendors)
+      - `bank_name`, `account_number`, `account_name` (text)
+      - `updated_at` (timestamptz)
+    - `vendor_settlements` - One statement per vendor per period
+      - `id` (uuid, primary key)
+      - `vendor_id` (uuid, foreign key to vendors)
+      - `period_start`, `period_end` (date) - Inclusive
+      - `order_count` (integer)
+      - `gross_sales`, `commission_total`, `net_payable` (decimal)
+      - `status` (text) - 'pending' or 'paid'
+      - `statement` (jsonb) - One line per order: number, date, sales, commission, net
+      - `bank_details` (jsonb) - Payout account at the time the statement was built
+      - `payment_reference` (text), `paid_at` (timestamptz), `paid_by` (uuid)
+      - `created_at` (timestamptz)
+    - `vendor_ledger_entries` - Payables ledger; the sum of a vendor's entries is
+      what the platform owes them
+      - `id` (uuid, primary key)
+      - `vendor_id` (uuid, foreign key to vendors)
+      - `order_id` (uuid, foreign key to orders)
+      - `settlement_id` (uuid, foreign key to vendor_settlements)
+      - `entry_type` (text) - 'sale' (+), 'commission' (-), 'payout' (-), 'adjustment'
+      - `amount` (decimal) - Signed
+      - `description` (text), `created_at` (timestamptz)
+
+  2. Settings
+    - `platform_settings.commission` - `{ "default_rate": 15 }` percent
+
+  3. Functions
+    - `commission_rate_for(p_vendor_id, p_category_id)` - Vendor rule, then
+      category rule, then the platform default
+    - `record_vendor_sale()` trigger: when an order is delivered, posts the sale
+      and the commission on each item to the ledger once and adds the subtotal
+      to `vendors.total_sales`. Delivery fees and platform discounts are not
+      vendor income
+    - `generate_vendor_settlements(p_period_start, p_period_end)` - Groups every
+      vendor's unsettled sales in the period into a statement. Period dates are
+      Lagos calendar days. Runs weekly for the previous week with pg_cron where
+      available, and by admins on demand
+    - `mark_vendor_settlement_paid(p_settlement_id, p_reference)` - Records the
+      bank transfer and posts the payout to the ledger (admins only)
+
+  4. Data
+    - `vendors.total_sales` is reconciled to the subtotal of delivered orders
+
+  5. Security
+    - Enable RLS on all new tables
+    - Vendors see their own rules, payout account, statements and ledger;
+      category rules are visible to all vendors; admins see everything
+    - Only admins write commission rules; ledger and statements are only
+      written by the functions above
+*/
+
+-- Create commission_rules table
+CREATE TABLE IF NOT EXISTS commission_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id uuid REFERENCES vendors(id) ON DELETE CASCADE UNIQUE,
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE UNIQUE,
+  rate_percent decimal(5, 2) NOT NULL CHECK (rate_percent >= 0 AND rate_percent <= 100),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK ((vendor_id IS NULL) <> (category_id IS NULL))
+);
+
+-- Create vendor_payout_accounts table
+CREATE TABLE IF NOT EXISTS vendor_payout_accounts (
+  vendor_id uuid PRIMARY KEY REFERENCES vendors(id) ON DELETE CASCADE,
+  bank_name text NOT NULL,
+  account_number text NOT NULL CHECK (account_number ~ '^[0-9]{10}$'),
+  account_name text NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create vendor_settlements table
+CREATE TABLE IF NOT EXISTS vendor_settlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id uuid REFERENCES vendors(id) ON DELETE CASCADE NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  order_count integer NOT NULL,
+  gross_sales decimal(12, 2) NOT NULL,
+  commission_total decimal(12, 2) NOT NULL,
+  net_payable decimal(12, 2) NOT NULL,
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'paid')),
+  statement jsonb DEFAULT '[]'::jsonb NOT NULL,
+  bank_details jsonb,
+  payment_reference text,
+  paid_at timestamptz,
+  paid_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (period_start <= period_end)
+);
+
+-- Create vendor_ledger_entries table
+CREATE TABLE IF NOT EXISTS vendor_ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id uuid REFERENCES vendors(id) ON DELETE CASCADE NOT NULL,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  settlement_id uuid REFERENCES vendor_settlements(id) ON DELETE SET NULL,
+  entry_type text NOT NULL CHECK (entry_type IN ('sale', 'commission', 'payout', 'adjustment')),
+  amount decimal(12, 2) NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- An order posts one sale and one commission entry at most
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vendor_ledger_entries_order_type
+  ON vendor_ledger_entries(order_id, entry_type)
+  WHERE order_id IS NOT NULL AND entry_type IN ('sale', 'commission');
+CREATE INDEX IF NOT EXISTS idx_vendor_ledger_entries_vendor_id ON vendor_ledger_entries(vendor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vendor_ledger_entries_unsettled
+  ON vendor_ledger_entries(vendor_id, created_at)
+  WHERE settlement_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_vendor_settlements_vendor_id ON vendor_settlements(vendor_id, period_end DESC);
+
+-- Enable RLS
+ALTER TABLE commission_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_payout_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_settlements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+-- Commission rules
+CREATE POLICY "Vendors can view category and own commission rules"
+  ON commission_rules FOR SELECT
+  TO authenticated
+  USING (
+    vendor_id IS NULL
+    OR vendor_id IN (SELECT id FROM vendors WHERE user_id = auth.uid())
+    OR is_admin()
+  );
+
+CREATE POLICY "Admins can insert commission rules"
+  ON commission_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update commission rules"
+  ON commission_rules FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete commission rules"
+  ON commission_rules FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Payout accounts
+CREATE POLICY "Vendors can view own payout account"
+  ON vendor_payout_accounts FOR SELECT
+  TO authenticated
+  USING (
+    vendor_id IN (SELECT id FROM vendors WHERE user_id = auth.uid())
+    OR is_admin()
+  );
+
+CREATE POLICY "Vendors can add own payout account"
+  ON vendor_payout_accounts FOR INSERT
+  TO authenticated
+  WITH CHECK (vendor_id IN (SELECT id FROM vendors WHERE user_id = auth.uid()));
+
+CREATE POLICY "Vendors can update own payout account"
+  ON vendor_payout_accounts FOR UPDATE
+  TO authenticated
+  USING (vendor_id IN (SELECT id FROM vendors WHERE user_id = auth.uid()))
+  WITH CHECK (vendor_id IN (SELECT id FROM vendors WHERE user_id = auth.uid()));
+
+-- Statements and ledger
+CREATE POLICY "Vendors can view own settlements"
+  ON vendor_settlements FOR SELECT
+  TO authenticated
+  USING (
+    vendor_id IN (SELECT id FROM vendors WHERE user_id = auth.uid())
+    OR is_admin()
+  );
+
+CREATE POLICY "Vendors can view own ledger entries"
+  ON vendor_ledger_entries FOR SELECT
+  TO authenticated
+  USING (
+    vendor_id IN (SELECT id FROM vendors WHERE user_id = auth.uid())
+    OR is_admin()
+  );
+
+INSERT INTO platform_settings (key, value)
+VALUES ('commission', jsonb_build_object('default_rate', 15))
+ON CONFLICT (key) DO NOTHING;
+
+-- Vendor rule, then category rule, then the platform default
+CREATE OR REPLACE FUNCTION commission_rate_for(
+  p_vendor_id uuid,
+  p_category_id uuid
+)
+RETURNS decimal
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT rate_percent FROM commission_rules WHERE vendor_id = p_vendor_id),
+    (SELECT rate_percent FROM commission_rules WHERE category_id = p_category_id),
+    (SELECT (value->>'default_rate')::decimal FROM platform_settings WHERE key = 'commission'),
+    0
+  );
+$$;
+
+-- Post a delivered order's sale and commission to the vendor's ledger
+CREATE OR REPLACE FUNCTION record_vendor_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_commission decimal(12, 2);
+BEGIN
+  IF NEW.vendor_id IS NULL OR NEW.subtotal IS NULL OR NEW.subtotal <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM vendor_ledger_entries
+    WHERE order_id = NEW.id AND entry_type = 'sale'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(round(oi.subtotal * commission_rate_for(NEW.vendor_id, p.category_id) / 100, 2)), 0)
+  INTO v_commission
+  FROM order_items oi
+  LEFT JOIN products p ON p.id = oi.product_id
+  WHERE oi.order_id = NEW.id;
+
+  -- Orders without item rows are charged the vendor's overall rate
+  IF NOT EXISTS (SELECT 1 FROM order_items WHERE order_id = NEW.id) THEN
+    v_commission := round(NEW.subtotal * commission_rate_for(NEW.vendor_id, NULL) / 100, 2);
+  END IF;
+
+  INSERT INTO vendor_ledger_entries (vendor_id, order_id, entry_type, amount, description)
+  VALUES (NEW.vendor_id, NEW.id, 'sale', NEW.subtotal, 'Order #' || NEW.order_number);
+
+  IF v_commission > 0 THEN
+    INSERT INTO vendor_ledger_entries (vendor_id, order_id, entry_type, amount, description)
+    VALUES (NEW.vendor_id, NEW.id, 'commission', -v_commission, 'Commission on order #' || NEW.order_number);
+  END IF;
+
+  UPDATE vendors
+  SET total_sales = COALESCE(total_sales, 0) + NEW.subtotal
+  WHERE id = NEW.vendor_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_delivered_record_vendor_sale ON orders;
+CREATE TRIGGER on_order_delivered_record_vendor_sale
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered')
+  EXECUTE FUNCTION record_vendor_sale();
+
+-- Group unsettled sales into one statement per vendor
+CREATE OR REPLACE FUNCTION generate_vendor_settlements(
+  p_period_start date,
+  p_period_end date
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vendor_id uuid;
+  v_entry_ids uuid[];
+  v_from timestamptz;
+  v_to timestamptz;
+  v_settlement vendor_settlements%ROWTYPE;
+  v_count integer := 0;
+BEGIN
+  -- Scheduled runs have no signed-in user; app callers must be admins
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF p_period_start IS NULL OR p_period_end IS NULL OR p_period_start > p_period_end THEN
+    RAISE EXCEPTION 'Invalid settlement period';
+  END IF;
+
+  -- Vendors trade on Lagos time, so a period runs from midnight to midnight there
+  v_from := p_period_start::timestamp AT TIME ZONE 'Africa/Lagos';
+  v_to := (p_period_end + 1)::timestamp AT TIME ZONE 'Africa/Lagos';
+
+  FOR v_vendor_id IN
+    SELECT DISTINCT vendor_id
+    FROM vendor_ledger_entries
+    WHERE settlement_id IS NULL
+      AND entry_type IN ('sale', 'commission')
+      AND created_at >= v_from
+      AND created_at < v_to
+  LOOP
+    -- Lock the entries so overlapping runs cannot settle them twice. The
+    -- statement and the update below use these ids only, so an entry posted
+    -- meanwhile is left for the next run rather than settled without being
+    -- counted.
+    SELECT array_agg(id)
+    INTO v_entry_ids
+    FROM (
+      SELECT id
+      FROM vendor_ledger_entries
+      WHERE vendor_id = v_vendor_id
+        AND settlement_id IS NULL
+        AND entry_type IN ('sale', 'commission')
+        AND created_at >= v_from
+        AND created_at < v_to
+      FOR UPDATE
+    ) locked;
+
+    -- A run that waited on the lock finds the entries already settled
+    IF v_entry_ids IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO vendor_settlements (
+      vendor_id, period_start, period_end, order_count,
+      gross_sales, commission_total, net_payable, statement, bank_details
+    )
+    SELECT
+      v_vendor_id,
+      p_period_start,
+      p_period_end,
+      COUNT(*),
+      COALESCE(SUM(lines.sales), 0),
+      COALESCE(SUM(lines.commission), 0),
+      COALESCE(SUM(lines.sales - lines.commission), 0),
+      COALESCE(
+        jsonb_agg(
+          jsonb_build_object(
+            'order_id', lines.order_id,
+            'order_number', lines.order_number,
+            'date', lines.entry_date,
+            'sales', lines.sales,
+            'commission', lines.commission,
+            'net', lines.sales - lines.commission
+          )
+          ORDER BY lines.entry_date, lines.order_number
+        ),
+        '[]'::jsonb
+      ),
+      (
+        SELECT jsonb_build_object(
+          'bank_name', a.bank_name,
+          'account_number', a.account_number,
+          'account_name', a.account_name
+        )
+        FROM vendor_payout_accounts a
+        WHERE a.vendor_id = v_vendor_id
+      )
+    FROM (
+      SELECT
+        e.order_id,
+        o.order_number,
+        (MIN(e.created_at) AT TIME ZONE 'Africa/Lagos')::date AS entry_date,
+        SUM(CASE WHEN e.entry_type = 'sale' THEN e.amount ELSE 0 END) AS sales,
+        -SUM(CASE WHEN e.entry_type = 'commission' THEN e.amount ELSE 0 END) AS commission
+      FROM vendor_ledger_entries e
+      LEFT JOIN orders o ON o.id = e.order_id
+      WHERE e.id = ANY(v_entry_ids)
+      GROUP BY e.order_id, o.order_number
+    ) AS lines
+    RETURNING * INTO v_settlement;
+
+    UPDATE vendor_ledger_entries
+    SET settlement_id = v_settlement.id
+    WHERE id = ANY(v_entry_ids);
+
+    INSERT INTO notifications (user_id, type, title, message, data, read)
+    SELECT
+      v.user_id,
+      'vendor_settlement',
+      'Settlement Statement Ready',
+      'Your statement for ' || to_char(p_period_start, 'DD Mon') || ' - ' || to_char(p_period_end, 'DD Mon YYYY')
+        || ' shows ₦' || to_char(v_settlement.net_payable, 'FM999,999,990.00') || ' payable',
+      jsonb_build_object('settlement_id', v_settlement.id),
+      false
+    FROM vendors v
+    WHERE v.id = v_vendor_id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Record the bank transfer that paid a statement
+CREATE OR REPLACE FUNCTION mark_vendor_settlement_paid(
+  p_settlement_id uuid,
+  p_reference text
+)
+RETURNS vendor_settlements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settlement vendor_settlements%ROWTYPE;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF p_reference IS NULL OR btrim(p_reference) = '' THEN
+    RAISE EXCEPTION 'Payment reference is required';
+  END IF;
+
+  SELECT * INTO v_settlement
+  FROM vendor_settlements
+  WHERE id = p_settlement_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Settlement not found';
+  END IF;
+
+  IF v_settlement.status = 'paid' THEN
+    RETURN v_settlement;
+  END IF;
+
+  UPDATE vendor_settlements
+  SET status = 'paid',
+      payment_reference = btrim(p_reference),
+      paid_at = now(),
+      paid_by = auth.uid()
+  WHERE id = p_settlement_id
+  RETURNING * INTO v_settlement;
+
+  IF v_settlement.net_payable <> 0 THEN
+    INSERT INTO vendor_ledger_entries (vendor_id, settlement_id, entry_type, amount, description)
+    VALUES (
+      v_settlement.vendor_id,
+      v_settlement.id,
+      'payout',
+      -v_settlement.net_payable,
+      'Bank transfer ' || v_settlement.payment_reference
+    );
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  SELECT
+    v.user_id,
+    'vendor_settlement',
+    'Settlement Paid',
+    '₦' || to_char(v_settlement.net_payable, 'FM999,999,990.00') || ' has been sent to your bank account',
+    jsonb_build_object('settlement_id', v_settlement.id),
+    false
+  FROM vendors v
+  WHERE v.id = v_settlement.vendor_id;
+
+  RETURN v_settlement;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_vendor_settlements(date, date) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION mark_vendor_settlement_paid(uuid, text) FROM PUBLIC, anon;
+
+-- Reconcile total_sales with what vendors have actually delivered
+UPDATE vendors v
+SET total_sales = COALESCE((
+  SELECT SUM(o.subtotal)
+  FROM orders o
+  WHERE o.vendor_id = v.id
+    AND o.status = 'delivered'
+), 0);
+
+-- Statements for the previous Monday-Sunday week are built every Monday at
+-- 03:00 Lagos time
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'weekly-vendor-settlements',
+      '0 2 * * 1',
+      $cron$SELECT generate_vendor_settlements(
+        (now() AT TIME ZONE 'Africa/Lagos')::date - 7,
+        (now() AT TIME ZONE 'Africa/Lagos')::date - 1
+      )$cron$
+    );
+  END IF;
+END $$;
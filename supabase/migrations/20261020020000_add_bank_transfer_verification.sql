@@ -0,0 +1,420 @@
+/*
+  # Bank Transfer Verification Queue
+
+  1. New Tables
+    - `bank_statement_imports`
+      - `id` (uuid, primary key)
+      - `bank_account_id` (uuid, foreign key to bank_accounts)
+      - `file_name` (text) - Name the admin gave the statement
+      - `line_count` (integer) - New lines stored from the statement
+      - `imported_by` (uuid, foreign key to profiles)
+      - `created_at` (timestamptz)
+    - `bank_statement_lines`
+      - `id` (uuid, primary key)
+      - `import_id` (uuid, foreign key to bank_statement_imports)
+      - `bank_account_id` (uuid, foreign key to bank_accounts)
+      - `transaction_date` (date), `amount` (decimal), `narration`, `reference` (text)
+      - `fingerprint` (text) - Hash of the line; unique per account so re-importing
+        an overlapping statement does not duplicate lines
+      - `status` (text) - unmatched, matched or ignored
+      - `checkout_group_id` (uuid) - Checkout the transfer paid for
+      - `matched_by` (uuid), `matched_at` (timestamptz)
+
+  2. Settings
+    - `platform_settings.bank_transfer` - `{ "payment_window_hours": 24 }`
+
+  3. Functions
+    - `import_bank_statement(p_bank_account_id, p_file_name, p_lines)` - Stores
+      the credit lines of a parsed statement, skipping lines already imported
+      (admins only)
+    - `confirm_bank_transfer(p_checkout_group_id, p_statement_line_id, p_reference)` -
+      Marks a bank transfer checkout and its orders paid (admins only)
+    - `reject_bank_transfer(p_checkout_group_id, p_reason)` - Marks the payment
+      failed and cancels the orders (admins only)
+    - `cancel_unpaid_bank_transfer(p_checkout_group_id, p_reason)` - Shared by
+      rejection and expiry; notifies the customer and vendors
+    - `expire_unpaid_bank_transfers()` - Cancels bank transfer checkouts still
+      unpaid after the payment window; run every 15 minutes with pg_cron
+
+  4. Security
+    - Enable RLS on both tables; only admins can view them
+    - Admins can update statement lines to ignore them; everything else goes
+      through the functions above
+*/
+
+-- Create bank_statement_imports table
+CREATE TABLE IF NOT EXISTS bank_statement_imports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_account_id uuid REFERENCES bank_accounts(id) ON DELETE CASCADE NOT NULL,
+  file_name text,
+  line_count integer DEFAULT 0 NOT NULL,
+  imported_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create bank_statement_lines table
+CREATE TABLE IF NOT EXISTS bank_statement_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id uuid REFERENCES bank_statement_imports(id) ON DELETE CASCADE NOT NULL,
+  bank_account_id uuid REFERENCES bank_accounts(id) ON DELETE CASCADE NOT NULL,
+  transaction_date date NOT NULL,
+  amount decimal(12, 2) NOT NULL CHECK (amount > 0),
+  narration text DEFAULT '' NOT NULL,
+  reference text,
+  fingerprint text NOT NULL,
+  status text DEFAULT 'unmatched' NOT NULL CHECK (status IN ('unmatched', 'matched', 'ignored')),
+  checkout_group_id uuid REFERENCES checkout_groups(id) ON DELETE SET NULL,
+  matched_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  matched_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (bank_account_id, fingerprint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_status ON bank_statement_lines(status);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_checkout_group_id ON bank_statement_lines(checkout_group_id);
+CREATE INDEX IF NOT EXISTS idx_checkout_groups_pending_transfers
+  ON checkout_groups(created_at)
+  WHERE payment_method = 'bank_transfer' AND payment_status = 'pending';
+
+-- Enable RLS
+ALTER TABLE bank_statement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view bank statement imports"
+  ON bank_statement_imports FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view bank statement lines"
+  ON bank_statement_lines FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can update bank statement lines"
+  ON bank_statement_lines FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+INSERT INTO platform_settings (key, value)
+VALUES ('bank_transfer', jsonb_build_object('payment_window_hours', 24))
+ON CONFLICT (key) DO NOTHING;
+
+-- Store the credit lines of a statement parsed on the admin's device
+CREATE OR REPLACE FUNCTION import_bank_statement(
+  p_bank_account_id uuid,
+  p_file_name text,
+  p_lines jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_import bank_statement_imports%ROWTYPE;
+  v_line jsonb;
+  v_total integer := 0;
+  v_inserted integer := 0;
+  v_count integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM bank_accounts WHERE id = p_bank_account_id) THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Statement has no lines to import';
+  END IF;
+
+  INSERT INTO bank_statement_imports (bank_account_id, file_name, imported_by)
+  VALUES (p_bank_account_id, NULLIF(btrim(p_file_name), ''), auth.uid())
+  RETURNING * INTO v_import;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    IF COALESCE((v_line->>'amount')::decimal, 0) <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    v_total := v_total + 1;
+
+    INSERT INTO bank_statement_lines (
+      import_id,
+      bank_account_id,
+      transaction_date,
+      amount,
+      narration,
+      reference,
+      fingerprint
+    )
+    VALUES (
+      v_import.id,
+      p_bank_account_id,
+      (v_line->>'transaction_date')::date,
+      round((v_line->>'amount')::decimal, 2),
+      COALESCE(btrim(v_line->>'narration'), ''),
+      NULLIF(btrim(v_line->>'reference'), ''),
+      md5(concat_ws(
+        '|',
+        v_line->>'transaction_date',
+        round((v_line->>'amount')::decimal, 2)::text,
+        COALESCE(btrim(v_line->>'narration'), ''),
+        COALESCE(btrim(v_line->>'reference'), '')
+      ))
+    )
+    ON CONFLICT (bank_account_id, fingerprint) DO NOTHING;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_inserted := v_inserted + v_count;
+  END LOOP;
+
+  UPDATE bank_statement_imports
+  SET line_count = v_inserted
+  WHERE id = v_import.id;
+
+  RETURN jsonb_build_object(
+    'import_id', v_import.id,
+    'imported', v_inserted,
+    'duplicates', v_total - v_inserted
+  );
+END;
+$$;
+
+-- Mark a bank transfer checkout paid, optionally against a statement line
+CREATE OR REPLACE FUNCTION confirm_bank_transfer(
+  p_checkout_group_id uuid,
+  p_statement_line_id uuid DEFAULT NULL,
+  p_reference text DEFAULT NULL
+)
+RETURNS checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group checkout_groups%ROWTYPE;
+  v_line bank_statement_lines%ROWTYPE;
+  v_reference text := NULLIF(btrim(p_reference), '');
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO v_group
+  FROM checkout_groups
+  WHERE id = p_checkout_group_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Checkout not found';
+  END IF;
+
+  IF v_group.payment_method <> 'bank_transfer' THEN
+    RAISE EXCEPTION 'Checkout was not paid by bank transfer';
+  END IF;
+
+  IF v_group.payment_status <> 'pending' THEN
+    RAISE EXCEPTION 'Payment is already %', v_group.payment_status;
+  END IF;
+
+  IF p_statement_line_id IS NOT NULL THEN
+    SELECT * INTO v_line
+    FROM bank_statement_lines
+    WHERE id = p_statement_line_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Statement line not found';
+    END IF;
+
+    IF v_line.status = 'matched' THEN
+      RAISE EXCEPTION 'Statement line is already matched to another checkout';
+    END IF;
+
+    IF v_line.amount < v_group.total THEN
+      RAISE EXCEPTION 'Transfer of ₦% is less than the checkout total of ₦%', v_line.amount, v_group.total;
+    END IF;
+
+    v_reference := COALESCE(v_reference, v_line.reference, 'STMT-' || v_line.id);
+
+    UPDATE bank_statement_lines
+    SET status = 'matched',
+        checkout_group_id = v_group.id,
+        matched_by = auth.uid(),
+        matched_at = now()
+    WHERE id = v_line.id;
+  ELSIF v_reference IS NULL THEN
+    RAISE EXCEPTION 'A statement line or transfer reference is required';
+  END IF;
+
+  UPDATE checkout_groups
+  SET payment_status = 'completed',
+      payment_reference = v_reference
+  WHERE id = v_group.id
+  RETURNING * INTO v_group;
+
+  UPDATE orders
+  SET payment_status = 'completed',
+      payment_reference = v_reference,
+      updated_at = now()
+  WHERE checkout_group_id = v_group.id;
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  VALUES (
+    v_group.customer_id,
+    'payment_confirmed',
+    'Payment Received',
+    'We have received your bank transfer for order #' || v_group.group_number,
+    jsonb_build_object('checkout_group_id', v_group.id),
+    false
+  );
+
+  RETURN v_group;
+END;
+$$;
+
+-- Fail a bank transfer checkout and cancel its orders, which releases their stock
+CREATE OR REPLACE FUNCTION cancel_unpaid_bank_transfer(
+  p_checkout_group_id uuid,
+  p_reason text
+)
+RETURNS checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group checkout_groups%ROWTYPE;
+BEGIN
+  UPDATE checkout_groups
+  SET payment_status = 'failed'
+  WHERE id = p_checkout_group_id
+  RETURNING * INTO v_group;
+
+  UPDATE orders
+  SET payment_status = 'failed',
+      status = CASE WHEN status IN ('delivered', 'cancelled') THEN status ELSE 'cancelled' END,
+      updated_at = now()
+  WHERE checkout_group_id = v_group.id;
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  VALUES (
+    v_group.customer_id,
+    'payment_failed',
+    'Order Cancelled',
+    'Order #' || v_group.group_number || ' was cancelled: ' || p_reason,
+    jsonb_build_object('checkout_group_id', v_group.id),
+    false
+  );
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  SELECT
+    v.user_id,
+    'order_cancelled',
+    'Order Cancelled',
+    'Order #' || o.order_number || ' was cancelled because the bank transfer was not received',
+    jsonb_build_object('order_id', o.id),
+    false
+  FROM orders o
+  JOIN vendors v ON v.id = o.vendor_id
+  WHERE o.checkout_group_id = v_group.id;
+
+  RETURN v_group;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_bank_transfer(
+  p_checkout_group_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group checkout_groups%ROWTYPE;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO v_group
+  FROM checkout_groups
+  WHERE id = p_checkout_group_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Checkout not found';
+  END IF;
+
+  IF v_group.payment_method <> 'bank_transfer' OR v_group.payment_status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending bank transfers can be rejected';
+  END IF;
+
+  RETURN cancel_unpaid_bank_transfer(
+    v_group.id,
+    COALESCE(NULLIF(btrim(p_reason), ''), 'we could not find your bank transfer')
+  );
+END;
+$$;
+
+-- Cancel bank transfer checkouts that are still unpaid after the payment window
+CREATE OR REPLACE FUNCTION expire_unpaid_bank_transfers()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window_hours decimal;
+  v_group_id uuid;
+  v_count integer := 0;
+BEGIN
+  SELECT COALESCE((value->>'payment_window_hours')::decimal, 24)
+  INTO v_window_hours
+  FROM platform_settings
+  WHERE key = 'bank_transfer';
+
+  v_window_hours := COALESCE(v_window_hours, 24);
+
+  FOR v_group_id IN
+    SELECT id
+    FROM checkout_groups
+    WHERE payment_method = 'bank_transfer'
+      AND payment_status = 'pending'
+      AND created_at < now() - make_interval(secs => v_window_hours * 3600)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM cancel_unpaid_bank_transfer(
+      v_group_id,
+      'payment was not received within ' || v_window_hours::text || ' hours'
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION import_bank_statement(uuid, text, jsonb) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION confirm_bank_transfer(uuid, uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION reject_bank_transfer(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION cancel_unpaid_bank_transfer(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_unpaid_bank_transfers() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'expire-unpaid-bank-transfers',
+      '*/15 * * * *',
+      $cron$SELECT expire_unpaid_bank_transfers()$cron$
+    );
+  END IF;
+END $$;
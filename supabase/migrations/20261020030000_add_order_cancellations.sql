@@ -0,0 +1,566 @@
+/*
+  # Order Cancellation and Refunds
+
+  1. New Tables
+    - `order_refunds`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, unique, foreign key to orders)
+      - `customer_id` (uuid, foreign key to profiles)
+      - `amount` (decimal) - Amount returned to the customer
+      - `method` (text) - wallet or paystack
+      - `status` (text) - pending, processing, completed or failed
+      - `reason_code` (text) - Cancellation reason the refund was computed for
+      - `wallet_transaction_id` (uuid) - Refund credit when paid into the wallet
+      - `paystack_reference` (text) - Original card charge being refunded
+      - `paystack_refund_id` (text) - Refund id returned by Paystack
+      - `failure_reason` (text)
+      - `created_by` (uuid), `created_at`, `updated_at` (timestamptz)
+
+  2. Modified Tables
+    - `orders`: add `cancellation_reason`, `cancellation_note`, `cancelled_by`,
+      `cancelled_by_role` and `cancelled_at`
+
+  3. Settings
+    - `platform_settings.cancellation_refunds` -
+      `{ "preparing_percent": 50, "picked_up_percent": 0 }`. Share of the order
+      total refunded when an admin cancels for a customer reason after the
+      vendor has confirmed, or after pickup. Everything else is refunded in full.
+
+  4. Functions
+    - `order_refund_amount(p_order_id, p_reason_code, p_actor_role)` - Refund due
+      for a paid order
+    - `cancel_order(p_order_id, p_actor_id, p_reason_code, p_note, p_refund_to)` -
+      Customers may cancel while an order is pending, vendors until pickup and
+      admins until delivery. Cancels the order, records the refund and notifies
+      the customer, vendor and rider. Called by the `order-cancel` edge function
+    - `refund_order_to_wallet(p_refund_id, p_failure_reason)` - Credits a refund
+      to the customer's wallet; also the fallback when a card refund fails
+    - `complete_order_refund(p_refund_id)` - Marks a card refund processed
+    - `cancel_unpaid_bank_transfer` now records the cancellation reason
+
+  5. Security
+    - Enable RLS on `order_refunds`; customers see their own, vendors those for
+      their orders, admins all
+    - Functions are only executable by the service role
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'cancellation_reason'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN cancellation_reason text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'cancellation_note'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN cancellation_note text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'cancelled_by'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN cancelled_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'cancelled_by_role'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN cancelled_by_role text
+      CHECK (cancelled_by_role IN ('customer', 'vendor', 'admin', 'system'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'cancelled_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN cancelled_at timestamptz;
+  END IF;
+END $$;
+
+-- Create order_refunds table
+CREATE TABLE IF NOT EXISTS order_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  customer_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  amount decimal(12, 2) NOT NULL CHECK (amount > 0),
+  method text NOT NULL CHECK (method IN ('wallet', 'paystack')),
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  reason_code text NOT NULL,
+  wallet_transaction_id uuid REFERENCES wallet_transactions(id) ON DELETE SET NULL,
+  paystack_reference text,
+  paystack_refund_id text,
+  failure_reason text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_customer_id ON order_refunds(customer_id);
+CREATE INDEX IF NOT EXISTS idx_order_refunds_paystack_reference ON order_refunds(paystack_reference);
+
+-- Enable RLS
+ALTER TABLE order_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own refunds"
+  ON order_refunds FOR SELECT
+  TO authenticated
+  USING (auth.uid() = customer_id);
+
+CREATE POLICY "Vendors can view refunds for their orders"
+  ON order_refunds FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (SELECT id FROM orders WHERE vendor_user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can view all refunds"
+  ON order_refunds FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+INSERT INTO platform_settings (key, value)
+VALUES (
+  'cancellation_refunds',
+  jsonb_build_object('preparing_percent', 50, 'picked_up_percent', 0)
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- Refund due when a paid order is cancelled. Only admins can cut a refund,
+-- and only for reasons that are the customer's doing once food is underway.
+CREATE OR REPLACE FUNCTION order_refund_amount(
+  p_order_id uuid,
+  p_reason_code text,
+  p_actor_role text
+)
+RETURNS decimal
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_settings jsonb;
+  v_percent decimal := 100;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR v_order.payment_status IS DISTINCT FROM 'completed' THEN
+    RETURN 0;
+  END IF;
+
+  IF p_actor_role = 'admin'
+    AND p_reason_code IN ('customer_request', 'customer_unreachable')
+    AND v_order.status <> 'pending'
+  THEN
+    SELECT value INTO v_settings
+    FROM platform_settings
+    WHERE key = 'cancellation_refunds';
+
+    v_percent := CASE
+      WHEN v_order.status IN ('pickup_complete', 'arrived_at_customer')
+        THEN COALESCE((v_settings->>'picked_up_percent')::decimal, 0)
+      ELSE COALESCE((v_settings->>'preparing_percent')::decimal, 50)
+    END;
+  END IF;
+
+  RETURN round(v_order.total * LEAST(GREATEST(v_percent, 0), 100) / 100, 2);
+END;
+$$;
+
+-- Credit a refund to the customer's wallet
+CREATE OR REPLACE FUNCTION refund_order_to_wallet(
+  p_refund_id uuid,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS order_refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund order_refunds%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_wallet_id uuid;
+  v_transaction wallet_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_refund
+  FROM order_refunds
+  WHERE id = p_refund_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF v_refund.status = 'completed' THEN
+    RETURN v_refund;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_refund.order_id;
+
+  -- Customers who never opened a wallet get one to be refunded into
+  INSERT INTO wallets (user_id)
+  VALUES (v_refund.customer_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT id INTO v_wallet_id
+  FROM wallets
+  WHERE user_id = v_refund.customer_id;
+
+  v_transaction := post_wallet_transaction(
+    v_wallet_id,
+    'refund',
+    v_refund.amount,
+    'REFUND-' || v_refund.order_id,
+    'completed',
+    'Refund for cancelled order #' || v_order.order_number,
+    jsonb_build_object('refund_id', v_refund.id, 'reason_code', v_refund.reason_code),
+    v_refund.order_id
+  );
+
+  UPDATE order_refunds
+  SET method = 'wallet',
+      status = 'completed',
+      wallet_transaction_id = v_transaction.id,
+      failure_reason = COALESCE(p_failure_reason, failure_reason),
+      updated_at = now()
+  WHERE id = v_refund.id
+  RETURNING * INTO v_refund;
+
+  UPDATE orders
+  SET payment_status = 'refunded',
+      updated_at = now()
+  WHERE id = v_refund.order_id;
+
+  -- Card refunds that fell back to the wallet need a fresh notice
+  IF p_failure_reason IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, message, data, read)
+    VALUES (
+      v_refund.customer_id,
+      'order_refund',
+      'Refund Sent to Wallet',
+      'We could not refund your card for order #' || v_order.order_number
+        || ', so ₦' || to_char(v_refund.amount, 'FM999,999,990.00') || ' has been added to your wallet',
+      jsonb_build_object('order_id', v_refund.order_id, 'refund_id', v_refund.id),
+      false
+    );
+  END IF;
+
+  RETURN v_refund;
+END;
+$$;
+
+-- Paystack reported the card refund as processed
+CREATE OR REPLACE FUNCTION complete_order_refund(p_refund_id uuid)
+RETURNS order_refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund order_refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO v_refund
+  FROM order_refunds
+  WHERE id = p_refund_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF v_refund.status = 'completed' THEN
+    RETURN v_refund;
+  END IF;
+
+  UPDATE order_refunds
+  SET status = 'completed',
+      updated_at = now()
+  WHERE id = v_refund.id
+  RETURNING * INTO v_refund;
+
+  UPDATE orders
+  SET payment_status = 'refunded',
+      updated_at = now()
+  WHERE id = v_refund.order_id;
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  SELECT
+    v_refund.customer_id,
+    'order_refund',
+    'Refund Processed',
+    '₦' || to_char(v_refund.amount, 'FM999,999,990.00') || ' for order #' || o.order_number
+      || ' has been refunded to your card',
+    jsonb_build_object('order_id', v_refund.order_id, 'refund_id', v_refund.id),
+    false
+  FROM orders o
+  WHERE o.id = v_refund.order_id;
+
+  RETURN v_refund;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_order(
+  p_order_id uuid,
+  p_actor_id uuid,
+  p_reason_code text,
+  p_note text DEFAULT NULL,
+  p_refund_to text DEFAULT 'original'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_role text;
+  v_reason text := p_reason_code;
+  v_reason_label text;
+  v_amount decimal(12, 2);
+  v_refund order_refunds%ROWTYPE;
+  v_customer_message text;
+  v_cancelled_by_label text;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = p_actor_id AND role = 'admin') THEN
+    v_role := 'admin';
+  ELSIF v_order.vendor_user_id = p_actor_id THEN
+    v_role := 'vendor';
+  ELSIF v_order.customer_id = p_actor_id THEN
+    v_role := 'customer';
+  ELSE
+    RAISE EXCEPTION 'You cannot cancel this order';
+  END IF;
+
+  IF v_order.status IN ('delivered', 'cancelled') THEN
+    RAISE EXCEPTION 'Order is already %', v_order.status;
+  END IF;
+
+  IF v_role = 'customer' THEN
+    IF v_order.status <> 'pending' THEN
+      RAISE EXCEPTION 'The restaurant has accepted this order, please contact support to cancel';
+    END IF;
+    v_reason := 'customer_request';
+  ELSIF v_role = 'vendor' AND v_order.status NOT IN ('pending', 'confirmed', 'arrived_at_vendor') THEN
+    RAISE EXCEPTION 'Orders cannot be cancelled after pickup';
+  END IF;
+
+  v_reason_label := CASE v_reason
+    WHEN 'customer_request' THEN 'Cancelled at the customer''s request'
+    WHEN 'customer_unreachable' THEN 'Customer could not be reached'
+    WHEN 'items_unavailable' THEN 'Items are unavailable'
+    WHEN 'vendor_closed' THEN 'Restaurant is closed'
+    WHEN 'vendor_delay' THEN 'Restaurant cannot prepare the order in time'
+    WHEN 'no_rider_available' THEN 'No rider is available'
+    WHEN 'duplicate_order' THEN 'Duplicate order'
+    WHEN 'other' THEN 'Other'
+  END;
+
+  IF v_reason_label IS NULL THEN
+    RAISE EXCEPTION 'Unknown cancellation reason: %', v_reason;
+  END IF;
+
+  -- Stock is released by the order cancellation trigger
+  UPDATE orders
+  SET status = 'cancelled',
+      cancellation_reason = v_reason,
+      cancellation_note = NULLIF(btrim(p_note), ''),
+      cancelled_by = p_actor_id,
+      cancelled_by_role = v_role,
+      cancelled_at = now(),
+      updated_at = now()
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  v_amount := order_refund_amount(v_order.id, v_reason, v_role);
+
+  IF v_amount > 0 THEN
+    INSERT INTO order_refunds (
+      order_id, customer_id, amount, method, reason_code, paystack_reference, created_by
+    )
+    VALUES (
+      v_order.id,
+      v_order.customer_id,
+      v_amount,
+      CASE
+        WHEN v_order.payment_method = 'paystack'
+          AND v_order.payment_reference IS NOT NULL
+          AND p_refund_to IS DISTINCT FROM 'wallet'
+        THEN 'paystack'
+        ELSE 'wallet'
+      END,
+      v_reason,
+      CASE WHEN v_order.payment_method = 'paystack' THEN v_order.payment_reference END,
+      p_actor_id
+    )
+    RETURNING * INTO v_refund;
+
+    IF v_refund.method = 'wallet' THEN
+      v_refund := refund_order_to_wallet(v_refund.id);
+    END IF;
+  ELSIF v_order.payment_method = 'bank_transfer' AND v_order.payment_status = 'pending' THEN
+    -- Nothing was paid; stop waiting for a transfer once the whole checkout is gone
+    UPDATE orders
+    SET payment_status = 'failed'
+    WHERE id = v_order.id;
+
+    UPDATE checkout_groups cg
+    SET payment_status = 'failed'
+    WHERE cg.id = v_order.checkout_group_id
+      AND cg.payment_status = 'pending'
+      AND NOT EXISTS (
+        SELECT 1 FROM orders o
+        WHERE o.checkout_group_id = cg.id
+          AND o.status <> 'cancelled'
+      );
+  END IF;
+
+  v_customer_message := 'Order #' || v_order.order_number || ' was cancelled: ' || v_reason_label || '.';
+
+  IF v_refund.id IS NOT NULL THEN
+    v_customer_message := v_customer_message || ' ₦' || to_char(v_refund.amount, 'FM999,999,990.00')
+      || CASE
+        WHEN v_refund.method = 'wallet' THEN ' has been refunded to your wallet.'
+        ELSE ' will be refunded to your card within 5-10 business days.'
+      END;
+  END IF;
+
+  v_cancelled_by_label := CASE v_role
+    WHEN 'customer' THEN 'the customer'
+    WHEN 'vendor' THEN 'the restaurant'
+    ELSE 'support'
+  END;
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  VALUES (
+    v_order.customer_id,
+    'order_cancelled',
+    'Order Cancelled',
+    v_customer_message,
+    jsonb_build_object('order_id', v_order.id, 'refund_id', v_refund.id),
+    false
+  );
+
+  IF v_order.vendor_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, message, data, read)
+    VALUES (
+      v_order.vendor_user_id,
+      'order_cancelled',
+      'Order Cancelled',
+      'Order #' || v_order.order_number || ' was cancelled by ' || v_cancelled_by_label || ': ' || v_reason_label,
+      jsonb_build_object('order_id', v_order.id),
+      false
+    );
+  END IF;
+
+  IF v_order.assigned_rider_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, message, data, read)
+    SELECT
+      r.user_id,
+      'order_cancelled',
+      'Delivery Cancelled',
+      'Order #' || v_order.order_number || ' has been cancelled, do not pick it up',
+      jsonb_build_object('order_id', v_order.id),
+      false
+    FROM riders r
+    WHERE r.id = v_order.assigned_rider_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order_id', v_order.id,
+    'order_number', v_order.order_number,
+    'cancelled_by_role', v_role,
+    'refund_id', v_refund.id,
+    'refund_amount', COALESCE(v_refund.amount, 0),
+    'refund_method', v_refund.method,
+    'refund_status', v_refund.status,
+    'paystack_reference', v_refund.paystack_reference
+  );
+END;
+$$;
+
+-- Unpaid bank transfer orders now carry a cancellation reason
+CREATE OR REPLACE FUNCTION cancel_unpaid_bank_transfer(
+  p_checkout_group_id uuid,
+  p_reason text
+)
+RETURNS checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group checkout_groups%ROWTYPE;
+BEGIN
+  UPDATE checkout_groups
+  SET payment_status = 'failed'
+  WHERE id = p_checkout_group_id
+  RETURNING * INTO v_group;
+
+  UPDATE orders
+  SET payment_status = 'failed',
+      status = CASE WHEN status IN ('delivered', 'cancelled') THEN status ELSE 'cancelled' END,
+      cancellation_reason = CASE
+        WHEN status IN ('delivered', 'cancelled') THEN cancellation_reason
+        ELSE 'payment_not_received'
+      END,
+      cancellation_note = CASE
+        WHEN status IN ('delivered', 'cancelled') THEN cancellation_note
+        ELSE p_reason
+      END,
+      cancelled_by = CASE WHEN status IN ('delivered', 'cancelled') THEN cancelled_by ELSE auth.uid() END,
+      cancelled_by_role = CASE
+        WHEN status IN ('delivered', 'cancelled') THEN cancelled_by_role
+        WHEN auth.uid() IS NULL THEN 'system'
+        ELSE 'admin'
+      END,
+      cancelled_at = CASE WHEN status IN ('delivered', 'cancelled') THEN cancelled_at ELSE now() END,
+      updated_at = now()
+  WHERE checkout_group_id = v_group.id;
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  VALUES (
+    v_group.customer_id,
+    'payment_failed',
+    'Order Cancelled',
+    'Order #' || v_group.group_number || ' was cancelled: ' || p_reason,
+    jsonb_build_object('checkout_group_id', v_group.id),
+    false
+  );
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  SELECT
+    v.user_id,
+    'order_cancelled',
+    'Order Cancelled',
+    'Order #' || o.order_number || ' was cancelled because the bank transfer was not received',
+    jsonb_build_object('order_id', o.id),
+    false
+  FROM orders o
+  JOIN vendors v ON v.id = o.vendor_id
+  WHERE o.checkout_group_id = v_group.id;
+
+  RETURN v_group;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION order_refund_amount(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_order(uuid, uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_order_to_wallet(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_order_refund(uuid) FROM PUBLIC, anon, authenticated;
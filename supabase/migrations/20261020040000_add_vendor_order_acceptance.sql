@@ -0,0 +1,448 @@
+/*
+  # Vendor Order Acceptance Window
+
+  1. Modified Tables
+    - `orders`
+      - `accept_by` (timestamptz) - Deadline for the vendor to accept or reject;
+        set when the order is placed, or when a bank transfer is confirmed
+      - `accepted_at` (timestamptz) - When the vendor accepted
+      - `estimated_prep_minutes` (integer) - Vendor's prep-time estimate
+      - `acceptance_escalated_at` (timestamptz) - Set when admins were alerted
+        that the vendor has not responded
+
+  2. Settings
+    - `platform_settings.order_acceptance` -
+      `{ "accept_window_minutes": 10, "escalate_after_minutes": 5 }`. How long
+      a vendor has to respond, and how far into that window admins are alerted.
+
+  3. Functions
+    - `accept_order(p_order_id, p_prep_minutes)` - Vendor (or admin) accepts a
+      pending order with a prep-time estimate; confirming it starts dispatch
+    - `process_order_acceptance()` - Alerts admins about orders nearing their
+      deadline and cancels those past it with a full wallet refund; scheduled
+      every minute with pg_cron where the extension is available
+    - `cancel_order` accepts a null actor for system cancellations and the
+      `vendor_no_response` reason
+
+  4. Security
+    - `accept_order` checks the caller owns the order's vendor or is an admin
+    - `process_order_acceptance` is only executable by the service role
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'accept_by'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN accept_by timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'accepted_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN accepted_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'estimated_prep_minutes'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN estimated_prep_minutes integer
+      CHECK (estimated_prep_minutes > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'acceptance_escalated_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN acceptance_escalated_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_pending_accept_by
+  ON orders(accept_by)
+  WHERE status = 'pending';
+
+INSERT INTO platform_settings (key, value)
+VALUES (
+  'order_acceptance',
+  jsonb_build_object('accept_window_minutes', 10, 'escalate_after_minutes', 5)
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- Start the vendor's clock once there is something to cook. Bank transfer
+-- orders wait until the transfer is confirmed.
+CREATE OR REPLACE FUNCTION set_order_accept_by()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_settings jsonb;
+BEGIN
+  IF NEW.status = 'pending'
+    AND NEW.accept_by IS NULL
+    AND (NEW.payment_method IS DISTINCT FROM 'bank_transfer' OR NEW.payment_status = 'completed')
+  THEN
+    SELECT value INTO v_settings FROM platform_settings WHERE key = 'order_acceptance';
+
+    NEW.accept_by := now()
+      + make_interval(mins => COALESCE((v_settings->>'accept_window_minutes')::integer, 10));
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.status = 'pending'
+    AND NEW.status = 'confirmed'
+    AND NEW.accepted_at IS NULL
+  THEN
+    NEW.accepted_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_set_accept_by ON orders;
+CREATE TRIGGER on_order_set_accept_by
+  BEFORE INSERT OR UPDATE OF status, payment_status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_accept_by();
+
+-- Vendor accepts a pending order and says how long it will take
+CREATE OR REPLACE FUNCTION accept_order(
+  p_order_id uuid,
+  p_prep_minutes integer
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.vendor_user_id IS DISTINCT FROM auth.uid() AND NOT is_admin() THEN
+    RAISE EXCEPTION 'You cannot accept this order';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Order is already %', v_order.status;
+  END IF;
+
+  IF p_prep_minutes IS NULL OR p_prep_minutes < 1 OR p_prep_minutes > 240 THEN
+    RAISE EXCEPTION 'Prep time must be between 1 and 240 minutes';
+  END IF;
+
+  -- Confirming fires the dispatch trigger for delivery orders
+  UPDATE orders
+  SET status = 'confirmed',
+      accepted_at = now(),
+      estimated_prep_minutes = p_prep_minutes,
+      updated_at = now()
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  VALUES (
+    v_order.customer_id,
+    'order_accepted',
+    'Order Accepted',
+    'The restaurant accepted order #' || v_order.order_number || ' and expects it to be ready in about '
+      || p_prep_minutes || ' minutes',
+    jsonb_build_object('order_id', v_order.id, 'estimated_prep_minutes', p_prep_minutes),
+    false
+  );
+
+  RETURN v_order;
+END;
+$$;
+
+-- A null actor is the system acting on its own, e.g. the acceptance sweep
+CREATE OR REPLACE FUNCTION cancel_order(
+  p_order_id uuid,
+  p_actor_id uuid,
+  p_reason_code text,
+  p_note text DEFAULT NULL,
+  p_refund_to text DEFAULT 'original'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_role text;
+  v_reason text := p_reason_code;
+  v_reason_label text;
+  v_amount decimal(12, 2);
+  v_refund order_refunds%ROWTYPE;
+  v_customer_message text;
+  v_cancelled_by_label text;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF p_actor_id IS NULL THEN
+    v_role := 'system';
+  ELSIF EXISTS (SELECT 1 FROM profiles WHERE id = p_actor_id AND role = 'admin') THEN
+    v_role := 'admin';
+  ELSIF v_order.vendor_user_id = p_actor_id THEN
+    v_role := 'vendor';
+  ELSIF v_order.customer_id = p_actor_id THEN
+    v_role := 'customer';
+  ELSE
+    RAISE EXCEPTION 'You cannot cancel this order';
+  END IF;
+
+  IF v_order.status IN ('delivered', 'cancelled') THEN
+    RAISE EXCEPTION 'Order is already %', v_order.status;
+  END IF;
+
+  IF v_role = 'customer' THEN
+    IF v_order.status <> 'pending' THEN
+      RAISE EXCEPTION 'The restaurant has accepted this order, please contact support to cancel';
+    END IF;
+    v_reason := 'customer_request';
+  ELSIF v_role = 'vendor' AND v_order.status NOT IN ('pending', 'confirmed', 'arrived_at_vendor') THEN
+    RAISE EXCEPTION 'Orders cannot be cancelled after pickup';
+  END IF;
+
+  v_reason_label := CASE v_reason
+    WHEN 'customer_request' THEN 'Cancelled at the customer''s request'
+    WHEN 'customer_unreachable' THEN 'Customer could not be reached'
+    WHEN 'items_unavailable' THEN 'Items are unavailable'
+    WHEN 'vendor_closed' THEN 'Restaurant is closed'
+    WHEN 'vendor_delay' THEN 'Restaurant cannot prepare the order in time'
+    WHEN 'vendor_no_response' THEN 'Restaurant did not accept the order in time'
+    WHEN 'no_rider_available' THEN 'No rider is available'
+    WHEN 'duplicate_order' THEN 'Duplicate order'
+    WHEN 'other' THEN 'Other'
+  END;
+
+  IF v_reason_label IS NULL THEN
+    RAISE EXCEPTION 'Unknown cancellation reason: %', v_reason;
+  END IF;
+
+  -- Stock is released by the order cancellation trigger
+  UPDATE orders
+  SET status = 'cancelled',
+      cancellation_reason = v_reason,
+      cancellation_note = NULLIF(btrim(p_note), ''),
+      cancelled_by = p_actor_id,
+      cancelled_by_role = v_role,
+      cancelled_at = now(),
+      updated_at = now()
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  v_amount := order_refund_amount(v_order.id, v_reason, v_role);
+
+  IF v_amount > 0 THEN
+    INSERT INTO order_refunds (
+      order_id, customer_id, amount, method, reason_code, paystack_reference, created_by
+    )
+    VALUES (
+      v_order.id,
+      v_order.customer_id,
+      v_amount,
+      CASE
+        WHEN v_order.payment_method = 'paystack'
+          AND v_order.payment_reference IS NOT NULL
+          AND p_refund_to IS DISTINCT FROM 'wallet'
+        THEN 'paystack'
+        ELSE 'wallet'
+      END,
+      v_reason,
+      CASE WHEN v_order.payment_method = 'paystack' THEN v_order.payment_reference END,
+      p_actor_id
+    )
+    RETURNING * INTO v_refund;
+
+    IF v_refund.method = 'wallet' THEN
+      v_refund := refund_order_to_wallet(v_refund.id);
+    END IF;
+  ELSIF v_order.payment_method = 'bank_transfer' AND v_order.payment_status = 'pending' THEN
+    -- Nothing was paid; stop waiting for a transfer once the whole checkout is gone
+    UPDATE orders
+    SET payment_status = 'failed'
+    WHERE id = v_order.id;
+
+    UPDATE checkout_groups cg
+    SET payment_status = 'failed'
+    WHERE cg.id = v_order.checkout_group_id
+      AND cg.payment_status = 'pending'
+      AND NOT EXISTS (
+        SELECT 1 FROM orders o
+        WHERE o.checkout_group_id = cg.id
+          AND o.status <> 'cancelled'
+      );
+  END IF;
+
+  v_customer_message := 'Order #' || v_order.order_number || ' was cancelled: ' || v_reason_label || '.';
+
+  IF v_refund.id IS NOT NULL THEN
+    v_customer_message := v_customer_message || ' ₦' || to_char(v_refund.amount, 'FM999,999,990.00')
+      || CASE
+        WHEN v_refund.method = 'wallet' THEN ' has been refunded to your wallet.'
+        ELSE ' will be refunded to your card within 5-10 business days.'
+      END;
+  END IF;
+
+  v_cancelled_by_label := CASE v_role
+    WHEN 'customer' THEN 'by the customer'
+    WHEN 'vendor' THEN 'by the restaurant'
+    WHEN 'system' THEN 'automatically'
+    ELSE 'by support'
+  END;
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  VALUES (
+    v_order.customer_id,
+    'order_cancelled',
+    'Order Cancelled',
+    v_customer_message,
+    jsonb_build_object('order_id', v_order.id, 'refund_id', v_refund.id),
+    false
+  );
+
+  IF v_order.vendor_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, message, data, read)
+    VALUES (
+      v_order.vendor_user_id,
+      'order_cancelled',
+      'Order Cancelled',
+      'Order #' || v_order.order_number || ' was cancelled ' || v_cancelled_by_label || ': ' || v_reason_label,
+      jsonb_build_object('order_id', v_order.id),
+      false
+    );
+  END IF;
+
+  IF v_order.assigned_rider_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, message, data, read)
+    SELECT
+      r.user_id,
+      'order_cancelled',
+      'Delivery Cancelled',
+      'Order #' || v_order.order_number || ' has been cancelled, do not pick it up',
+      jsonb_build_object('order_id', v_order.id),
+      false
+    FROM riders r
+    WHERE r.id = v_order.assigned_rider_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order_id', v_order.id,
+    'order_number', v_order.order_number,
+    'cancelled_by_role', v_role,
+    'refund_id', v_refund.id,
+    'refund_amount', COALESCE(v_refund.amount, 0),
+    'refund_method', v_refund.method,
+    'refund_status', v_refund.status,
+    'paystack_reference', v_refund.paystack_reference
+  );
+END;
+$$;
+
+-- Alert admins about orders the vendor is sitting on, then cancel the ones
+-- past their deadline. Nobody is around to wait on Paystack here, so the
+-- refund goes to the customer's wallet straight away.
+CREATE OR REPLACE FUNCTION process_order_acceptance()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_window integer;
+  v_escalate_after integer;
+  v_order record;
+  v_cancelled integer := 0;
+BEGIN
+  SELECT value INTO v_settings FROM platform_settings WHERE key = 'order_acceptance';
+  v_window := COALESCE((v_settings->>'accept_window_minutes')::integer, 10);
+  v_escalate_after := LEAST(COALESCE((v_settings->>'escalate_after_minutes')::integer, 5), v_window);
+
+  FOR v_order IN
+    UPDATE orders
+    SET acceptance_escalated_at = now()
+    WHERE status = 'pending'
+      AND accept_by IS NOT NULL
+      AND acceptance_escalated_at IS NULL
+      AND accept_by > now()
+      AND accept_by - make_interval(mins => v_window - v_escalate_after) <= now()
+    RETURNING id, order_number, vendor_user_id, accept_by
+  LOOP
+    INSERT INTO notifications (user_id, type, title, message, data, read)
+    SELECT
+      profiles.id,
+      'acceptance_escalation',
+      'Vendor Not Responding',
+      'Order #' || v_order.order_number || ' has not been accepted and will be cancelled in '
+        || GREATEST(ceil(extract(epoch FROM v_order.accept_by - now()) / 60)::integer, 1)
+        || ' min unless the restaurant responds. Please contact them.',
+      jsonb_build_object('order_id', v_order.id, 'order_number', v_order.order_number, 'accept_by', v_order.accept_by),
+      false
+    FROM profiles
+    WHERE profiles.role = 'admin';
+
+    IF v_order.vendor_user_id IS NOT NULL THEN
+      INSERT INTO notifications (user_id, type, title, message, data, read)
+      VALUES (
+        v_order.vendor_user_id,
+        'acceptance_reminder',
+        'Order Waiting',
+        'Accept or reject order #' || v_order.order_number || ' now or it will be cancelled automatically',
+        jsonb_build_object('order_id', v_order.id, 'accept_by', v_order.accept_by),
+        false
+      );
+    END IF;
+  END LOOP;
+
+  FOR v_order IN
+    SELECT id FROM orders
+    WHERE status = 'pending'
+      AND accept_by IS NOT NULL
+      AND accept_by <= now()
+    ORDER BY accept_by
+  LOOP
+    PERFORM cancel_order(v_order.id, NULL, 'vendor_no_response', NULL, 'wallet');
+    v_cancelled := v_cancelled + 1;
+  END LOOP;
+
+  RETURN v_cancelled;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION accept_order(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION accept_order(uuid, integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_order(uuid, uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_order_acceptance() FROM PUBLIC, anon, authenticated;
+
+-- Vendors get alerted and orders auto-cancelled within a minute of their deadline
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('order-acceptance-sweep', '* * * * *', 'SELECT process_order_acceptance()');
+  END IF;
+END $$;
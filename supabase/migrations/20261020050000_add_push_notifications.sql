@@ -0,0 +1,281 @@
+/*
+  # Push Notifications
+
+  1. New Tables
+    - `push_tokens`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `token` (text, unique) - Expo push token of one device
+      - `platform` (text) - ios or android
+      - `device_name` (text)
+      - `created_at`, `last_seen_at` (timestamptz) - `last_seen_at` is refreshed
+        every time the app registers the token
+    - `notification_preferences`
+      - `user_id` (uuid, foreign key to profiles)
+      - `notification_type` (text) - Matches `notifications.type`
+      - `push_enabled` (boolean) - Types without a row are pushed
+      - `updated_at` (timestamptz)
+    - `push_tickets`
+      - `id` (uuid, primary key)
+      - `notification_id` (uuid, foreign key to notifications)
+      - `push_token_id` (uuid, foreign key to push_tokens)
+      - `ticket_id` (text) - Expo ticket, checked later for a delivery receipt
+      - `status` (text) - pending, ok or error
+      - `error` (text)
+      - `created_at`, `checked_at` (timestamptz)
+
+  2. Modified Tables
+    - `notifications`
+      - `push_status` (text) - pending, sending, sent, skipped or failed.
+        Rows that existed before this migration are marked skipped
+      - `push_attempts` (integer)
+      - `push_claimed_at` (timestamptz) - When a worker started sending it
+      - `push_sent_at` (timestamptz)
+      - `push_error` (text)
+
+  3. Functions
+    - `register_push_token(p_token, p_platform, p_device_name)` - Saves the
+      device's token for the signed-in user, taking it over from whoever used
+      the device before
+    - `claim_push_notifications(p_ids, p_limit)` - Hands pending notifications
+      to the `push-send` worker, so a webhook call and a sweep never send the
+      same row twice. Claims older than five minutes are handed out again
+    - Vendors now get a `new_order` notification when an order starts waiting
+      for them to accept it
+
+  4. Security
+    - Enable RLS on all new tables
+    - Users can view and delete their own push tokens, and register them
+      through `register_push_token`
+    - Users manage their own notification preferences
+    - `push_tickets` and `claim_push_notifications` are service role only
+*/
+
+CREATE TABLE IF NOT EXISTS push_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  token text NOT NULL UNIQUE,
+  platform text CHECK (platform IN ('ios', 'android')),
+  device_name text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  last_seen_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tokens_user_id ON push_tokens(user_id);
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  notification_type text NOT NULL,
+  push_enabled boolean DEFAULT true NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, notification_type)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'push_status'
+  ) THEN
+    -- Existing rows default to skipped so the first sweep does not replay history
+    ALTER TABLE notifications ADD COLUMN push_status text DEFAULT 'skipped' NOT NULL
+      CHECK (push_status IN ('pending', 'sending', 'sent', 'skipped', 'failed'));
+    ALTER TABLE notifications ALTER COLUMN push_status SET DEFAULT 'pending';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'push_attempts'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN push_attempts integer DEFAULT 0 NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'push_claimed_at'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN push_claimed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'push_sent_at'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN push_sent_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'push_error'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN push_error text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_push_pending
+  ON notifications(created_at)
+  WHERE push_status IN ('pending', 'sending');
+
+CREATE TABLE IF NOT EXISTS push_tickets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id uuid REFERENCES notifications(id) ON DELETE CASCADE NOT NULL,
+  push_token_id uuid REFERENCES push_tokens(id) ON DELETE CASCADE NOT NULL,
+  ticket_id text NOT NULL,
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'ok', 'error')),
+  error text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  checked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tickets_pending
+  ON push_tickets(created_at)
+  WHERE status = 'pending';
+
+-- Enable RLS
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_tickets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push tokens"
+  ON push_tokens FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push tokens"
+  ON push_tokens FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own notification preferences"
+  ON notification_preferences FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification preferences"
+  ON notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences"
+  ON notification_preferences FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- A device belongs to whoever signed in on it last
+CREATE OR REPLACE FUNCTION register_push_token(
+  p_token text,
+  p_platform text,
+  p_device_name text
+)
+RETURNS push_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token push_tokens%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO push_tokens (user_id, token, platform, device_name, last_seen_at)
+  VALUES (auth.uid(), p_token, p_platform, p_device_name, now())
+  ON CONFLICT (token) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      platform = EXCLUDED.platform,
+      device_name = EXCLUDED.device_name,
+      last_seen_at = now()
+  RETURNING * INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+-- Hand notifications to the push worker. Called with the id from the insert
+-- webhook, or without ids by the periodic sweep that retries anything missed.
+CREATE OR REPLACE FUNCTION claim_push_notifications(
+  p_ids uuid[] DEFAULT NULL,
+  p_limit integer DEFAULT 100
+)
+RETURNS SETOF notifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notifications
+  SET push_status = 'sending',
+      push_claimed_at = now(),
+      push_attempts = push_attempts + 1
+  WHERE id IN (
+    SELECT id FROM notifications
+    WHERE (p_ids IS NULL OR id = ANY(p_ids))
+      AND (
+        push_status = 'pending'
+        OR (push_status = 'sending' AND push_claimed_at < now() - interval '5 minutes')
+      )
+      AND push_attempts < 5
+      -- Old news is not worth waking anyone for
+      AND created_at > now() - interval '1 day'
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Tell the vendor as soon as an order starts waiting for them
+CREATE OR REPLACE FUNCTION notify_vendor_new_order()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_minutes integer;
+BEGIN
+  IF NEW.vendor_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_minutes := GREATEST(ceil(extract(epoch FROM NEW.accept_by - now()) / 60)::integer, 1);
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  VALUES (
+    NEW.vendor_user_id,
+    'new_order',
+    'New Order',
+    'Order #' || NEW.order_number || ' for ₦' || to_char(NEW.total, 'FM999,999,990.00')
+      || ' is waiting. Accept or reject it within ' || v_minutes
+      || CASE WHEN v_minutes = 1 THEN ' minute.' ELSE ' minutes.' END,
+    jsonb_build_object('order_id', NEW.id, 'order_number', NEW.order_number, 'accept_by', NEW.accept_by),
+    false
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- accept_by is usually set by a BEFORE trigger rather than the statement
+-- itself, so the update trigger watches every column
+DROP TRIGGER IF EXISTS on_order_awaiting_vendor_notify ON orders;
+CREATE TRIGGER on_order_awaiting_vendor_notify
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  WHEN (NEW.accept_by IS NOT NULL AND NEW.status = 'pending')
+  EXECUTE FUNCTION notify_vendor_new_order();
+
+DROP TRIGGER IF EXISTS on_order_awaiting_vendor_notify_update ON orders;
+CREATE TRIGGER on_order_awaiting_vendor_notify_update
+  AFTER UPDATE ON orders
+  FOR EACH ROW
+  WHEN (OLD.accept_by IS NULL AND NEW.accept_by IS NOT NULL AND NEW.status = 'pending')
+  EXECUTE FUNCTION notify_vendor_new_order();
+
+REVOKE EXECUTE ON FUNCTION register_push_token(text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION register_push_token(text, text, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION claim_push_notifications(uuid[], integer) FROM PUBLIC, anon, authenticated;
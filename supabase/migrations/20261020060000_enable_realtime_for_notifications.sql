@@ -0,0 +1,20 @@
+/*
+  # Enable Realtime for Notifications Table
+
+  1. Changes
+    - Add notifications table to realtime publication if it is not already in it
+
+  2. Purpose
+    - The notification centre and the unread badge on the tab bar update as soon
+      as a notification arrives or is read on another device
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
@@ -0,0 +1,344 @@
+/*
+  # Scheduled Orders
+
+  1. Modified Tables
+    - `orders`
+      - `released_at` (timestamptz) - When the order entered the vendor's queue
+        and rider dispatch. ASAP orders are released when placed; scheduled
+        orders stay unreleased until shortly before their slot
+    - `vendors`
+      - `scheduled_slot_capacity` (integer) - Scheduled orders the vendor takes
+        per delivery slot; null uses the platform default
+
+  2. Settings
+    - `platform_settings.scheduled_orders` -
+      `{ "slot_minutes": 30, "min_lead_minutes": 60, "release_lead_minutes": 45,
+      "max_days_ahead": 7, "default_slot_capacity": 10, "timezone": "Africa/Lagos" }`.
+      Slot length, how far ahead a slot must be booked, how long before the
+      slot the order is released to the vendor, how many days can be booked,
+      and the timezone `vendors.operating_hours` are read in.
+
+  3. Functions
+    - `get_delivery_slots(p_vendor_ids)` - Bookable slots that fall inside the
+      operating hours of every vendor in the cart, with the places left in each
+    - `release_scheduled_orders()` - Releases scheduled orders whose slot is
+      within the release lead time; scheduled every minute with pg_cron where
+      the extension is available
+    - A trigger checks the slot of every new scheduled order and keeps it
+      unreleased. An admin confirming an unreleased order releases it straight
+      away
+    - `set_order_accept_by` only starts the vendor's acceptance window once
+      the order is released
+
+  4. Security
+    - Vendors can no longer see or update orders that have not been released
+    - `release_scheduled_orders` is only executable by the service role
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'released_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN released_at timestamptz DEFAULT now();
+    UPDATE orders SET released_at = created_at;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'vendors' AND column_name = 'scheduled_slot_capacity'
+  ) THEN
+    ALTER TABLE vendors ADD COLUMN scheduled_slot_capacity integer
+      CHECK (scheduled_slot_capacity >= 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_unreleased
+  ON orders(scheduled_delivery_time)
+  WHERE released_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_vendor_slot
+  ON orders(vendor_id, scheduled_delivery_time)
+  WHERE is_scheduled;
+
+INSERT INTO platform_settings (key, value)
+VALUES (
+  'scheduled_orders',
+  jsonb_build_object(
+    'slot_minutes', 30,
+    'min_lead_minutes', 60,
+    'release_lead_minutes', 45,
+    'max_days_ahead', 7,
+    'default_slot_capacity', 10,
+    'timezone', 'Africa/Lagos'
+  )
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- Vendors only see an order once it is released into their queue
+DROP POLICY IF EXISTS "Vendors can view own orders via user_id" ON orders;
+CREATE POLICY "Vendors can view own orders via user_id"
+  ON orders
+  FOR SELECT
+  TO authenticated
+  USING (vendor_user_id = auth.uid() AND released_at IS NOT NULL);
+
+DROP POLICY IF EXISTS "Vendors can update own orders via user_id" ON orders;
+CREATE POLICY "Vendors can update own orders via user_id"
+  ON orders
+  FOR UPDATE
+  TO authenticated
+  USING (vendor_user_id = auth.uid() AND released_at IS NOT NULL)
+  WITH CHECK (vendor_user_id = auth.uid());
+
+-- Slots run on a fixed grid from local midnight so every vendor in a
+-- multi-vendor cart offers the same start times. A slot is bookable when it
+-- fits inside the opening hours of all of them; hours that close at or
+-- before they open run past midnight.
+CREATE OR REPLACE FUNCTION get_delivery_slots(p_vendor_ids uuid[])
+RETURNS TABLE (slot_start timestamptz, slot_end timestamptz, remaining integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_timezone text;
+  v_slot_minutes integer;
+  v_min_lead integer;
+  v_days integer;
+  v_default_capacity integer;
+  v_today timestamp;
+BEGIN
+  SELECT value INTO v_settings FROM platform_settings WHERE key = 'scheduled_orders';
+  v_settings := COALESCE(v_settings, '{}'::jsonb);
+
+  v_timezone := COALESCE(v_settings->>'timezone', 'Africa/Lagos');
+  v_slot_minutes := GREATEST(COALESCE((v_settings->>'slot_minutes')::integer, 30), 5);
+  v_min_lead := COALESCE((v_settings->>'min_lead_minutes')::integer, 60);
+  v_days := COALESCE((v_settings->>'max_days_ahead')::integer, 7);
+  v_default_capacity := COALESCE((v_settings->>'default_slot_capacity')::integer, 10);
+  v_today := date_trunc('day', now() AT TIME ZONE v_timezone);
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT starts_at
+    FROM generate_series(
+      v_today AT TIME ZONE v_timezone,
+      (v_today + make_interval(days => v_days + 1)) AT TIME ZONE v_timezone,
+      make_interval(mins => v_slot_minutes)
+    ) AS starts_at
+    WHERE starts_at >= now() + make_interval(mins => v_min_lead)
+  ),
+  opening_windows AS (
+    SELECT
+      v.id AS vendor_id,
+      COALESCE(v.scheduled_slot_capacity, v_default_capacity) AS capacity,
+      (days.local_day + (hours.day_hours->>'open')::time) AT TIME ZONE v_timezone AS opens_at,
+      (
+        days.local_day
+        + (hours.day_hours->>'close')::time
+        + CASE
+            WHEN (hours.day_hours->>'close')::time <= (hours.day_hours->>'open')::time
+            THEN interval '1 day'
+            ELSE interval '0 minutes'
+          END
+      ) AT TIME ZONE v_timezone AS closes_at
+    FROM vendors v
+    -- Yesterday is included for hours that run past midnight into today
+    CROSS JOIN generate_series(
+      v_today - interval '1 day',
+      v_today + make_interval(days => v_days + 1),
+      interval '1 day'
+    ) AS days(local_day)
+    CROSS JOIN LATERAL (
+      SELECT v.operating_hours -> lower(to_char(days.local_day, 'FMDay')) AS day_hours
+    ) hours
+    WHERE v.id = ANY(p_vendor_ids)
+      AND v.is_active
+      AND hours.day_hours IS NOT NULL
+      AND NOT COALESCE((hours.day_hours->>'closed')::boolean, false)
+      AND COALESCE(hours.day_hours->>'open', '') <> ''
+      AND COALESCE(hours.day_hours->>'close', '') <> ''
+  ),
+  vendor_slots AS (
+    SELECT DISTINCT
+      c.starts_at,
+      w.vendor_id,
+      w.capacity - (
+        SELECT count(*)
+        FROM orders o
+        WHERE o.vendor_id = w.vendor_id
+          AND o.is_scheduled
+          AND o.scheduled_delivery_time = c.starts_at
+          AND o.status <> 'cancelled'
+      )::integer AS places_left
+    FROM candidates c
+    JOIN opening_windows w
+      ON w.opens_at <= c.starts_at
+     AND c.starts_at + make_interval(mins => v_slot_minutes) <= w.closes_at
+  )
+  SELECT
+    vs.starts_at,
+    vs.starts_at + make_interval(mins => v_slot_minutes),
+    GREATEST(min(vs.places_left), 0)::integer
+  FROM vendor_slots vs
+  GROUP BY vs.starts_at
+  HAVING count(DISTINCT vs.vendor_id) = (SELECT count(DISTINCT id) FROM unnest(p_vendor_ids) AS id)
+  ORDER BY vs.starts_at;
+END;
+$$;
+
+-- Check the slot of a new scheduled order and hold it back from the vendor
+-- until shortly before the slot
+CREATE OR REPLACE FUNCTION check_scheduled_order()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_remaining integer;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- An admin who moves an order on before its release time releases it;
+    -- orders cancelled before release never reach the vendor
+    IF NEW.released_at IS NULL AND NEW.status NOT IN ('pending', 'cancelled') THEN
+      NEW.released_at := now();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT COALESCE(NEW.is_scheduled, false) THEN
+    NEW.released_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.scheduled_delivery_time IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery slot';
+  END IF;
+
+  -- A customer who has already paid keeps their slot even if it filled up
+  -- while they were on the payment page
+  IF NEW.payment_status IS DISTINCT FROM 'completed' THEN
+    -- Orders for the same vendor and slot queue here so the last place
+    -- cannot be sold twice
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.vendor_id::text || ':' || NEW.scheduled_delivery_time::text));
+
+    SELECT slots.remaining INTO v_remaining
+    FROM get_delivery_slots(ARRAY[NEW.vendor_id]) AS slots
+    WHERE slots.slot_start = NEW.scheduled_delivery_time;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'That delivery slot is no longer available. Please choose another time.';
+    END IF;
+
+    IF v_remaining <= 0 THEN
+      RAISE EXCEPTION 'That delivery slot is fully booked. Please choose another time.';
+    END IF;
+  END IF;
+
+  SELECT value INTO v_settings FROM platform_settings WHERE key = 'scheduled_orders';
+
+  IF NEW.scheduled_delivery_time
+       - make_interval(mins => COALESCE((v_settings->>'release_lead_minutes')::integer, 45)) <= now() THEN
+    NEW.released_at := now();
+  ELSE
+    NEW.released_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run before on_order_set_accept_by, which needs released_at
+DROP TRIGGER IF EXISTS on_order_schedule_check ON orders;
+CREATE TRIGGER on_order_schedule_check
+  BEFORE INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION check_scheduled_order();
+
+-- Start the vendor's clock once there is something to cook. Bank transfer
+-- orders wait until the transfer is confirmed and scheduled orders until
+-- they are released.
+CREATE OR REPLACE FUNCTION set_order_accept_by()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_settings jsonb;
+BEGIN
+  IF NEW.status = 'pending'
+    AND NEW.accept_by IS NULL
+    AND NEW.released_at IS NOT NULL
+    AND (NEW.payment_method IS DISTINCT FROM 'bank_transfer' OR NEW.payment_status = 'completed')
+  THEN
+    SELECT value INTO v_settings FROM platform_settings WHERE key = 'order_acceptance';
+
+    NEW.accept_by := now()
+      + make_interval(mins => COALESCE((v_settings->>'accept_window_minutes')::integer, 10));
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.status = 'pending'
+    AND NEW.status = 'confirmed'
+    AND NEW.accepted_at IS NULL
+  THEN
+    NEW.accepted_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_set_accept_by ON orders;
+CREATE TRIGGER on_order_set_accept_by
+  BEFORE INSERT OR UPDATE OF status, payment_status, released_at ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_accept_by();
+
+-- Move scheduled orders into the vendor's queue. Setting released_at starts
+-- the acceptance window, which in turn sends the vendor's new order alert;
+-- rider dispatch follows once the vendor accepts.
+CREATE OR REPLACE FUNCTION release_scheduled_orders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_released integer;
+BEGIN
+  SELECT value INTO v_settings FROM platform_settings WHERE key = 'scheduled_orders';
+
+  UPDATE orders
+  SET released_at = now(),
+      updated_at = now()
+  WHERE released_at IS NULL
+    AND status = 'pending'
+    AND scheduled_delivery_time
+      - make_interval(mins => COALESCE((v_settings->>'release_lead_minutes')::integer, 45)) <= now();
+
+  GET DIAGNOSTICS v_released = ROW_COUNT;
+  RETURN v_released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_delivery_slots(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_delivery_slots(uuid[]) TO authenticated;
+REVOKE EXECUTE ON FUNCTION release_scheduled_orders() FROM PUBLIC, anon, authenticated;
+
+-- Scheduled orders reach the vendor within a minute of their release time
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('scheduled-order-release', '* * * * *', 'SELECT release_scheduled_orders()');
+  END IF;
+END $$;
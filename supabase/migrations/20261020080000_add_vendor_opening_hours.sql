@@ -0,0 +1,578 @@
+/*
+  # Vendor Opening Hours
+
+  1. Modified Tables
+    - `vendors`
+      - `timezone` (text) - Time zone the opening hours are kept in,
+        Africa/Lagos by default
+      - `orders_paused_until` (timestamptz) - A busy kitchen can stop new
+        orders until then without closing the store
+      - `operating_hours` days may now list `shifts` (`[{ "open", "close" }]`)
+        for split shifts; days without shifts keep using `open` and `close`
+      - `is_currently_open` is now kept up to date by the database
+
+  2. New Tables
+    - `vendor_closures`
+      - `id` (uuid, primary key)
+      - `vendor_id` (uuid, foreign key to vendors)
+      - `starts_on`, `ends_on` (date) - First and last closed day, inclusive,
+        in the vendor's time zone
+      - `reason` (text) - Shown to customers, e.g. "Christmas"
+      - `created_at` (timestamptz)
+
+  3. Functions
+    - `vendor_opening_windows(p_vendor_id, p_from, p_to)` - Every shift the
+      vendor is open for between two times, skipping closed days
+    - `is_vendor_open(p_vendor_id, p_at)` - Whether the vendor's hours cover
+      a moment, now by default
+    - `vendor_taking_orders(p_vendor_id)` - Open, accepting orders and not
+      paused
+    - `get_vendor_availability(p_vendor_ids)` - The above for each vendor,
+      with the reason it is closed and when it next opens
+    - `set_vendor_orders_paused(p_minutes)` - Pauses the signed-in vendor's
+      new orders; 0 resumes them
+    - `refresh_vendor_open_status()` - Keeps `is_currently_open` in step with
+      the clock; scheduled every minute with pg_cron
+    - `get_delivery_slots` now follows split shifts, closures and the vendor's
+      time zone, and skips vendors not accepting orders
+    - `check_scheduled_order` now refuses immediate orders for vendors that
+      are not taking orders when the order is created, so a quote made before
+      a pause or closing time cannot still be ordered. Orders already paid by
+      card are honoured.
+
+  4. Security
+    - Enable RLS on `vendor_closures`
+    - Anyone signed in can view closures; vendors manage their own and admins
+      manage all
+    - `refresh_vendor_open_status` is only executable by the service role
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'vendors' AND column_name = 'timezone'
+  ) THEN
+    ALTER TABLE vendors ADD COLUMN timezone text DEFAULT 'Africa/Lagos' NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'vendors' AND column_name = 'orders_paused_until'
+  ) THEN
+    ALTER TABLE vendors ADD COLUMN orders_paused_until timestamptz;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS vendor_closures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id uuid REFERENCES vendors(id) ON DELETE CASCADE NOT NULL,
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendor_closures_vendor_dates
+  ON vendor_closures(vendor_id, starts_on, ends_on);
+
+ALTER TABLE vendor_closures ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view vendor closures" ON vendor_closures;
+CREATE POLICY "Authenticated users can view vendor closures"
+  ON vendor_closures FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Vendors can add own closures" ON vendor_closures;
+CREATE POLICY "Vendors can add own closures"
+  ON vendor_closures FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    vendor_id IN (SELECT id FROM vendors WHERE user_id = auth.uid())
+    OR is_admin()
+  );
+
+DROP POLICY IF EXISTS "Vendors can update own closures" ON vendor_closures;
+CREATE POLICY "Vendors can update own closures"
+  ON vendor_closures FOR UPDATE
+  TO authenticated
+  USING (
+    vendor_id IN (SELECT id FROM vendors WHERE user_id = auth.uid())
+    OR is_admin()
+  )
+  WITH CHECK (
+    vendor_id IN (SELECT id FROM vendors WHERE user_id = auth.uid())
+    OR is_admin()
+  );
+
+DROP POLICY IF EXISTS "Vendors can delete own closures" ON vendor_closures;
+CREATE POLICY "Vendors can delete own closures"
+  ON vendor_closures FOR DELETE
+  TO authenticated
+  USING (
+    vendor_id IN (SELECT id FROM vendors WHERE user_id = auth.uid())
+    OR is_admin()
+  );
+
+-- Reject hours the open-now check could not read, before they are saved
+CREATE OR REPLACE FUNCTION validate_vendor_opening_hours()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_day text;
+  v_hours jsonb;
+  v_shift jsonb;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone %', NEW.timezone;
+  END IF;
+
+  IF NEW.operating_hours IS NULL OR jsonb_typeof(NEW.operating_hours) <> 'object' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_day, v_hours IN SELECT key, value FROM jsonb_each(NEW.operating_hours) LOOP
+    IF COALESCE((v_hours->>'closed')::boolean, false) THEN
+      CONTINUE;
+    END IF;
+
+    FOR v_shift IN
+      SELECT value FROM jsonb_array_elements(
+        CASE
+          WHEN jsonb_typeof(v_hours->'shifts') = 'array' AND jsonb_array_length(v_hours->'shifts') > 0
+          THEN v_hours->'shifts'
+          ELSE jsonb_build_array(v_hours)
+        END
+      )
+    LOOP
+      IF COALESCE(v_shift->>'open', '') !~ '^([01]?[0-9]|2[0-3]):[0-5][0-9]$'
+         OR COALESCE(v_shift->>'close', '') !~ '^([01]?[0-9]|2[0-3]):[0-5][0-9]$' THEN
+        RAISE EXCEPTION 'Opening hours for % must use 24-hour HH:MM times', initcap(v_day);
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_vendor_hours_validate ON vendors;
+CREATE TRIGGER on_vendor_hours_validate
+  BEFORE INSERT OR UPDATE OF operating_hours, timezone ON vendors
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_vendor_opening_hours();
+
+-- Each shift is tied to the local day it starts on, so a shift that runs
+-- past midnight belongs to the day before and a closure covers the shifts
+-- starting on its days. Shifts that close at or before they open end the
+-- next day.
+CREATE OR REPLACE FUNCTION vendor_opening_windows(
+  p_vendor_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (opens_at timestamptz, closes_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH local_days AS (
+    SELECT
+      v.id AS vendor_id,
+      v.timezone,
+      days.local_day,
+      v.operating_hours -> lower(to_char(days.local_day, 'FMDay')) AS day_hours
+    FROM vendors v
+    -- Yesterday is included for shifts that run past midnight into today
+    CROSS JOIN generate_series(
+      ((p_from AT TIME ZONE v.timezone)::date - 1)::timestamp,
+      (p_to AT TIME ZONE v.timezone)::date::timestamp,
+      interval '1 day'
+    ) AS days(local_day)
+    WHERE v.id = p_vendor_id
+      AND NOT EXISTS (
+        SELECT 1
+        FROM vendor_closures c
+        WHERE c.vendor_id = v.id
+          AND days.local_day::date BETWEEN c.starts_on AND c.ends_on
+      )
+  ),
+  shifts AS (
+    SELECT
+      ld.local_day,
+      ld.timezone,
+      NULLIF(shift->>'open', '')::time AS open_time,
+      NULLIF(shift->>'close', '')::time AS close_time
+    FROM local_days ld
+    CROSS JOIN LATERAL jsonb_array_elements(
+      CASE
+        WHEN jsonb_typeof(ld.day_hours->'shifts') = 'array' AND jsonb_array_length(ld.day_hours->'shifts') > 0
+        THEN ld.day_hours->'shifts'
+        ELSE jsonb_build_array(ld.day_hours)
+      END
+    ) AS shift
+    WHERE ld.day_hours IS NOT NULL
+      AND NOT COALESCE((ld.day_hours->>'closed')::boolean, false)
+  ),
+  windows AS (
+    SELECT
+      (s.local_day + s.open_time) AT TIME ZONE s.timezone AS opens_at,
+      (
+        s.local_day
+        + s.close_time
+        + CASE WHEN s.close_time <= s.open_time THEN interval '1 day' ELSE interval '0 minutes' END
+      ) AT TIME ZONE s.timezone AS closes_at
+    FROM shifts s
+    WHERE s.open_time IS NOT NULL
+      AND s.close_time IS NOT NULL
+  )
+  SELECT w.opens_at, w.closes_at
+  FROM windows w
+  WHERE w.closes_at > p_from
+    AND w.opens_at < p_to
+  ORDER BY w.opens_at;
+$$;
+
+CREATE OR REPLACE FUNCTION is_vendor_open(p_vendor_id uuid, p_at timestamptz DEFAULT now())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM vendor_opening_windows(p_vendor_id, p_at, p_at + interval '1 minute') w
+    WHERE w.opens_at <= p_at
+      AND w.closes_at > p_at
+  );
+$$;
+
+-- Immediate orders need all three; scheduled orders only need the vendor to
+-- be open for the slot, which get_delivery_slots checks
+CREATE OR REPLACE FUNCTION vendor_taking_orders(p_vendor_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM vendors v
+    WHERE v.id = p_vendor_id
+      AND v.is_active
+      AND COALESCE(v.is_accepting_orders, true)
+      AND (v.orders_paused_until IS NULL OR v.orders_paused_until <= now())
+      AND is_vendor_open(v.id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION get_vendor_availability(p_vendor_ids uuid[])
+RETURNS TABLE (
+  vendor_id uuid,
+  business_name text,
+  can_order_now boolean,
+  is_open boolean,
+  is_accepting_orders boolean,
+  paused_until timestamptz,
+  closure_reason text,
+  next_open_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    v.id,
+    v.business_name::text,
+    vendor_taking_orders(v.id),
+    is_vendor_open(v.id),
+    v.is_active AND COALESCE(v.is_accepting_orders, true),
+    CASE WHEN v.orders_paused_until > now() THEN v.orders_paused_until END,
+    (
+      SELECT c.reason
+      FROM vendor_closures c
+      WHERE c.vendor_id = v.id
+        AND (now() AT TIME ZONE v.timezone)::date BETWEEN c.starts_on AND c.ends_on
+      ORDER BY c.starts_on
+      LIMIT 1
+    ),
+    CASE
+      WHEN NOT is_vendor_open(v.id) THEN (
+        SELECT min(w.opens_at)
+        FROM vendor_opening_windows(v.id, now(), now() + interval '14 days') w
+        WHERE w.opens_at > now()
+      )
+    END
+  FROM vendors v
+  WHERE v.id = ANY(p_vendor_ids);
+$$;
+
+CREATE OR REPLACE FUNCTION set_vendor_orders_paused(p_minutes integer)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_paused_until timestamptz;
+BEGIN
+  IF p_minutes IS NULL OR p_minutes < 0 OR p_minutes > 240 THEN
+    RAISE EXCEPTION 'Orders can be paused for up to 4 hours';
+  END IF;
+
+  v_paused_until := CASE WHEN p_minutes = 0 THEN NULL ELSE now() + make_interval(mins => p_minutes) END;
+
+  UPDATE vendors
+  SET orders_paused_until = v_paused_until,
+      updated_at = now()
+  WHERE user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only vendors can pause orders';
+  END IF;
+
+  RETURN v_paused_until;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_vendor_open_status()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changed integer;
+BEGIN
+  UPDATE vendors v
+  SET is_currently_open = open_now.is_open
+  FROM (SELECT id, is_vendor_open(id) AS is_open FROM vendors) open_now
+  WHERE open_now.id = v.id
+    AND v.is_currently_open IS DISTINCT FROM open_now.is_open;
+
+  GET DIAGNOSTICS v_changed = ROW_COUNT;
+  RETURN v_changed;
+END;
+$$;
+
+-- Saving new hours or closures takes effect straight away rather than at
+-- the next sweep
+CREATE OR REPLACE FUNCTION sync_vendor_open_status()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_vendor_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'vendors' THEN
+    v_vendor_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_vendor_id := OLD.vendor_id;
+  ELSE
+    v_vendor_id := NEW.vendor_id;
+  END IF;
+
+  UPDATE vendors
+  SET is_currently_open = is_vendor_open(id)
+  WHERE id = v_vendor_id
+    AND is_currently_open IS DISTINCT FROM is_vendor_open(id);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_vendor_hours_sync_open ON vendors;
+CREATE TRIGGER on_vendor_hours_sync_open
+  AFTER INSERT OR UPDATE OF operating_hours, timezone ON vendors
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_vendor_open_status();
+
+DROP TRIGGER IF EXISTS on_vendor_closure_sync_open ON vendor_closures;
+CREATE TRIGGER on_vendor_closure_sync_open
+  AFTER INSERT OR UPDATE OR DELETE ON vendor_closures
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_vendor_open_status();
+
+-- Same slot grid as before; the opening windows now come from
+-- vendor_opening_windows
+CREATE OR REPLACE FUNCTION get_delivery_slots(p_vendor_ids uuid[])
+RETURNS TABLE (slot_start timestamptz, slot_end timestamptz, remaining integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_timezone text;
+  v_slot_minutes integer;
+  v_min_lead integer;
+  v_days integer;
+  v_default_capacity integer;
+  v_today timestamp;
+BEGIN
+  SELECT value INTO v_settings FROM platform_settings WHERE key = 'scheduled_orders';
+  v_settings := COALESCE(v_settings, '{}'::jsonb);
+
+  v_timezone := COALESCE(v_settings->>'timezone', 'Africa/Lagos');
+  v_slot_minutes := GREATEST(COALESCE((v_settings->>'slot_minutes')::integer, 30), 5);
+  v_min_lead := COALESCE((v_settings->>'min_lead_minutes')::integer, 60);
+  v_days := COALESCE((v_settings->>'max_days_ahead')::integer, 7);
+  v_default_capacity := COALESCE((v_settings->>'default_slot_capacity')::integer, 10);
+  v_today := date_trunc('day', now() AT TIME ZONE v_timezone);
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT starts_at
+    FROM generate_series(
+      v_today AT TIME ZONE v_timezone,
+      (v_today + make_interval(days => v_days + 1)) AT TIME ZONE v_timezone,
+      make_interval(mins => v_slot_minutes)
+    ) AS starts_at
+    WHERE starts_at >= now() + make_interval(mins => v_min_lead)
+  ),
+  opening_windows AS (
+    SELECT
+      v.id AS vendor_id,
+      COALESCE(v.scheduled_slot_capacity, v_default_capacity) AS capacity,
+      w.opens_at,
+      w.closes_at
+    FROM vendors v
+    CROSS JOIN LATERAL vendor_opening_windows(
+      v.id,
+      now(),
+      (v_today + make_interval(days => v_days + 1)) AT TIME ZONE v_timezone
+    ) w
+    WHERE v.id = ANY(p_vendor_ids)
+      AND v.is_active
+      AND COALESCE(v.is_accepting_orders, true)
+  ),
+  vendor_slots AS (
+    SELECT DISTINCT
+      c.starts_at,
+      w.vendor_id,
+      w.capacity - (
+        SELECT count(*)
+        FROM orders o
+        WHERE o.vendor_id = w.vendor_id
+          AND o.is_scheduled
+          AND o.scheduled_delivery_time = c.starts_at
+          AND o.status <> 'cancelled'
+      )::integer AS places_left
+    FROM candidates c
+    JOIN opening_windows w
+      ON w.opens_at <= c.starts_at
+     AND c.starts_at + make_interval(mins => v_slot_minutes) <= w.closes_at
+  )
+  SELECT
+    vs.starts_at,
+    vs.starts_at + make_interval(mins => v_slot_minutes),
+    GREATEST(min(vs.places_left), 0)::integer
+  FROM vendor_slots vs
+  GROUP BY vs.starts_at
+  HAVING count(DISTINCT vs.vendor_id) = (SELECT count(DISTINCT id) FROM unnest(p_vendor_ids) AS id)
+  ORDER BY vs.starts_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_scheduled_order()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_remaining integer;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- An admin who moves an order on before its release time releases it;
+    -- orders cancelled before release never reach the vendor
+    IF NEW.released_at IS NULL AND NEW.status NOT IN ('pending', 'cancelled') THEN
+      NEW.released_at := now();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT COALESCE(NEW.is_scheduled, false) THEN
+    -- Checked again here because a quote can outlive a pause or closing
+    -- time. Card orders are only created once Paystack has taken the money,
+    -- so those are honoured; wallet payments roll back with the order.
+    IF NEW.payment_method IS DISTINCT FROM 'paystack' AND NOT vendor_taking_orders(NEW.vendor_id) THEN
+      RAISE EXCEPTION 'This restaurant is not taking orders right now. Please schedule your order for later.';
+    END IF;
+
+    NEW.released_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.scheduled_delivery_time IS NULL THEN
+    RAISE EXCEPTION 'Please choose a delivery slot';
+  END IF;
+
+  -- A customer who has already paid keeps their slot even if it filled up
+  -- while they were on the payment page
+  IF NEW.payment_status IS DISTINCT FROM 'completed' THEN
+    -- Orders for the same vendor and slot queue here so the last place
+    -- cannot be sold twice
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.vendor_id::text || ':' || NEW.scheduled_delivery_time::text));
+
+    SELECT slots.remaining INTO v_remaining
+    FROM get_delivery_slots(ARRAY[NEW.vendor_id]) AS slots
+    WHERE slots.slot_start = NEW.scheduled_delivery_time;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'That delivery slot is no longer available. Please choose another time.';
+    END IF;
+
+    IF v_remaining <= 0 THEN
+      RAISE EXCEPTION 'That delivery slot is fully booked. Please choose another time.';
+    END IF;
+  END IF;
+
+  SELECT value INTO v_settings FROM platform_settings WHERE key = 'scheduled_orders';
+
+  IF NEW.scheduled_delivery_time
+       - make_interval(mins => COALESCE((v_settings->>'release_lead_minutes')::integer, 45)) <= now() THEN
+    NEW.released_at := now();
+  ELSE
+    NEW.released_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION vendor_opening_windows(uuid, timestamptz, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION vendor_opening_windows(uuid, timestamptz, timestamptz) TO authenticated;
+REVOKE EXECUTE ON FUNCTION is_vendor_open(uuid, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_vendor_open(uuid, timestamptz) TO authenticated;
+REVOKE EXECUTE ON FUNCTION vendor_taking_orders(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION vendor_taking_orders(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_vendor_availability(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_vendor_availability(uuid[]) TO authenticated;
+REVOKE EXECUTE ON FUNCTION set_vendor_orders_paused(integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_vendor_orders_paused(integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_vendor_open_status() FROM PUBLIC, anon, authenticated;
+
+SELECT refresh_vendor_open_status();
+
+-- Opening and closing times are reflected within a minute
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('vendor-open-status', '* * * * *', 'SELECT refresh_vendor_open_status()');
+  END IF;
+END $$;
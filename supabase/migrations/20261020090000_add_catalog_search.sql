@@ -0,0 +1,301 @@
+/*
+  # Catalog Search
+
+  1. Modified Tables
+    - `vendors`
+      - `search_vector` (tsvector) - Business name, cuisine types and
+        description, kept up to date by trigger
+    - `products`
+      - `search_vector` (tsvector) - Name and description, kept up to date by
+        trigger
+      - `is_vegetarian`, `is_vegan` (boolean) - Added if missing
+
+  2. Indexes
+    - GIN full-text indexes on both `search_vector` columns
+    - Trigram indexes on `vendors.business_name` and `products.name` for
+      misspelt searches
+
+  3. Functions
+    - `search_catalog(...)` - Searches restaurants and dishes together. Every
+      word of the query is matched as a prefix, and names within a few typos
+      still match. Filters by cuisine type, vegetarian or vegan dishes, dish
+      price range and minimum rating. Returns
+      `{ "restaurants": { "items", "total", "next_offset" }, "dishes": { ... } }`;
+      `p_group` pages through one group at a time
+
+  4. Security
+    - `search_catalog` only returns active, verified restaurants and
+      available dishes, and is executable by signed-in users
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'is_vegetarian'
+  ) THEN
+    ALTER TABLE products ADD COLUMN is_vegetarian boolean DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'is_vegan'
+  ) THEN
+    ALTER TABLE products ADD COLUMN is_vegan boolean DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'vendors' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE vendors ADD COLUMN search_vector tsvector;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE products ADD COLUMN search_vector tsvector;
+  END IF;
+END $$;
+
+-- Names weigh most, so "pizza" ranks a pizzeria above a menu that mentions it
+CREATE OR REPLACE FUNCTION vendor_search_document(
+  p_business_name text,
+  p_cuisine_types text[],
+  p_description text
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(p_business_name, '')), 'A')
+    || setweight(to_tsvector('english', COALESCE(array_to_string(p_cuisine_types, ' '), '')), 'B')
+    || setweight(to_tsvector('english', COALESCE(p_description, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION product_search_document(p_name text, p_description text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(p_name, '')), 'A')
+    || setweight(to_tsvector('english', COALESCE(p_description, '')), 'B');
+$$;
+
+CREATE OR REPLACE FUNCTION update_vendor_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := vendor_search_document(NEW.business_name, NEW.cuisine_types, NEW.description);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_vendor_search_vector ON vendors;
+CREATE TRIGGER on_vendor_search_vector
+  BEFORE INSERT OR UPDATE OF business_name, cuisine_types, description ON vendors
+  FOR EACH ROW
+  EXECUTE FUNCTION update_vendor_search_vector();
+
+CREATE OR REPLACE FUNCTION update_product_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := product_search_document(NEW.name, NEW.description);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_product_search_vector ON products;
+CREATE TRIGGER on_product_search_vector
+  BEFORE INSERT OR UPDATE OF name, description ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_product_search_vector();
+
+UPDATE vendors
+SET search_vector = vendor_search_document(business_name, cuisine_types, description);
+
+UPDATE products
+SET search_vector = product_search_document(name, description);
+
+CREATE INDEX IF NOT EXISTS idx_vendors_search_vector ON vendors USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_vendors_business_name_trgm ON vendors USING gin(business_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_products_name_trgm ON products USING gin(name gin_trgm_ops);
+
+-- Restaurants match on their own name, cuisines and description; dish
+-- filters (diet and price) keep only restaurants with at least one such dish
+-- available. The rating filter applies to the restaurant in the first group
+-- and to the dish in the second.
+CREATE OR REPLACE FUNCTION search_catalog(
+  p_query text DEFAULT '',
+  p_cuisine_types text[] DEFAULT NULL,
+  p_vegetarian boolean DEFAULT false,
+  p_vegan boolean DEFAULT false,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_rating numeric DEFAULT NULL,
+  p_group text DEFAULT 'all',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+DECLARE
+  v_query text := lower(trim(COALESCE(p_query, '')));
+  v_tsquery tsquery;
+  v_cuisines text[];
+  v_dish_filters boolean;
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50);
+  v_offset integer := GREATEST(COALESCE(p_offset, 0), 0);
+  v_restaurants jsonb;
+  v_dishes jsonb;
+BEGIN
+  IF p_group NOT IN ('all', 'restaurants', 'dishes') THEN
+    RAISE EXCEPTION 'Unknown search group %', p_group;
+  END IF;
+
+  -- Every word is matched as a prefix so results show up while typing
+  SELECT to_tsquery('english', string_agg(word || ':*', ' & '))
+  INTO v_tsquery
+  FROM unnest(regexp_split_to_array(regexp_replace(v_query, '[^[:alnum:]]+', ' ', 'g'), ' ')) AS word
+  WHERE word <> '';
+
+  SELECT array_agg(lower(trim(c)))
+  INTO v_cuisines
+  FROM unnest(p_cuisine_types) AS c
+  WHERE trim(c) <> '';
+
+  v_dish_filters := COALESCE(p_vegetarian, false)
+    OR COALESCE(p_vegan, false)
+    OR p_min_price IS NOT NULL
+    OR p_max_price IS NOT NULL;
+
+  IF p_group IN ('all', 'restaurants') THEN
+    WITH matches AS (
+      SELECT
+        v.*,
+        COALESCE(ts_rank(v.search_vector, v_tsquery), 0)
+          + CASE WHEN v_query = '' THEN 0 ELSE word_similarity(v_query, v.business_name) END AS score
+      FROM vendors v
+      WHERE v.is_active
+        AND v.is_verified
+        AND (v_query = '' OR v.search_vector @@ v_tsquery OR v_query <% v.business_name)
+        AND (p_min_rating IS NULL OR v.rating >= p_min_rating)
+        AND (
+          v_cuisines IS NULL
+          OR EXISTS (SELECT 1 FROM unnest(v.cuisine_types) AS ct WHERE lower(ct) = ANY(v_cuisines))
+        )
+        AND (
+          NOT v_dish_filters
+          OR EXISTS (
+            SELECT 1
+            FROM products p
+            WHERE p.vendor_id = v.id
+              AND p.is_available
+              AND (NOT COALESCE(p_vegetarian, false) OR COALESCE(p.is_vegetarian, false) OR COALESCE(p.is_vegan, false))
+              AND (NOT COALESCE(p_vegan, false) OR COALESCE(p.is_vegan, false))
+              AND (p_min_price IS NULL OR p.price >= p_min_price)
+              AND (p_max_price IS NULL OR p.price <= p_max_price)
+          )
+        )
+    ),
+    page AS (
+      SELECT m.*, count(*) OVER () AS total_count
+      FROM matches m
+      ORDER BY m.score DESC, m.rating DESC NULLS LAST, m.business_name
+      LIMIT v_limit OFFSET v_offset
+    )
+    SELECT jsonb_build_object(
+      'items', COALESCE(
+        jsonb_agg(
+          to_jsonb(page) - 'search_vector' - 'score' - 'total_count'
+          ORDER BY page.score DESC, page.rating DESC NULLS LAST, page.business_name
+        ),
+        '[]'::jsonb
+      ),
+      'total', COALESCE(max(page.total_count), 0),
+      'next_offset', CASE
+        WHEN v_offset + count(*) < COALESCE(max(page.total_count), 0) THEN v_offset + count(*)
+      END
+    )
+    INTO v_restaurants
+    FROM page;
+  END IF;
+
+  IF p_group IN ('all', 'dishes') THEN
+    WITH matches AS (
+      SELECT
+        p.id,
+        p.vendor_id,
+        v.business_name AS vendor_name,
+        p.name,
+        p.description,
+        p.image_url,
+        p.price,
+        p.rating,
+        p.total_reviews,
+        COALESCE(p.is_vegetarian, false) AS is_vegetarian,
+        COALESCE(p.is_vegan, false) AS is_vegan,
+        p.preparation_time,
+        COALESCE(ts_rank(p.search_vector, v_tsquery), 0)
+          + CASE WHEN v_query = '' THEN 0 ELSE word_similarity(v_query, p.name) END AS score
+      FROM products p
+      JOIN vendors v ON v.id = p.vendor_id
+      WHERE p.is_available
+        AND v.is_active
+        AND v.is_verified
+        AND (v_query = '' OR p.search_vector @@ v_tsquery OR v_query <% p.name)
+        AND (NOT COALESCE(p_vegetarian, false) OR COALESCE(p.is_vegetarian, false) OR COALESCE(p.is_vegan, false))
+        AND (NOT COALESCE(p_vegan, false) OR COALESCE(p.is_vegan, false))
+        AND (p_min_price IS NULL OR p.price >= p_min_price)
+        AND (p_max_price IS NULL OR p.price <= p_max_price)
+        AND (p_min_rating IS NULL OR p.rating >= p_min_rating)
+        AND (
+          v_cuisines IS NULL
+          OR EXISTS (SELECT 1 FROM unnest(v.cuisine_types) AS ct WHERE lower(ct) = ANY(v_cuisines))
+        )
+    ),
+    page AS (
+      SELECT m.*, count(*) OVER () AS total_count
+      FROM matches m
+      ORDER BY m.score DESC, m.rating DESC NULLS LAST, m.name
+      LIMIT v_limit OFFSET v_offset
+    )
+    SELECT jsonb_build_object(
+      'items', COALESCE(
+        jsonb_agg(
+          to_jsonb(page) - 'score' - 'total_count'
+          ORDER BY page.score DESC, page.rating DESC NULLS LAST, page.name
+        ),
+        '[]'::jsonb
+      ),
+      'total', COALESCE(max(page.total_count), 0),
+      'next_offset', CASE
+        WHEN v_offset + count(*) < COALESCE(max(page.total_count), 0) THEN v_offset + count(*)
+      END
+    )
+    INTO v_dishes
+    FROM page;
+  END IF;
+
+  RETURN jsonb_build_object('restaurants', v_restaurants, 'dishes', v_dishes);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION search_catalog(text, text[], boolean, boolean, numeric, numeric, numeric, text, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_catalog(text, text[], boolean, boolean, numeric, numeric, numeric, text, integer, integer) TO authenticated;
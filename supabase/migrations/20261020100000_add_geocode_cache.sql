@@ -0,0 +1,24 @@
+/*
+  # Geocode Cache
+
+  1. New Tables
+    - `geocode_cache` - Addresses already found by the geocoder, so re-pricing
+      a checkout does not look the same address up again
+      - `query` (text, primary key) - Address as sent to the geocoder, lower
+        case with spaces collapsed
+      - `latitude`, `longitude` (numeric)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS with no policies; only edge functions using the service role
+      read and write it
+*/
+
+CREATE TABLE IF NOT EXISTS geocode_cache (
+  query text PRIMARY KEY,
+  latitude numeric(9, 6) NOT NULL,
+  longitude numeric(9, 6) NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE geocode_cache ENABLE ROW LEVEL SECURITY;
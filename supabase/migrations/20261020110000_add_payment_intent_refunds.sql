@@ -0,0 +1,222 @@
+/*
+  # Refund Card Charges That Cannot Be Used
+
+  1. Modified Tables
+    - `payment_intents`
+      - `authorization_url`, `access_code` (text) - Paystack checkout page for
+        the intent, handed out again when the customer retries the same quote
+      - `wallet_transaction_id` (uuid, foreign key to wallet_transactions) -
+        Wallet credit for a charge that was refunded
+      - `status` may now be 'refunded': the charge went through but could not
+        pay for the quote, so it was credited to the customer's wallet
+      - Only one pending or succeeded intent per quote
+
+  2. Functions
+    - `refund_payment_intent(p_intent_id, p_amount, p_reason)` - Credits a
+      charge to the customer's wallet and tells them why
+    - `confirm_payment_intent` now refunds a charge for a quote another
+      payment already used, and a charge for less than the quoted total,
+      instead of reporting success or failing with the money kept. A charge
+      that succeeds closes any other open intent for its quote.
+
+  3. Security
+    - `refund_payment_intent` is only executable by the service role
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'payment_intents' AND column_name = 'authorization_url'
+  ) THEN
+    ALTER TABLE payment_intents ADD COLUMN authorization_url text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'payment_intents' AND column_name = 'access_code'
+  ) THEN
+    ALTER TABLE payment_intents ADD COLUMN access_code text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'payment_intents' AND column_name = 'wallet_transaction_id'
+  ) THEN
+    ALTER TABLE payment_intents ADD COLUMN wallet_transaction_id uuid REFERENCES wallet_transactions(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+ALTER TABLE payment_intents DROP CONSTRAINT IF EXISTS payment_intents_status_check;
+ALTER TABLE payment_intents ADD CONSTRAINT payment_intents_status_check
+  CHECK (status IN ('pending', 'succeeded', 'failed', 'refunded'));
+
+-- Earlier retries opened a new intent each time; keep only the newest open one
+UPDATE payment_intents pi
+SET status = 'failed',
+    failure_reason = 'Replaced by a newer payment attempt',
+    updated_at = now()
+WHERE pi.status = 'pending'
+  AND EXISTS (
+    SELECT 1
+    FROM payment_intents other
+    WHERE other.quote_id = pi.quote_id
+      AND other.id <> pi.id
+      AND (
+        other.status = 'succeeded'
+        OR (other.status = 'pending' AND (other.created_at, other.id) > (pi.created_at, pi.id))
+      )
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_intents_open_quote
+  ON payment_intents(quote_id)
+  WHERE status IN ('pending', 'succeeded');
+
+-- The charge has been taken but cannot pay for an order, so the money goes
+-- to the customer's wallet rather than staying with Paystack
+CREATE OR REPLACE FUNCTION refund_payment_intent(
+  p_intent_id uuid,
+  p_amount decimal,
+  p_reason text
+)
+RETURNS payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_intent payment_intents%ROWTYPE;
+  v_wallet_id uuid;
+  v_transaction wallet_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_intent
+  FROM payment_intents
+  WHERE id = p_intent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment intent not found';
+  END IF;
+
+  IF v_intent.status = 'refunded' THEN
+    RETURN v_intent;
+  END IF;
+
+  -- Customers who never opened a wallet get one to be refunded into
+  INSERT INTO wallets (user_id)
+  VALUES (v_intent.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT id INTO v_wallet_id
+  FROM wallets
+  WHERE user_id = v_intent.user_id;
+
+  v_transaction := post_wallet_transaction(
+    v_wallet_id,
+    'refund',
+    p_amount,
+    'REFUND-' || v_intent.reference,
+    'completed',
+    'Refund for card payment ' || v_intent.reference,
+    jsonb_build_object('payment_intent_id', v_intent.id, 'reason', p_reason),
+    NULL,
+    v_intent.reference
+  );
+
+  UPDATE payment_intents
+  SET status = 'refunded',
+      failure_reason = p_reason,
+      wallet_transaction_id = v_transaction.id,
+      updated_at = now()
+  WHERE id = v_intent.id
+  RETURNING * INTO v_intent;
+
+  INSERT INTO notifications (user_id, type, title, message, data, read)
+  VALUES (
+    v_intent.user_id,
+    'payment_refunded',
+    'Payment Refunded',
+    p_reason || '. Your payment of ₦' || to_char(p_amount, 'FM999,999,990.00') || ' has been added to your wallet.',
+    jsonb_build_object('reference', v_intent.reference, 'amount', p_amount),
+    false
+  );
+
+  RETURN v_intent;
+END;
+$$;
+
+-- Confirm a successful charge and create its orders
+CREATE OR REPLACE FUNCTION confirm_payment_intent(
+  p_reference text,
+  p_amount_paid decimal
+)
+RETURNS payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_intent payment_intents%ROWTYPE;
+  v_quote checkout_quotes%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+BEGIN
+  SELECT * INTO v_intent
+  FROM payment_intents
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment intent not found';
+  END IF;
+
+  -- Webhook and callback can both report the same charge
+  IF v_intent.status IN ('succeeded', 'refunded') THEN
+    RETURN v_intent;
+  END IF;
+
+  IF p_amount_paid < v_intent.amount THEN
+    RETURN refund_payment_intent(v_intent.id, p_amount_paid, 'Paid amount does not match the quoted total');
+  END IF;
+
+  -- Locked so a wallet payment or another charge for the same quote waits
+  SELECT * INTO v_quote
+  FROM checkout_quotes
+  WHERE id = v_intent.quote_id
+  FOR UPDATE;
+
+  IF v_quote.consumed_at IS NOT NULL THEN
+    SELECT * INTO v_group FROM checkout_groups WHERE id = v_quote.checkout_group_id;
+
+    IF v_group.payment_reference IS DISTINCT FROM p_reference THEN
+      RETURN refund_payment_intent(v_intent.id, p_amount_paid, 'This order had already been paid for');
+    END IF;
+  END IF;
+
+  -- The customer has already paid, so a quote that expired meanwhile is honoured
+  v_group := create_orders_from_quote(v_intent.quote_id, 'completed', p_reference, true);
+
+  -- Other attempts still open for this quote are closed; one paid later is
+  -- refunded above
+  UPDATE payment_intents
+  SET status = 'failed',
+      failure_reason = 'This order has already been paid for',
+      updated_at = now()
+  WHERE quote_id = v_intent.quote_id
+    AND id <> v_intent.id
+    AND status = 'pending';
+
+  UPDATE payment_intents
+  SET status = 'succeeded',
+      checkout_group_id = v_group.id,
+      order_number = v_group.group_number,
+      failure_reason = NULL,
+      updated_at = now()
+  WHERE id = v_intent.id
+  RETURNING * INTO v_intent;
+
+  RETURN v_intent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refund_payment_intent(uuid, decimal, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION confirm_payment_intent(text, decimal) FROM PUBLIC, anon, authenticated;
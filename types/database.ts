@@ -15,6 +15,22 @@ export type OrderStatus =
   | 'delivered'
   | 'cancelled';
 
+export type PaymentMethod = 'cash_on_delivery' | 'bank_transfer' | 'wallet' | 'paystack';
+
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+
+export type CancellationReason =
+  | 'customer_request'
+  | 'customer_unreachable'
+  | 'items_unavailable'
+  | 'vendor_closed'
+  | 'vendor_delay'
+  | 'vendor_no_response'
+  | 'no_rider_available'
+  | 'duplicate_order'
+  | 'payment_not_received'
+  | 'other';
+
 export interface Profile {
   id: string;
   email: string;
@@ -65,16 +81,146 @@ export interface Vendor {
   closing_time?: string;
   average_prep_time?: number;
   delivery_radius?: number;
+  latitude?: number | null;
+  longitude?: number | null;
   minimum_order?: number;
   is_accepting_orders?: boolean;
-  operating_hours?: Record<string, { open: string; close: string; closed: boolean }>;
+  operating_hours?: Record<string, OperatingHoursDay>;
   average_preparation_time?: number;
   cuisine_types?: string[];
   is_currently_open?: boolean;
+  delivery_proof_policy?: DeliveryProofPolicy;
+  scheduled_slot_capacity?: number | null;
+  timezone?: string;
+  orders_paused_until?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OpeningShift {
+  open: string;
+  close: string;
+}
+
+export interface OperatingHoursDay {
+  open: string;
+  close: string;
+  closed: boolean;
+  // Split shifts; when present these replace open and close
+  shifts?: OpeningShift[];
+}
+
+export interface VendorClosure {
+  id: string;
+  vendor_id: string;
+  starts_on: string;
+  ends_on: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface VendorAvailability {
+  vendor_id: string;
+  business_name: string;
+  can_order_now: boolean;
+  is_open: boolean;
+  is_accepting_orders: boolean;
+  paused_until: string | null;
+  closure_reason: string | null;
+  next_open_at: string | null;
+}
+
+export interface DishSearchResult {
+  id: string;
+  vendor_id: string;
+  vendor_name: string;
+  name: string;
+  description: string | null;
+  image_url: string | null;
+  price: number;
+  rating: number;
+  total_reviews: number;
+  is_vegetarian: boolean;
+  is_vegan: boolean;
+  preparation_time: number | null;
+}
+
+export interface SearchResultGroup<T> {
+  items: T[];
+  total: number;
+  // Offset of the next page, or null when there are no more results
+  next_offset: number | null;
+}
+
+export interface CatalogSearchResults {
+  restaurants: SearchResultGroup<Vendor> | null;
+  dishes: SearchResultGroup<DishSearchResult> | null;
+}
+
+export interface DeliveryProofPolicy {
+  code_required: boolean;
+  // Orders below this total skip the code; 0 asks for it on every order
+  code_min_order_total: number;
+  photo_required: boolean;
+  signature_required: boolean;
+}
+
+export interface CommissionRule {
+  id: string;
+  vendor_id: string | null;
+  category_id: string | null;
+  rate_percent: number;
+  updated_by?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface VendorPayoutAccount {
+  vendor_id: string;
+  bank_name: string;
+  account_number: string;
+  account_name: string;
+  updated_at: string;
+}
+
+export interface VendorSettlementLine {
+  order_id: string | null;
+  order_number: string | null;
+  date: string;
+  sales: number;
+  commission: number;
+  net: number;
+}
+
+export interface VendorSettlement {
+  id: string;
+  vendor_id: string;
+  period_start: string;
+  period_end: string;
+  order_count: number;
+  gross_sales: number;
+  commission_total: number;
+  net_payable: number;
+  status: 'pending' | 'paid';
+  statement: VendorSettlementLine[];
+  bank_details?: Omit<VendorPayoutAccount, 'vendor_id' | 'updated_at'> | null;
+  payment_reference?: string | null;
+  paid_at?: string | null;
+  paid_by?: string | null;
+  created_at: string;
+}
+
+export interface VendorLedgerEntry {
+  id: string;
+  vendor_id: string;
+  order_id?: string | null;
+  settlement_id?: string | null;
+  entry_type: 'sale' | 'commission' | 'payout' | 'adjustment';
+  amount: number;
+  description?: string | null;
+  created_at: string;
+}
+
 export interface Product {
   id: string;
   vendor_id: string;
@@ -95,6 +241,8 @@ export interface Product {
   spice_level?: number;
   allergens?: string[];
   is_available_now?: boolean;
+  low_stock_threshold: number;
+  sold_out_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -108,15 +256,85 @@ export interface ProductImage {
   created_at: string;
 }
 
+export interface ProductOption {
+  id: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
+  is_available: boolean;
+  display_order: number;
+}
+
+export interface ProductOptionGroup {
+  id: string;
+  product_id: string;
+  name: string;
+  is_required: boolean;
+  min_selections: number;
+  max_selections: number;
+  display_order: number;
+  product_options: ProductOption[];
+}
+
+export interface SelectedOption {
+  group_id: string;
+  group_name: string;
+  option_id: string;
+  name: string;
+  price_delta: number;
+}
+
 export interface Cart {
   id: string;
   user_id: string;
   product_id: string;
   quantity: number;
+  selected_options: SelectedOption[];
+  options_key: string;
+  unit_price: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Address {
+  id: string;
+  user_id: string;
+  label: string;
+  recipient_name: string;
+  phone: string;
+  address_line: string;
+  landmark?: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  is_default: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export interface DeliveryAddressSnapshot {
+  address_id: string | null;
+  label: string | null;
+  recipient_name: string;
+  phone: string;
+  address_line: string;
+  landmark: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface DeliveryProofRequirements {
+  code: boolean;
+  photo: boolean;
+  signature: boolean;
+}
+
+// Strokes as SVG path data, drawn on a canvas of the given size
+export interface DeliverySignature {
+  width: number;
+  height: number;
+  paths: string[];
+}
+
 export interface Order {
   id: string;
   customer_id: string;
@@ -126,8 +344,37 @@ export interface Order {
   subtotal: number;
   delivery_fee: number;
   tax: number;
+  discount_total: number;
   total: number;
+  tip_amount?: number;
+  promotion_id?: string | null;
+  payment_method?: PaymentMethod;
+  payment_status?: PaymentStatus;
+  payment_reference?: string | null;
+  checkout_group_id?: string | null;
+  cancellation_reason?: CancellationReason | null;
+  cancellation_note?: string | null;
+  cancelled_by?: string | null;
+  cancelled_by_role?: 'customer' | 'vendor' | 'admin' | 'system' | null;
+  cancelled_at?: string | null;
+  accept_by?: string | null;
+  accepted_at?: string | null;
+  estimated_prep_minutes?: number | null;
+  acceptance_escalated_at?: string | null;
+  is_scheduled?: boolean;
+  scheduled_delivery_time?: string | null;
+  // Null while a scheduled order is held back from the vendor
+  released_at?: string | null;
   delivery_address: string;
+  delivery_address_snapshot?: DeliveryAddressSnapshot | null;
+  assigned_rider_id?: string | null;
+  delivered_at?: string | null;
+  customer_confirmation_method?: string | null;
+  delivery_proof_requirements?: DeliveryProofRequirements;
+  delivery_code_verified_at?: string | null;
+  delivery_photo_path?: string | null;
+  delivery_signature?: DeliverySignature | null;
+  stock_reservations?: Record<string, number>;
   delivery_type: 'pickup' | 'delivery';
   meal_time_preference?: 'breakfast' | 'lunch' | 'dinner';
   notes?: string;
@@ -135,6 +382,64 @@ export interface Order {
   updated_at: string;
 }
 
+export interface OrderRefund {
+  id: string;
+  order_id: string;
+  customer_id: string;
+  amount: number;
+  method: 'wallet' | 'paystack';
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  reason_code: CancellationReason;
+  wallet_transaction_id?: string | null;
+  paystack_reference?: string | null;
+  paystack_refund_id?: string | null;
+  failure_reason?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CheckoutGroup {
+  id: string;
+  customer_id: string;
+  group_number: string;
+  subtotal: number;
+  delivery_fee: number;
+  discount_total: number;
+  total: number;
+  payment_method: PaymentMethod;
+  payment_status: PaymentStatus;
+  payment_reference?: string | null;
+  created_at: string;
+}
+
+export interface BankStatementLine {
+  id: string;
+  import_id: string;
+  bank_account_id: string;
+  transaction_date: string;
+  amount: number;
+  narration: string;
+  reference?: string | null;
+  status: 'unmatched' | 'matched' | 'ignored';
+  checkout_group_id?: string | null;
+  matched_by?: string | null;
+  matched_at?: string | null;
+  created_at: string;
+}
+
+export interface OrderLocationPing {
+  id: string;
+  order_id: string;
+  rider_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  speed: number | null;
+  heading: number | null;
+  recorded_at: string;
+}
+
 export interface OrderItem {
   id: string;
   order_id: string;
@@ -142,6 +447,7 @@ export interface OrderItem {
   quantity: number;
   unit_price: number;
   subtotal: number;
+  selected_options: SelectedOption[];
   created_at: string;
 }
 
@@ -184,6 +490,38 @@ export interface Rider {
   updated_at: string;
 }
 
+export interface PeakWindow {
+  start: string;
+  end: string;
+}
+
+export interface RiderEarningRules {
+  id: string;
+  version: number;
+  base_pay: number;
+  per_km_rate: number;
+  batch_stop_bonus: number;
+  peak_multiplier: number;
+  peak_hours: PeakWindow[];
+  rain_multiplier: number;
+  timezone: string;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface RiderEarningBreakdown {
+  base_pay: number;
+  distance_km: number;
+  distance_pay: number;
+  batch_id: string | null;
+  batch_bonus: number;
+  peak: boolean;
+  rain: boolean;
+  multiplier: number;
+  delivery_pay: number;
+  tip: number;
+}
+
 export interface RiderEarning {
   id: string;
   rider_id: string;
@@ -191,6 +529,36 @@ export interface RiderEarning {
   amount: number;
   date: string;
   status: 'pending' | 'paid';
+  rule_id?: string | null;
+  rule_version?: number | null;
+  tip_amount?: number;
+  breakdown?: RiderEarningBreakdown | null;
+  payout_id?: string | null;
+  paid_at?: string | null;
+  created_at: string;
+}
+
+export interface RiderPayoutLine {
+  earning_id: string;
+  order_id: string | null;
+  order_number: string | null;
+  date: string;
+  amount: number;
+  tip: number;
+  rule_version: number | null;
+}
+
+export interface RiderPayout {
+  id: string;
+  rider_id: string;
+  period_start: string;
+  period_end: string;
+  amount: number;
+  earnings_count: number;
+  method: 'wallet';
+  wallet_transaction_id?: string | null;
+  statement: RiderPayoutLine[];
+  created_by?: string | null;
   created_at: string;
 }
 
@@ -208,3 +576,20 @@ export interface RiderDelivery {
   notes?: string;
   created_at: string;
 }
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  message: string;
+  data: Record<string, any> | null;
+  read: boolean;
+  created_at: string;
+}
+
+export interface DeliverySlot {
+  slot_start: string;
+  slot_end: string;
+  remaining: number;
+}